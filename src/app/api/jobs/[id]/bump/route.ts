@@ -0,0 +1,31 @@
+import { getDatabase } from '@/lib/db/adapter';
+import { startJobRunner } from '@/lib/server/jobRunner';
+import { successResponse, errorResponse } from '@/lib/server/api';
+
+export const runtime = 'nodejs';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// POST /api/jobs/[id]/bump - Move a queued job to the front of the queue
+export async function POST(_request: Request, { params }: RouteParams) {
+  try {
+    startJobRunner();
+    const { id } = await params;
+    const db = await getDatabase();
+
+    const job = await db.getJob(id);
+    if (!job) return errorResponse('Job not found', 404);
+    if (job.status !== 'queued') {
+      return errorResponse('Only queued jobs can be reordered', 400);
+    }
+
+    await db.bumpJobToFront(id);
+
+    return successResponse({ bumped: true });
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    return errorResponse(msg, 500);
+  }
+}
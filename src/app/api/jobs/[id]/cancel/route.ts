@@ -1,6 +1,8 @@
 import { getDatabase } from '@/lib/db/adapter';
 import { startJobRunner } from '@/lib/server/jobRunner';
 import { successResponse, errorResponse } from '@/lib/server/api';
+import { notifyJobWebhooks } from '@/lib/server/webhooks';
+import { publishJobEvent } from '@/lib/server/jobEvents';
 
 export const runtime = 'nodejs';
 
@@ -20,6 +22,8 @@ export async function POST(_request: Request, { params }: RouteParams) {
     await db.cancelJob(id);
     await db.setJobCooldownUntil(id, null);
     await db.setJobProgress(id, job.stage, job.current, job.total, 'Canceled');
+    publishJobEvent({ type: 'status', jobId: id, status: 'canceled' });
+    notifyJobWebhooks('job.canceled', id);
 
     return successResponse({ canceled: true });
   } catch (error) {
@@ -0,0 +1,48 @@
+import { randomUUID } from 'crypto';
+import { getDatabase } from '@/lib/db/adapter';
+import { startJobRunner } from '@/lib/server/jobRunner';
+import { successResponse, errorResponse } from '@/lib/server/api';
+import { notifyJobWebhooks } from '@/lib/server/webhooks';
+
+export const runtime = 'nodejs';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function POST(_request: Request, { params }: RouteParams) {
+  try {
+    startJobRunner();
+    const { id } = await params;
+    const db = await getDatabase();
+
+    const job = await db.getJob(id);
+    if (!job) return errorResponse('Job not found', 404);
+
+    const newId = randomUUID();
+    await db.createJob({
+      id: newId,
+      mode: job.mode,
+      generationId: job.generationId,
+      region: job.region,
+      voice: job.voice,
+      ttsProvider: job.ttsProvider,
+      pokemonIds: job.pokemonIds,
+      failurePolicy: job.failurePolicy,
+      maxErrors: job.maxErrors,
+      regenerate: job.regenerate,
+      summaryProvider: job.summaryProvider,
+      summaryModel: job.summaryModel,
+      summaryCandidates: job.summaryCandidates,
+      notBefore: null,
+      allowedWindow: job.allowedWindow,
+      priority: job.priority,
+    });
+    notifyJobWebhooks('job.created', newId);
+
+    return successResponse({ id: newId });
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    return errorResponse(msg, 500);
+  }
+}
@@ -0,0 +1,107 @@
+import { getDatabase } from '@/lib/db/adapter';
+import { startJobRunner } from '@/lib/server/jobRunner';
+import { errorResponse } from '@/lib/server/api';
+import { subscribeToJobEvents, TERMINAL_JOB_STATUSES, type JobEvent } from '@/lib/server/jobEvents';
+import { getJobMetrics } from '@/lib/server/jobMetrics';
+import { watchJob } from '@/lib/server/jobWatch';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const KEEP_ALIVE_INTERVAL_MS = 15000;
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Server-Sent Events stream for a single job.
+ *
+ * Sends a `snapshot` event with the full job and its metrics on connect, then
+ * forwards `progress`, `cooldown`, `stage`, `status` and `metrics` events as the
+ * runner emits them.
+ * Jobs run by another process (a standalone worker or another replica) can't
+ * publish here, so their row is watched (one watcher per job, shared by every
+ * connection) and re-sent as a `snapshot` on change.
+ * The stream closes after a terminal status.
+ */
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    startJobRunner();
+
+    const { id } = await params;
+    const db = await getDatabase();
+    const job = await db.getJob(id);
+
+    if (!job) {
+      return errorResponse('Job not found', 404);
+    }
+
+    const initialMetrics = await getJobMetrics(job);
+    const encoder = new TextEncoder();
+    let cleanup = () => {};
+
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        let closed = false;
+
+        const send = (event: string, data: unknown) => {
+          if (closed) return;
+          controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+        };
+
+        const keepAlive = setInterval(() => {
+          if (!closed) controller.enqueue(encoder.encode(': keep-alive\n\n'));
+        }, KEEP_ALIVE_INTERVAL_MS);
+
+        const unwatch = watchJob(id, job.updatedAt, snapshot => {
+          send('snapshot', snapshot);
+          if (TERMINAL_JOB_STATUSES.includes(snapshot.status)) {
+            cleanup();
+          }
+        });
+
+        const unsubscribe = subscribeToJobEvents(id, (event: JobEvent) => {
+          send(event.type, event);
+          if (event.type === 'status' && TERMINAL_JOB_STATUSES.includes(event.status)) {
+            cleanup();
+          }
+        });
+
+        cleanup = () => {
+          if (closed) return;
+          closed = true;
+          clearInterval(keepAlive);
+          unwatch();
+          unsubscribe();
+          try {
+            controller.close();
+          } catch {
+            // Already closed by the client
+          }
+        };
+
+        request.signal.addEventListener('abort', () => cleanup());
+
+        send('snapshot', { ...job, metrics: initialMetrics });
+        if (TERMINAL_JOB_STATUSES.includes(job.status)) {
+          cleanup();
+        }
+      },
+      cancel() {
+        cleanup();
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+      },
+    });
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    return errorResponse(msg, 500);
+  }
+}
@@ -0,0 +1,24 @@
+import { getDatabase } from '@/lib/db/adapter';
+import { successResponse, errorResponse } from '@/lib/server/api';
+
+export const runtime = 'nodejs';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(_request: Request, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const db = await getDatabase();
+
+    const job = await db.getJob(id);
+    if (!job) return errorResponse('Job not found', 404);
+
+    const items = await db.getJobItems(id);
+    return successResponse(items);
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    return errorResponse(msg, 500);
+  }
+}
@@ -1,6 +1,7 @@
 import { getDatabase } from '@/lib/db/adapter';
 import { startJobRunner } from '@/lib/server/jobRunner';
 import { successResponse, errorResponse } from '@/lib/server/api';
+import { publishJobEvent } from '@/lib/server/jobEvents';
 
 export const runtime = 'nodejs';
 
@@ -20,6 +21,7 @@ export async function POST(_request: Request, { params }: RouteParams) {
     await db.pauseJob(id);
     await db.setJobCooldownUntil(id, null);
     await db.setJobProgress(id, job.stage, job.current, job.total, 'Paused');
+    publishJobEvent({ type: 'status', jobId: id, status: 'paused' });
 
     return successResponse({ paused: true });
   } catch (error) {
@@ -1,6 +1,7 @@
 import { getDatabase } from '@/lib/db/adapter';
 import { startJobRunner } from '@/lib/server/jobRunner';
 import { successResponse, errorResponse } from '@/lib/server/api';
+import { publishJobEvent } from '@/lib/server/jobEvents';
 
 export const runtime = 'nodejs';
 
@@ -19,6 +20,7 @@ export async function POST(_request: Request, { params }: RouteParams) {
 
     await db.resumeJob(id);
     await db.setJobCooldownUntil(id, null);
+    publishJobEvent({ type: 'status', jobId: id, status: 'queued' });
 
     return successResponse({ resumed: true });
   } catch (error) {
@@ -0,0 +1,87 @@
+import { randomUUID } from 'crypto';
+import { getDatabase } from '@/lib/db/adapter';
+import type { JobItem, ProcessingJob } from '@/lib/db/adapter';
+import { startJobRunner } from '@/lib/server/jobRunner';
+import { successResponse, errorResponse } from '@/lib/server/api';
+import { notifyJobWebhooks } from '@/lib/server/webhooks';
+
+export const runtime = 'nodejs';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+const ACTIVE_STATUSES: ProcessingJob['status'][] = ['queued', 'running', 'paused'];
+
+/**
+ * Pokémon that have at least one stage that did not succeed. Skipped stages don't
+ * count: they were either already up to date or follow a failed stage that does.
+ * Jobs created before the job_items ledger existed fall back to the recorded failed IDs.
+ */
+function getUnfinishedPokemonIds(job: ProcessingJob, items: JobItem[]): number[] {
+  if (items.length === 0) return job.failedPokemonIds;
+
+  const unfinished = new Set<number>();
+  for (const item of items) {
+    if (item.status !== 'succeeded' && item.status !== 'skipped') unfinished.add(item.pokemonId);
+  }
+  return job.pokemonIds.filter(id => unfinished.has(id));
+}
+
+export async function POST(_request: Request, { params }: RouteParams) {
+  try {
+    startJobRunner();
+    const { id } = await params;
+    const db = await getDatabase();
+
+    const job = await db.getJob(id);
+    if (!job) return errorResponse('Job not found', 404);
+
+    if (ACTIVE_STATUSES.includes(job.status)) {
+      return errorResponse('Job is still active', 409);
+    }
+
+    const items = await db.getJobItems(id);
+    const pokemonIds = getUnfinishedPokemonIds(job, items);
+    if (pokemonIds.length === 0) {
+      return errorResponse('No unfinished Pokémon to retry', 400);
+    }
+
+    // A FULL job that only failed during audio can skip straight to the audio stage
+    let mode = job.mode;
+    if (mode === 'FULL' && items.length > 0) {
+      const summaryDone = new Set(
+        items.filter(i => i.stage === 'summary' && i.status === 'succeeded').map(i => i.pokemonId)
+      );
+      if (pokemonIds.every(pokemonId => summaryDone.has(pokemonId))) {
+        mode = 'AUDIO_ONLY';
+      }
+    }
+
+    const newId = randomUUID();
+    await db.createJob({
+      id: newId,
+      mode,
+      generationId: job.generationId,
+      region: job.region,
+      voice: job.voice,
+      ttsProvider: job.ttsProvider,
+      pokemonIds,
+      failurePolicy: job.failurePolicy,
+      maxErrors: job.maxErrors,
+      regenerate: job.regenerate,
+      summaryProvider: job.summaryProvider,
+      summaryModel: job.summaryModel,
+      summaryCandidates: job.summaryCandidates,
+      notBefore: null,
+      allowedWindow: job.allowedWindow,
+      priority: job.priority,
+    });
+    notifyJobWebhooks('job.created', newId);
+
+    return successResponse({ id: newId });
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    return errorResponse(msg, 500);
+  }
+}
@@ -1,6 +1,7 @@
 import { getDatabase } from '@/lib/db/adapter';
 import { startJobRunner } from '@/lib/server/jobRunner';
 import { successResponse, errorResponse } from '@/lib/server/api';
+import { getJobMetrics } from '@/lib/server/jobMetrics';
 
 export const runtime = 'nodejs';
 
@@ -20,7 +21,7 @@ export async function GET(_request: Request, { params }: RouteParams) {
       return errorResponse('Job not found', 404);
     }
 
-    return successResponse(job);
+    return successResponse({ ...job, metrics: await getJobMetrics(job) });
   } catch (error) {
     const msg = error instanceof Error ? error.message : String(error);
     return errorResponse(msg, 500);
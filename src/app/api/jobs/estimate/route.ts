@@ -0,0 +1,78 @@
+import type { ProcessingJob, RegeneratePolicy, TtsProviderId } from '@/lib/db/adapter';
+import { successResponse, errorResponse } from '@/lib/server/api';
+import { SERVER_MAX_SUMMARY_CANDIDATES } from '@/lib/server/config';
+import { estimateJob } from '@/lib/server/jobEstimate';
+import { getRuntimeSettings } from '@/lib/server/settings';
+import { isValidSummaryCandidateCount } from '@/lib/server/summaryCandidates';
+import { isTtsProviderId, TTS_PROVIDER_IDS } from '@/lib/server/ttsProviders';
+
+export const runtime = 'nodejs';
+
+// POST /api/jobs/estimate - Expected API calls, duration, tokens and quota fit for a job
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const {
+      mode,
+      voice,
+      ttsProvider,
+      pokemonIds,
+      regenerate = 'all',
+      summaryCandidates = 1,
+    } = body as {
+      mode: ProcessingJob['mode'];
+      voice: string;
+      ttsProvider?: TtsProviderId;
+      pokemonIds: number[];
+      regenerate?: RegeneratePolicy;
+      summaryCandidates?: number;
+    };
+
+    if (
+      (mode !== 'FULL' && mode !== 'SUMMARY_ONLY' && mode !== 'AUDIO_ONLY') ||
+      typeof voice !== 'string' ||
+      !Array.isArray(pokemonIds) ||
+      pokemonIds.length === 0
+    ) {
+      return errorResponse('Invalid request body', 400);
+    }
+
+    if (regenerate !== 'all' && regenerate !== 'missing' && regenerate !== 'outdated') {
+      return errorResponse('Invalid regenerate policy', 400);
+    }
+
+    if (ttsProvider !== undefined && !isTtsProviderId(ttsProvider)) {
+      return errorResponse(`ttsProvider must be one of ${TTS_PROVIDER_IDS.join(', ')}`, 400);
+    }
+
+    if (!isValidSummaryCandidateCount(summaryCandidates)) {
+      return errorResponse(
+        `summaryCandidates must be an integer from 1 to ${SERVER_MAX_SUMMARY_CANDIDATES}`,
+        400
+      );
+    }
+
+    const normalized = Array.from(new Set(pokemonIds))
+      .map(n => Number(n))
+      .filter(n => Number.isFinite(n) && n > 0)
+      .sort((a, b) => a - b);
+
+    if (normalized.length === 0) {
+      return errorResponse('No valid pokemonIds provided', 400);
+    }
+
+    const estimate = await estimateJob({
+      mode,
+      voice,
+      ttsProvider: ttsProvider ?? (await getRuntimeSettings()).ttsProvider,
+      pokemonIds: normalized,
+      regenerate,
+      summaryCandidates,
+    });
+
+    return successResponse(estimate);
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    return errorResponse(msg, 500);
+  }
+}
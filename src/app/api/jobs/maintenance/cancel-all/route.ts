@@ -1,5 +1,7 @@
 import { getDatabase } from '@/lib/db/adapter';
 import { successResponse, errorResponse } from '@/lib/server/api';
+import { notifyJobWebhooks } from '@/lib/server/webhooks';
+import { publishJobEvent } from '@/lib/server/jobEvents';
 
 export const runtime = 'nodejs';
 
@@ -12,6 +14,8 @@ export async function POST() {
       await db.cancelJob(job.id);
       await db.setJobCooldownUntil(job.id, null);
       await db.setJobProgress(job.id, job.stage, job.current, job.total, 'Canceled');
+      publishJobEvent({ type: 'status', jobId: job.id, status: 'canceled' });
+      notifyJobWebhooks('job.canceled', job.id);
     }
 
     return successResponse({ canceledCount: running.length });
@@ -1,5 +1,6 @@
 import { getDatabase } from '@/lib/db/adapter';
 import { successResponse, errorResponse } from '@/lib/server/api';
+import { publishJobEvent } from '@/lib/server/jobEvents';
 
 export const runtime = 'nodejs';
 
@@ -12,6 +13,7 @@ export async function POST() {
       await db.pauseJob(job.id);
       await db.setJobCooldownUntil(job.id, null);
       await db.setJobProgress(job.id, job.stage, job.current, job.total, 'Paused');
+      publishJobEvent({ type: 'status', jobId: job.id, status: 'paused' });
     }
 
     return successResponse({ pausedCount: running.length });
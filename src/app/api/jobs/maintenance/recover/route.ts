@@ -3,16 +3,10 @@ import { successResponse, errorResponse } from '@/lib/server/api';
 
 export const runtime = 'nodejs';
 
-export async function POST(request: Request) {
+export async function POST() {
   try {
-    const body = (await request.json().catch(() => ({}))) as { stalledThresholdMs?: number };
-    const stalledThresholdMs =
-      typeof body.stalledThresholdMs === 'number' && Number.isFinite(body.stalledThresholdMs)
-        ? body.stalledThresholdMs
-        : 5 * 60 * 1000;
-
     const db = await getDatabase();
-    const recoveredCount = await db.recoverStalledJobs(stalledThresholdMs);
+    const recoveredCount = await db.recoverStalledJobs();
 
     return successResponse({ recoveredCount });
   } catch (error) {
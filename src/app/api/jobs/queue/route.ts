@@ -0,0 +1,38 @@
+import { getDatabase } from '@/lib/db/adapter';
+import { successResponse, errorResponse } from '@/lib/server/api';
+
+export const runtime = 'nodejs';
+
+// GET /api/jobs/queue - Queued jobs in the order the runner will claim them
+export async function GET() {
+  try {
+    const db = await getDatabase();
+    const jobs = await db.getQueuedJobs();
+
+    return successResponse({ jobs });
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    return errorResponse(msg, 500);
+  }
+}
+
+// PUT /api/jobs/queue - Reorder queued jobs; unlisted queued jobs keep their order after these
+export async function PUT(request: Request) {
+  try {
+    const body = (await request.json().catch(() => ({}))) as { jobIds?: unknown };
+    const { jobIds } = body;
+
+    if (!Array.isArray(jobIds) || jobIds.some(id => typeof id !== 'string')) {
+      return errorResponse('jobIds must be an array of job IDs', 400);
+    }
+
+    const db = await getDatabase();
+    await db.reorderQueuedJobs(jobIds as string[]);
+    const jobs = await db.getQueuedJobs();
+
+    return successResponse({ jobs });
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    return errorResponse(msg, 500);
+  }
+}
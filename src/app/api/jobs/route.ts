@@ -1,21 +1,140 @@
 import { randomUUID } from 'crypto';
 import { getDatabase } from '@/lib/db/adapter';
+import type {
+  AllowedWindow,
+  FailurePolicy,
+  JobStatus,
+  ProcessingJob,
+  RegeneratePolicy,
+  SummaryProviderId,
+  TtsProviderId,
+} from '@/lib/db/adapter';
+import { SERVER_MAX_SUMMARY_CANDIDATES } from '@/lib/server/config';
 import { startJobRunner } from '@/lib/server/jobRunner';
 import { successResponse, errorResponse } from '@/lib/server/api';
+import { notifyJobWebhooks } from '@/lib/server/webhooks';
+import { getRuntimeSettings } from '@/lib/server/settings';
+import { isValidSummaryCandidateCount } from '@/lib/server/summaryCandidates';
+import { isSummaryProviderId, SUMMARY_PROVIDER_IDS } from '@/lib/server/summaryProviders';
+import { isTtsProviderId, TTS_PROVIDER_IDS, validateVoice } from '@/lib/server/ttsProviders';
+import { isValidAllowedWindow } from '@/utils/scheduleUtils';
 
 export const runtime = 'nodejs';
 
+const JOB_STATUSES: JobStatus[] = [
+  'queued',
+  'running',
+  'paused',
+  'completed',
+  'completed_with_errors',
+  'failed',
+  'canceled',
+];
+const JOB_MODES: ProcessingJob['mode'][] = ['FULL', 'SUMMARY_ONLY', 'AUDIO_ONLY'];
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+// GET /api/jobs - Paginated job history with optional filters
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+
+    const statusParam = searchParams.get('status');
+    const statuses = statusParam
+      ? (statusParam.split(',').map(s => s.trim()) as JobStatus[])
+      : undefined;
+    if (statuses && statuses.some(s => !JOB_STATUSES.includes(s))) {
+      return errorResponse('Invalid status filter', 400);
+    }
+
+    const mode = (searchParams.get('mode') || undefined) as ProcessingJob['mode'] | undefined;
+    if (mode && !JOB_MODES.includes(mode)) {
+      return errorResponse('Invalid mode filter', 400);
+    }
+
+    const generationIdParam = searchParams.get('generationId');
+    let generationId: number | undefined;
+    if (generationIdParam) {
+      generationId = parseInt(generationIdParam, 10);
+      if (!Number.isFinite(generationId) || generationId <= 0) {
+        return errorResponse('Invalid generationId', 400);
+      }
+    }
+
+    const parseDate = (value: string | null): string | undefined | null => {
+      if (!value) return undefined;
+      const time = Date.parse(value);
+      return Number.isFinite(time) ? new Date(time).toISOString() : null;
+    };
+    const createdFrom = parseDate(searchParams.get('from'));
+    const createdTo = parseDate(searchParams.get('to'));
+    if (createdFrom === null || createdTo === null) {
+      return errorResponse('Invalid date range', 400);
+    }
+
+    const page = Math.max(1, parseInt(searchParams.get('page') || '1', 10) || 1);
+    const pageSize = Math.min(
+      MAX_PAGE_SIZE,
+      Math.max(1, parseInt(searchParams.get('pageSize') || '', 10) || DEFAULT_PAGE_SIZE)
+    );
+
+    const db = await getDatabase();
+    const { jobs, total } = await db.listJobs({
+      statuses,
+      mode,
+      generationId,
+      voice: searchParams.get('voice') || undefined,
+      createdFrom,
+      createdTo,
+      limit: pageSize,
+      offset: (page - 1) * pageSize,
+    });
+
+    return successResponse({ jobs, total, page, pageSize });
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    return errorResponse(msg, 500);
+  }
+}
+
+// POST /api/jobs - Create a new processing job
 export async function POST(request: Request) {
   try {
     startJobRunner();
 
     const body = await request.json();
-    const { mode, generationId, region, voice, pokemonIds } = body as {
+    const {
+      mode,
+      generationId,
+      region,
+      voice,
+      ttsProvider,
+      pokemonIds,
+      failurePolicy = 'fail-fast',
+      maxErrors,
+      regenerate = 'all',
+      summaryProvider,
+      summaryModel,
+      summaryCandidates = 1,
+      notBefore,
+      allowedWindow,
+      priority = 0,
+    } = body as {
       mode: 'FULL' | 'SUMMARY_ONLY' | 'AUDIO_ONLY';
       generationId: number;
       region: string;
       voice: string;
+      ttsProvider?: TtsProviderId;
       pokemonIds: number[];
+      failurePolicy?: FailurePolicy;
+      maxErrors?: number;
+      regenerate?: RegeneratePolicy;
+      summaryProvider?: SummaryProviderId;
+      summaryModel?: string;
+      summaryCandidates?: number;
+      notBefore?: string;
+      allowedWindow?: AllowedWindow;
+      priority?: number;
     };
 
     if (
@@ -29,6 +148,65 @@ export async function POST(request: Request) {
       return errorResponse('Invalid request body', 400);
     }
 
+    if (
+      failurePolicy !== 'fail-fast' &&
+      failurePolicy !== 'skip-and-continue' &&
+      failurePolicy !== 'fail-after-N-errors'
+    ) {
+      return errorResponse('Invalid failurePolicy', 400);
+    }
+
+    if (
+      failurePolicy === 'fail-after-N-errors' &&
+      (typeof maxErrors !== 'number' || !Number.isInteger(maxErrors) || maxErrors <= 0)
+    ) {
+      return errorResponse('maxErrors must be a positive integer for fail-after-N-errors', 400);
+    }
+
+    if (regenerate !== 'all' && regenerate !== 'missing' && regenerate !== 'outdated') {
+      return errorResponse('Invalid regenerate policy', 400);
+    }
+
+    if (ttsProvider !== undefined && !isTtsProviderId(ttsProvider)) {
+      return errorResponse(`ttsProvider must be one of ${TTS_PROVIDER_IDS.join(', ')}`, 400);
+    }
+
+    if (summaryProvider !== undefined && !isSummaryProviderId(summaryProvider)) {
+      return errorResponse(
+        `summaryProvider must be one of ${SUMMARY_PROVIDER_IDS.join(', ')}`,
+        400
+      );
+    }
+
+    if (
+      summaryModel !== undefined &&
+      (typeof summaryModel !== 'string' || summaryModel.trim().length === 0)
+    ) {
+      return errorResponse('summaryModel must be a non-empty string', 400);
+    }
+
+    if (!isValidSummaryCandidateCount(summaryCandidates)) {
+      return errorResponse(
+        `summaryCandidates must be an integer from 1 to ${SERVER_MAX_SUMMARY_CANDIDATES}`,
+        400
+      );
+    }
+
+    if (notBefore !== undefined && (typeof notBefore !== 'string' || !Date.parse(notBefore))) {
+      return errorResponse('notBefore must be an ISO timestamp', 400);
+    }
+
+    if (allowedWindow !== undefined && !isValidAllowedWindow(allowedWindow)) {
+      return errorResponse(
+        'allowedWindow must have distinct start and end times (HH:MM) and a valid IANA timeZone if given',
+        400
+      );
+    }
+
+    if (typeof priority !== 'number' || !Number.isInteger(priority)) {
+      return errorResponse('priority must be an integer', 400);
+    }
+
     const normalized = Array.from(new Set(pokemonIds))
       .map(n => Number(n))
       .filter(n => Number.isFinite(n) && n > 0)
@@ -38,6 +216,13 @@ export async function POST(request: Request) {
       return errorResponse('No valid pokemonIds provided', 400);
     }
 
+    // Fixed at creation: the voice only exists in this provider's catalog
+    const resolvedTtsProvider = ttsProvider ?? (await getRuntimeSettings()).ttsProvider;
+    if (mode !== 'SUMMARY_ONLY') {
+      const voiceError = await validateVoice(resolvedTtsProvider, voice);
+      if (voiceError) return errorResponse(voiceError, 400);
+    }
+
     const id = randomUUID();
     const db = await getDatabase();
 
@@ -47,8 +232,25 @@ export async function POST(request: Request) {
       generationId,
       region,
       voice,
+      ttsProvider: resolvedTtsProvider,
       pokemonIds: normalized,
+      failurePolicy,
+      maxErrors: failurePolicy === 'fail-after-N-errors' ? (maxErrors as number) : null,
+      regenerate,
+      summaryProvider: summaryProvider ?? null,
+      summaryModel: summaryModel?.trim() ?? null,
+      summaryCandidates,
+      notBefore: notBefore ? new Date(notBefore).toISOString() : null,
+      allowedWindow: allowedWindow
+        ? {
+            start: allowedWindow.start,
+            end: allowedWindow.end,
+            ...(allowedWindow.timeZone ? { timeZone: allowedWindow.timeZone } : {}),
+          }
+        : null,
+      priority,
     });
+    notifyJobWebhooks('job.created', id);
 
     return successResponse({ id });
   } catch (error) {
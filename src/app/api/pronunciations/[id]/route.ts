@@ -0,0 +1,57 @@
+import { getDatabase } from '@/lib/db/adapter';
+import { successResponse, errorResponse, parseId } from '@/lib/server/api';
+import { validatePronunciationFields } from '@/lib/server/pronunciations';
+
+export const runtime = 'nodejs';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// PUT /api/pronunciations/[id] - Update kind or phonetic spelling
+export async function PUT(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const pronunciationId = parseId(id);
+    if (!pronunciationId) return errorResponse('Invalid ID', 400);
+
+    const body = (await request.json().catch(() => null)) as Record<string, unknown> | null;
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return errorResponse('Invalid request body', 400);
+    }
+    if (body.term !== undefined) {
+      return errorResponse('term cannot be changed; add a new entry instead', 400);
+    }
+
+    const { fields, error } = validatePronunciationFields(body);
+    if (error) return errorResponse(error, 400);
+
+    const db = await getDatabase();
+    const entry = await db.getPronunciation(pronunciationId);
+    if (!entry) return errorResponse('Pronunciation not found', 404);
+
+    await db.savePronunciation({ ...entry, ...fields, source: 'manual' });
+
+    return successResponse(await db.getPronunciation(pronunciationId));
+  } catch (error) {
+    console.error('Error updating pronunciation:', error);
+    return errorResponse('Failed to update pronunciation', 500);
+  }
+}
+
+// DELETE /api/pronunciations/[id] - Remove a name from the lexicon
+export async function DELETE(_request: Request, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const pronunciationId = parseId(id);
+    if (!pronunciationId) return errorResponse('Invalid ID', 400);
+
+    const db = await getDatabase();
+    await db.deletePronunciation(pronunciationId);
+
+    return successResponse({ id: pronunciationId });
+  } catch (error) {
+    console.error('Error deleting pronunciation:', error);
+    return errorResponse('Failed to delete pronunciation', 500);
+  }
+}
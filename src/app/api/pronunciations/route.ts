@@ -0,0 +1,45 @@
+import { getDatabase } from '@/lib/db/adapter';
+import { successResponse, errorResponse } from '@/lib/server/api';
+import { validatePronunciationFields } from '@/lib/server/pronunciations';
+
+export const runtime = 'nodejs';
+
+// GET /api/pronunciations - List the pronunciation lexicon
+export async function GET() {
+  try {
+    const db = await getDatabase();
+    return successResponse(await db.getAllPronunciations());
+  } catch (error) {
+    console.error('Error fetching pronunciations:', error);
+    return errorResponse('Failed to fetch pronunciations', 500);
+  }
+}
+
+// POST /api/pronunciations - Add a name, or replace the entry with the same term
+export async function POST(request: Request) {
+  try {
+    const body = (await request.json().catch(() => null)) as Record<string, unknown> | null;
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return errorResponse('Invalid request body', 400);
+    }
+
+    const { fields, error } = validatePronunciationFields(body);
+    if (error) return errorResponse(error, 400);
+    if (!fields.term || !fields.phonetic) {
+      return errorResponse('term and phonetic are required', 400);
+    }
+
+    const db = await getDatabase();
+    const id = await db.savePronunciation({
+      term: fields.term,
+      phonetic: fields.phonetic,
+      kind: fields.kind ?? 'other',
+      source: 'manual',
+    });
+
+    return successResponse(await db.getPronunciation(id));
+  } catch (error) {
+    console.error('Error saving pronunciation:', error);
+    return errorResponse('Failed to save pronunciation', 500);
+  }
+}
@@ -0,0 +1,14 @@
+import { successResponse, errorResponse } from '@/lib/server/api';
+import { seedPronunciationsFromSummaries } from '@/lib/server/pronunciations';
+
+export const runtime = 'nodejs';
+
+// POST /api/pronunciations/seed - Add the phonetic hints found in stored summaries
+export async function POST() {
+  try {
+    return successResponse(await seedPronunciationsFromSummaries());
+  } catch (error) {
+    console.error('Error seeding pronunciations:', error);
+    return errorResponse('Failed to seed pronunciations', 500);
+  }
+}
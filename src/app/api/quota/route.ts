@@ -0,0 +1,14 @@
+import { getQuotaStatus } from '@/lib/server/quota';
+import { successResponse, errorResponse } from '@/lib/server/api';
+
+export const runtime = 'nodejs';
+
+export async function GET() {
+  try {
+    const status = await getQuotaStatus();
+    return successResponse(status);
+  } catch (error) {
+    console.error('Error fetching quota status:', error);
+    return errorResponse('Failed to fetch quota status', 500);
+  }
+}
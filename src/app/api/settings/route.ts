@@ -0,0 +1,66 @@
+import { getDatabase } from '@/lib/db/adapter';
+import { getSettingsState, isSettingKey, validateSettings } from '@/lib/server/settings';
+import { successResponse, errorResponse } from '@/lib/server/api';
+
+export const runtime = 'nodejs';
+
+// GET /api/settings - Effective settings, defaults, overridden keys and the schema
+export async function GET() {
+  try {
+    return successResponse(await getSettingsState());
+  } catch (error) {
+    console.error('Error fetching settings:', error);
+    return errorResponse('Failed to fetch settings', 500);
+  }
+}
+
+// POST /api/settings - Save overrides for the given keys
+export async function POST(request: Request) {
+  try {
+    const body = (await request.json().catch(() => null)) as Record<string, unknown> | null;
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return errorResponse('Request body must be an object of settings', 400);
+    }
+
+    const { values, errors } = validateSettings(body);
+    if (errors.length > 0) {
+      return errorResponse(errors.join('; '), 400);
+    }
+
+    const db = await getDatabase();
+    for (const [key, value] of Object.entries(values)) {
+      await db.saveSetting(key, value);
+    }
+
+    return successResponse(await getSettingsState());
+  } catch (error) {
+    console.error('Error saving settings:', error);
+    return errorResponse('Failed to save settings', 500);
+  }
+}
+
+// DELETE /api/settings?key=... - Reset one setting, or all when no key is given
+export async function DELETE(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const key = searchParams.get('key');
+
+    if (key && !isSettingKey(key)) {
+      return errorResponse(`Unknown setting: ${key}`, 400);
+    }
+
+    const db = await getDatabase();
+    if (key) {
+      await db.deleteSetting(key);
+    } else {
+      for (const setting of await db.getAllSettings()) {
+        await db.deleteSetting(setting.key);
+      }
+    }
+
+    return successResponse(await getSettingsState());
+  } catch (error) {
+    console.error('Error resetting settings:', error);
+    return errorResponse('Failed to reset settings', 500);
+  }
+}
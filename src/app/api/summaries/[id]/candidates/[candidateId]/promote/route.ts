@@ -0,0 +1,30 @@
+import { successResponse, errorResponse, parseId } from '@/lib/server/api';
+import { promoteSummaryCandidate } from '@/lib/server/summaryCandidates';
+
+export const runtime = 'nodejs';
+
+interface RouteParams {
+  params: Promise<{ id: string; candidateId: string }>;
+}
+
+// POST /api/summaries/[id]/candidates/[candidateId]/promote - Make a candidate the active summary
+export async function POST(_request: Request, { params }: RouteParams) {
+  try {
+    const { id, candidateId } = await params;
+    const pokemonId = parseId(id);
+
+    if (!pokemonId) {
+      return errorResponse('Invalid ID', 400);
+    }
+
+    const summary = await promoteSummaryCandidate(pokemonId, candidateId);
+    if (!summary) {
+      return errorResponse('Candidate not found', 404);
+    }
+
+    return successResponse(summary);
+  } catch (error) {
+    console.error('Error promoting summary candidate:', error);
+    return errorResponse('Failed to promote summary candidate', 500);
+  }
+}
@@ -0,0 +1,28 @@
+import { getDatabase } from '@/lib/db/adapter';
+import { successResponse, errorResponse, parseId } from '@/lib/server/api';
+
+export const runtime = 'nodejs';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// GET /api/summaries/[id]/candidates - Ranked drafts from the latest multi-candidate job
+export async function GET(_request: Request, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const pokemonId = parseId(id);
+
+    if (!pokemonId) {
+      return errorResponse('Invalid ID', 400);
+    }
+
+    const db = await getDatabase();
+    const candidates = await db.getSummaryCandidates(pokemonId);
+
+    return successResponse(candidates);
+  } catch (error) {
+    console.error('Error fetching summary candidates:', error);
+    return errorResponse('Failed to fetch summary candidates', 500);
+  }
+}
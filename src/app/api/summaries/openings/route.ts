@@ -0,0 +1,14 @@
+import { getOpeningReport } from '@/lib/server/openingDiversity';
+import { successResponse, errorResponse } from '@/lib/server/api';
+
+export const runtime = 'nodejs';
+
+export async function GET() {
+  try {
+    const report = await getOpeningReport();
+    return successResponse(report);
+  } catch (error) {
+    console.error('Error building opening report:', error);
+    return errorResponse('Failed to build opening report', 500);
+  }
+}
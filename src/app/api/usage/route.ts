@@ -0,0 +1,23 @@
+import { getUsageReport } from '@/lib/server/apiUsage';
+import { successResponse, errorResponse } from '@/lib/server/api';
+
+export const runtime = 'nodejs';
+
+const DEFAULT_DAYS = 30;
+const MAX_DAYS = 366;
+
+// GET /api/usage?days=30 - API calls, tokens and estimated cost by day, model and job
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const days = Math.min(
+      MAX_DAYS,
+      Math.max(1, parseInt(searchParams.get('days') || '', 10) || DEFAULT_DAYS)
+    );
+
+    return successResponse(await getUsageReport(days));
+  } catch (error) {
+    console.error('Error fetching API usage report:', error);
+    return errorResponse('Failed to fetch API usage report', 500);
+  }
+}
@@ -0,0 +1,15 @@
+import { getVoiceCatalog } from '@/lib/server/ttsProviders';
+import { successResponse, errorResponse } from '@/lib/server/api';
+
+export const runtime = 'nodejs';
+
+// GET /api/voices - Voice catalog for every TTS provider
+export async function GET() {
+  try {
+    const catalog = await getVoiceCatalog();
+    return successResponse(catalog);
+  } catch (error) {
+    console.error('Error fetching voice catalog:', error);
+    return errorResponse('Failed to fetch voice catalog', 500);
+  }
+}
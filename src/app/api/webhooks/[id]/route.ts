@@ -0,0 +1,49 @@
+import { getDatabase } from '@/lib/db/adapter';
+import { successResponse, errorResponse } from '@/lib/server/api';
+import { maskWebhookSecret, validateWebhookFields } from '@/lib/server/webhooks';
+
+export const runtime = 'nodejs';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// PUT /api/webhooks/[id] - Update url, secret, events or enabled
+export async function PUT(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const body = (await request.json().catch(() => null)) as Record<string, unknown> | null;
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return errorResponse('Invalid request body', 400);
+    }
+
+    const { fields, error } = validateWebhookFields(body);
+    if (error) return errorResponse(error, 400);
+
+    const db = await getDatabase();
+    const webhook = await db.getWebhook(id);
+    if (!webhook) return errorResponse('Webhook not found', 404);
+
+    await db.saveWebhook({ ...webhook, ...fields });
+
+    const updated = await db.getWebhook(id);
+    return successResponse(updated && maskWebhookSecret(updated));
+  } catch (error) {
+    console.error('Error updating webhook:', error);
+    return errorResponse('Failed to update webhook', 500);
+  }
+}
+
+// DELETE /api/webhooks/[id] - Remove a webhook and its delivery log
+export async function DELETE(_request: Request, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const db = await getDatabase();
+    await db.deleteWebhook(id);
+
+    return successResponse({ id });
+  } catch (error) {
+    console.error('Error deleting webhook:', error);
+    return errorResponse('Failed to delete webhook', 500);
+  }
+}
@@ -0,0 +1,24 @@
+import { getDatabase } from '@/lib/db/adapter';
+import { successResponse, errorResponse } from '@/lib/server/api';
+
+export const runtime = 'nodejs';
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+// GET /api/webhooks/deliveries?limit=50 - Most recent deliveries, newest first
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(
+      MAX_LIMIT,
+      Math.max(1, parseInt(searchParams.get('limit') || '', 10) || DEFAULT_LIMIT)
+    );
+
+    const db = await getDatabase();
+    return successResponse(await db.getWebhookDeliveries(limit));
+  } catch (error) {
+    console.error('Error fetching webhook deliveries:', error);
+    return errorResponse('Failed to fetch webhook deliveries', 500);
+  }
+}
@@ -0,0 +1,52 @@
+import { randomUUID } from 'crypto';
+import { getDatabase } from '@/lib/db/adapter';
+import { successResponse, errorResponse } from '@/lib/server/api';
+import {
+  generateWebhookSecret,
+  maskWebhookSecret,
+  validateWebhookFields,
+} from '@/lib/server/webhooks';
+
+export const runtime = 'nodejs';
+
+// GET /api/webhooks - List registered webhooks, secrets masked
+export async function GET() {
+  try {
+    const db = await getDatabase();
+    return successResponse((await db.getAllWebhooks()).map(maskWebhookSecret));
+  } catch (error) {
+    console.error('Error fetching webhooks:', error);
+    return errorResponse('Failed to fetch webhooks', 500);
+  }
+}
+
+// POST /api/webhooks - Register a webhook; the only response with its secret
+export async function POST(request: Request) {
+  try {
+    const body = (await request.json().catch(() => null)) as Record<string, unknown> | null;
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return errorResponse('Invalid request body', 400);
+    }
+
+    const { fields, error } = validateWebhookFields(body);
+    if (error) return errorResponse(error, 400);
+    if (!fields.url || !fields.events) {
+      return errorResponse('url and events are required', 400);
+    }
+
+    const id = randomUUID();
+    const db = await getDatabase();
+    await db.saveWebhook({
+      id,
+      url: fields.url,
+      secret: fields.secret ?? generateWebhookSecret(),
+      events: fields.events,
+      enabled: fields.enabled ?? true,
+    });
+
+    return successResponse(await db.getWebhook(id));
+  } catch (error) {
+    console.error('Error creating webhook:', error);
+    return errorResponse('Failed to create webhook', 500);
+  }
+}
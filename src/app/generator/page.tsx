@@ -2,7 +2,20 @@
 
 import { useState } from 'react';
 
-import { createJob, pauseJob, resumeJob, cancelJob } from '@/services/jobsService';
+import {
+  createJob,
+  estimateJob,
+  pauseJob,
+  resumeJob,
+  cancelJob,
+  retryFailedJob,
+  FailurePolicy,
+  AllowedWindow,
+  RegeneratePolicy,
+  JobEstimate,
+  SummaryProviderId,
+  TtsProviderId,
+} from '@/services/jobsService';
 
 import {
   Header,
@@ -18,8 +31,11 @@ import { ProcessedPokemon, WorkflowMode } from '@/types';
 import { useJobPolling } from '@/hooks/useJobPolling';
 import { usePokemonData } from '@/hooks/usePokemonData';
 import { useSavedData } from '@/hooks/useSavedData';
+import { useVoiceCatalog } from '@/hooks/useVoiceCatalog';
+import { formatAllowedWindow, isScheduleOpen } from '@/utils/scheduleUtils';
 
 type GeneratorView = 'select' | 'processing' | 'results';
+type CreateJobParams = Parameters<typeof createJob>[0];
 
 function GeneratorPageInner() {
   const { showToast } = useToast();
@@ -29,8 +45,22 @@ function GeneratorPageInner() {
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
   const [selectedVoice, setSelectedVoice] = useState('Kore');
+  const [ttsProvider, setTtsProvider] = useState<TtsProviderId | null>(null);
+  const [failurePolicy, setFailurePolicy] = useState<FailurePolicy>('fail-fast');
+  const [maxErrors, setMaxErrors] = useState(5);
+  const [regenerate, setRegenerate] = useState<RegeneratePolicy>('all');
+  const [summaryProvider, setSummaryProvider] = useState<SummaryProviderId | null>(null);
+  const [summaryModel, setSummaryModel] = useState('');
+  const [summaryCandidates, setSummaryCandidates] = useState(1);
+  const [startAt, setStartAt] = useState('');
+  const [allowedWindow, setAllowedWindow] = useState<AllowedWindow | null>(null);
   const [currentSummary, setCurrentSummary] = useState<string | null>(null);
   const [results, setResults] = useState<ProcessedPokemon[]>([]);
+  const [retryableJobId, setRetryableJobId] = useState<string | null>(null);
+  // Job awaiting confirmation, with the estimate it was shown with
+  const [pendingJob, setPendingJob] = useState<CreateJobParams | null>(null);
+  const [estimate, setEstimate] = useState<JobEstimate | null>(null);
+  const [isEstimating, setIsEstimating] = useState(false);
 
   const {
     generations,
@@ -52,6 +82,15 @@ function GeneratorPageInner() {
 
   const { savedSummaries, savedAudioLogs, refreshData: refreshSavedData } = useSavedData();
 
+  // Until one is picked, use the settings' provider; keep the voice within its catalog
+  const voiceCatalog = useVoiceCatalog();
+  const activeTtsProvider = ttsProvider ?? voiceCatalog?.defaultProvider ?? 'gemini';
+  const providerVoices =
+    voiceCatalog?.providers.find(p => p.id === activeTtsProvider)?.voices ?? [];
+  const activeVoice = providerVoices.some(v => v.id === selectedVoice)
+    ? selectedVoice
+    : (providerVoices[0]?.id ?? selectedVoice);
+
   const {
     activeJobId,
     setActiveJobId,
@@ -59,11 +98,13 @@ function GeneratorPageInner() {
     isPaused,
     progress,
     cooldown,
+    metrics,
     setIsProcessing,
     setCooldown,
   } = useJobPolling({
-    onJobComplete: jobResults => {
+    onJobComplete: (jobResults, _mode, job) => {
       refreshSavedData();
+      setRetryableJobId(job.status === 'completed_with_errors' ? job.id : null);
 
       // All modes go to results view if there are any results
       if (jobResults.length > 0) {
@@ -74,6 +115,11 @@ function GeneratorPageInner() {
         setCurrentView('select');
       }
     },
+    onJobFailed: (_error, jobId) => {
+      refreshSavedData();
+      setRetryableJobId(jobId);
+      setCurrentView('select');
+    },
     onJobCanceled: () => {
       setCurrentView('select');
     },
@@ -119,10 +165,6 @@ function GeneratorPageInner() {
       }
     }
 
-    setIsProcessing(true);
-    setCurrentSummary(null);
-    setCurrentView('processing');
-
     const mode =
       workflowMode === WorkflowMode.FULL
         ? 'FULL'
@@ -130,14 +172,82 @@ function GeneratorPageInner() {
           ? 'SUMMARY_ONLY'
           : 'AUDIO_ONLY';
 
+    const params: CreateJobParams = {
+      mode,
+      generationId: selectedGenId,
+      region: currentRegion,
+      voice: activeVoice,
+      ttsProvider: activeTtsProvider,
+      pokemonIds: targetIds,
+      failurePolicy,
+      maxErrors: failurePolicy === 'fail-after-N-errors' ? maxErrors : undefined,
+      regenerate,
+      summaryProvider: summaryProvider ?? undefined,
+      summaryModel: summaryModel.trim() || undefined,
+      summaryCandidates,
+      notBefore: startAt ? new Date(startAt).toISOString() : undefined,
+      allowedWindow: allowedWindow ?? undefined,
+    };
+
+    setIsEstimating(true);
     try {
-      const jobId = await createJob({
-        mode,
-        generationId: selectedGenId,
-        region: currentRegion,
-        voice: selectedVoice,
-        pokemonIds: targetIds,
+      setEstimate(await estimateJob(params));
+      setPendingJob(params);
+    } catch (e) {
+      const msg = e instanceof Error ? e.message : String(e);
+      showToast({
+        variant: 'error',
+        title: 'Could not estimate job',
+        description: msg,
+        durationMs: 6500,
       });
+    } finally {
+      setIsEstimating(false);
+    }
+  };
+
+  const handleCancelStart = () => {
+    setPendingJob(null);
+    setEstimate(null);
+  };
+
+  const handleConfirmStart = async () => {
+    if (!pendingJob) return;
+    const params = pendingJob;
+    handleCancelStart();
+
+    const { notBefore, allowedWindow: jobWindow } = params;
+    // Scheduled jobs stay on the select view; progress is tracked on the Jobs page
+    const isScheduled = !isScheduleOpen({
+      notBefore: notBefore ?? null,
+      allowedWindow: jobWindow ?? null,
+    });
+
+    if (!isScheduled) {
+      setIsProcessing(true);
+      setCurrentSummary(null);
+      setCurrentView('processing');
+    }
+
+    try {
+      const jobId = await createJob(params);
+
+      if (isScheduled) {
+        const when = [
+          notBefore && `after ${new Date(notBefore).toLocaleString()}`,
+          jobWindow && `between ${formatAllowedWindow(jobWindow)}`,
+        ]
+          .filter(Boolean)
+          .join(', ');
+        showToast({
+          variant: 'success',
+          title: 'Job scheduled',
+          description: `It will run ${when}. Track it on the Jobs page.`,
+          durationMs: 6500,
+        });
+        return;
+      }
+
       setActiveJobId(jobId);
     } catch (e) {
       setIsProcessing(false);
@@ -152,6 +262,27 @@ function GeneratorPageInner() {
     }
   };
 
+  const handleRetryFailed = async () => {
+    if (!retryableJobId) return;
+
+    try {
+      const jobId = await retryFailedJob(retryableJobId);
+      setRetryableJobId(null);
+      setIsProcessing(true);
+      setCurrentSummary(null);
+      setCurrentView('processing');
+      setActiveJobId(jobId);
+    } catch (e) {
+      const msg = e instanceof Error ? e.message : String(e);
+      showToast({
+        variant: 'error',
+        title: 'Could not retry job',
+        description: msg,
+        durationMs: 6500,
+      });
+    }
+  };
+
   const handlePause = async () => {
     if (!activeJobId) return;
     await pauseJob(activeJobId);
@@ -176,6 +307,27 @@ function GeneratorPageInner() {
       <Header />
 
       <main className="pb-20">
+        {retryableJobId && currentView !== 'processing' && (
+          <div className="mx-auto max-w-6xl px-6 pt-8">
+            <div
+              className="flex flex-col items-center justify-between gap-3 rounded-xl border-2 px-6 py-4 md:flex-row"
+              style={{ background: 'var(--surface-card)', borderColor: '#d97706' }}
+            >
+              <p className="text-sm font-medium" style={{ color: 'var(--text-secondary)' }}>
+                The last job did not finish every Pokémon.
+              </p>
+              <div className="flex gap-3">
+                <button onClick={() => setRetryableJobId(null)} className="btn btn-outline">
+                  Dismiss
+                </button>
+                <button onClick={() => void handleRetryFailed()} className="btn btn-primary">
+                  Retry Unfinished
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+
         {currentView === 'select' && (
           <GenerationView
             mode={workflowMode}
@@ -192,9 +344,32 @@ function GeneratorPageInner() {
               setRangeStart(start);
               setRangeEnd(end);
             }}
-            selectedVoice={selectedVoice}
+            voiceCatalog={voiceCatalog}
+            ttsProvider={activeTtsProvider}
+            onTtsProviderChange={setTtsProvider}
+            selectedVoice={activeVoice}
             onVoiceChange={setSelectedVoice}
+            failurePolicy={failurePolicy}
+            onFailurePolicyChange={setFailurePolicy}
+            maxErrors={maxErrors}
+            onMaxErrorsChange={setMaxErrors}
+            regenerate={regenerate}
+            onRegenerateChange={setRegenerate}
+            summaryProvider={summaryProvider}
+            onSummaryProviderChange={setSummaryProvider}
+            summaryModel={summaryModel}
+            onSummaryModelChange={setSummaryModel}
+            summaryCandidates={summaryCandidates}
+            onSummaryCandidatesChange={setSummaryCandidates}
+            startAt={startAt}
+            onStartAtChange={setStartAt}
+            allowedWindow={allowedWindow}
+            onAllowedWindowChange={setAllowedWindow}
             onStartProcess={handleStartProcess}
+            estimate={estimate}
+            isEstimating={isEstimating}
+            onConfirmStart={() => void handleConfirmStart()}
+            onCancelStart={handleCancelStart}
             searchQuery={searchQuery}
             onSearchChange={setSearchQuery}
             isLoading={isLoading}
@@ -220,6 +395,7 @@ function GeneratorPageInner() {
         <ProcessingOverlay
           progress={progress}
           cooldown={cooldown}
+          metrics={metrics}
           currentSummary={currentSummary}
           isPaused={isPaused}
           onPause={() => void handlePause()}
@@ -0,0 +1,34 @@
+'use client';
+
+import { Header, JobsView, ToastProvider, ThemeProvider } from '@/components';
+
+function JobsPageInner() {
+  return (
+    <div className="min-h-screen bg-transparent">
+      <Header />
+
+      <main className="pb-20">
+        <JobsView />
+      </main>
+
+      <footer
+        className="border-t-2 py-8 text-center backdrop-blur"
+        style={{ borderColor: 'var(--border-primary)', background: 'var(--bg-elevated)' }}
+      >
+        <p className="text-sm font-medium" style={{ color: 'var(--text-secondary)' }}>
+          Field Logs Generator &middot; Powered by Gemini AI
+        </p>
+      </footer>
+    </div>
+  );
+}
+
+export default function JobsPage() {
+  return (
+    <ThemeProvider>
+      <ToastProvider>
+        <JobsPageInner />
+      </ToastProvider>
+    </ThemeProvider>
+  );
+}
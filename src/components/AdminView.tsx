@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { Pencil, CheckCircle2 } from 'lucide-react';
+import { Pencil, CheckCircle2, RefreshCw } from 'lucide-react';
 import {
   setPromptOverride,
   clearPromptOverride,
@@ -12,7 +12,13 @@ import {
   pauseAllRunningJobs,
   cancelAllRunningJobs,
 } from '../services/jobsService';
+import { getQuotaStatus, QuotaStatus } from '../services/quotaService';
 import { useToast } from './ToastProvider';
+import { SettingsPanel } from './SettingsPanel';
+import { WebhooksPanel } from './WebhooksPanel';
+import { OpeningsReportPanel } from './OpeningsReportPanel';
+import { UsageReportPanel } from './UsageReportPanel';
+import { PronunciationsPanel } from './PronunciationsPanel';
 
 export const AdminView: React.FC = () => {
   const { showToast } = useToast();
@@ -29,14 +35,17 @@ export const AdminView: React.FC = () => {
   const [maintenanceLoading, setMaintenanceLoading] = useState<
     'recover' | 'pauseAll' | 'cancelAll' | null
   >(null);
-  const [activeTab, setActiveTab] = useState<'summary' | 'tts'>('summary');
+  const [activeTab, setActiveTab] = useState<'summary' | 'tts' | 'settings'>('summary');
   const [editValue, setEditValue] = useState('');
+  const [quota, setQuota] = useState<QuotaStatus | null>(null);
 
   useEffect(() => {
     loadPrompts();
+    loadQuota();
   }, []);
 
   useEffect(() => {
+    if (activeTab === 'settings') return;
     setEditValue(prompts.current[activeTab]);
   }, [activeTab, prompts]);
 
@@ -49,7 +58,16 @@ export const AdminView: React.FC = () => {
     }
   };
 
+  const loadQuota = async () => {
+    try {
+      setQuota(await getQuotaStatus());
+    } catch (error) {
+      console.error('Failed to load quota status:', error);
+    }
+  };
+
   const handleSave = async () => {
+    if (activeTab === 'settings') return;
     setLoading(true);
     try {
       await setPromptOverride(activeTab, editValue);
@@ -72,6 +90,7 @@ export const AdminView: React.FC = () => {
   };
 
   const handleReset = async () => {
+    if (activeTab === 'settings') return;
     setLoading(true);
     try {
       await clearPromptOverride(activeTab);
@@ -169,10 +188,10 @@ export const AdminView: React.FC = () => {
   return (
     <div className="mx-auto max-w-4xl px-6 py-8">
       <h2 className="mb-2 text-2xl font-bold" style={{ color: 'var(--text-primary)' }}>
-        Prompt Settings
+        Settings
       </h2>
       <p className="mb-8 text-sm" style={{ color: 'var(--text-secondary)' }}>
-        Customize the AI prompts. Changes are saved to the database.
+        Customize the AI prompts and tune job throughput. Changes are saved to the database.
       </p>
 
       <div className="mb-6 flex gap-2">
@@ -194,50 +213,140 @@ export const AdminView: React.FC = () => {
             <CheckCircle2 className="h-4 w-4" style={{ color: 'var(--accent-secondary)' }} />
           )}
         </button>
+        <button
+          onClick={() => setActiveTab('settings')}
+          className={activeTab === 'settings' ? 'btn btn-primary' : 'btn btn-outline'}
+        >
+          Runtime Settings
+        </button>
       </div>
 
-      <div className="card-elevated overflow-hidden">
-        <textarea
-          value={editValue}
-          onChange={e => setEditValue(e.target.value)}
-          className="h-96 w-full resize-none p-6 font-mono text-sm outline-none"
-          style={{ background: 'var(--surface-input)', color: 'var(--text-primary)' }}
-          placeholder={`Enter your custom ${activeTab} prompt...`}
-        />
-        <div
-          className="flex items-center justify-between border-t px-6 py-4"
-          style={{ borderColor: 'var(--border-primary)', background: 'var(--bg-secondary)' }}
-        >
-          <span
-            className="flex items-center gap-2 text-xs font-medium"
-            style={{ color: 'var(--text-tertiary)' }}
+      {activeTab === 'settings' ? (
+        <SettingsPanel />
+      ) : (
+        <div className="card-elevated overflow-hidden">
+          <textarea
+            value={editValue}
+            onChange={e => setEditValue(e.target.value)}
+            className="h-96 w-full resize-none p-6 font-mono text-sm outline-none"
+            style={{ background: 'var(--surface-input)', color: 'var(--text-primary)' }}
+            placeholder={`Enter your custom ${activeTab} prompt...`}
+          />
+          <div
+            className="flex items-center justify-between border-t px-6 py-4"
+            style={{ borderColor: 'var(--border-primary)', background: 'var(--bg-secondary)' }}
           >
-            {prompts.hasOverrides[activeTab] ? (
-              <>
-                <Pencil className="h-3 w-3" /> Custom prompt active
-              </>
-            ) : (
-              'Using default prompt'
-            )}
-          </span>
-          <div className="flex gap-3">
-            <button
-              onClick={handleReset}
-              disabled={loading}
-              className="btn btn-outline disabled:cursor-not-allowed disabled:opacity-50"
+            <span
+              className="flex items-center gap-2 text-xs font-medium"
+              style={{ color: 'var(--text-tertiary)' }}
             >
-              {loading ? 'Resetting...' : 'Reset to Default'}
-            </button>
-            <button
-              onClick={handleSave}
-              disabled={loading}
-              className="btn btn-primary disabled:cursor-not-allowed disabled:opacity-50"
-            >
-              {loading ? 'Saving...' : 'Save Changes'}
-            </button>
+              {prompts.hasOverrides[activeTab] ? (
+                <>
+                  <Pencil className="h-3 w-3" /> Custom prompt active
+                </>
+              ) : (
+                'Using default prompt'
+              )}
+            </span>
+            <div className="flex gap-3">
+              <button
+                onClick={handleReset}
+                disabled={loading}
+                className="btn btn-outline disabled:cursor-not-allowed disabled:opacity-50"
+              >
+                {loading ? 'Resetting...' : 'Reset to Default'}
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={loading}
+                className="btn btn-primary disabled:cursor-not-allowed disabled:opacity-50"
+              >
+                {loading ? 'Saving...' : 'Save Changes'}
+              </button>
+            </div>
           </div>
         </div>
+      )}
+      <div className="mt-8 flex items-center justify-between">
+        <h2 className="text-2xl font-bold" style={{ color: 'var(--text-primary)' }}>
+          API Quota
+        </h2>
+        <button onClick={loadQuota} className="btn btn-outline">
+          <RefreshCw className="h-4 w-4" /> Refresh
+        </button>
+      </div>
+      <p className="mb-4 text-sm" style={{ color: 'var(--text-secondary)' }}>
+        Requests made today per model.
+        {quota && ` Resets at ${new Date(quota.resetsAt).toLocaleString()}.`} Audio jobs pause
+        automatically when the TTS budget runs out.
+      </p>
+      <div className="card-elevated overflow-hidden">
+        <div className="flex flex-col gap-3 p-6">
+          {!quota && (
+            <span className="text-sm" style={{ color: 'var(--text-tertiary)' }}>
+              Loading quota...
+            </span>
+          )}
+          {quota?.models.map(m => (
+            <div key={m.model} className="flex items-center justify-between gap-4 text-sm">
+              <span className="font-mono" style={{ color: 'var(--text-primary)' }}>
+                {m.model}
+                <span className="ml-2 text-xs uppercase" style={{ color: 'var(--text-tertiary)' }}>
+                  {m.kind}
+                </span>
+              </span>
+              <span
+                className="font-medium"
+                style={{
+                  color: m.remaining === 0 ? 'var(--accent-primary)' : 'var(--text-secondary)',
+                }}
+              >
+                {m.limit === null
+                  ? `${m.used} used · no daily limit`
+                  : `${m.remaining} of ${m.limit} remaining (${m.used} used)`}
+              </span>
+            </div>
+          ))}
+        </div>
       </div>
+
+      <h2 className="mt-8 text-2xl font-bold" style={{ color: 'var(--text-primary)' }}>
+        Usage &amp; Cost
+      </h2>
+      <p className="mb-4 text-sm" style={{ color: 'var(--text-secondary)' }}>
+        Every summary and TTS call with its token usage, by model, job and quota day. Costs are
+        estimates from list prices and include tokens spent on retried attempts.
+      </p>
+      <UsageReportPanel />
+
+      <h2 className="mt-8 text-2xl font-bold" style={{ color: 'var(--text-primary)' }}>
+        Repeated Openings
+      </h2>
+      <p className="mb-4 text-sm" style={{ color: 'var(--text-secondary)' }}>
+        Summary openings that are the same or nearly the same across the library. The most repeated
+        and most recent openings are listed in the summary prompt as ones to avoid.
+      </p>
+      <OpeningsReportPanel />
+
+      <h2 className="mt-8 text-2xl font-bold" style={{ color: 'var(--text-primary)' }}>
+        Pronunciations
+      </h2>
+      <p className="mb-4 text-sm" style={{ color: 'var(--text-secondary)' }}>
+        Phonetic spellings for Pokémon, move and place names. Listed names are given to the summary
+        prompt and spoken this way in every audio log. Seeding adds the hints found in existing
+        summaries without changing entries already here.
+      </p>
+      <PronunciationsPanel />
+
+      <h2 className="mt-8 text-2xl font-bold" style={{ color: 'var(--text-primary)' }}>
+        Webhooks
+      </h2>
+      <p className="mb-4 text-sm" style={{ color: 'var(--text-secondary)' }}>
+        Notify Slack, Discord or your own service when jobs change state. Payloads are signed with
+        the webhook secret (HMAC-SHA256 in the <code>X-Webhook-Signature</code> header).
+      </p>
+      <WebhooksPanel />
+
       <h2 className="mt-8 text-2xl font-bold" style={{ color: 'var(--text-primary)' }}>
         Job Maintenance
       </h2>
@@ -8,8 +8,18 @@ import {
   VariantCategory,
 } from '../types';
 import { StoredSummary, AudioLogMetadata } from '../services/storageService';
-import { VOICE_OPTIONS } from '../constants';
+import {
+  FailurePolicy,
+  AllowedWindow,
+  RegeneratePolicy,
+  JobEstimate,
+  SummaryProviderId,
+  TtsProviderId,
+  MAX_SUMMARY_CANDIDATES,
+} from '../services/jobsService';
+import { VoiceCatalog } from '../services/voicesService';
 import { formatPokemonId } from '../utils/pokemonUtils';
+import { formatDuration, getLocalTimeZone } from '../utils/scheduleUtils';
 
 interface GenerationViewProps {
   mode: WorkflowMode;
@@ -23,9 +33,32 @@ interface GenerationViewProps {
   rangeStart: number;
   rangeEnd: number;
   onRangeChange: (start: number, end: number) => void;
+  voiceCatalog: VoiceCatalog | null; // null while loading
+  ttsProvider: TtsProviderId;
+  onTtsProviderChange: (provider: TtsProviderId) => void;
   selectedVoice: string;
   onVoiceChange: (voice: string) => void;
+  failurePolicy: FailurePolicy;
+  onFailurePolicyChange: (policy: FailurePolicy) => void;
+  maxErrors: number;
+  onMaxErrorsChange: (maxErrors: number) => void;
+  regenerate: RegeneratePolicy;
+  onRegenerateChange: (policy: RegeneratePolicy) => void;
+  summaryProvider: SummaryProviderId | null; // null = provider from settings
+  onSummaryProviderChange: (provider: SummaryProviderId | null) => void;
+  summaryModel: string; // empty = the provider's model from settings
+  onSummaryModelChange: (model: string) => void;
+  summaryCandidates: number; // drafts per Pokémon; the best-ranked is kept
+  onSummaryCandidatesChange: (count: number) => void;
+  startAt: string; // datetime-local value; empty starts immediately
+  onStartAtChange: (startAt: string) => void;
+  allowedWindow: AllowedWindow | null;
+  onAllowedWindowChange: (window: AllowedWindow | null) => void;
   onStartProcess: () => void;
+  estimate: JobEstimate | null; // shown as a confirmation step before the job is created
+  isEstimating: boolean;
+  onConfirmStart: () => void;
+  onCancelStart: () => void;
   searchQuery: string;
   onSearchChange: (query: string) => void;
   isLoading: boolean;
@@ -51,6 +84,28 @@ const VARIANT_CATEGORY_CONFIG: {
   { id: 'other', label: 'Other', icon: Sparkles, color: '#64748b' },
 ];
 
+const DEFAULT_ALLOWED_WINDOW: AllowedWindow = { start: '01:00', end: '06:00' };
+
+const FAILURE_POLICY_OPTIONS: { value: FailurePolicy; label: string }[] = [
+  { value: 'fail-fast', label: 'Stop the job' },
+  { value: 'skip-and-continue', label: 'Skip and continue' },
+  { value: 'fail-after-N-errors', label: 'Stop after N failures' },
+];
+
+const REGENERATE_OPTIONS: { value: RegeneratePolicy; label: string }[] = [
+  { value: 'all', label: 'Everything' },
+  { value: 'missing', label: 'Only missing' },
+  { value: 'outdated', label: 'Missing or outdated' },
+];
+
+const SUMMARY_PROVIDER_OPTIONS: { value: SummaryProviderId | ''; label: string }[] = [
+  { value: '', label: 'Default (settings)' },
+  { value: 'gemini', label: 'Gemini' },
+  { value: 'openai-compatible', label: 'OpenAI-compatible' },
+];
+
+const SUMMARY_CANDIDATE_OPTIONS = Array.from({ length: MAX_SUMMARY_CANDIDATES }, (_, i) => i + 1);
+
 export const GenerationView: React.FC<GenerationViewProps> = ({
   mode,
   onModeChange,
@@ -63,9 +118,32 @@ export const GenerationView: React.FC<GenerationViewProps> = ({
   rangeStart,
   rangeEnd,
   onRangeChange,
+  voiceCatalog,
+  ttsProvider,
+  onTtsProviderChange,
   selectedVoice,
   onVoiceChange,
+  failurePolicy,
+  onFailurePolicyChange,
+  maxErrors,
+  onMaxErrorsChange,
+  regenerate,
+  onRegenerateChange,
+  summaryProvider,
+  onSummaryProviderChange,
+  summaryModel,
+  onSummaryModelChange,
+  summaryCandidates,
+  onSummaryCandidatesChange,
+  startAt,
+  onStartAtChange,
+  allowedWindow,
+  onAllowedWindowChange,
   onStartProcess,
+  estimate,
+  isEstimating,
+  onConfirmStart,
+  onCancelStart,
   searchQuery,
   onSearchChange,
   isLoading,
@@ -242,20 +320,206 @@ export const GenerationView: React.FC<GenerationViewProps> = ({
               >
                 Voice Profile
               </label>
+              <div className="flex gap-2">
+                <select
+                  value={ttsProvider}
+                  onChange={e => onTtsProviderChange(e.target.value as TtsProviderId)}
+                  className="select h-14"
+                >
+                  {(voiceCatalog?.providers ?? []).map(p => (
+                    <option key={p.id} value={p.id} disabled={!p.available}>
+                      {p.available ? p.label : `${p.label} (not installed)`}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  value={selectedVoice}
+                  onChange={e => onVoiceChange(e.target.value)}
+                  className="select h-14"
+                >
+                  {(voiceCatalog?.providers.find(p => p.id === ttsProvider)?.voices ?? []).map(
+                    v => (
+                      <option key={v.id} value={v.id}>
+                        {v.name}
+                      </option>
+                    )
+                  )}
+                </select>
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <label
+              className="text-xs font-semibold tracking-wide uppercase"
+              style={{ color: 'var(--text-tertiary)' }}
+            >
+              On Failure
+            </label>
+            <div className="flex gap-2">
               <select
-                value={selectedVoice}
-                onChange={e => onVoiceChange(e.target.value)}
+                value={failurePolicy}
+                onChange={e => onFailurePolicyChange(e.target.value as FailurePolicy)}
                 className="select h-14"
               >
-                {VOICE_OPTIONS.map(v => (
-                  <option key={v.id} value={v.id}>
-                    {v.name}
+                {FAILURE_POLICY_OPTIONS.map(o => (
+                  <option key={o.value} value={o.value}>
+                    {o.label}
                   </option>
                 ))}
               </select>
+              {failurePolicy === 'fail-after-N-errors' && (
+                <input
+                  type="number"
+                  min={1}
+                  value={maxErrors}
+                  onChange={e => onMaxErrorsChange(Math.max(1, parseInt(e.target.value) || 1))}
+                  className="input h-14 w-20"
+                  title="Maximum failed Pokémon before the job stops"
+                />
+              )}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <label
+              className="text-xs font-semibold tracking-wide uppercase"
+              style={{ color: 'var(--text-tertiary)' }}
+            >
+              Regenerate
+            </label>
+            <select
+              value={regenerate}
+              onChange={e => onRegenerateChange(e.target.value as RegeneratePolicy)}
+              className="select h-14"
+              title="Skip Pokémon that already have a summary or audio log"
+            >
+              {REGENERATE_OPTIONS.map(o => (
+                <option key={o.value} value={o.value}>
+                  {o.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {mode !== WorkflowMode.AUDIO_ONLY && (
+            <div className="space-y-2">
+              <label
+                className="text-xs font-semibold tracking-wide uppercase"
+                style={{ color: 'var(--text-tertiary)' }}
+              >
+                Summary Model
+              </label>
+              <div className="flex gap-2">
+                <select
+                  value={summaryProvider ?? ''}
+                  onChange={e =>
+                    onSummaryProviderChange((e.target.value || null) as SummaryProviderId | null)
+                  }
+                  className="select h-14"
+                >
+                  {SUMMARY_PROVIDER_OPTIONS.map(o => (
+                    <option key={o.value} value={o.value}>
+                      {o.label}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  type="text"
+                  value={summaryModel}
+                  onChange={e => onSummaryModelChange(e.target.value)}
+                  placeholder="Default model"
+                  className="input h-14 w-40 font-mono"
+                  title="Leave empty to use the model from settings"
+                />
+              </div>
             </div>
           )}
 
+          {mode !== WorkflowMode.AUDIO_ONLY && (
+            <div className="space-y-2">
+              <label
+                className="text-xs font-semibold tracking-wide uppercase"
+                style={{ color: 'var(--text-tertiary)' }}
+              >
+                Candidates
+              </label>
+              <select
+                value={summaryCandidates}
+                onChange={e => onSummaryCandidatesChange(Number(e.target.value))}
+                className="select h-14"
+                title="Generate several drafts per Pokémon and keep the best-ranked one. The others can be picked in the library."
+              >
+                {SUMMARY_CANDIDATE_OPTIONS.map(count => (
+                  <option key={count} value={count}>
+                    {count === 1 ? 'Single draft' : `Best of ${count}`}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <label
+              className="text-xs font-semibold tracking-wide uppercase"
+              style={{ color: 'var(--text-tertiary)' }}
+            >
+              Start At
+            </label>
+            <input
+              type="datetime-local"
+              value={startAt}
+              onChange={e => onStartAtChange(e.target.value)}
+              className="input h-14"
+              title="Leave empty to start immediately"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <label
+              className="flex items-center gap-2 text-xs font-semibold tracking-wide uppercase"
+              style={{ color: 'var(--text-tertiary)' }}
+            >
+              <input
+                type="checkbox"
+                checked={allowedWindow !== null}
+                onChange={e =>
+                  onAllowedWindowChange(
+                    // Times are picked in, and evaluated in, the browser's time zone
+                    e.target.checked
+                      ? { ...DEFAULT_ALLOWED_WINDOW, timeZone: getLocalTimeZone() }
+                      : null
+                  )
+                }
+              />
+              Only Run Between
+              {allowedWindow?.timeZone && (
+                <span className="normal-case">({allowedWindow.timeZone})</span>
+              )}
+            </label>
+            <div className="flex items-center gap-2">
+              <input
+                type="time"
+                value={allowedWindow?.start ?? DEFAULT_ALLOWED_WINDOW.start}
+                onChange={e =>
+                  allowedWindow &&
+                  onAllowedWindowChange({ ...allowedWindow, start: e.target.value })
+                }
+                disabled={allowedWindow === null}
+                className="input h-14 disabled:opacity-50"
+              />
+              <input
+                type="time"
+                value={allowedWindow?.end ?? DEFAULT_ALLOWED_WINDOW.end}
+                onChange={e =>
+                  allowedWindow && onAllowedWindowChange({ ...allowedWindow, end: e.target.value })
+                }
+                disabled={allowedWindow === null}
+                className="input h-14 disabled:opacity-50"
+              />
+            </div>
+          </div>
+
           {/* Range controls - only in generation mode */}
           {collectionType === 'generation' && (
             <>
@@ -311,11 +575,83 @@ export const GenerationView: React.FC<GenerationViewProps> = ({
             />
           </div>
 
-          <button onClick={onStartProcess} className="btn btn-primary h-14 px-8">
-            {selectedIds.size > 0 ? `${getModeLabel()} (${selectedIds.size})` : getModeLabel()}
+          <button
+            onClick={onStartProcess}
+            disabled={isEstimating || estimate !== null}
+            className="btn btn-primary h-14 px-8 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {isEstimating
+              ? 'Estimating...'
+              : selectedIds.size > 0
+                ? `${getModeLabel()} (${selectedIds.size})`
+                : getModeLabel()}
           </button>
         </div>
 
+        {estimate && (
+          <div
+            className="mt-6 space-y-3 rounded-lg border-2 p-4"
+            style={{ background: 'var(--bg-secondary)', borderColor: 'var(--accent-primary)' }}
+          >
+            <h3 className="text-sm font-semibold" style={{ color: 'var(--text-primary)' }}>
+              Confirm Job
+            </h3>
+            <div
+              className="grid grid-cols-1 gap-1 text-sm md:grid-cols-2"
+              style={{ color: 'var(--text-secondary)' }}
+            >
+              <div>
+                <span className="font-semibold">API calls:</span> {estimate.summaryCalls} summary,{' '}
+                {estimate.ttsCalls} TTS
+              </div>
+              <div>
+                <span className="font-semibold">Estimated time:</span> ~
+                {formatDuration(estimate.estimatedDurationMs)}
+              </div>
+              <div>
+                <span className="font-semibold">Estimated tokens:</span>{' '}
+                {estimate.estimatedTokens.input.toLocaleString()} in /{' '}
+                {estimate.estimatedTokens.output.toLocaleString()} out
+              </div>
+              <div>
+                <span className="font-semibold">TTS quota left today:</span>{' '}
+                {estimate.quota.ttsRemaining ?? 'unlimited'}
+              </div>
+              {(estimate.keptSummaries > 0 || estimate.keptAudio > 0) && (
+                <div>
+                  <span className="font-semibold">Kept:</span> {estimate.keptSummaries} summaries,{' '}
+                  {estimate.keptAudio} audio logs
+                </div>
+              )}
+              {estimate.missingSummaries > 0 && (
+                <div>
+                  <span className="font-semibold">Without a summary:</span>{' '}
+                  {estimate.missingSummaries} Pokémon
+                </div>
+              )}
+            </div>
+            {!estimate.quota.fitsToday && (
+              <p className="text-sm font-medium" style={{ color: '#d97706' }}>
+                This job needs more TTS calls than are left today. It will pause when the quota runs
+                out and resume after the reset at{' '}
+                {new Date(estimate.quota.resetsAt).toLocaleTimeString([], {
+                  hour: '2-digit',
+                  minute: '2-digit',
+                })}
+                .
+              </p>
+            )}
+            <div className="flex justify-end gap-3">
+              <button onClick={onCancelStart} className="btn btn-outline">
+                Back
+              </button>
+              <button onClick={onConfirmStart} className="btn btn-primary">
+                Start Job
+              </button>
+            </div>
+          </div>
+        )}
+
         {selectedIds.size > 0 && (
           <div
             className="mt-6 rounded-lg border-2 p-4"
@@ -12,6 +12,7 @@ import {
   Moon,
   Monitor,
   Wand2,
+  ListChecks,
   Menu,
   X,
 } from 'lucide-react';
@@ -38,6 +39,7 @@ export const Header: React.FC = () => {
     { href: '/', label: 'Home', icon: Home },
     { href: '/generator', label: 'Generator', icon: Wand2 },
     { href: '/library', label: 'Pokédex', icon: BookOpen },
+    { href: '/jobs', label: 'Jobs', icon: ListChecks },
     { href: '/admin', label: 'Settings', icon: Settings },
   ];
 
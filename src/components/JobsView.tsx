@@ -0,0 +1,622 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  RefreshCw,
+  ChevronDown,
+  ChevronUp,
+  CheckCircle2,
+  XCircle,
+  MinusCircle,
+  Circle,
+  Loader2,
+  Pause,
+  Play,
+  Square,
+  RotateCcw,
+  Copy,
+  ArrowUp,
+  ArrowDown,
+  ChevronsUp,
+} from 'lucide-react';
+import {
+  listJobs,
+  getJobItems,
+  pauseJob,
+  resumeJob,
+  cancelJob,
+  retryFailedJob,
+  cloneJob,
+  getQueue,
+  reorderQueue,
+  bumpJob,
+  JobItem,
+  JobItemStatus,
+  JobListFilters,
+  JobStatus,
+  ProcessingJob,
+} from '../services/jobsService';
+import { useVoiceCatalog } from '../hooks/useVoiceCatalog';
+import { formatPokemonId } from '../utils/pokemonUtils';
+import { formatAllowedWindow } from '../utils/scheduleUtils';
+import { useToast } from './ToastProvider';
+
+const PAGE_SIZE = 20;
+const ACTIVE_STATUSES: JobStatus[] = ['queued', 'running', 'paused'];
+
+const STATUS_OPTIONS: { value: string; label: string; statuses?: JobStatus[] }[] = [
+  { value: 'all', label: 'All statuses' },
+  { value: 'active', label: 'Active', statuses: ACTIVE_STATUSES },
+  { value: 'completed', label: 'Completed', statuses: ['completed'] },
+  {
+    value: 'completed_with_errors',
+    label: 'Completed with errors',
+    statuses: ['completed_with_errors'],
+  },
+  { value: 'failed', label: 'Failed', statuses: ['failed'] },
+  { value: 'canceled', label: 'Canceled', statuses: ['canceled'] },
+];
+
+const STATUS_COLORS: Record<JobStatus, string> = {
+  queued: '#64748b',
+  running: '#06b6d4',
+  paused: '#d97706',
+  completed: '#16a34a',
+  completed_with_errors: '#ca8a04',
+  failed: '#dc2626',
+  canceled: '#94a3b8',
+};
+
+const MODE_LABELS: Record<ProcessingJob['mode'], string> = {
+  FULL: 'Full Logs',
+  SUMMARY_ONLY: 'Summaries',
+  AUDIO_ONLY: 'Audio',
+};
+
+const ITEM_ICONS: Record<JobItemStatus, { icon: typeof Circle; color: string }> = {
+  pending: { icon: Circle, color: 'var(--text-tertiary)' },
+  running: { icon: Loader2, color: '#06b6d4' },
+  succeeded: { icon: CheckCircle2, color: '#16a34a' },
+  failed: { icon: XCircle, color: '#dc2626' },
+  skipped: { icon: MinusCircle, color: '#94a3b8' },
+};
+
+const formatDate = (iso: string) => new Date(iso).toLocaleString();
+
+export const JobsView: React.FC = () => {
+  const { showToast } = useToast();
+  const voiceCatalog = useVoiceCatalog();
+  const [jobs, setJobs] = useState<ProcessingJob[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [loading, setLoading] = useState(false);
+  const [statusFilter, setStatusFilter] = useState('all');
+  const [modeFilter, setModeFilter] = useState<ProcessingJob['mode'] | 'all'>('all');
+  const [generationFilter, setGenerationFilter] = useState('');
+  const [voiceFilter, setVoiceFilter] = useState('all');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [expandedJobId, setExpandedJobId] = useState<string | null>(null);
+  const [items, setItems] = useState<JobItem[]>([]);
+  const [actionLoading, setActionLoading] = useState<string | null>(null);
+  const [queue, setQueue] = useState<ProcessingJob[]>([]);
+  const [queueSaving, setQueueSaving] = useState(false);
+
+  const loadJobs = useCallback(async () => {
+    setLoading(true);
+    try {
+      const filters: JobListFilters = { page, pageSize: PAGE_SIZE };
+      const statusOption = STATUS_OPTIONS.find(o => o.value === statusFilter);
+      if (statusOption?.statuses) filters.statuses = statusOption.statuses;
+      if (modeFilter !== 'all') filters.mode = modeFilter;
+      if (generationFilter) filters.generationId = Number(generationFilter);
+      if (voiceFilter !== 'all') filters.voice = voiceFilter;
+      if (fromDate) filters.from = new Date(`${fromDate}T00:00:00`).toISOString();
+      if (toDate) filters.to = new Date(`${toDate}T23:59:59.999`).toISOString();
+
+      const result = await listJobs(filters);
+      setJobs(result.jobs);
+      setTotal(result.total);
+    } catch (error) {
+      console.error('Failed to load jobs:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [page, statusFilter, modeFilter, generationFilter, voiceFilter, fromDate, toDate]);
+
+  const loadQueue = useCallback(async () => {
+    try {
+      setQueue(await getQueue());
+    } catch (error) {
+      console.error('Failed to load queue:', error);
+    }
+  }, []);
+
+  const loadItems = useCallback(async (jobId: string) => {
+    try {
+      setItems(await getJobItems(jobId));
+    } catch (error) {
+      console.error('Failed to load job items:', error);
+      setItems([]);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadJobs();
+  }, [loadJobs]);
+
+  useEffect(() => {
+    void loadQueue();
+  }, [loadQueue]);
+
+  // Keep active jobs fresh while the dashboard is open
+  const hasActiveJobs = jobs.some(j => ACTIVE_STATUSES.includes(j.status)) || queue.length > 0;
+  useEffect(() => {
+    if (!hasActiveJobs) return;
+    const interval = window.setInterval(() => {
+      void loadJobs();
+      void loadQueue();
+      if (expandedJobId) void loadItems(expandedJobId);
+    }, 5000);
+    return () => window.clearInterval(interval);
+  }, [hasActiveJobs, expandedJobId, loadJobs, loadQueue, loadItems]);
+
+  const saveQueueOrder = async (action: () => Promise<unknown>) => {
+    setQueueSaving(true);
+    try {
+      await action();
+      await loadQueue();
+      await loadJobs();
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      showToast({ variant: 'error', title: 'Could not reorder queue', description: msg });
+    } finally {
+      setQueueSaving(false);
+    }
+  };
+
+  const moveQueued = (index: number, delta: number) => {
+    const target = index + delta;
+    if (target < 0 || target >= queue.length) return;
+    const ids = queue.map(j => j.id);
+    [ids[index], ids[target]] = [ids[target]!, ids[index]!];
+    void saveQueueOrder(() => reorderQueue(ids));
+  };
+
+  const toggleExpand = (jobId: string) => {
+    if (expandedJobId === jobId) {
+      setExpandedJobId(null);
+      setItems([]);
+      return;
+    }
+    setExpandedJobId(jobId);
+    setItems([]);
+    void loadItems(jobId);
+  };
+
+  const runAction = async (jobId: string, action: () => Promise<unknown>, successTitle: string) => {
+    setActionLoading(jobId);
+    try {
+      await action();
+      showToast({ variant: 'success', title: successTitle });
+      await loadJobs();
+      await loadQueue();
+      if (expandedJobId) await loadItems(expandedJobId);
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      showToast({ variant: 'error', title: 'Action failed', description: msg });
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  const itemsByPokemon = new Map<number, JobItem[]>();
+  for (const item of items) {
+    const list = itemsByPokemon.get(item.pokemonId) ?? [];
+    list.push(item);
+    itemsByPokemon.set(item.pokemonId, list);
+  }
+
+  const resetPage = () => setPage(1);
+
+  return (
+    <div className="mx-auto max-w-6xl px-6 py-8">
+      <div className="mb-6 flex items-center justify-between">
+        <div>
+          <h2 className="mb-2 text-2xl font-bold" style={{ color: 'var(--text-primary)' }}>
+            Jobs
+          </h2>
+          <p className="text-sm" style={{ color: 'var(--text-secondary)' }}>
+            {total} job(s) matching the current filters.
+          </p>
+        </div>
+        <button
+          onClick={() => {
+            void loadJobs();
+            void loadQueue();
+          }}
+          className="btn btn-outline"
+          disabled={loading}
+        >
+          <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+          Refresh
+        </button>
+      </div>
+
+      {/* Queue order */}
+      {queue.length > 0 && (
+        <div className="card-elevated mb-6 overflow-hidden">
+          <div
+            className="border-b px-6 py-3 text-xs font-semibold tracking-wide uppercase"
+            style={{ borderColor: 'var(--border-primary)', color: 'var(--text-tertiary)' }}
+          >
+            Queue &middot; runs top to bottom
+          </div>
+          {queue.map((job, index) => (
+            <div
+              key={job.id}
+              className="flex flex-wrap items-center gap-4 border-b px-6 py-3 last:border-b-0"
+              style={{ borderColor: 'var(--border-primary)' }}
+            >
+              <span className="w-6 text-sm font-bold" style={{ color: 'var(--text-tertiary)' }}>
+                {index + 1}
+              </span>
+              <span className="font-semibold" style={{ color: 'var(--text-primary)' }}>
+                {MODE_LABELS[job.mode]} &middot; Gen {job.generationId} ({job.region})
+              </span>
+              <span className="text-sm" style={{ color: 'var(--text-secondary)' }}>
+                {job.pokemonIds.length} Pokémon
+              </span>
+              <span className="ml-auto text-xs" style={{ color: 'var(--text-tertiary)' }}>
+                {formatDate(job.createdAt)}
+              </span>
+              <div className="flex gap-1">
+                <button
+                  onClick={() => void saveQueueOrder(() => bumpJob(job.id))}
+                  disabled={queueSaving || index === 0}
+                  className="btn btn-outline px-2 disabled:opacity-50"
+                  title="Move to front"
+                >
+                  <ChevronsUp className="h-4 w-4" />
+                </button>
+                <button
+                  onClick={() => moveQueued(index, -1)}
+                  disabled={queueSaving || index === 0}
+                  className="btn btn-outline px-2 disabled:opacity-50"
+                  title="Move up"
+                >
+                  <ArrowUp className="h-4 w-4" />
+                </button>
+                <button
+                  onClick={() => moveQueued(index, 1)}
+                  disabled={queueSaving || index === queue.length - 1}
+                  className="btn btn-outline px-2 disabled:opacity-50"
+                  title="Move down"
+                >
+                  <ArrowDown className="h-4 w-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Filters */}
+      <div className="card-elevated mb-6 grid grid-cols-1 gap-4 p-6 md:grid-cols-3 lg:grid-cols-6">
+        <select
+          value={statusFilter}
+          onChange={e => {
+            setStatusFilter(e.target.value);
+            resetPage();
+          }}
+          className="select"
+        >
+          {STATUS_OPTIONS.map(o => (
+            <option key={o.value} value={o.value}>
+              {o.label}
+            </option>
+          ))}
+        </select>
+        <select
+          value={modeFilter}
+          onChange={e => {
+            setModeFilter(e.target.value as ProcessingJob['mode'] | 'all');
+            resetPage();
+          }}
+          className="select"
+        >
+          <option value="all">All modes</option>
+          {(Object.keys(MODE_LABELS) as ProcessingJob['mode'][]).map(m => (
+            <option key={m} value={m}>
+              {MODE_LABELS[m]}
+            </option>
+          ))}
+        </select>
+        <input
+          type="number"
+          min={1}
+          value={generationFilter}
+          onChange={e => {
+            setGenerationFilter(e.target.value);
+            resetPage();
+          }}
+          className="input"
+          placeholder="Generation"
+        />
+        <select
+          value={voiceFilter}
+          onChange={e => {
+            setVoiceFilter(e.target.value);
+            resetPage();
+          }}
+          className="select"
+        >
+          <option value="all">All voices</option>
+          {voiceCatalog?.providers.map(provider => (
+            <optgroup key={provider.id} label={provider.label}>
+              {provider.voices.map(v => (
+                <option key={v.id} value={v.id}>
+                  {v.name}
+                </option>
+              ))}
+            </optgroup>
+          ))}
+        </select>
+        <input
+          type="date"
+          value={fromDate}
+          onChange={e => {
+            setFromDate(e.target.value);
+            resetPage();
+          }}
+          className="input"
+          title="Created from"
+        />
+        <input
+          type="date"
+          value={toDate}
+          onChange={e => {
+            setToDate(e.target.value);
+            resetPage();
+          }}
+          className="input"
+          title="Created to"
+        />
+      </div>
+
+      {/* Job list */}
+      <div className="space-y-3">
+        {jobs.length === 0 && !loading && (
+          <div className="card p-12 text-center">
+            <p className="text-sm" style={{ color: 'var(--text-secondary)' }}>
+              No jobs found.
+            </p>
+          </div>
+        )}
+
+        {jobs.map(job => {
+          const isExpanded = expandedJobId === job.id;
+          const isActive = ACTIVE_STATUSES.includes(job.status);
+          const isBusy = actionLoading === job.id;
+
+          return (
+            <div key={job.id} className="card-elevated overflow-hidden">
+              <button
+                onClick={() => toggleExpand(job.id)}
+                className="flex w-full flex-wrap items-center gap-4 px-6 py-4 text-left"
+              >
+                <span
+                  className="rounded px-2 py-1 text-xs font-bold text-white uppercase"
+                  style={{ background: STATUS_COLORS[job.status] }}
+                >
+                  {job.status.replace(/_/g, ' ')}
+                </span>
+                <span className="font-semibold" style={{ color: 'var(--text-primary)' }}>
+                  {MODE_LABELS[job.mode]} &middot; Gen {job.generationId} ({job.region})
+                </span>
+                <span className="text-sm" style={{ color: 'var(--text-secondary)' }}>
+                  {job.voice}
+                  {job.ttsProvider !== 'gemini' && ` (${job.ttsProvider})`}
+                </span>
+                <span className="text-sm" style={{ color: 'var(--text-secondary)' }}>
+                  {job.stage === 'summary' ? 'Summaries' : 'Audio'} {job.current}/{job.total}
+                </span>
+                {job.failedPokemonIds.length > 0 && (
+                  <span className="text-sm font-medium" style={{ color: '#dc2626' }}>
+                    {job.failedPokemonIds.length} failed
+                  </span>
+                )}
+                <span className="ml-auto text-xs" style={{ color: 'var(--text-tertiary)' }}>
+                  {formatDate(job.createdAt)}
+                </span>
+                {isExpanded ? (
+                  <ChevronUp className="h-4 w-4" style={{ color: 'var(--text-tertiary)' }} />
+                ) : (
+                  <ChevronDown className="h-4 w-4" style={{ color: 'var(--text-tertiary)' }} />
+                )}
+              </button>
+
+              {isExpanded && (
+                <div
+                  className="space-y-4 border-t px-6 py-4"
+                  style={{
+                    borderColor: 'var(--border-primary)',
+                    background: 'var(--bg-secondary)',
+                  }}
+                >
+                  <div className="grid grid-cols-1 gap-2 text-sm md:grid-cols-2">
+                    <div style={{ color: 'var(--text-secondary)' }}>
+                      <span className="font-semibold">ID:</span> {job.id}
+                    </div>
+                    <div style={{ color: 'var(--text-secondary)' }}>
+                      <span className="font-semibold">On failure:</span> {job.failurePolicy}
+                      {job.maxErrors !== null && ` (max ${job.maxErrors})`}
+                    </div>
+                    <div style={{ color: 'var(--text-secondary)' }}>
+                      <span className="font-semibold">Regenerate:</span> {job.regenerate}
+                    </div>
+                    {(job.summaryProvider || job.summaryModel) && (
+                      <div style={{ color: 'var(--text-secondary)' }}>
+                        <span className="font-semibold">Summary model:</span>{' '}
+                        {[job.summaryProvider, job.summaryModel].filter(Boolean).join(' · ')}
+                      </div>
+                    )}
+                    {job.summaryCandidates > 1 && (
+                      <div style={{ color: 'var(--text-secondary)' }}>
+                        <span className="font-semibold">Candidates:</span> best of{' '}
+                        {job.summaryCandidates}
+                      </div>
+                    )}
+                    <div style={{ color: 'var(--text-secondary)' }}>
+                      <span className="font-semibold">Message:</span> {job.message}
+                    </div>
+                    <div style={{ color: 'var(--text-secondary)' }}>
+                      <span className="font-semibold">Updated:</span> {formatDate(job.updatedAt)}
+                    </div>
+                    {(job.notBefore || job.allowedWindow) && (
+                      <div style={{ color: 'var(--text-secondary)' }}>
+                        <span className="font-semibold">Schedule:</span>{' '}
+                        {job.notBefore && `not before ${formatDate(job.notBefore)}`}
+                        {job.notBefore && job.allowedWindow && ', '}
+                        {job.allowedWindow && `only ${formatAllowedWindow(job.allowedWindow)}`}
+                      </div>
+                    )}
+                    {job.status === 'running' && job.workerId && (
+                      <div style={{ color: 'var(--text-secondary)' }}>
+                        <span className="font-semibold">Worker:</span> {job.workerId}
+                        {job.heartbeatAt && ` (heartbeat ${formatDate(job.heartbeatAt)})`}
+                      </div>
+                    )}
+                    {job.error && (
+                      <div className="md:col-span-2" style={{ color: '#dc2626' }}>
+                        <span className="font-semibold">Error:</span> {job.error}
+                      </div>
+                    )}
+                  </div>
+
+                  <div className="flex flex-wrap gap-2">
+                    {job.status === 'running' && (
+                      <button
+                        onClick={() => void runAction(job.id, () => pauseJob(job.id), 'Job paused')}
+                        disabled={isBusy}
+                        className="btn btn-outline disabled:opacity-50"
+                      >
+                        <Pause className="h-4 w-4" /> Pause
+                      </button>
+                    )}
+                    {job.status === 'paused' && (
+                      <button
+                        onClick={() =>
+                          void runAction(job.id, () => resumeJob(job.id), 'Job resumed')
+                        }
+                        disabled={isBusy}
+                        className="btn btn-outline disabled:opacity-50"
+                      >
+                        <Play className="h-4 w-4" /> Resume
+                      </button>
+                    )}
+                    {isActive && (
+                      <button
+                        onClick={() =>
+                          void runAction(job.id, () => cancelJob(job.id), 'Job canceled')
+                        }
+                        disabled={isBusy}
+                        className="btn btn-outline disabled:opacity-50"
+                      >
+                        <Square className="h-4 w-4" /> Cancel
+                      </button>
+                    )}
+                    {!isActive && job.status !== 'completed' && (
+                      <button
+                        onClick={() =>
+                          void runAction(
+                            job.id,
+                            () => retryFailedJob(job.id),
+                            'Queued unfinished Pokémon'
+                          )
+                        }
+                        disabled={isBusy}
+                        className="btn btn-outline disabled:opacity-50"
+                      >
+                        <RotateCcw className="h-4 w-4" /> Retry Unfinished
+                      </button>
+                    )}
+                    <button
+                      onClick={() => void runAction(job.id, () => cloneJob(job.id), 'Job cloned')}
+                      disabled={isBusy}
+                      className="btn btn-outline disabled:opacity-50"
+                    >
+                      <Copy className="h-4 w-4" /> Clone
+                    </button>
+                  </div>
+
+                  {/* Per-Pokémon checklist */}
+                  <div className="grid grid-cols-2 gap-2 md:grid-cols-4 lg:grid-cols-6">
+                    {Array.from(itemsByPokemon.entries()).map(([pokemonId, stageItems]) => (
+                      <div
+                        key={pokemonId}
+                        className="flex items-center justify-between rounded-lg border px-3 py-2"
+                        style={{
+                          background: 'var(--surface-card)',
+                          borderColor: 'var(--border-primary)',
+                        }}
+                      >
+                        <span
+                          className="text-xs font-semibold"
+                          style={{ color: 'var(--text-secondary)' }}
+                        >
+                          #{formatPokemonId(pokemonId)}
+                        </span>
+                        <span className="flex gap-1">
+                          {stageItems.map(item => {
+                            const { icon: Icon, color } = ITEM_ICONS[item.status];
+                            return (
+                              <span
+                                key={item.stage}
+                                title={`${item.stage}: ${item.status} (${item.attempts} attempt(s))${
+                                  item.lastError ? ` - ${item.lastError}` : ''
+                                }`}
+                              >
+                                <Icon
+                                  className={`h-4 w-4 ${item.status === 'running' ? 'animate-spin' : ''}`}
+                                  style={{ color }}
+                                />
+                              </span>
+                            );
+                          })}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Pagination */}
+      {total > PAGE_SIZE && (
+        <div className="mt-6 flex items-center justify-center gap-4">
+          <button
+            onClick={() => setPage(p => Math.max(1, p - 1))}
+            disabled={page <= 1}
+            className="btn btn-outline disabled:opacity-50"
+          >
+            Previous
+          </button>
+          <span className="text-sm font-medium" style={{ color: 'var(--text-secondary)' }}>
+            Page {page} of {totalPages}
+          </span>
+          <button
+            onClick={() => setPage(p => Math.min(totalPages, p + 1))}
+            disabled={page >= totalPages}
+            className="btn btn-outline disabled:opacity-50"
+          >
+            Next
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
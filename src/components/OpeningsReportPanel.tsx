@@ -0,0 +1,80 @@
+import React, { useEffect, useState } from 'react';
+import { RefreshCw } from 'lucide-react';
+import { getOpeningReport, OpeningReport } from '../services/openingsService';
+import { formatPokemonId } from '../utils/pokemonUtils';
+
+// Pokémon listed per group before collapsing the rest into a count
+const MAX_LISTED_POKEMON = 8;
+
+export const OpeningsReportPanel: React.FC = () => {
+  const [report, setReport] = useState<OpeningReport | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const load = async () => {
+    setLoading(true);
+    try {
+      setReport(await getOpeningReport());
+    } catch (error) {
+      console.error('Failed to load opening report:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    void load();
+  }, []);
+
+  return (
+    <div className="card-elevated overflow-hidden">
+      <div className="flex flex-col gap-4 p-6">
+        <div className="flex items-center justify-between gap-4">
+          <span className="text-sm" style={{ color: 'var(--text-secondary)' }}>
+            {report
+              ? `${report.distinctOpenings} distinct openings across ${report.withOpening} summaries · ${report.repeated.length} repeated`
+              : 'Loading openings...'}
+          </span>
+          <button onClick={() => void load()} disabled={loading} className="btn btn-outline">
+            <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} /> Refresh
+          </button>
+        </div>
+
+        {report && report.repeated.length === 0 && (
+          <span className="text-sm" style={{ color: 'var(--text-tertiary)' }}>
+            No repeated openings.
+          </span>
+        )}
+
+        {report?.repeated.map(group => (
+          <div
+            key={group.opening}
+            className="space-y-1 border-t pt-4"
+            style={{ borderColor: 'var(--border-primary)' }}
+          >
+            <div className="flex items-start justify-between gap-4 text-sm">
+              <span style={{ color: 'var(--text-primary)' }}>&ldquo;{group.opening}&rdquo;</span>
+              <span className="shrink-0 font-medium" style={{ color: 'var(--accent-primary)' }}>
+                {group.count}×
+              </span>
+            </div>
+            {group.variants.length > 0 && (
+              <ul className="list-disc pl-4 text-xs" style={{ color: 'var(--text-secondary)' }}>
+                {group.variants.map(variant => (
+                  <li key={variant}>{variant}</li>
+                ))}
+              </ul>
+            )}
+            <p className="text-xs" style={{ color: 'var(--text-tertiary)' }}>
+              {group.pokemon
+                .slice(0, MAX_LISTED_POKEMON)
+                .map(p => `#${formatPokemonId(p.id)} ${p.name}`)
+                .join(', ')}
+              {group.pokemon.length > MAX_LISTED_POKEMON &&
+                ` and ${group.pokemon.length - MAX_LISTED_POKEMON} more`}
+            </p>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -20,9 +20,13 @@ import {
 } from 'lucide-react';
 import {
   StoredSummary,
+  SummaryValidationReport,
   AudioLogMetadata,
   getAudioLog,
   saveSummary,
+  getSummaryCandidates,
+  promoteSummaryCandidate,
+  SummaryCandidate,
 } from '../services/storageService';
 import { formatPokemonId } from '../utils/pokemonUtils';
 import { mp3ToUrl } from '../services/audioUtils';
@@ -34,6 +38,8 @@ interface PokedexEntry {
   region: string;
   generationId: number;
   summary?: string;
+  summarySource?: string; // provider and model that generated the summary
+  summaryValidation?: SummaryValidationReport | null;
   hasAudio: boolean;
   audioMeta?: {
     voice: string;
@@ -146,6 +152,130 @@ const LazyAudioPlayer: React.FC<LazyAudioPlayerProps> = ({ pokemonId }) => {
   );
 };
 
+const SummaryQuality: React.FC<{ validation: SummaryValidationReport }> = ({ validation }) => {
+  const passed = validation.rules.filter(r => r.passed).length;
+  const failed = validation.rules.filter(r => !r.passed);
+
+  return (
+    <div className="mt-1 text-xs" style={{ color: 'var(--text-tertiary)' }}>
+      <p>
+        Quality checks: {passed}/{validation.rules.length} passed
+        {validation.attempts > 1 && ` after ${validation.attempts} attempts`}
+      </p>
+      {failed.length > 0 && (
+        <ul className="mt-1 list-disc pl-4" style={{ color: 'var(--accent-warning)' }}>
+          {failed.map(r => (
+            <li key={r.rule}>{r.detail}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+interface SummaryCandidatesProps {
+  pokemonId: number;
+  activeSummary: string;
+  onPromoted: () => void;
+}
+
+/**
+ * Ranked drafts from a multi-candidate job, any of which can replace the
+ * active summary. Renders nothing for Pokémon without candidates.
+ */
+const SummaryCandidates: React.FC<SummaryCandidatesProps> = ({
+  pokemonId,
+  activeSummary,
+  onPromoted,
+}) => {
+  const [candidates, setCandidates] = useState<SummaryCandidate[]>([]);
+  const [isOpen, setIsOpen] = useState(false);
+  const [promotingId, setPromotingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    getSummaryCandidates(pokemonId)
+      .then(setCandidates)
+      .catch(e => console.error('Failed to load summary candidates:', e));
+  }, [pokemonId]);
+
+  const promote = async (candidate: SummaryCandidate) => {
+    setPromotingId(candidate.id);
+    try {
+      await promoteSummaryCandidate(pokemonId, candidate.id);
+      setCandidates(await getSummaryCandidates(pokemonId));
+      onPromoted();
+    } catch (e) {
+      console.error('Failed to promote summary candidate:', e);
+      alert('Failed to use this candidate. Please try again.');
+    } finally {
+      setPromotingId(null);
+    }
+  };
+
+  if (candidates.length === 0) return null;
+
+  return (
+    <div className="mt-2">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className="flex items-center gap-1 text-xs font-semibold"
+        style={{ color: 'var(--text-secondary)' }}
+      >
+        {isOpen ? <ChevronUp className="h-3 w-3" /> : <ChevronDown className="h-3 w-3" />}
+        {candidates.length} candidates
+      </button>
+      {isOpen && (
+        <div className="mt-2 space-y-2">
+          {candidates.map(candidate => {
+            const isActive = candidate.summary === activeSummary;
+            const passed = candidate.validation.rules.filter(r => r.passed).length;
+            return (
+              <div
+                key={candidate.id}
+                className="rounded-lg p-3"
+                style={{ background: 'var(--bg-secondary)' }}
+              >
+                <div
+                  className="mb-1 flex items-center justify-between gap-2 text-xs"
+                  style={{ color: 'var(--text-tertiary)' }}
+                >
+                  <span>
+                    #{candidate.rank} · {passed}/{candidate.validation.rules.length} checks ·{' '}
+                    {Math.round(candidate.openingSimilarity * 100)}% opening overlap
+                  </span>
+                  {isActive ? (
+                    <span
+                      className="flex items-center gap-1 font-semibold"
+                      style={{ color: 'var(--accent-secondary)' }}
+                    >
+                      <Check className="h-3 w-3" /> Active
+                    </span>
+                  ) : (
+                    <button
+                      onClick={() => promote(candidate)}
+                      disabled={promotingId !== null}
+                      className="font-semibold disabled:opacity-50"
+                      style={{ color: 'var(--accent-secondary)' }}
+                    >
+                      {promotingId === candidate.id ? 'Saving...' : 'Use this one'}
+                    </button>
+                  )}
+                </div>
+                <p
+                  className="text-xs leading-relaxed whitespace-pre-line"
+                  style={{ color: 'var(--text-secondary)' }}
+                >
+                  {candidate.summary}
+                </p>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
 interface CachedPokemonData {
   id: number;
   imagePngPath?: string | null;
@@ -261,6 +391,8 @@ export const PokedexLibraryView: React.FC<PokedexLibraryViewProps> = ({
         region: cached?.region || s.region,
         generationId: cached?.generationId || s.generationId,
         summary: s.summary,
+        summarySource: s.provider ? `${s.provider} · ${s.model}` : undefined,
+        summaryValidation: s.validation,
         hasAudio: false,
       });
     });
@@ -1011,6 +1143,21 @@ export const PokedexLibraryView: React.FC<PokedexLibraryViewProps> = ({
                         style={{ color: 'var(--text-primary)' }}
                       />
                     )}
+                    {isExpanded && !isEditingSummary && entry.summarySource && (
+                      <p className="mt-2 text-xs" style={{ color: 'var(--text-tertiary)' }}>
+                        Generated by {entry.summarySource}
+                      </p>
+                    )}
+                    {isExpanded && !isEditingSummary && entry.summaryValidation && (
+                      <SummaryQuality validation={entry.summaryValidation} />
+                    )}
+                    {isExpanded && !isEditingSummary && entry.summary && (
+                      <SummaryCandidates
+                        pokemonId={entry.id}
+                        activeSummary={entry.summary}
+                        onPromoted={onRefresh}
+                      />
+                    )}
                     <button
                       onClick={() => toggleExpand(entry.id)}
                       className="mt-2 flex items-center gap-1 text-xs font-semibold transition-colors"
@@ -2,6 +2,8 @@ import React, { useState, useEffect } from 'react';
 import Image from 'next/image';
 import { CooldownState } from '../types';
 import { POKEBALL_IMAGE, getRandomFlavorText } from '../constants';
+import { JobMetrics } from '../services/jobsService';
+import { formatDuration } from '../utils/scheduleUtils';
 
 interface ProcessingOverlayProps {
   progress: {
@@ -14,6 +16,7 @@ interface ProcessingOverlayProps {
     currentPokemonImage?: string;
   };
   cooldown: CooldownState | null;
+  metrics: JobMetrics | null;
   currentSummary: string | null;
   isPaused: boolean;
   onPause: () => void;
@@ -24,6 +27,7 @@ interface ProcessingOverlayProps {
 export const ProcessingOverlay: React.FC<ProcessingOverlayProps> = ({
   progress,
   cooldown,
+  metrics,
   currentSummary,
   isPaused,
   onPause,
@@ -152,6 +156,22 @@ export const ProcessingOverlay: React.FC<ProcessingOverlayProps> = ({
               {progress.current} / {progress.total}
             </span>
           </div>
+          {metrics && !isPaused && (
+            <div
+              className="mt-2 flex justify-between text-xs"
+              style={{ color: 'var(--text-tertiary)' }}
+              title={`Averaged over the last ${metrics.sampleSize} Pokémon`}
+            >
+              <span>
+                ~{formatDuration(metrics.remainingMs)} remaining, finishing at{' '}
+                {new Date(metrics.finishesAt).toLocaleTimeString([], {
+                  hour: '2-digit',
+                  minute: '2-digit',
+                })}
+              </span>
+              <span>{metrics.itemsPerHour}/h</span>
+            </div>
+          )}
         </div>
 
         {/* Controls */}
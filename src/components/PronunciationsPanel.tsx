@@ -0,0 +1,248 @@
+import React, { useEffect, useState } from 'react';
+import { Sparkles, Trash2 } from 'lucide-react';
+import {
+  deletePronunciation,
+  getPronunciations,
+  Pronunciation,
+  PronunciationKind,
+  PRONUNCIATION_KIND_LABELS,
+  savePronunciation,
+  seedPronunciations,
+  updatePronunciation,
+} from '../services/pronunciationsService';
+import { useToast } from './ToastProvider';
+
+const ALL_KINDS = Object.keys(PRONUNCIATION_KIND_LABELS) as PronunciationKind[];
+
+// Rows shown at once; the search narrows the rest down
+const MAX_VISIBLE = 100;
+
+const PronunciationRow: React.FC<{
+  entry: Pronunciation;
+  onUpdate: (
+    entry: Pronunciation,
+    params: Partial<Pick<Pronunciation, 'kind' | 'phonetic'>>
+  ) => Promise<boolean>;
+  onDelete: (entry: Pronunciation) => Promise<void>;
+}> = ({ entry, onUpdate, onDelete }) => {
+  const [phonetic, setPhonetic] = useState(entry.phonetic);
+
+  const savePhonetic = () => {
+    const value = phonetic.trim();
+    if (value === entry.phonetic) return;
+    void onUpdate(entry, { phonetic: value }).then(saved => {
+      if (!saved) setPhonetic(entry.phonetic);
+    });
+  };
+
+  return (
+    <div className="flex items-center gap-3 text-sm">
+      <span className="w-40 shrink-0 truncate font-medium" style={{ color: 'var(--text-primary)' }}>
+        {entry.term}
+      </span>
+      <input
+        value={phonetic}
+        onChange={e => setPhonetic(e.target.value)}
+        onBlur={savePhonetic}
+        onKeyDown={e => e.key === 'Enter' && e.currentTarget.blur()}
+        className="input min-w-0 flex-1 font-mono"
+      />
+      <select
+        value={entry.kind}
+        onChange={e => void onUpdate(entry, { kind: e.target.value as PronunciationKind })}
+        className="select w-32"
+      >
+        {ALL_KINDS.map(kind => (
+          <option key={kind} value={kind}>
+            {PRONUNCIATION_KIND_LABELS[kind]}
+          </option>
+        ))}
+      </select>
+      <span
+        className="w-16 shrink-0 text-xs"
+        style={{ color: 'var(--text-tertiary)' }}
+        title={entry.source === 'summary' ? 'Seeded from a summary' : 'Added or edited by hand'}
+      >
+        {entry.source}
+      </span>
+      <button
+        onClick={() => void onDelete(entry)}
+        className="btn btn-outline"
+        title="Delete pronunciation"
+      >
+        <Trash2 className="h-4 w-4" />
+      </button>
+    </div>
+  );
+};
+
+export const PronunciationsPanel: React.FC = () => {
+  const { showToast } = useToast();
+  const [entries, setEntries] = useState<Pronunciation[]>([]);
+  const [search, setSearch] = useState('');
+  const [newTerm, setNewTerm] = useState('');
+  const [newPhonetic, setNewPhonetic] = useState('');
+  const [newKind, setNewKind] = useState<PronunciationKind>('pokemon');
+  const [saving, setSaving] = useState(false);
+  const [seeding, setSeeding] = useState(false);
+
+  const load = async () => {
+    try {
+      setEntries(await getPronunciations());
+    } catch (error) {
+      console.error('Failed to load pronunciations:', error);
+    }
+  };
+
+  useEffect(() => {
+    void load();
+  }, []);
+
+  const showError = (title: string, error: unknown) => {
+    const msg = error instanceof Error ? error.message : String(error);
+    showToast({ variant: 'error', title, description: msg, durationMs: 6500 });
+  };
+
+  const handleAdd = async () => {
+    setSaving(true);
+    try {
+      await savePronunciation({
+        term: newTerm.trim(),
+        phonetic: newPhonetic.trim(),
+        kind: newKind,
+      });
+      setNewTerm('');
+      setNewPhonetic('');
+      await load();
+      showToast({ variant: 'success', title: 'Pronunciation saved' });
+    } catch (error) {
+      showError('Could not save pronunciation', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleUpdate = async (
+    entry: Pronunciation,
+    params: Partial<Pick<Pronunciation, 'kind' | 'phonetic'>>
+  ) => {
+    try {
+      const updated = await updatePronunciation(entry.id, params);
+      setEntries(current => current.map(e => (e.id === updated.id ? updated : e)));
+      return true;
+    } catch (error) {
+      showError('Could not update pronunciation', error);
+      return false;
+    }
+  };
+
+  const handleDelete = async (entry: Pronunciation) => {
+    try {
+      await deletePronunciation(entry.id);
+      setEntries(current => current.filter(e => e.id !== entry.id));
+    } catch (error) {
+      showError('Could not delete pronunciation', error);
+    }
+  };
+
+  const handleSeed = async () => {
+    setSeeding(true);
+    try {
+      const { found, added } = await seedPronunciations();
+      await load();
+      showToast({
+        variant: 'success',
+        title: `Added ${added} pronunciation${added === 1 ? '' : 's'}`,
+        description: `${found} names with a phonetic hint found in summaries; existing entries were kept.`,
+      });
+    } catch (error) {
+      showError('Could not seed pronunciations', error);
+    } finally {
+      setSeeding(false);
+    }
+  };
+
+  const query = search.trim().toLowerCase();
+  const matching = query
+    ? entries.filter(
+        e => e.term.toLowerCase().includes(query) || e.phonetic.toLowerCase().includes(query)
+      )
+    : entries;
+
+  return (
+    <div className="card-elevated overflow-hidden">
+      <div className="flex flex-col gap-4 p-6">
+        <div className="flex items-center justify-between gap-4">
+          <input
+            value={search}
+            onChange={e => setSearch(e.target.value)}
+            placeholder={`Search ${entries.length} names...`}
+            className="input max-w-xs flex-1"
+          />
+          <button
+            onClick={() => void handleSeed()}
+            disabled={seeding}
+            className="btn btn-outline disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            <Sparkles className="h-4 w-4" /> {seeding ? 'Seeding...' : 'Seed from Summaries'}
+          </button>
+        </div>
+
+        {matching.length === 0 && (
+          <span className="text-sm" style={{ color: 'var(--text-tertiary)' }}>
+            {entries.length === 0 ? 'No pronunciations yet.' : 'No names match the search.'}
+          </span>
+        )}
+
+        <div className="max-h-96 space-y-2 overflow-y-auto">
+          {matching.slice(0, MAX_VISIBLE).map(entry => (
+            <PronunciationRow
+              key={entry.id}
+              entry={entry}
+              onUpdate={handleUpdate}
+              onDelete={handleDelete}
+            />
+          ))}
+        </div>
+        {matching.length > MAX_VISIBLE && (
+          <span className="text-xs" style={{ color: 'var(--text-tertiary)' }}>
+            Showing {MAX_VISIBLE} of {matching.length}; search to narrow the list.
+          </span>
+        )}
+
+        <div className="flex gap-3 border-t pt-4" style={{ borderColor: 'var(--border-primary)' }}>
+          <input
+            value={newTerm}
+            onChange={e => setNewTerm(e.target.value)}
+            placeholder="Gyarados"
+            className="input w-40"
+          />
+          <input
+            value={newPhonetic}
+            onChange={e => setNewPhonetic(e.target.value)}
+            placeholder="GARE-uh-dos"
+            className="input min-w-0 flex-1 font-mono"
+          />
+          <select
+            value={newKind}
+            onChange={e => setNewKind(e.target.value as PronunciationKind)}
+            className="select w-32"
+          >
+            {ALL_KINDS.map(kind => (
+              <option key={kind} value={kind}>
+                {PRONUNCIATION_KIND_LABELS[kind]}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={() => void handleAdd()}
+            disabled={saving || !newTerm.trim() || !newPhonetic.trim()}
+            className="btn btn-primary disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Add'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
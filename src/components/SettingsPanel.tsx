@@ -0,0 +1,157 @@
+import React, { useEffect, useState } from 'react';
+import { Pencil } from 'lucide-react';
+import {
+  getSettings,
+  updateSettings,
+  resetSettings,
+  RuntimeSettings,
+  SettingKey,
+  SettingsState,
+} from '../services/settingsService';
+import { useToast } from './ToastProvider';
+
+type DraftValues = Record<SettingKey, string>;
+
+const toDraft = (values: RuntimeSettings): DraftValues =>
+  Object.fromEntries(Object.entries(values).map(([k, v]) => [k, String(v)])) as DraftValues;
+
+export const SettingsPanel: React.FC = () => {
+  const { showToast } = useToast();
+  const [state, setState] = useState<SettingsState | null>(null);
+  const [draft, setDraft] = useState<DraftValues | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const applyState = (next: SettingsState) => {
+    setState(next);
+    setDraft(toDraft(next.values));
+  };
+
+  useEffect(() => {
+    getSettings()
+      .then(applyState)
+      .catch(error => console.error('Failed to load settings:', error));
+  }, []);
+
+  if (!state || !draft) {
+    return (
+      <div className="card-elevated p-6 text-sm" style={{ color: 'var(--text-tertiary)' }}>
+        Loading settings...
+      </div>
+    );
+  }
+
+  const { schema } = state;
+
+  const changedValues = (): Partial<RuntimeSettings> => {
+    const changed: Record<string, unknown> = {};
+    for (const key of Object.keys(schema) as SettingKey[]) {
+      if (draft[key] === String(state.values[key])) continue;
+      changed[key] = schema[key].type === 'integer' ? Number(draft[key]) : draft[key];
+    }
+    return changed as Partial<RuntimeSettings>;
+  };
+
+  const handleSave = async () => {
+    const changed = changedValues();
+    if (Object.keys(changed).length === 0) return;
+
+    setSaving(true);
+    try {
+      applyState(await updateSettings(changed));
+      showToast({
+        variant: 'success',
+        title: 'Settings saved',
+        description: 'Running jobs pick up the new values on their next Pokémon.',
+      });
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      showToast({ variant: 'error', title: 'Save failed', description: msg, durationMs: 6500 });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleResetAll = async () => {
+    setSaving(true);
+    try {
+      applyState(await resetSettings());
+      showToast({ variant: 'success', title: 'Settings reset to defaults' });
+    } catch (error) {
+      console.error('Failed to reset settings:', error);
+      showToast({
+        variant: 'error',
+        title: 'Reset failed',
+        description: 'Could not reset settings. Please try again.',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="card-elevated overflow-hidden">
+      <div className="grid grid-cols-1 gap-5 p-6 md:grid-cols-2">
+        {(Object.keys(schema) as SettingKey[]).map(key => {
+          const definition = schema[key];
+          const isOverridden = state.overridden.includes(key);
+
+          return (
+            <div key={key} className="space-y-2">
+              <label
+                className="flex items-center gap-2 text-xs font-semibold tracking-wide uppercase"
+                style={{ color: 'var(--text-tertiary)' }}
+              >
+                {definition.label}
+                {isOverridden && <Pencil className="h-3 w-3" />}
+              </label>
+              {definition.options ? (
+                <select
+                  value={draft[key]}
+                  onChange={e => setDraft({ ...draft, [key]: e.target.value })}
+                  className="select"
+                >
+                  {definition.options.map(option => (
+                    <option key={option} value={option}>
+                      {option}
+                    </option>
+                  ))}
+                </select>
+              ) : (
+                <input
+                  type={definition.type === 'integer' ? 'number' : 'text'}
+                  min={definition.type === 'integer' ? definition.min : undefined}
+                  max={definition.type === 'integer' ? definition.max : undefined}
+                  value={draft[key]}
+                  onChange={e => setDraft({ ...draft, [key]: e.target.value })}
+                  className="input font-mono"
+                />
+              )}
+              <p className="text-xs" style={{ color: 'var(--text-tertiary)' }}>
+                {definition.description} Default: {String(state.defaults[key])}
+              </p>
+            </div>
+          );
+        })}
+      </div>
+      <div
+        className="flex items-center justify-end gap-3 border-t px-6 py-4"
+        style={{ borderColor: 'var(--border-primary)', background: 'var(--bg-secondary)' }}
+      >
+        <button
+          onClick={handleResetAll}
+          disabled={saving}
+          className="btn btn-outline disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          Reset All to Defaults
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="btn btn-primary disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          {saving ? 'Saving...' : 'Save Changes'}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,152 @@
+import React, { useEffect, useState } from 'react';
+import { RefreshCw } from 'lucide-react';
+import { getUsageReport, UsageBreakdown, UsageReport } from '../services/usageService';
+
+const PERIODS = [7, 30, 90];
+
+function formatCost(usage: UsageBreakdown): string {
+  const cost = `$${usage.estimatedCostUsd.toFixed(usage.estimatedCostUsd < 1 ? 4 : 2)}`;
+  return usage.unpricedCalls > 0 ? `${cost} + ${usage.unpricedCalls} unpriced` : cost;
+}
+
+function formatTokens(count: number): string {
+  return count >= 10000 ? `${(count / 1000).toFixed(1)}k` : String(count);
+}
+
+const UsageRow: React.FC<{ label: React.ReactNode; usage: UsageBreakdown }> = ({
+  label,
+  usage,
+}) => (
+  <div className="flex items-center justify-between gap-4 text-sm">
+    <span className="truncate" style={{ color: 'var(--text-primary)' }}>
+      {label}
+    </span>
+    <span className="shrink-0 text-right" style={{ color: 'var(--text-secondary)' }}>
+      {usage.calls} calls
+      {usage.failedCalls > 0 && ` (${usage.failedCalls} failed)`} ·{' '}
+      {formatTokens(usage.promptTokens)} in / {formatTokens(usage.outputTokens)} out ·{' '}
+      <span className="font-medium" style={{ color: 'var(--text-primary)' }}>
+        {formatCost(usage)}
+      </span>
+    </span>
+  </div>
+);
+
+const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <div className="space-y-2 border-t pt-4" style={{ borderColor: 'var(--border-primary)' }}>
+    <h3 className="text-xs font-semibold uppercase" style={{ color: 'var(--text-tertiary)' }}>
+      {title}
+    </h3>
+    {children}
+  </div>
+);
+
+export const UsageReportPanel: React.FC = () => {
+  const [days, setDays] = useState(30);
+  const [report, setReport] = useState<UsageReport | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const load = async (period: number) => {
+    setLoading(true);
+    try {
+      setReport(await getUsageReport(period));
+    } catch (error) {
+      console.error('Failed to load usage report:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    void load(days);
+  }, [days]);
+
+  return (
+    <div className="card-elevated overflow-hidden">
+      <div className="flex flex-col gap-4 p-6">
+        <div className="flex items-center justify-between gap-4">
+          <span className="text-sm" style={{ color: 'var(--text-secondary)' }}>
+            {report
+              ? `${report.totals.calls} calls since ${report.since} · ${report.totals.retries} retries · ${report.totals.fallbacks} fallbacks · avg ${(report.totals.avgLatencyMs / 1000).toFixed(1)}s`
+              : 'Loading usage...'}
+          </span>
+          <div className="flex gap-3">
+            <select value={days} onChange={e => setDays(Number(e.target.value))} className="select">
+              {PERIODS.map(p => (
+                <option key={p} value={p}>
+                  Last {p} days
+                </option>
+              ))}
+            </select>
+            <button onClick={() => void load(days)} disabled={loading} className="btn btn-outline">
+              <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} /> Refresh
+            </button>
+          </div>
+        </div>
+
+        {report && report.totals.calls === 0 && (
+          <span className="text-sm" style={{ color: 'var(--text-tertiary)' }}>
+            No API calls in this period.
+          </span>
+        )}
+
+        {report && report.totals.calls > 0 && (
+          <>
+            <UsageRow label={<strong>Total</strong>} usage={report.totals} />
+
+            <Section title="By model">
+              {report.byModel.map(row => (
+                <UsageRow
+                  key={row.model}
+                  label={
+                    <span className="font-mono">
+                      {row.model}
+                      <span
+                        className="ml-2 text-xs uppercase"
+                        style={{ color: 'var(--text-tertiary)' }}
+                      >
+                        {row.kind}
+                      </span>
+                    </span>
+                  }
+                  usage={row}
+                />
+              ))}
+            </Section>
+
+            <Section title="By job">
+              {report.byJob.map(row => (
+                <UsageRow
+                  key={row.jobId ?? 'none'}
+                  label={
+                    row.jobId ? (
+                      <span className="font-mono">{row.jobId.slice(0, 8)}</span>
+                    ) : (
+                      'Outside jobs'
+                    )
+                  }
+                  usage={row}
+                />
+              ))}
+            </Section>
+
+            <Section title="By day">
+              <div className="max-h-72 space-y-2 overflow-y-auto">
+                {[...report.byDay].reverse().map(row => (
+                  <UsageRow key={row.day} label={row.day} usage={row} />
+                ))}
+              </div>
+            </Section>
+
+            {report.unpricedModels.length > 0 && (
+              <p className="text-xs" style={{ color: 'var(--text-tertiary)' }}>
+                No price configured for {report.unpricedModels.join(', ')}; their calls are counted
+                but not costed.
+              </p>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
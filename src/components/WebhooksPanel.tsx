@@ -0,0 +1,225 @@
+import React, { useEffect, useState } from 'react';
+import { RefreshCw, Trash2 } from 'lucide-react';
+import {
+  createWebhook,
+  deleteWebhook,
+  getWebhookDeliveries,
+  getWebhooks,
+  updateWebhook,
+  Webhook,
+  WebhookDelivery,
+  WebhookEvent,
+  WEBHOOK_EVENT_LABELS,
+} from '../services/webhooksService';
+import { useToast } from './ToastProvider';
+
+const ALL_EVENTS = Object.keys(WEBHOOK_EVENT_LABELS) as WebhookEvent[];
+
+const DELIVERY_STATUS_COLORS: Record<WebhookDelivery['status'], string> = {
+  pending: 'var(--text-tertiary)',
+  succeeded: '#16a34a',
+  failed: '#dc2626',
+};
+
+export const WebhooksPanel: React.FC = () => {
+  const { showToast } = useToast();
+  const [webhooks, setWebhooks] = useState<Webhook[]>([]);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [newUrl, setNewUrl] = useState('');
+  const [newEvents, setNewEvents] = useState<WebhookEvent[]>(['job.completed', 'job.failed']);
+  const [saving, setSaving] = useState(false);
+
+  const load = async () => {
+    try {
+      const [hooks, log] = await Promise.all([getWebhooks(), getWebhookDeliveries()]);
+      setWebhooks(hooks);
+      setDeliveries(log);
+    } catch (error) {
+      console.error('Failed to load webhooks:', error);
+    }
+  };
+
+  useEffect(() => {
+    void load();
+  }, []);
+
+  const showError = (title: string, error: unknown) => {
+    const msg = error instanceof Error ? error.message : String(error);
+    showToast({ variant: 'error', title, description: msg, durationMs: 6500 });
+  };
+
+  const toggleNewEvent = (event: WebhookEvent) => {
+    setNewEvents(current =>
+      current.includes(event) ? current.filter(e => e !== event) : [...current, event]
+    );
+  };
+
+  const handleAdd = async () => {
+    setSaving(true);
+    try {
+      const created = await createWebhook({ url: newUrl.trim(), events: newEvents });
+      setNewUrl('');
+      await load();
+      showToast({
+        variant: 'success',
+        title: 'Webhook added',
+        description: `Signing secret: ${created.secret}. Copy it now; it won't be shown again.`,
+        durationMs: 30000,
+      });
+    } catch (error) {
+      showError('Could not add webhook', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleUpdate = async (
+    webhook: Webhook,
+    params: Partial<Pick<Webhook, 'events' | 'enabled'>>
+  ) => {
+    try {
+      const updated = await updateWebhook(webhook.id, params);
+      setWebhooks(current => current.map(w => (w.id === updated.id ? updated : w)));
+    } catch (error) {
+      showError('Could not update webhook', error);
+    }
+  };
+
+  const handleDelete = async (webhook: Webhook) => {
+    try {
+      await deleteWebhook(webhook.id);
+      await load();
+    } catch (error) {
+      showError('Could not delete webhook', error);
+    }
+  };
+
+  const toggleEvent = (webhook: Webhook, event: WebhookEvent) => {
+    const events = webhook.events.includes(event)
+      ? webhook.events.filter(e => e !== event)
+      : [...webhook.events, event];
+    if (events.length === 0) return;
+    void handleUpdate(webhook, { events });
+  };
+
+  const urlFor = (webhookId: string) => webhooks.find(w => w.id === webhookId)?.url ?? webhookId;
+
+  return (
+    <div className="card-elevated overflow-hidden">
+      <div className="flex flex-col gap-6 p-6">
+        {webhooks.length === 0 && (
+          <span className="text-sm" style={{ color: 'var(--text-tertiary)' }}>
+            No webhooks registered.
+          </span>
+        )}
+
+        {webhooks.map(webhook => (
+          <div key={webhook.id} className="space-y-2">
+            <div className="flex items-center justify-between gap-4">
+              <label
+                className="flex min-w-0 items-center gap-2 text-sm font-medium"
+                style={{ color: 'var(--text-primary)' }}
+              >
+                <input
+                  type="checkbox"
+                  checked={webhook.enabled}
+                  onChange={e => void handleUpdate(webhook, { enabled: e.target.checked })}
+                />
+                <span className="truncate font-mono">{webhook.url}</span>
+              </label>
+              <button
+                onClick={() => void handleDelete(webhook)}
+                className="btn btn-outline"
+                title="Delete webhook"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </div>
+            <div
+              className="flex flex-wrap gap-4 text-xs"
+              style={{ color: 'var(--text-secondary)' }}
+            >
+              {ALL_EVENTS.map(event => (
+                <label key={event} className="flex items-center gap-1">
+                  <input
+                    type="checkbox"
+                    checked={webhook.events.includes(event)}
+                    onChange={() => toggleEvent(webhook, event)}
+                  />
+                  {WEBHOOK_EVENT_LABELS[event]}
+                </label>
+              ))}
+            </div>
+            <p className="font-mono text-xs break-all" style={{ color: 'var(--text-tertiary)' }}>
+              Secret: {webhook.secret}
+            </p>
+          </div>
+        ))}
+
+        <div className="space-y-2 border-t pt-6" style={{ borderColor: 'var(--border-primary)' }}>
+          <div className="flex gap-3">
+            <input
+              type="url"
+              value={newUrl}
+              onChange={e => setNewUrl(e.target.value)}
+              placeholder="https://discord.com/api/webhooks/..."
+              className="input flex-1 font-mono"
+            />
+            <button
+              onClick={() => void handleAdd()}
+              disabled={saving || !newUrl.trim() || newEvents.length === 0}
+              className="btn btn-primary disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              {saving ? 'Adding...' : 'Add Webhook'}
+            </button>
+          </div>
+          <div className="flex flex-wrap gap-4 text-xs" style={{ color: 'var(--text-secondary)' }}>
+            {ALL_EVENTS.map(event => (
+              <label key={event} className="flex items-center gap-1">
+                <input
+                  type="checkbox"
+                  checked={newEvents.includes(event)}
+                  onChange={() => toggleNewEvent(event)}
+                />
+                {WEBHOOK_EVENT_LABELS[event]}
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-2 border-t pt-6" style={{ borderColor: 'var(--border-primary)' }}>
+          <div className="flex items-center justify-between">
+            <h3 className="text-sm font-semibold" style={{ color: 'var(--text-primary)' }}>
+              Recent Deliveries
+            </h3>
+            <button onClick={() => void load()} className="btn btn-outline">
+              <RefreshCw className="h-4 w-4" /> Refresh
+            </button>
+          </div>
+          {deliveries.length === 0 && (
+            <span className="text-sm" style={{ color: 'var(--text-tertiary)' }}>
+              No deliveries yet.
+            </span>
+          )}
+          {deliveries.map(delivery => (
+            <div key={delivery.id} className="flex items-center justify-between gap-4 text-xs">
+              <span className="min-w-0 truncate" style={{ color: 'var(--text-secondary)' }}>
+                {new Date(delivery.createdAt).toLocaleString()} · {delivery.event} ·{' '}
+                <span className="font-mono">{urlFor(delivery.webhookId)}</span>
+              </span>
+              <span
+                className="shrink-0 font-medium"
+                style={{ color: DELIVERY_STATUS_COLORS[delivery.status] }}
+                title={delivery.lastError ?? undefined}
+              >
+                {delivery.status}
+                {delivery.responseStatus !== null && ` (${delivery.responseStatus})`} ·{' '}
+                {delivery.attempts} attempt{delivery.attempts === 1 ? '' : 's'}
+              </span>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
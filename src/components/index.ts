@@ -4,6 +4,7 @@ export { GenerationView } from './GenerationView';
 export { LibraryView } from './LibraryView';
 export { PokedexLibraryView } from './PokedexLibraryView';
 export { AdminView } from './AdminView';
+export { JobsView } from './JobsView';
 export { ProcessingOverlay } from './ProcessingOverlay';
 export { ResultsView } from './ResultsView';
 export { ToastProvider, useToast } from './ToastProvider';
@@ -6,15 +6,6 @@
 export const POKEBALL_IMAGE =
   'https://raw.githubusercontent.com/PokeAPI/sprites/master/sprites/items/poke-ball.png';
 
-/** Available prebuilt Gemini voice profiles for TTS. */
-export const VOICE_OPTIONS = [
-  { id: 'Kore', name: 'Kore (Sophisticated)', gender: 'Female' },
-  { id: 'Zephyr', name: 'Zephyr (Professional)', gender: 'Female' },
-  { id: 'Charon', name: 'Charon (Resonant)', gender: 'Male' },
-  { id: 'Puck', name: 'Puck (Youthful)', gender: 'Male' },
-  { id: 'Fenrir', name: 'Fenrir (Rugged)', gender: 'Male' },
-];
-
 /** Flavor text snippets shown during cooldown periods. */
 export const COOLDOWN_FLAVOR_TEXTS = [
   'The Pokédex is recalibrating its sensor array...',
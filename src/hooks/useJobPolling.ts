@@ -1,5 +1,6 @@
 import { useState, useRef, useEffect, useCallback } from 'react';
-import { getJob } from '@/services/jobsService';
+import { getJob, ProcessingJob, JobDetails, JobMetrics, JobStatus } from '@/services/jobsService';
+import type { JobEvent } from '@/lib/server/jobEvents';
 import { useToast } from '@/components/ToastProvider';
 import {
   getSummariesByGeneration,
@@ -11,12 +12,15 @@ import { ProcessedPokemon, CooldownState } from '@/types';
 interface UseJobPollingProps {
   onJobComplete?: (
     results: ProcessedPokemon[],
-    mode: 'FULL' | 'SUMMARY_ONLY' | 'AUDIO_ONLY'
+    mode: 'FULL' | 'SUMMARY_ONLY' | 'AUDIO_ONLY',
+    job: ProcessingJob
   ) => void;
-  onJobFailed?: (error: string) => void;
+  onJobFailed?: (error: string, jobId: string) => void;
   onJobCanceled?: () => void;
 }
 
+const TERMINAL_STATUSES: JobStatus[] = ['completed', 'completed_with_errors', 'failed', 'canceled'];
+
 interface ProgressState {
   current: number;
   total: number;
@@ -43,6 +47,7 @@ export function useJobPolling({
     stage: 'summary',
   });
   const [cooldown, setCooldown] = useState<CooldownState | null>(null);
+  const [metrics, setMetrics] = useState<JobMetrics | null>(null);
   const pollTimer = useRef<number | null>(null);
   const pokemonDataCache = useRef<Map<number, { imageUrl?: string; displayName?: string }>>(
     new Map()
@@ -152,116 +157,213 @@ export function useJobPolling({
     return results;
   };
 
+  // Keep the latest callbacks in refs so re-renders don't reopen the event stream
+  const callbacksRef = useRef({ onJobComplete, onJobFailed, onJobCanceled });
+  useEffect(() => {
+    callbacksRef.current = { onJobComplete, onJobFailed, onJobCanceled };
+  }, [onJobComplete, onJobFailed, onJobCanceled]);
+
   useEffect(() => {
     if (!activeJobId) {
       clearPoll();
       return;
     }
 
-    const poll = async () => {
-      try {
-        const job = await getJob(activeJobId);
-
-        setIsProcessing(
-          job.status === 'queued' || job.status === 'running' || job.status === 'paused'
-        );
-        setIsPaused(job.status === 'paused');
-
-        // Get current Pokemon ID from the pokemonIds array
-        const currentPokemonId = job.pokemonIds[job.current] || job.pokemonIds[job.current - 1];
-
-        // Determine if we're in cooldown
-        let isInCooldown = false;
-        if (job.cooldownUntil) {
-          const remainingMs = Math.max(0, new Date(job.cooldownUntil).getTime() - Date.now());
-          if (remainingMs > 0) {
-            isInCooldown = true;
-            setCooldown({ active: true, remainingMs, flavorText: '' });
-          } else {
-            setCooldown(null);
-          }
+    let finished = false;
+    let latestJob: JobDetails | null = null;
+    let eventSource: EventSource | null = null;
+    let countdownTimer: number | null = null;
+
+    const stopAll = () => {
+      finished = true;
+      clearPoll();
+      eventSource?.close();
+      eventSource = null;
+      if (countdownTimer) {
+        window.clearInterval(countdownTimer);
+        countdownTimer = null;
+      }
+    };
+
+    const handleJob = async (job: JobDetails) => {
+      if (finished) return;
+
+      setMetrics(job.metrics);
+
+      setIsProcessing(
+        job.status === 'queued' || job.status === 'running' || job.status === 'paused'
+      );
+      setIsPaused(job.status === 'paused');
+
+      // Get current Pokemon ID from the pokemonIds array
+      const currentPokemonId = job.pokemonIds[job.current] || job.pokemonIds[job.current - 1];
+
+      // Determine if we're in cooldown
+      let isInCooldown = false;
+      if (job.cooldownUntil) {
+        const remainingMs = Math.max(0, new Date(job.cooldownUntil).getTime() - Date.now());
+        if (remainingMs > 0) {
+          isInCooldown = true;
+          setCooldown({ active: true, remainingMs, flavorText: '' });
         } else {
           setCooldown(null);
         }
+      } else {
+        setCooldown(null);
+      }
 
-        // Fetch Pokemon data (only if not in cooldown)
-        let currentPokemonImage: string | undefined;
-        let currentPokemonName: string | undefined;
-        if (currentPokemonId && !isInCooldown) {
-          const pokemonData = await fetchPokemonData(currentPokemonId);
-          currentPokemonImage = pokemonData.imageUrl;
-          // Prefer displayName from cache, fall back to message extraction
-          currentPokemonName = pokemonData.displayName || extractPokemonName(job.message);
-        }
+      // Fetch Pokemon data (only if not in cooldown)
+      let currentPokemonImage: string | undefined;
+      let currentPokemonName: string | undefined;
+      if (currentPokemonId && !isInCooldown) {
+        const pokemonData = await fetchPokemonData(currentPokemonId);
+        currentPokemonImage = pokemonData.imageUrl;
+        // Prefer displayName from cache, fall back to message extraction
+        currentPokemonName = pokemonData.displayName || extractPokemonName(job.message);
+      }
+      if (finished) return;
+
+      setProgress({
+        current: job.current,
+        total: job.total,
+        message: job.message,
+        stage: job.stage,
+        currentPokemonId: isInCooldown ? undefined : currentPokemonId,
+        currentPokemonName: isInCooldown ? undefined : currentPokemonName,
+        currentPokemonImage: isInCooldown ? undefined : currentPokemonImage,
+      });
 
-        setProgress({
-          current: job.current,
-          total: job.total,
-          message: job.message,
-          stage: job.stage,
-          currentPokemonId: isInCooldown ? undefined : currentPokemonId,
-          currentPokemonName: isInCooldown ? undefined : currentPokemonName,
-          currentPokemonImage: isInCooldown ? undefined : currentPokemonImage,
+      if (job.status === 'failed') {
+        stopAll();
+        setActiveJobId(null);
+        setIsProcessing(false);
+        setCooldown(null);
+        const errorMsg = job.error || 'Something went wrong while processing your batch.';
+        showToast({
+          variant: 'error',
+          title: 'Job failed',
+          description: errorMsg,
+          durationMs: 6500,
         });
+        callbacksRef.current.onJobFailed?.(errorMsg, job.id);
+      }
 
-        if (job.status === 'failed') {
-          clearPoll();
-          setActiveJobId(null);
-          setIsProcessing(false);
-          setCooldown(null);
-          const errorMsg = job.error || 'Something went wrong while processing your batch.';
+      if (job.status === 'canceled') {
+        stopAll();
+        setActiveJobId(null);
+        setIsProcessing(false);
+        setCooldown(null);
+        callbacksRef.current.onJobCanceled?.();
+      }
+
+      if (job.status === 'completed' || job.status === 'completed_with_errors') {
+        stopAll();
+        setActiveJobId(null);
+        setIsProcessing(false);
+        setCooldown(null);
+
+        if (job.status === 'completed_with_errors') {
           showToast({
-            variant: 'error',
-            title: 'Job failed',
-            description: errorMsg,
+            variant: 'warning',
+            title: 'Job finished with errors',
+            description: `${job.failedPokemonIds.length} Pokémon failed: ${job.failedPokemonIds
+              .map(id => `#${id}`)
+              .join(', ')}`,
             durationMs: 6500,
           });
-          onJobFailed?.(errorMsg);
         }
 
-        if (job.status === 'canceled') {
-          clearPoll();
-          setActiveJobId(null);
-          setIsProcessing(false);
-          setCooldown(null);
-          onJobCanceled?.();
-        }
-
-        if (job.status === 'completed') {
-          clearPoll();
-          setActiveJobId(null);
-          setIsProcessing(false);
-          setCooldown(null);
+        // Build results for all modes so they can be displayed in ResultsView
+        const results = await buildResultsForJob({
+          generationId: job.generationId,
+          pokemonIds: job.pokemonIds,
+          mode: job.mode,
+        });
 
-          // Build results for all modes so they can be displayed in ResultsView
-          const results = await buildResultsForJob({
-            generationId: job.generationId,
-            pokemonIds: job.pokemonIds,
-            mode: job.mode,
-          });
+        callbacksRef.current.onJobComplete?.(results, job.mode, job);
+      }
+    };
 
-          onJobComplete?.(results, job.mode);
-        }
+    const poll = async () => {
+      try {
+        await handleJob(await getJob(activeJobId));
       } catch (e) {
         console.error('Failed to poll job:', e);
       }
     };
 
-    void poll();
-    pollTimer.current = window.setInterval(poll, 1000);
+    const startPolling = () => {
+      if (finished || pollTimer.current) return;
+      void poll();
+      pollTimer.current = window.setInterval(poll, 1000);
+    };
+
+    const applyEvent = async (event: JobEvent) => {
+      if (event.type === 'status' && TERMINAL_STATUSES.includes(event.status)) {
+        // Terminal events need the full record (failed IDs, error) for the callbacks
+        await poll();
+        return;
+      }
+      if (!latestJob) return;
+
+      switch (event.type) {
+        case 'progress':
+          latestJob = {
+            ...latestJob,
+            stage: event.stage,
+            current: event.current,
+            total: event.total,
+            message: event.message,
+          };
+          break;
+        case 'cooldown':
+          latestJob = { ...latestJob, cooldownUntil: event.cooldownUntil };
+          break;
+        case 'stage':
+          latestJob = { ...latestJob, stage: event.stage };
+          break;
+        case 'status':
+          latestJob = { ...latestJob, status: event.status };
+          break;
+        case 'metrics':
+          latestJob = { ...latestJob, metrics: event.metrics };
+          break;
+      }
+      await handleJob(latestJob);
+    };
+
+    if (typeof EventSource === 'undefined') {
+      startPolling();
+    } else {
+      eventSource = new EventSource(`/api/jobs/${activeJobId}/events`);
+
+      eventSource.addEventListener('snapshot', e => {
+        latestJob = JSON.parse((e as MessageEvent<string>).data) as JobDetails;
+        void handleJob(latestJob);
+      });
+      for (const type of ['progress', 'cooldown', 'stage', 'status', 'metrics'] as const) {
+        eventSource.addEventListener(type, e => {
+          void applyEvent(JSON.parse((e as MessageEvent<string>).data) as JobEvent);
+        });
+      }
+
+      // Fall back to polling if the stream can't be opened or drops
+      eventSource.onerror = () => {
+        eventSource?.close();
+        eventSource = null;
+        startPolling();
+      };
+
+      // Events only arrive on change, so tick the cooldown countdown locally
+      countdownTimer = window.setInterval(() => {
+        if (eventSource && latestJob?.cooldownUntil) void handleJob(latestJob);
+      }, 1000);
+    }
 
     return () => {
-      clearPoll();
+      stopAll();
     };
-  }, [
-    activeJobId,
-    showToast,
-    onJobComplete,
-    onJobFailed,
-    onJobCanceled,
-    clearPoll,
-    fetchPokemonData,
-  ]);
+  }, [activeJobId, showToast, clearPoll, fetchPokemonData]);
 
   return {
     activeJobId,
@@ -270,6 +372,7 @@ export function useJobPolling({
     isPaused,
     progress,
     cooldown,
+    metrics,
     setIsProcessing,
     setCooldown,
   };
@@ -0,0 +1,22 @@
+import { useState, useEffect } from 'react';
+import { getVoiceCatalog, VoiceCatalog } from '@/services/voicesService';
+
+/**
+ * Voices offered by each TTS provider, or null until they have loaded.
+ */
+export function useVoiceCatalog() {
+  const [voiceCatalog, setVoiceCatalog] = useState<VoiceCatalog | null>(null);
+
+  useEffect(() => {
+    const init = async () => {
+      try {
+        setVoiceCatalog(await getVoiceCatalog());
+      } catch (error) {
+        console.error('Failed to load voice catalog:', error);
+      }
+    };
+    void init();
+  }, []);
+
+  return voiceCatalog;
+}
@@ -1,4 +1,33 @@
 import { VariantCategory } from '../../types';
+import type { AllowedWindow } from '../../utils/scheduleUtils';
+
+export type { AllowedWindow };
+
+/** LLM backends that can generate summaries. */
+export type SummaryProviderId = 'gemini' | 'openai-compatible';
+
+/** Speech engines that can synthesize audio logs. */
+export type TtsProviderId = 'gemini' | 'espeak-ng';
+
+/** Prompt rules a generated summary is checked against. */
+export type SummaryRuleId = 'opening' | 'length' | 'move-count' | 'known-moves' | 'pronunciation';
+
+export interface SummaryRuleResult {
+  rule: SummaryRuleId;
+  passed: boolean;
+  detail: string;
+}
+
+/** Quality check of a generated summary, stored alongside it. */
+export interface SummaryValidationReport {
+  passed: boolean;
+  score: number; // fraction of rules passed, 0-1
+  wordCount: number;
+  boldedMoves: string[];
+  rules: SummaryRuleResult[];
+  attempts: number; // generations made, including regenerations after failed checks
+  checkedAt: string;
+}
 
 export interface StoredSummary {
   id: number;
@@ -8,6 +37,9 @@ export interface StoredSummary {
   region: string;
   generationId: number;
   variantCategory?: VariantCategory;
+  provider: SummaryProviderId | null; // null for summaries saved by hand or before tracking
+  model: string | null;
+  validation: SummaryValidationReport | null; // null when not generated by a job
   createdAt: string;
   updatedAt: string;
 }
@@ -58,8 +90,35 @@ export interface SummaryInput {
   summary: string;
   region: string;
   generationId: number;
+  provider?: SummaryProviderId | null;
+  model?: string | null;
+  validation?: SummaryValidationReport | null;
+}
+
+/**
+ * One of several drafts generated for a Pokémon, ranked by quality and by how
+ * little its opening resembles the rest of the library. Only the latest batch
+ * per Pokémon is kept.
+ */
+export interface SummaryCandidate {
+  id: string;
+  pokemonId: number;
+  jobId: string | null;
+  name: string;
+  region: string;
+  generationId: number;
+  summary: string;
+  provider: SummaryProviderId;
+  model: string;
+  validation: SummaryValidationReport;
+  openingSimilarity: number; // closest match to another Pokémon's opening, 0-1
+  rank: number; // 1 = best
+  promoted: boolean; // currently the active summary
+  createdAt: string;
 }
 
+export type SummaryCandidateInput = Omit<SummaryCandidate, 'createdAt'>;
+
 export interface AudioLogInput {
   id: number;
   name: string;
@@ -101,7 +160,31 @@ export interface StoredPrompt {
 
 export type ProcessingStage = 'summary' | 'audio';
 
-export type JobStatus = 'queued' | 'running' | 'paused' | 'completed' | 'failed' | 'canceled';
+export type JobStatus =
+  | 'queued'
+  | 'running'
+  | 'paused'
+  | 'completed'
+  | 'completed_with_errors'
+  | 'failed'
+  | 'canceled';
+
+/**
+ * How a job reacts when a Pokémon exhausts its retries:
+ * - 'fail-fast' fails the whole job on the first failed item
+ * - 'skip-and-continue' records the failure and moves on
+ * - 'fail-after-N-errors' moves on until `maxErrors` items have failed
+ */
+export type FailurePolicy = 'fail-fast' | 'skip-and-continue' | 'fail-after-N-errors';
+
+/**
+ * Which Pokémon a job regenerates:
+ * - 'all' regenerates every Pokémon in the job
+ * - 'missing' skips Pokémon whose summary/audio already exists
+ * - 'outdated' also regenerates output older than the active prompt (and, for
+ *   audio, older than its summary or recorded with a different voice)
+ */
+export type RegeneratePolicy = 'all' | 'missing' | 'outdated';
 
 export interface ProcessingJob {
   id: string;
@@ -110,7 +193,8 @@ export interface ProcessingJob {
   mode: 'FULL' | 'SUMMARY_ONLY' | 'AUDIO_ONLY';
   generationId: number;
   region: string;
-  voice: string;
+  voice: string; // voice ID in the TTS provider's catalog
+  ttsProvider: TtsProviderId;
   pokemonIds: number[];
   total: number;
   current: number;
@@ -118,17 +202,153 @@ export interface ProcessingJob {
   cooldownUntil: string | null;
   error: string | null;
   retryCount: number;
+  failurePolicy: FailurePolicy;
+  maxErrors: number | null;
+  failedPokemonIds: number[];
+  regenerate: RegeneratePolicy;
+  summaryProvider: SummaryProviderId | null; // null = provider from settings
+  summaryModel: string | null; // null = that provider's model from settings
+  summaryCandidates: number; // drafts per Pokémon; the best-ranked becomes the summary
+  resumeAt: string | null; // auto-resume time for jobs paused by the runner (e.g. quota)
+  notBefore: string | null; // ISO timestamp; job is not claimed before this
+  allowedWindow: AllowedWindow | null; // recurring time-of-day window the job may run in
+  priority: number; // higher runs first; ties go to the oldest job
+  workerId: string | null; // worker that last claimed the job
+  leaseExpiresAt: string | null; // running jobs are re-queued once this passes
+  heartbeatAt: string | null; // last lease renewal by the owning worker
   createdAt: string;
   updatedAt: string;
 }
 
+/**
+ * Lease taken by a worker when it claims a job. The worker renews it with
+ * heartbeats; a running job whose lease lapses is considered stalled.
+ */
+export interface JobLease {
+  workerId: string;
+  leaseMs: number;
+}
+
+export type JobItemStatus = 'pending' | 'running' | 'succeeded' | 'failed' | 'skipped';
+
+/** Per-Pokémon, per-stage outcome record for a processing job. */
+export interface JobItem {
+  jobId: string;
+  pokemonId: number;
+  stage: ProcessingStage;
+  status: JobItemStatus;
+  attempts: number;
+  lastError: string | null;
+  startedAt: string | null;
+  finishedAt: string | null;
+  latencyMs: number; // LLM or TTS request time, summed over attempts
+  convertMs: number; // PCM to MP3 conversion (audio stage)
+  cooldownMs: number; // cooldown and retry backoff waited after the item
+  updatedAt: string;
+}
+
+/** Durations to add to a job item's recorded timings. */
+export type JobItemTimings = Partial<Pick<JobItem, 'latencyMs' | 'convertMs' | 'cooldownMs'>>;
+
+/** Filters and pagination for the job history listing. */
+export interface JobListQuery {
+  statuses?: JobStatus[];
+  mode?: ProcessingJob['mode'];
+  generationId?: number;
+  voice?: string;
+  createdFrom?: string; // ISO timestamp, inclusive
+  createdTo?: string; // ISO timestamp, inclusive
+  limit: number;
+  offset: number;
+}
+
+export interface JobListResult {
+  jobs: ProcessingJob[];
+  total: number;
+}
+
 export interface CreateJobInput {
   id: string;
   mode: ProcessingJob['mode'];
   generationId: number;
   region: string;
   voice: string;
+  ttsProvider: TtsProviderId;
   pokemonIds: number[];
+  failurePolicy: FailurePolicy;
+  maxErrors: number | null;
+  regenerate: RegeneratePolicy;
+  summaryProvider: SummaryProviderId | null;
+  summaryModel: string | null;
+  summaryCandidates: number;
+  notBefore: string | null;
+  allowedWindow: AllowedWindow | null;
+  priority: number;
+}
+
+/** Number of API requests made to a model on a given quota day. */
+export interface QuotaUsage {
+  model: string;
+  day: string; // YYYY-MM-DD in the quota reset timezone
+  requestCount: number;
+  updatedAt: string;
+}
+
+/** What a pronunciation entry names. */
+export type PronunciationKind = 'pokemon' | 'move' | 'region' | 'other';
+
+/** A name's phonetic spelling, used in summary prompts and TTS text. */
+export interface Pronunciation {
+  id: number;
+  term: string; // matched case-insensitively as whole words
+  kind: PronunciationKind;
+  phonetic: string; // syllables with the stressed one capitalised, e.g. GARE-uh-dos
+  source: 'manual' | 'summary'; // summary = seeded from a stored summary
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type PronunciationInput = Pick<Pronunciation, 'term' | 'kind' | 'phonetic' | 'source'>;
+
+export type ApiCallKind = 'summary' | 'tts';
+
+/**
+ * One logical model request. Retries and a TTS model fallback are folded into
+ * the same entry; `model` is the one that answered or was tried last.
+ */
+export interface ApiCallLog {
+  id: number;
+  kind: ApiCallKind;
+  provider: SummaryProviderId | TtsProviderId;
+  model: string;
+  day: string; // YYYY-MM-DD in the quota reset timezone
+  promptTokens: number | null; // null when the provider reported no usage
+  outputTokens: number | null;
+  latencyMs: number;
+  retries: number;
+  fallbackUsed: boolean;
+  success: boolean;
+  error: string | null;
+  jobId: string | null;
+  pokemonId: number | null;
+  createdAt: string;
+}
+
+export type ApiCallLogInput = Omit<ApiCallLog, 'id' | 'createdAt'>;
+
+/** API calls totalled per quota day, model and job. */
+export interface ApiCallTotals {
+  day: string;
+  kind: ApiCallKind;
+  model: string;
+  jobId: string | null;
+  calls: number;
+  failedCalls: number;
+  promptTokens: number;
+  outputTokens: number;
+  latencyMs: number;
+  retries: number;
+  fallbacks: number;
 }
 
 export interface PromptInput {
@@ -136,6 +356,71 @@ export interface PromptInput {
   content: string;
 }
 
+/** A runtime setting override; `value` is any JSON-serializable value. */
+export interface StoredSetting {
+  key: string;
+  value: unknown;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** Job lifecycle events that webhooks can subscribe to. */
+export type WebhookEvent =
+  | 'job.created'
+  | 'job.completed'
+  | 'job.failed'
+  | 'job.canceled'
+  | 'job.quota_paused';
+
+export interface Webhook {
+  id: string;
+  url: string;
+  secret: string; // HMAC-SHA256 key used to sign payloads
+  events: WebhookEvent[];
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface WebhookInput {
+  id: string;
+  url: string;
+  secret: string;
+  events: WebhookEvent[];
+  enabled: boolean;
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
+/** One webhook call (including its retries) in the delivery log. */
+export interface WebhookDelivery {
+  id: number;
+  webhookId: string;
+  event: WebhookEvent;
+  jobId: string | null;
+  payload: string; // JSON body as sent
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  responseStatus: number | null; // HTTP status of the last attempt
+  lastError: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface WebhookDeliveryInput {
+  webhookId: string;
+  event: WebhookEvent;
+  jobId: string | null;
+  payload: string;
+}
+
+export interface WebhookDeliveryUpdate {
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  responseStatus: number | null;
+  lastError: string | null;
+}
+
 export interface DatabaseAdapter {
   // Summary operations
   saveSummary(summary: SummaryInput): Promise<void>;
@@ -144,6 +429,12 @@ export interface DatabaseAdapter {
   getSummariesByGeneration(genId: number): Promise<StoredSummary[]>;
   deleteSummary(id: number): Promise<void>;
 
+  // Summary candidate operations
+  replaceSummaryCandidates(pokemonId: number, candidates: SummaryCandidateInput[]): Promise<void>;
+  getSummaryCandidates(pokemonId: number): Promise<SummaryCandidate[]>;
+  getSummaryCandidate(id: string): Promise<SummaryCandidate | null>;
+  markSummaryCandidatePromoted(id: string): Promise<void>;
+
   // Audio log operations
   saveAudioLog(audioLog: AudioLogInput): Promise<void>;
   getAudioLog(id: number): Promise<StoredAudioLog | null>;
@@ -164,11 +455,25 @@ export interface DatabaseAdapter {
   getAllPrompts(): Promise<StoredPrompt[]>;
   deletePrompt(type: string): Promise<void>;
 
+  // Settings operations
+  saveSetting(key: string, value: unknown): Promise<void>;
+  getAllSettings(): Promise<StoredSetting[]>;
+  deleteSetting(key: string): Promise<void>;
+
   // Job operations
   createJob(input: CreateJobInput): Promise<void>;
   getJob(id: string): Promise<ProcessingJob | null>;
-  claimNextQueuedJob(): Promise<{ job: ProcessingJob; pokemonIds: number[] } | null>;
+  claimNextQueuedJob(
+    lease: JobLease,
+    canRun?: (job: ProcessingJob) => boolean
+  ): Promise<{ job: ProcessingJob; pokemonIds: number[] } | null>;
+  renewJobLease(id: string, lease: JobLease): Promise<boolean>;
+  requeueJob(id: string): Promise<void>; // back to queued with the lease released
   getAllRunningJobs(): Promise<ProcessingJob[]>;
+  getQueuedJobs(): Promise<ProcessingJob[]>;
+  reorderQueuedJobs(jobIds: string[]): Promise<void>;
+  bumpJobToFront(id: string): Promise<void>;
+  listJobs(query: JobListQuery): Promise<JobListResult>;
   setJobStatus(id: string, status: JobStatus): Promise<void>;
   setJobProgress(
     id: string,
@@ -180,10 +485,55 @@ export interface DatabaseAdapter {
   setJobCooldownUntil(id: string, cooldownUntil: string | null): Promise<void>;
   setJobError(id: string, error: string): Promise<void>;
   incrementJobRetry(id: string): Promise<void>;
+  addJobFailedPokemon(id: string, pokemonId: number): Promise<number[]>;
   cancelJob(id: string): Promise<void>;
   pauseJob(id: string): Promise<void>;
   resumeJob(id: string): Promise<void>;
-  recoverStalledJobs(stalledThresholdMs: number): Promise<number>;
+  setJobResumeAt(id: string, resumeAt: string | null): Promise<void>;
+  resumeDueJobs(now: string): Promise<string[]>;
+  recoverStalledJobs(workerId?: string): Promise<number>;
+
+  // Job item operations
+  getJobItems(jobId: string): Promise<JobItem[]>;
+  setJobItemStatus(
+    jobId: string,
+    pokemonId: number,
+    stage: ProcessingStage,
+    status: JobItemStatus,
+    error?: string
+  ): Promise<void>;
+  incrementJobItemAttempts(jobId: string, pokemonId: number, stage: ProcessingStage): Promise<void>;
+  addJobItemTimings(
+    jobId: string,
+    pokemonId: number,
+    stage: ProcessingStage,
+    timings: JobItemTimings
+  ): Promise<void>;
+
+  // Quota ledger operations
+  recordQuotaUsage(model: string, day: string): Promise<number>;
+  markQuotaExhausted(model: string, day: string, limit: number): Promise<void>;
+  getQuotaUsage(day: string): Promise<QuotaUsage[]>;
+
+  // Pronunciation lexicon operations
+  savePronunciation(entry: PronunciationInput): Promise<number>; // upsert by term
+  addPronunciations(entries: PronunciationInput[]): Promise<number>; // skips known terms
+  getPronunciation(id: number): Promise<Pronunciation | null>;
+  getAllPronunciations(): Promise<Pronunciation[]>;
+  deletePronunciation(id: number): Promise<void>;
+
+  // API call log operations
+  logApiCall(entry: ApiCallLogInput): Promise<number>;
+  getApiCallTotals(sinceDay: string): Promise<ApiCallTotals[]>;
+
+  // Webhook operations
+  saveWebhook(webhook: WebhookInput): Promise<void>;
+  getWebhook(id: string): Promise<Webhook | null>;
+  getAllWebhooks(): Promise<Webhook[]>;
+  deleteWebhook(id: string): Promise<void>;
+  createWebhookDelivery(delivery: WebhookDeliveryInput): Promise<number>;
+  updateWebhookDelivery(id: number, update: WebhookDeliveryUpdate): Promise<void>;
+  getWebhookDeliveries(limit: number): Promise<WebhookDelivery[]>;
 
   // Initialization
   initialize(): Promise<void>;
@@ -14,10 +14,29 @@ import {
   AudioLogInput,
   StoredPrompt,
   PromptInput,
+  StoredSetting,
   CreateJobInput,
   ProcessingJob,
   JobStatus,
+  JobLease,
   ProcessingStage,
+  JobItem,
+  JobItemStatus,
+  JobItemTimings,
+  JobListQuery,
+  JobListResult,
+  QuotaUsage,
+  Pronunciation,
+  PronunciationInput,
+  ApiCallLogInput,
+  ApiCallTotals,
+  SummaryCandidate,
+  SummaryCandidateInput,
+  Webhook,
+  WebhookInput,
+  WebhookDelivery,
+  WebhookDeliveryInput,
+  WebhookDeliveryUpdate,
 } from './adapter';
 
 export class MySQLAdapter implements DatabaseAdapter {
@@ -47,6 +66,25 @@ export class MySQLAdapter implements DatabaseAdapter {
     throw new Error('Not implemented');
   }
 
+  async replaceSummaryCandidates(
+    _pokemonId: number,
+    _candidates: SummaryCandidateInput[]
+  ): Promise<void> {
+    throw new Error('Not implemented');
+  }
+
+  async getSummaryCandidates(_pokemonId: number): Promise<SummaryCandidate[]> {
+    throw new Error('Not implemented');
+  }
+
+  async getSummaryCandidate(_id: string): Promise<SummaryCandidate | null> {
+    throw new Error('Not implemented');
+  }
+
+  async markSummaryCandidatePromoted(_id: string): Promise<void> {
+    throw new Error('Not implemented');
+  }
+
   async saveAudioLog(_audioLog: AudioLogInput): Promise<void> {
     throw new Error('Not implemented');
   }
@@ -104,6 +142,19 @@ export class MySQLAdapter implements DatabaseAdapter {
     throw new Error('Not implemented');
   }
 
+  // Settings operations
+  async saveSetting(_key: string, _value: unknown): Promise<void> {
+    throw new Error('Not implemented');
+  }
+
+  async getAllSettings(): Promise<StoredSetting[]> {
+    throw new Error('Not implemented');
+  }
+
+  async deleteSetting(_key: string): Promise<void> {
+    throw new Error('Not implemented');
+  }
+
   // Job operations
   async createJob(_input: CreateJobInput): Promise<void> {
     throw new Error('Not implemented');
@@ -113,7 +164,18 @@ export class MySQLAdapter implements DatabaseAdapter {
     throw new Error('Not implemented');
   }
 
-  async claimNextQueuedJob(): Promise<{ job: ProcessingJob; pokemonIds: number[] } | null> {
+  async claimNextQueuedJob(
+    _lease: JobLease,
+    _canRun?: (job: ProcessingJob) => boolean
+  ): Promise<{ job: ProcessingJob; pokemonIds: number[] } | null> {
+    throw new Error('Not implemented');
+  }
+
+  async renewJobLease(_id: string, _lease: JobLease): Promise<boolean> {
+    throw new Error('Not implemented');
+  }
+
+  async requeueJob(_id: string): Promise<void> {
     throw new Error('Not implemented');
   }
 
@@ -151,15 +213,145 @@ export class MySQLAdapter implements DatabaseAdapter {
     throw new Error('Not implemented');
   }
 
+  async setJobResumeAt(_id: string, _resumeAt: string | null): Promise<void> {
+    throw new Error('Not implemented');
+  }
+
+  async resumeDueJobs(_now: string): Promise<string[]> {
+    throw new Error('Not implemented');
+  }
+
   async getAllRunningJobs(): Promise<ProcessingJob[]> {
     throw new Error('Not implemented');
   }
 
+  async getQueuedJobs(): Promise<ProcessingJob[]> {
+    throw new Error('Not implemented');
+  }
+
+  async reorderQueuedJobs(_jobIds: string[]): Promise<void> {
+    throw new Error('Not implemented');
+  }
+
+  async bumpJobToFront(_id: string): Promise<void> {
+    throw new Error('Not implemented');
+  }
+
+  async listJobs(_query: JobListQuery): Promise<JobListResult> {
+    throw new Error('Not implemented');
+  }
+
   async incrementJobRetry(_id: string): Promise<void> {
     throw new Error('Not implemented');
   }
 
-  async recoverStalledJobs(_stalledThresholdMs: number): Promise<number> {
+  async addJobFailedPokemon(_id: string, _pokemonId: number): Promise<number[]> {
+    throw new Error('Not implemented');
+  }
+
+  async recoverStalledJobs(_workerId?: string): Promise<number> {
+    throw new Error('Not implemented');
+  }
+
+  async getJobItems(_jobId: string): Promise<JobItem[]> {
+    throw new Error('Not implemented');
+  }
+
+  async setJobItemStatus(
+    _jobId: string,
+    _pokemonId: number,
+    _stage: ProcessingStage,
+    _status: JobItemStatus,
+    _error?: string
+  ): Promise<void> {
+    throw new Error('Not implemented');
+  }
+
+  async incrementJobItemAttempts(
+    _jobId: string,
+    _pokemonId: number,
+    _stage: ProcessingStage
+  ): Promise<void> {
+    throw new Error('Not implemented');
+  }
+
+  async addJobItemTimings(
+    _jobId: string,
+    _pokemonId: number,
+    _stage: ProcessingStage,
+    _timings: JobItemTimings
+  ): Promise<void> {
+    throw new Error('Not implemented');
+  }
+
+  async recordQuotaUsage(_model: string, _day: string): Promise<number> {
+    throw new Error('Not implemented');
+  }
+
+  async markQuotaExhausted(_model: string, _day: string, _limit: number): Promise<void> {
+    throw new Error('Not implemented');
+  }
+
+  async getQuotaUsage(_day: string): Promise<QuotaUsage[]> {
+    throw new Error('Not implemented');
+  }
+
+  // Pronunciation lexicon operations
+  async savePronunciation(_entry: PronunciationInput): Promise<number> {
+    throw new Error('Not implemented');
+  }
+
+  async addPronunciations(_entries: PronunciationInput[]): Promise<number> {
+    throw new Error('Not implemented');
+  }
+
+  async getPronunciation(_id: number): Promise<Pronunciation | null> {
+    throw new Error('Not implemented');
+  }
+
+  async getAllPronunciations(): Promise<Pronunciation[]> {
+    throw new Error('Not implemented');
+  }
+
+  async deletePronunciation(_id: number): Promise<void> {
+    throw new Error('Not implemented');
+  }
+
+  // API call log operations
+  async logApiCall(_entry: ApiCallLogInput): Promise<number> {
+    throw new Error('Not implemented');
+  }
+
+  async getApiCallTotals(_sinceDay: string): Promise<ApiCallTotals[]> {
+    throw new Error('Not implemented');
+  }
+
+  // Webhook operations
+  async saveWebhook(_webhook: WebhookInput): Promise<void> {
+    throw new Error('Not implemented');
+  }
+
+  async getWebhook(_id: string): Promise<Webhook | null> {
+    throw new Error('Not implemented');
+  }
+
+  async getAllWebhooks(): Promise<Webhook[]> {
+    throw new Error('Not implemented');
+  }
+
+  async deleteWebhook(_id: string): Promise<void> {
+    throw new Error('Not implemented');
+  }
+
+  async createWebhookDelivery(_delivery: WebhookDeliveryInput): Promise<number> {
+    throw new Error('Not implemented');
+  }
+
+  async updateWebhookDelivery(_id: number, _update: WebhookDeliveryUpdate): Promise<void> {
+    throw new Error('Not implemented');
+  }
+
+  async getWebhookDeliveries(_limit: number): Promise<WebhookDelivery[]> {
     throw new Error('Not implemented');
   }
 }
@@ -10,8 +10,20 @@ import {
   ProcessingJob,
   CreateJobInput,
   JobStatus,
+  FailurePolicy,
+  RegeneratePolicy,
+  SummaryProviderId,
+  TtsProviderId,
   ProcessingStage,
+  JobItem,
+  JobItemStatus,
+  JobItemTimings,
+  JobLease,
+  JobListQuery,
+  JobListResult,
   StoredSummary,
+  SummaryCandidate,
+  SummaryCandidateInput,
   StoredAudioLog,
   AudioLogMetadata,
   CachedPokemon,
@@ -20,6 +32,19 @@ import {
   PokemonInput,
   StoredPrompt,
   PromptInput,
+  QuotaUsage,
+  Pronunciation,
+  PronunciationInput,
+  ApiCallLogInput,
+  ApiCallTotals,
+  StoredSetting,
+  Webhook,
+  WebhookEvent,
+  WebhookInput,
+  WebhookDelivery,
+  WebhookDeliveryInput,
+  WebhookDeliveryStatus,
+  WebhookDeliveryUpdate,
 } from './adapter';
 
 interface DatabaseRow {
@@ -49,11 +74,25 @@ export class SQLiteAdapter implements DatabaseAdapter {
         summary TEXT NOT NULL,
         region TEXT NOT NULL,
         generation_id INTEGER NOT NULL,
+        provider TEXT,
+        model TEXT,
+        validation TEXT,
         created_at TEXT NOT NULL,
         updated_at TEXT NOT NULL
       )
     `);
 
+    const summaryColumns = this.db
+      .prepare("SELECT name FROM pragma_table_info('summaries')")
+      .all() as Array<{ name: string }>;
+    if (!summaryColumns.some(c => c.name === 'provider')) {
+      this.db.exec('ALTER TABLE summaries ADD COLUMN provider TEXT');
+      this.db.exec('ALTER TABLE summaries ADD COLUMN model TEXT');
+    }
+    if (!summaryColumns.some(c => c.name === 'validation')) {
+      this.db.exec('ALTER TABLE summaries ADD COLUMN validation TEXT');
+    }
+
     // Create audio logs table
     this.db.exec(`
       CREATE TABLE IF NOT EXISTS audio_logs (
@@ -143,6 +182,16 @@ export class SQLiteAdapter implements DatabaseAdapter {
       )
     `);
 
+    // Create runtime settings table
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS settings (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      )
+    `);
+
     // Create processing jobs table
     this.db.exec(`
       CREATE TABLE IF NOT EXISTS jobs (
@@ -159,6 +208,23 @@ export class SQLiteAdapter implements DatabaseAdapter {
         cooldown_until TEXT,
         error TEXT,
         retry_count INTEGER DEFAULT 0,
+        failure_policy TEXT NOT NULL DEFAULT 'fail-fast',
+        max_errors INTEGER,
+        failed_pokemon_ids TEXT NOT NULL DEFAULT '[]',
+        regenerate TEXT NOT NULL DEFAULT 'all',
+        summary_provider TEXT,
+        summary_model TEXT,
+        summary_candidates INTEGER NOT NULL DEFAULT 1,
+        tts_provider TEXT NOT NULL DEFAULT 'gemini',
+        resume_at TEXT,
+        not_before TEXT,
+        window_start TEXT,
+        window_end TEXT,
+        window_time_zone TEXT,
+        priority INTEGER NOT NULL DEFAULT 0,
+        worker_id TEXT,
+        lease_expires_at TEXT,
+        heartbeat_at TEXT,
         pokemon_ids TEXT NOT NULL,
         created_at TEXT NOT NULL,
         updated_at TEXT NOT NULL
@@ -176,6 +242,179 @@ export class SQLiteAdapter implements DatabaseAdapter {
     if (!hasRetryCount) {
       this.db.exec('ALTER TABLE jobs ADD COLUMN retry_count INTEGER DEFAULT 0');
     }
+    const hasFailurePolicy = jobColumns.some(c => c.name === 'failure_policy');
+    if (!hasFailurePolicy) {
+      this.db.exec("ALTER TABLE jobs ADD COLUMN failure_policy TEXT NOT NULL DEFAULT 'fail-fast'");
+      this.db.exec('ALTER TABLE jobs ADD COLUMN max_errors INTEGER');
+      this.db.exec("ALTER TABLE jobs ADD COLUMN failed_pokemon_ids TEXT NOT NULL DEFAULT '[]'");
+    }
+    const hasResumeAt = jobColumns.some(c => c.name === 'resume_at');
+    if (!hasResumeAt) {
+      this.db.exec('ALTER TABLE jobs ADD COLUMN resume_at TEXT');
+    }
+    const hasNotBefore = jobColumns.some(c => c.name === 'not_before');
+    if (!hasNotBefore) {
+      this.db.exec('ALTER TABLE jobs ADD COLUMN not_before TEXT');
+      this.db.exec('ALTER TABLE jobs ADD COLUMN window_start TEXT');
+      this.db.exec('ALTER TABLE jobs ADD COLUMN window_end TEXT');
+    }
+    const hasWindowTimeZone = jobColumns.some(c => c.name === 'window_time_zone');
+    if (!hasWindowTimeZone) {
+      this.db.exec('ALTER TABLE jobs ADD COLUMN window_time_zone TEXT');
+    }
+    const hasPriority = jobColumns.some(c => c.name === 'priority');
+    if (!hasPriority) {
+      this.db.exec('ALTER TABLE jobs ADD COLUMN priority INTEGER NOT NULL DEFAULT 0');
+    }
+    const hasRegenerate = jobColumns.some(c => c.name === 'regenerate');
+    if (!hasRegenerate) {
+      this.db.exec("ALTER TABLE jobs ADD COLUMN regenerate TEXT NOT NULL DEFAULT 'all'");
+    }
+    const hasSummaryProvider = jobColumns.some(c => c.name === 'summary_provider');
+    if (!hasSummaryProvider) {
+      this.db.exec('ALTER TABLE jobs ADD COLUMN summary_provider TEXT');
+      this.db.exec('ALTER TABLE jobs ADD COLUMN summary_model TEXT');
+    }
+    const hasTtsProvider = jobColumns.some(c => c.name === 'tts_provider');
+    if (!hasTtsProvider) {
+      this.db.exec("ALTER TABLE jobs ADD COLUMN tts_provider TEXT NOT NULL DEFAULT 'gemini'");
+    }
+    const hasSummaryCandidates = jobColumns.some(c => c.name === 'summary_candidates');
+    if (!hasSummaryCandidates) {
+      this.db.exec('ALTER TABLE jobs ADD COLUMN summary_candidates INTEGER NOT NULL DEFAULT 1');
+    }
+    const hasWorkerId = jobColumns.some(c => c.name === 'worker_id');
+    if (!hasWorkerId) {
+      this.db.exec('ALTER TABLE jobs ADD COLUMN worker_id TEXT');
+      this.db.exec('ALTER TABLE jobs ADD COLUMN lease_expires_at TEXT');
+      this.db.exec('ALTER TABLE jobs ADD COLUMN heartbeat_at TEXT');
+    }
+
+    // Create per-Pokémon job outcome ledger
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS job_items (
+        job_id TEXT NOT NULL,
+        pokemon_id INTEGER NOT NULL,
+        stage TEXT NOT NULL,
+        status TEXT NOT NULL,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        last_error TEXT,
+        started_at TEXT,
+        finished_at TEXT,
+        latency_ms INTEGER NOT NULL DEFAULT 0,
+        convert_ms INTEGER NOT NULL DEFAULT 0,
+        cooldown_ms INTEGER NOT NULL DEFAULT 0,
+        updated_at TEXT NOT NULL,
+        PRIMARY KEY (job_id, pokemon_id, stage)
+      )
+    `);
+
+    const jobItemColumns = this.db
+      .prepare("SELECT name FROM pragma_table_info('job_items')")
+      .all() as Array<{ name: string }>;
+    for (const column of ['latency_ms', 'convert_ms', 'cooldown_ms']) {
+      if (!jobItemColumns.some(c => c.name === column)) {
+        this.db.exec(`ALTER TABLE job_items ADD COLUMN ${column} INTEGER NOT NULL DEFAULT 0`);
+      }
+    }
+
+    // Create ranked drafts from multi-candidate summary jobs
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS summary_candidates (
+        id TEXT PRIMARY KEY,
+        pokemon_id INTEGER NOT NULL,
+        job_id TEXT,
+        name TEXT NOT NULL,
+        region TEXT NOT NULL,
+        generation_id INTEGER NOT NULL,
+        summary TEXT NOT NULL,
+        provider TEXT NOT NULL,
+        model TEXT NOT NULL,
+        validation TEXT NOT NULL,
+        opening_similarity REAL NOT NULL DEFAULT 0,
+        rank INTEGER NOT NULL,
+        promoted INTEGER NOT NULL DEFAULT 0,
+        created_at TEXT NOT NULL
+      )
+    `);
+    this.db.exec(
+      'CREATE INDEX IF NOT EXISTS idx_summary_candidates_pokemon ON summary_candidates (pokemon_id)'
+    );
+
+    // Create daily API quota ledger
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS api_quota_usage (
+        model TEXT NOT NULL,
+        day TEXT NOT NULL,
+        request_count INTEGER NOT NULL DEFAULT 0,
+        updated_at TEXT NOT NULL,
+        PRIMARY KEY (model, day)
+      )
+    `);
+
+    // Create pronunciation lexicon
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS pronunciations (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        term TEXT NOT NULL UNIQUE COLLATE NOCASE,
+        kind TEXT NOT NULL,
+        phonetic TEXT NOT NULL,
+        source TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      )
+    `);
+
+    // Create per-call API usage log
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS api_calls (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        kind TEXT NOT NULL,
+        provider TEXT NOT NULL,
+        model TEXT NOT NULL,
+        day TEXT NOT NULL,
+        prompt_tokens INTEGER,
+        output_tokens INTEGER,
+        latency_ms INTEGER NOT NULL,
+        retries INTEGER NOT NULL DEFAULT 0,
+        fallback_used INTEGER NOT NULL DEFAULT 0,
+        success INTEGER NOT NULL,
+        error TEXT,
+        job_id TEXT,
+        pokemon_id INTEGER,
+        created_at TEXT NOT NULL
+      )
+    `);
+    this.db.exec('CREATE INDEX IF NOT EXISTS idx_api_calls_day ON api_calls (day)');
+
+    // Create webhook registrations and delivery log
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS webhooks (
+        id TEXT PRIMARY KEY,
+        url TEXT NOT NULL,
+        secret TEXT NOT NULL,
+        events TEXT NOT NULL,
+        enabled INTEGER NOT NULL DEFAULT 1,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      )
+    `);
+
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS webhook_deliveries (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        webhook_id TEXT NOT NULL,
+        event TEXT NOT NULL,
+        job_id TEXT,
+        payload TEXT NOT NULL,
+        status TEXT NOT NULL,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        response_status INTEGER,
+        last_error TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      )
+    `);
 
     // Migrate audio_logs table from sample_rate to bitrate if needed
     const audioColumns = this.db
@@ -235,8 +474,9 @@ export class SQLiteAdapter implements DatabaseAdapter {
     const now = new Date().toISOString();
 
     const stmt = this.db!.prepare(`
-      INSERT OR REPLACE INTO summaries (id, name, summary, region, generation_id, created_at, updated_at)
-      VALUES (?, ?, ?, ?, ?, COALESCE((SELECT created_at FROM summaries WHERE id = ?), ?), ?)
+      INSERT OR REPLACE INTO summaries
+      (id, name, summary, region, generation_id, provider, model, validation, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, COALESCE((SELECT created_at FROM summaries WHERE id = ?), ?), ?)
     `);
 
     stmt.run(
@@ -245,6 +485,9 @@ export class SQLiteAdapter implements DatabaseAdapter {
       summary.summary,
       summary.region,
       summary.generationId,
+      summary.provider ?? null,
+      summary.model ?? null,
+      summary.validation ? JSON.stringify(summary.validation) : null,
       summary.id,
       now,
       now
@@ -279,6 +522,68 @@ export class SQLiteAdapter implements DatabaseAdapter {
     stmt.run(id);
   }
 
+  // Summary candidate operations
+  async replaceSummaryCandidates(
+    pokemonId: number,
+    candidates: SummaryCandidateInput[]
+  ): Promise<void> {
+    const now = new Date().toISOString();
+    const deleteStmt = this.db!.prepare('DELETE FROM summary_candidates WHERE pokemon_id = ?');
+    const insertStmt = this.db!.prepare(`
+      INSERT INTO summary_candidates
+      (id, pokemon_id, job_id, name, region, generation_id, summary, provider, model, validation,
+       opening_similarity, rank, promoted, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    const replace = this.db!.transaction(() => {
+      deleteStmt.run(pokemonId);
+      for (const candidate of candidates) {
+        insertStmt.run(
+          candidate.id,
+          pokemonId,
+          candidate.jobId,
+          candidate.name,
+          candidate.region,
+          candidate.generationId,
+          candidate.summary,
+          candidate.provider,
+          candidate.model,
+          JSON.stringify(candidate.validation),
+          candidate.openingSimilarity,
+          candidate.rank,
+          candidate.promoted ? 1 : 0,
+          now
+        );
+      }
+    });
+    replace();
+  }
+
+  async getSummaryCandidates(pokemonId: number): Promise<SummaryCandidate[]> {
+    const stmt = this.db!.prepare(
+      'SELECT * FROM summary_candidates WHERE pokemon_id = ? ORDER BY rank'
+    );
+    const rows = stmt.all(pokemonId) as DatabaseRow[];
+
+    return rows.map(this.mapRowToSummaryCandidate);
+  }
+
+  async getSummaryCandidate(id: string): Promise<SummaryCandidate | null> {
+    const stmt = this.db!.prepare('SELECT * FROM summary_candidates WHERE id = ?');
+    const row = stmt.get(id) as DatabaseRow | undefined;
+
+    return row ? this.mapRowToSummaryCandidate(row) : null;
+  }
+
+  async markSummaryCandidatePromoted(id: string): Promise<void> {
+    const stmt = this.db!.prepare(`
+      UPDATE summary_candidates SET promoted = (id = ?)
+      WHERE pokemon_id = (SELECT pokemon_id FROM summary_candidates WHERE id = ?)
+    `);
+    stmt.run(id, id);
+  }
+
   // Audio log operations
   async saveAudioLog(audioLog: AudioLogInput): Promise<void> {
     const now = new Date().toISOString();
@@ -429,34 +734,95 @@ export class SQLiteAdapter implements DatabaseAdapter {
     stmt.run(type);
   }
 
+  // Settings operations
+  async saveSetting(key: string, value: unknown): Promise<void> {
+    const now = new Date().toISOString();
+
+    const stmt = this.db!.prepare(`
+      INSERT OR REPLACE INTO settings (key, value, created_at, updated_at)
+      VALUES (?, ?, COALESCE((SELECT created_at FROM settings WHERE key = ?), ?), ?)
+    `);
+
+    stmt.run(key, JSON.stringify(value), key, now, now);
+  }
+
+  async getAllSettings(): Promise<StoredSetting[]> {
+    const stmt = this.db!.prepare('SELECT * FROM settings ORDER BY key');
+    const rows = stmt.all() as DatabaseRow[];
+
+    return rows.map(row => ({
+      key: row.key as string,
+      value: JSON.parse(row.value as string) as unknown,
+      createdAt: row.created_at as string,
+      updatedAt: row.updated_at as string,
+    }));
+  }
+
+  async deleteSetting(key: string): Promise<void> {
+    const stmt = this.db!.prepare('DELETE FROM settings WHERE key = ?');
+    stmt.run(key);
+  }
+
   // Job operations
   async createJob(input: CreateJobInput): Promise<void> {
     const now = new Date().toISOString();
     const initialStage: ProcessingStage = input.mode === 'AUDIO_ONLY' ? 'audio' : 'summary';
     const stmt = this.db!.prepare(`
       INSERT OR REPLACE INTO jobs
-      (id, status, stage, mode, generation_id, region, voice, total, current, message, cooldown_until, error, retry_count, pokemon_ids, created_at, updated_at)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      (id, status, stage, mode, generation_id, region, voice, total, current, message, cooldown_until, error, retry_count,
+       failure_policy, max_errors, failed_pokemon_ids, regenerate, summary_provider, summary_model,
+       summary_candidates, tts_provider, not_before, window_start, window_end, window_time_zone, priority,
+       pokemon_ids, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
 
-    stmt.run(
-      input.id,
-      'queued',
-      initialStage,
-      input.mode,
-      input.generationId,
-      input.region,
-      input.voice,
-      input.pokemonIds.length,
-      0,
-      'Queued',
-      null,
-      null,
-      0,
-      JSON.stringify(input.pokemonIds),
-      now,
-      now
-    );
+    const stages: ProcessingStage[] = input.mode === 'FULL' ? ['summary', 'audio'] : [initialStage];
+    const itemStmt = this.db!.prepare(`
+      INSERT OR REPLACE INTO job_items (job_id, pokemon_id, stage, status, attempts, updated_at)
+      VALUES (?, ?, ?, 'pending', 0, ?)
+    `);
+
+    const create = this.db!.transaction(() => {
+      stmt.run(
+        input.id,
+        'queued',
+        initialStage,
+        input.mode,
+        input.generationId,
+        input.region,
+        input.voice,
+        input.pokemonIds.length,
+        0,
+        'Queued',
+        null,
+        null,
+        0,
+        input.failurePolicy,
+        input.maxErrors,
+        '[]',
+        input.regenerate,
+        input.summaryProvider,
+        input.summaryModel,
+        input.summaryCandidates,
+        input.ttsProvider,
+        input.notBefore,
+        input.allowedWindow?.start ?? null,
+        input.allowedWindow?.end ?? null,
+        input.allowedWindow?.timeZone ?? null,
+        input.priority,
+        JSON.stringify(input.pokemonIds),
+        now,
+        now
+      );
+
+      for (const pokemonId of input.pokemonIds) {
+        for (const stage of stages) {
+          itemStmt.run(input.id, pokemonId, stage, now);
+        }
+      }
+    });
+
+    create();
   }
 
   async getJob(id: string): Promise<ProcessingJob | null> {
@@ -466,20 +832,31 @@ export class SQLiteAdapter implements DatabaseAdapter {
     return this.mapRowToJob(row);
   }
 
-  async claimNextQueuedJob(): Promise<{ job: ProcessingJob; pokemonIds: number[] } | null> {
-    const now = new Date().toISOString();
+  async claimNextQueuedJob(
+    lease: JobLease,
+    canRun?: (job: ProcessingJob) => boolean
+  ): Promise<{ job: ProcessingJob; pokemonIds: number[] } | null> {
+    const nowMs = Date.now();
+    const now = new Date(nowMs).toISOString();
+    const leaseExpiresAt = new Date(nowMs + lease.leaseMs).toISOString();
 
     const claim = this.db!.transaction(() => {
       const stmt = this.db!.prepare(
-        'SELECT * FROM jobs WHERE status = ? ORDER BY created_at ASC LIMIT 1'
+        'SELECT * FROM jobs WHERE status = ? ORDER BY priority DESC, created_at ASC'
       );
-      const row = stmt.get('queued') as DatabaseRow | undefined;
+      const rows = stmt.all('queued') as DatabaseRow[];
+      // Skip jobs whose schedule doesn't allow them to start yet
+      const row = rows.find(r => !canRun || canRun(this.mapRowToJob(r)));
       if (!row) return null;
 
       const update = this.db!.prepare(
-        'UPDATE jobs SET status = ?, cooldown_until = NULL, updated_at = ? WHERE id = ?'
+        `UPDATE jobs
+         SET status = 'running', cooldown_until = NULL, worker_id = ?, lease_expires_at = ?,
+             heartbeat_at = ?, updated_at = ?
+         WHERE id = ? AND status = 'queued'`
       );
-      update.run('running', now, row.id);
+      const result = update.run(lease.workerId, leaseExpiresAt, now, now, row.id);
+      if (result.changes === 0) return null;
 
       const refreshed = this.db!.prepare('SELECT * FROM jobs WHERE id = ?').get(row.id) as
         | DatabaseRow
@@ -490,7 +867,31 @@ export class SQLiteAdapter implements DatabaseAdapter {
       return { job, pokemonIds: job.pokemonIds };
     });
 
-    return claim();
+    // Take the write lock up front so workers in other processes can't claim the same row
+    return claim.immediate();
+  }
+
+  async renewJobLease(id: string, lease: JobLease): Promise<boolean> {
+    const nowMs = Date.now();
+    const now = new Date(nowMs).toISOString();
+    const leaseExpiresAt = new Date(nowMs + lease.leaseMs).toISOString();
+
+    const stmt = this.db!.prepare(
+      `UPDATE jobs SET lease_expires_at = ?, heartbeat_at = ?
+       WHERE id = ? AND worker_id = ? AND status = 'running'`
+    );
+    return stmt.run(leaseExpiresAt, now, id, lease.workerId).changes > 0;
+  }
+
+  async requeueJob(id: string): Promise<void> {
+    const now = new Date().toISOString();
+    const stmt = this.db!.prepare(
+      `UPDATE jobs
+       SET status = 'queued', worker_id = NULL, lease_expires_at = NULL, heartbeat_at = NULL,
+           updated_at = ?
+       WHERE id = ?`
+    );
+    stmt.run(now, id);
   }
 
   async setJobStatus(id: string, status: JobStatus): Promise<void> {
@@ -534,11 +935,41 @@ export class SQLiteAdapter implements DatabaseAdapter {
   }
 
   async pauseJob(id: string): Promise<void> {
+    // A manual pause overrides any scheduled auto-resume
     await this.setJobStatus(id, 'paused');
+    await this.setJobResumeAt(id, null);
   }
 
   async resumeJob(id: string): Promise<void> {
-    await this.setJobStatus(id, 'queued');
+    await this.requeueJob(id);
+    await this.setJobResumeAt(id, null);
+  }
+
+  async setJobResumeAt(id: string, resumeAt: string | null): Promise<void> {
+    const now = new Date().toISOString();
+    const stmt = this.db!.prepare('UPDATE jobs SET resume_at = ?, updated_at = ? WHERE id = ?');
+    stmt.run(resumeAt, now, id);
+  }
+
+  async resumeDueJobs(now: string): Promise<string[]> {
+    const resume = this.db!.transaction(() => {
+      const rows = this.db!.prepare(
+        `SELECT id FROM jobs WHERE status = 'paused' AND resume_at IS NOT NULL AND resume_at <= ?`
+      ).all(now) as Array<{ id: string }>;
+
+      const update = this.db!.prepare(
+        `UPDATE jobs
+         SET status = 'queued', resume_at = NULL, cooldown_until = NULL, worker_id = NULL,
+             lease_expires_at = NULL, heartbeat_at = NULL, updated_at = ?
+         WHERE id = ?`
+      );
+      for (const row of rows) {
+        update.run(now, row.id);
+      }
+      return rows.map(row => row.id);
+    });
+
+    return resume();
   }
 
   async getAllRunningJobs(): Promise<ProcessingJob[]> {
@@ -547,6 +978,91 @@ export class SQLiteAdapter implements DatabaseAdapter {
     return rows.map(this.mapRowToJob);
   }
 
+  async getQueuedJobs(): Promise<ProcessingJob[]> {
+    const stmt = this.db!.prepare(
+      'SELECT * FROM jobs WHERE status = ? ORDER BY priority DESC, created_at ASC'
+    );
+    const rows = stmt.all('queued') as DatabaseRow[];
+    return rows.map(this.mapRowToJob);
+  }
+
+  async reorderQueuedJobs(jobIds: string[]): Promise<void> {
+    const now = new Date().toISOString();
+
+    const reorder = this.db!.transaction(() => {
+      const queued = this.db!.prepare(
+        'SELECT id FROM jobs WHERE status = ? ORDER BY priority DESC, created_at ASC'
+      ).all('queued') as Array<{ id: string }>;
+      const queuedIds = queued.map(row => row.id);
+
+      // Listed jobs first in the given order, then any others in their current order
+      const ordered = [
+        ...jobIds.filter(id => queuedIds.includes(id)),
+        ...queuedIds.filter(id => !jobIds.includes(id)),
+      ];
+
+      const update = this.db!.prepare('UPDATE jobs SET priority = ?, updated_at = ? WHERE id = ?');
+      ordered.forEach((id, index) => {
+        update.run(ordered.length - index, now, id);
+      });
+    });
+
+    reorder();
+  }
+
+  async bumpJobToFront(id: string): Promise<void> {
+    const now = new Date().toISOString();
+    const stmt = this.db!.prepare(`
+      UPDATE jobs
+      SET priority = (SELECT COALESCE(MAX(priority), 0) + 1 FROM jobs WHERE status = 'queued'),
+          updated_at = ?
+      WHERE id = ?
+    `);
+    stmt.run(now, id);
+  }
+
+  async listJobs(query: JobListQuery): Promise<JobListResult> {
+    const conditions: string[] = [];
+    const params: Array<string | number> = [];
+
+    if (query.statuses && query.statuses.length > 0) {
+      conditions.push(`status IN (${query.statuses.map(() => '?').join(', ')})`);
+      params.push(...query.statuses);
+    }
+    if (query.mode) {
+      conditions.push('mode = ?');
+      params.push(query.mode);
+    }
+    if (query.generationId !== undefined) {
+      conditions.push('generation_id = ?');
+      params.push(query.generationId);
+    }
+    if (query.voice) {
+      conditions.push('voice = ?');
+      params.push(query.voice);
+    }
+    if (query.createdFrom) {
+      conditions.push('created_at >= ?');
+      params.push(query.createdFrom);
+    }
+    if (query.createdTo) {
+      conditions.push('created_at <= ?');
+      params.push(query.createdTo);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const countRow = this.db!.prepare(`SELECT COUNT(*) AS count FROM jobs ${where}`).get(
+      ...params
+    ) as DatabaseRow;
+
+    const rows = this.db!.prepare(
+      `SELECT * FROM jobs ${where} ORDER BY created_at DESC LIMIT ? OFFSET ?`
+    ).all(...params, query.limit, query.offset) as DatabaseRow[];
+
+    return { jobs: rows.map(this.mapRowToJob), total: countRow.count as number };
+  }
+
   async incrementJobRetry(id: string): Promise<void> {
     const now = new Date().toISOString();
     const stmt = this.db!.prepare(
@@ -555,20 +1071,367 @@ export class SQLiteAdapter implements DatabaseAdapter {
     stmt.run(now, id);
   }
 
-  async recoverStalledJobs(stalledThresholdMs: number): Promise<number> {
-    const now = new Date();
-    const cutoff = new Date(now.getTime() - stalledThresholdMs).toISOString();
+  async addJobFailedPokemon(id: string, pokemonId: number): Promise<number[]> {
+    const now = new Date().toISOString();
+
+    const add = this.db!.transaction(() => {
+      const row = this.db!.prepare('SELECT failed_pokemon_ids FROM jobs WHERE id = ?').get(id) as
+        | DatabaseRow
+        | undefined;
+      if (!row) return [];
+
+      const failedIds = JSON.parse((row.failed_pokemon_ids as string) || '[]') as number[];
+      if (!failedIds.includes(pokemonId)) {
+        failedIds.push(pokemonId);
+        failedIds.sort((a, b) => a - b);
+        this.db!.prepare('UPDATE jobs SET failed_pokemon_ids = ?, updated_at = ? WHERE id = ?').run(
+          JSON.stringify(failedIds),
+          now,
+          id
+        );
+      }
+      return failedIds;
+    });
+
+    return add();
+  }
+
+  async recoverStalledJobs(workerId?: string): Promise<number> {
+    const now = new Date().toISOString();
 
+    // Jobs claimed before leases existed have no expiry and are treated as lapsed.
+    // A restarting worker also reclaims its own jobs without waiting for the lease.
     const stmt = this.db!.prepare(
-      `UPDATE jobs 
-       SET status = 'queued', message = 'Recovered from stalled state', updated_at = ? 
-       WHERE status = 'running' AND updated_at < ?`
+      `UPDATE jobs
+       SET status = 'queued', message = 'Recovered from stalled state', worker_id = NULL,
+           lease_expires_at = NULL, heartbeat_at = NULL, updated_at = ?
+       WHERE status = 'running'
+         AND (lease_expires_at IS NULL OR lease_expires_at < ? OR worker_id = ?)`
     );
 
-    const result = stmt.run(now.toISOString(), cutoff);
+    const result = stmt.run(now, now, workerId ?? null);
     return result.changes;
   }
 
+  // Job item operations
+  async getJobItems(jobId: string): Promise<JobItem[]> {
+    const stmt = this.db!.prepare(
+      `SELECT * FROM job_items WHERE job_id = ?
+       ORDER BY pokemon_id ASC, CASE stage WHEN 'summary' THEN 0 ELSE 1 END`
+    );
+    const rows = stmt.all(jobId) as DatabaseRow[];
+    return rows.map(this.mapRowToJobItem);
+  }
+
+  async setJobItemStatus(
+    jobId: string,
+    pokemonId: number,
+    stage: ProcessingStage,
+    status: JobItemStatus,
+    error?: string
+  ): Promise<void> {
+    const now = new Date().toISOString();
+    const startedAt = status === 'running' ? now : null;
+    const finishedAt =
+      status === 'succeeded' || status === 'failed' || status === 'skipped' ? now : null;
+
+    // Upsert so jobs created before the ledger existed still get tracked
+    const stmt = this.db!.prepare(`
+      INSERT INTO job_items
+      (job_id, pokemon_id, stage, status, attempts, last_error, started_at, finished_at, updated_at)
+      VALUES (?, ?, ?, ?, 0, ?, ?, ?, ?)
+      ON CONFLICT(job_id, pokemon_id, stage) DO UPDATE SET
+        status = excluded.status,
+        last_error = COALESCE(excluded.last_error, job_items.last_error),
+        started_at = COALESCE(job_items.started_at, excluded.started_at),
+        finished_at = excluded.finished_at,
+        updated_at = excluded.updated_at
+    `);
+    stmt.run(jobId, pokemonId, stage, status, error ?? null, startedAt, finishedAt, now);
+  }
+
+  async incrementJobItemAttempts(
+    jobId: string,
+    pokemonId: number,
+    stage: ProcessingStage
+  ): Promise<void> {
+    const now = new Date().toISOString();
+    const stmt = this.db!.prepare(
+      `UPDATE job_items SET attempts = attempts + 1, updated_at = ?
+       WHERE job_id = ? AND pokemon_id = ? AND stage = ?`
+    );
+    stmt.run(now, jobId, pokemonId, stage);
+  }
+
+  async addJobItemTimings(
+    jobId: string,
+    pokemonId: number,
+    stage: ProcessingStage,
+    timings: JobItemTimings
+  ): Promise<void> {
+    const now = new Date().toISOString();
+    const stmt = this.db!.prepare(
+      `UPDATE job_items SET
+         latency_ms = latency_ms + ?,
+         convert_ms = convert_ms + ?,
+         cooldown_ms = cooldown_ms + ?,
+         updated_at = ?
+       WHERE job_id = ? AND pokemon_id = ? AND stage = ?`
+    );
+    stmt.run(
+      Math.round(timings.latencyMs ?? 0),
+      Math.round(timings.convertMs ?? 0),
+      Math.round(timings.cooldownMs ?? 0),
+      now,
+      jobId,
+      pokemonId,
+      stage
+    );
+  }
+
+  // Quota ledger operations
+  async recordQuotaUsage(model: string, day: string): Promise<number> {
+    const now = new Date().toISOString();
+    const stmt = this.db!.prepare(`
+      INSERT INTO api_quota_usage (model, day, request_count, updated_at)
+      VALUES (?, ?, 1, ?)
+      ON CONFLICT(model, day) DO UPDATE SET
+        request_count = api_quota_usage.request_count + 1,
+        updated_at = excluded.updated_at
+      RETURNING request_count
+    `);
+    const row = stmt.get(model, day, now) as { request_count: number };
+    return row.request_count;
+  }
+
+  async markQuotaExhausted(model: string, day: string, limit: number): Promise<void> {
+    const now = new Date().toISOString();
+    const stmt = this.db!.prepare(`
+      INSERT INTO api_quota_usage (model, day, request_count, updated_at)
+      VALUES (?, ?, ?, ?)
+      ON CONFLICT(model, day) DO UPDATE SET
+        request_count = MAX(api_quota_usage.request_count, excluded.request_count),
+        updated_at = excluded.updated_at
+    `);
+    stmt.run(model, day, limit, now);
+  }
+
+  async getQuotaUsage(day: string): Promise<QuotaUsage[]> {
+    const stmt = this.db!.prepare('SELECT * FROM api_quota_usage WHERE day = ? ORDER BY model');
+    const rows = stmt.all(day) as DatabaseRow[];
+    return rows.map(row => ({
+      model: row.model as string,
+      day: row.day as string,
+      requestCount: row.request_count as number,
+      updatedAt: row.updated_at as string,
+    }));
+  }
+
+  // Pronunciation lexicon operations
+  async savePronunciation(entry: PronunciationInput): Promise<number> {
+    const now = new Date().toISOString();
+    const stmt = this.db!.prepare(`
+      INSERT INTO pronunciations (term, kind, phonetic, source, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+      ON CONFLICT(term) DO UPDATE SET
+        term = excluded.term,
+        kind = excluded.kind,
+        phonetic = excluded.phonetic,
+        source = excluded.source,
+        updated_at = excluded.updated_at
+      RETURNING id
+    `);
+    const row = stmt.get(entry.term, entry.kind, entry.phonetic, entry.source, now, now) as {
+      id: number;
+    };
+    return row.id;
+  }
+
+  async addPronunciations(entries: PronunciationInput[]): Promise<number> {
+    const now = new Date().toISOString();
+    const stmt = this.db!.prepare(`
+      INSERT OR IGNORE INTO pronunciations (term, kind, phonetic, source, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `);
+    const addAll = this.db!.transaction((items: PronunciationInput[]) =>
+      items.reduce(
+        (added, e) => added + stmt.run(e.term, e.kind, e.phonetic, e.source, now, now).changes,
+        0
+      )
+    );
+    return addAll(entries);
+  }
+
+  async getPronunciation(id: number): Promise<Pronunciation | null> {
+    const stmt = this.db!.prepare('SELECT * FROM pronunciations WHERE id = ?');
+    const row = stmt.get(id) as DatabaseRow | undefined;
+
+    if (!row) return null;
+
+    return this.mapRowToPronunciation(row);
+  }
+
+  async getAllPronunciations(): Promise<Pronunciation[]> {
+    const stmt = this.db!.prepare('SELECT * FROM pronunciations ORDER BY term COLLATE NOCASE');
+    const rows = stmt.all() as DatabaseRow[];
+    return rows.map(row => this.mapRowToPronunciation(row));
+  }
+
+  async deletePronunciation(id: number): Promise<void> {
+    this.db!.prepare('DELETE FROM pronunciations WHERE id = ?').run(id);
+  }
+
+  // API call log operations
+  async logApiCall(entry: ApiCallLogInput): Promise<number> {
+    const stmt = this.db!.prepare(`
+      INSERT INTO api_calls (
+        kind, provider, model, day, prompt_tokens, output_tokens, latency_ms, retries,
+        fallback_used, success, error, job_id, pokemon_id, created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const result = stmt.run(
+      entry.kind,
+      entry.provider,
+      entry.model,
+      entry.day,
+      entry.promptTokens,
+      entry.outputTokens,
+      entry.latencyMs,
+      entry.retries,
+      entry.fallbackUsed ? 1 : 0,
+      entry.success ? 1 : 0,
+      entry.error,
+      entry.jobId,
+      entry.pokemonId,
+      new Date().toISOString()
+    );
+    return Number(result.lastInsertRowid);
+  }
+
+  async getApiCallTotals(sinceDay: string): Promise<ApiCallTotals[]> {
+    const stmt = this.db!.prepare(`
+      SELECT
+        day, kind, model, job_id,
+        COUNT(*) AS calls,
+        SUM(1 - success) AS failed_calls,
+        COALESCE(SUM(prompt_tokens), 0) AS prompt_tokens,
+        COALESCE(SUM(output_tokens), 0) AS output_tokens,
+        SUM(latency_ms) AS latency_ms,
+        SUM(retries) AS retries,
+        SUM(fallback_used) AS fallbacks
+      FROM api_calls
+      WHERE day >= ?
+      GROUP BY day, kind, model, job_id
+      ORDER BY day, model
+    `);
+    const rows = stmt.all(sinceDay) as DatabaseRow[];
+    return rows.map(row => ({
+      day: row.day as string,
+      kind: row.kind as ApiCallTotals['kind'],
+      model: row.model as string,
+      jobId: (row.job_id as string | null) ?? null,
+      calls: row.calls as number,
+      failedCalls: row.failed_calls as number,
+      promptTokens: row.prompt_tokens as number,
+      outputTokens: row.output_tokens as number,
+      latencyMs: row.latency_ms as number,
+      retries: row.retries as number,
+      fallbacks: row.fallbacks as number,
+    }));
+  }
+
+  // Webhook operations
+  async saveWebhook(webhook: WebhookInput): Promise<void> {
+    const now = new Date().toISOString();
+
+    const stmt = this.db!.prepare(`
+      INSERT OR REPLACE INTO webhooks (id, url, secret, events, enabled, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, COALESCE((SELECT created_at FROM webhooks WHERE id = ?), ?), ?)
+    `);
+
+    stmt.run(
+      webhook.id,
+      webhook.url,
+      webhook.secret,
+      JSON.stringify(webhook.events),
+      webhook.enabled ? 1 : 0,
+      webhook.id,
+      now,
+      now
+    );
+  }
+
+  async getWebhook(id: string): Promise<Webhook | null> {
+    const stmt = this.db!.prepare('SELECT * FROM webhooks WHERE id = ?');
+    const row = stmt.get(id) as DatabaseRow | undefined;
+
+    if (!row) return null;
+
+    return this.mapRowToWebhook(row);
+  }
+
+  async getAllWebhooks(): Promise<Webhook[]> {
+    const stmt = this.db!.prepare('SELECT * FROM webhooks ORDER BY created_at ASC');
+    const rows = stmt.all() as DatabaseRow[];
+
+    return rows.map(this.mapRowToWebhook);
+  }
+
+  async deleteWebhook(id: string): Promise<void> {
+    const remove = this.db!.transaction(() => {
+      this.db!.prepare('DELETE FROM webhook_deliveries WHERE webhook_id = ?').run(id);
+      this.db!.prepare('DELETE FROM webhooks WHERE id = ?').run(id);
+    });
+    remove();
+  }
+
+  async createWebhookDelivery(delivery: WebhookDeliveryInput): Promise<number> {
+    const now = new Date().toISOString();
+    const stmt = this.db!.prepare(`
+      INSERT INTO webhook_deliveries
+      (webhook_id, event, job_id, payload, status, attempts, created_at, updated_at)
+      VALUES (?, ?, ?, ?, 'pending', 0, ?, ?)
+    `);
+    const result = stmt.run(
+      delivery.webhookId,
+      delivery.event,
+      delivery.jobId,
+      delivery.payload,
+      now,
+      now
+    );
+    return Number(result.lastInsertRowid);
+  }
+
+  async updateWebhookDelivery(id: number, update: WebhookDeliveryUpdate): Promise<void> {
+    const now = new Date().toISOString();
+    const stmt = this.db!.prepare(`
+      UPDATE webhook_deliveries
+      SET status = ?, attempts = ?, response_status = ?, last_error = ?, updated_at = ?
+      WHERE id = ?
+    `);
+    stmt.run(update.status, update.attempts, update.responseStatus, update.lastError, now, id);
+  }
+
+  async getWebhookDeliveries(limit: number): Promise<WebhookDelivery[]> {
+    const stmt = this.db!.prepare('SELECT * FROM webhook_deliveries ORDER BY id DESC LIMIT ?');
+    const rows = stmt.all(limit) as DatabaseRow[];
+
+    return rows.map(row => ({
+      id: row.id as number,
+      webhookId: row.webhook_id as string,
+      event: row.event as WebhookEvent,
+      jobId: (row.job_id as string | null) ?? null,
+      payload: row.payload as string,
+      status: row.status as WebhookDeliveryStatus,
+      attempts: (row.attempts as number) || 0,
+      responseStatus: (row.response_status as number | null) ?? null,
+      lastError: (row.last_error as string | null) ?? null,
+      createdAt: row.created_at as string,
+      updatedAt: row.updated_at as string,
+    }));
+  }
+
   // Helper methods
   private mapRowToSummary(row: DatabaseRow): StoredSummary {
     return {
@@ -577,11 +1440,33 @@ export class SQLiteAdapter implements DatabaseAdapter {
       summary: row.summary as string,
       region: row.region as string,
       generationId: row.generation_id as number,
+      provider: (row.provider as SummaryProviderId | null) ?? null,
+      model: (row.model as string | null) ?? null,
+      validation: row.validation ? JSON.parse(row.validation as string) : null,
       createdAt: row.created_at as string,
       updatedAt: row.updated_at as string,
     };
   }
 
+  private mapRowToSummaryCandidate(row: DatabaseRow): SummaryCandidate {
+    return {
+      id: row.id as string,
+      pokemonId: row.pokemon_id as number,
+      jobId: (row.job_id as string | null) ?? null,
+      name: row.name as string,
+      region: row.region as string,
+      generationId: row.generation_id as number,
+      summary: row.summary as string,
+      provider: row.provider as SummaryProviderId,
+      model: row.model as string,
+      validation: JSON.parse(row.validation as string),
+      openingSimilarity: (row.opening_similarity as number) || 0,
+      rank: row.rank as number,
+      promoted: row.promoted === 1,
+      createdAt: row.created_at as string,
+    };
+  }
+
   private mapRowToPokemon(row: DatabaseRow): CachedPokemon {
     const name = row.name as string;
     return {
@@ -654,6 +1539,7 @@ export class SQLiteAdapter implements DatabaseAdapter {
       generationId: row.generation_id as number,
       region: row.region as string,
       voice: row.voice as string,
+      ttsProvider: (row.tts_provider as TtsProviderId) || 'gemini',
       pokemonIds: JSON.parse(row.pokemon_ids as string),
       total: row.total as number,
       current: row.current as number,
@@ -661,8 +1547,70 @@ export class SQLiteAdapter implements DatabaseAdapter {
       cooldownUntil: row.cooldown_until as string | null,
       error: row.error as string | null,
       retryCount: (row.retry_count as number) || 0,
+      failurePolicy: (row.failure_policy as FailurePolicy) || 'fail-fast',
+      maxErrors: (row.max_errors as number | null) ?? null,
+      failedPokemonIds: JSON.parse((row.failed_pokemon_ids as string) || '[]'),
+      regenerate: (row.regenerate as RegeneratePolicy) || 'all',
+      summaryProvider: (row.summary_provider as SummaryProviderId | null) ?? null,
+      summaryModel: (row.summary_model as string | null) ?? null,
+      summaryCandidates: (row.summary_candidates as number) || 1,
+      resumeAt: (row.resume_at as string | null) ?? null,
+      notBefore: (row.not_before as string | null) ?? null,
+      allowedWindow:
+        row.window_start && row.window_end
+          ? {
+              start: row.window_start as string,
+              end: row.window_end as string,
+              ...(row.window_time_zone ? { timeZone: row.window_time_zone as string } : {}),
+            }
+          : null,
+      priority: (row.priority as number) || 0,
+      workerId: (row.worker_id as string | null) ?? null,
+      leaseExpiresAt: (row.lease_expires_at as string | null) ?? null,
+      heartbeatAt: (row.heartbeat_at as string | null) ?? null,
       createdAt: row.created_at as string,
       updatedAt: row.updated_at as string,
     };
   }
+
+  private mapRowToWebhook(row: DatabaseRow): Webhook {
+    return {
+      id: row.id as string,
+      url: row.url as string,
+      secret: row.secret as string,
+      events: JSON.parse(row.events as string),
+      enabled: row.enabled === 1,
+      createdAt: row.created_at as string,
+      updatedAt: row.updated_at as string,
+    };
+  }
+
+  private mapRowToPronunciation(row: DatabaseRow): Pronunciation {
+    return {
+      id: row.id as number,
+      term: row.term as string,
+      kind: row.kind as Pronunciation['kind'],
+      phonetic: row.phonetic as string,
+      source: row.source as Pronunciation['source'],
+      createdAt: row.created_at as string,
+      updatedAt: row.updated_at as string,
+    };
+  }
+
+  private mapRowToJobItem(row: DatabaseRow): JobItem {
+    return {
+      jobId: row.job_id as string,
+      pokemonId: row.pokemon_id as number,
+      stage: row.stage as ProcessingStage,
+      status: row.status as JobItemStatus,
+      attempts: (row.attempts as number) || 0,
+      lastError: row.last_error as string | null,
+      startedAt: row.started_at as string | null,
+      finishedAt: row.finished_at as string | null,
+      latencyMs: (row.latency_ms as number) || 0,
+      convertMs: (row.convert_ms as number) || 0,
+      cooldownMs: (row.cooldown_ms as number) || 0,
+      updatedAt: row.updated_at as string,
+    };
+  }
 }
@@ -0,0 +1,159 @@
+/**
+ * Tests for the per-call API usage log and the cost report.
+ *
+ * Calls go through the real Gemini client routed to the offline fake, which
+ * reports token usage, and are logged to a temporary SQLite database.
+ */
+
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import type { SQLiteAdapter } from '@/lib/db/sqlite';
+import type { ApiCallTotals } from '@/lib/db/adapter';
+
+let adapter: SQLiteAdapter;
+
+vi.mock('@/lib/db/adapter', async importOriginal => ({
+  ...(await importOriginal<object>()),
+  getDatabase: async () => getTestDatabase(),
+}));
+
+import { buildUsageReport, estimateCost, getUsageReport } from '../apiUsage';
+import { resetFakeGemini, simulateFakeGeminiError } from '../fakeGemini';
+import { generateGeminiSummary, generateTts } from '../gemini';
+import { DEFAULT_SETTINGS } from '../settings';
+import { getTestDatabase, openTestDatabase, removeTestDatabases } from './testDatabase';
+
+const PROMPT = `Write a field log.
+
+POKEMON DATA:
+    ID: 16
+    Name: pidgey
+    Region: Kanto
+    Available Moves: gust, tackle`;
+
+async function totalsForJob(jobId: string): Promise<ApiCallTotals[]> {
+  return (await adapter.getApiCallTotals('2000-01-01')).filter(t => t.jobId === jobId);
+}
+
+beforeAll(async () => {
+  process.env.GEMINI_FAKE = 'true';
+  adapter = await openTestDatabase();
+});
+
+afterEach(() => {
+  resetFakeGemini();
+});
+
+afterAll(() => {
+  delete process.env.GEMINI_FAKE;
+  removeTestDatabases();
+});
+
+describe('API call logging', () => {
+  it('logs a summary call with its tokens, job and model', async () => {
+    await generateGeminiSummary(PROMPT, 'gemini-2.5-flash', { jobId: 'job-a', pokemonId: 16 });
+
+    const [totals] = await totalsForJob('job-a');
+    expect(totals).toMatchObject({
+      kind: 'summary',
+      model: 'gemini-2.5-flash',
+      calls: 1,
+      failedCalls: 0,
+      retries: 0,
+      fallbacks: 0,
+    });
+    expect(totals?.promptTokens).toBeGreaterThan(0);
+    expect(totals?.outputTokens).toBeGreaterThan(0);
+  });
+
+  it('folds retries into one call and counts every response', async () => {
+    simulateFakeGeminiError('unavailable');
+    await generateGeminiSummary(PROMPT, 'gemini-2.5-flash', { jobId: 'job-b', pokemonId: 16 });
+
+    expect(await totalsForJob('job-b')).toMatchObject([{ calls: 1, retries: 1 }]);
+  });
+
+  it('logs failures, including the tokens of the refused prompt', async () => {
+    simulateFakeGeminiError('safety');
+    await expect(
+      generateGeminiSummary(PROMPT, 'gemini-2.5-flash', { jobId: 'job-c', pokemonId: 16 })
+    ).rejects.toThrow('SAFETY');
+
+    const [totals] = await totalsForJob('job-c');
+    expect(totals).toMatchObject({ calls: 1, failedCalls: 1, outputTokens: 0 });
+    expect(totals?.promptTokens).toBeGreaterThan(0);
+  });
+
+  it('logs a TTS fallback against the model that answered', async () => {
+    simulateFakeGeminiError('daily-quota', { model: DEFAULT_SETTINGS.ttsModel });
+    await generateTts({
+      text: 'A quiet forest.',
+      voiceName: 'Puck',
+      context: { jobId: 'job-d', pokemonId: 16 },
+    });
+
+    expect(await totalsForJob('job-d')).toMatchObject([
+      { kind: 'tts', model: DEFAULT_SETTINGS.ttsFallbackModel, calls: 1, fallbacks: 1 },
+    ]);
+  });
+
+  it('reports the logged calls by model and job', async () => {
+    const report = await getUsageReport(1);
+    const job = report.byJob.find(j => j.jobId === 'job-a');
+    const [totals] = await totalsForJob('job-a');
+
+    expect(report.byDay).toHaveLength(1);
+    expect(report.totals.calls).toBe(4);
+    expect(job?.estimatedCostUsd).toBeCloseTo(
+      estimateCost('gemini-2.5-flash', totals?.promptTokens ?? 0, totals?.outputTokens ?? 0) ?? 0,
+      4
+    );
+  });
+});
+
+describe('buildUsageReport', () => {
+  const row = (overrides: Partial<ApiCallTotals>): ApiCallTotals => ({
+    day: '2025-01-01',
+    kind: 'summary',
+    model: 'gemini-2.5-flash',
+    jobId: 'job-1',
+    calls: 1,
+    failedCalls: 0,
+    promptTokens: 1000000,
+    outputTokens: 0,
+    latencyMs: 1000,
+    retries: 0,
+    fallbacks: 0,
+    ...overrides,
+  });
+
+  it('prices tokens per model and totals by day, model and job', () => {
+    const report = buildUsageReport(
+      [
+        row({}),
+        row({ day: '2025-01-02', model: 'gemini-2.5-pro', outputTokens: 100000 }),
+        row({ day: '2025-01-02', jobId: null, latencyMs: 3000 }),
+      ],
+      2,
+      '2025-01-01'
+    );
+
+    // 3M input tokens ($0.30 + $1.25 + $0.30) plus 100k Pro output tokens ($1.00)
+    expect(report.totals).toMatchObject({ calls: 3, avgLatencyMs: 1667, estimatedCostUsd: 2.85 });
+    expect(report.byDay.map(d => [d.day, d.calls])).toEqual([
+      ['2025-01-01', 1],
+      ['2025-01-02', 2],
+    ]);
+    expect(report.byModel.map(m => m.model)).toEqual(['gemini-2.5-pro', 'gemini-2.5-flash']);
+    expect(report.byJob.map(j => [j.jobId, j.estimatedCostUsd])).toEqual([
+      ['job-1', 2.55],
+      [null, 0.3],
+    ]);
+  });
+
+  it('counts calls to unpriced models without costing them', () => {
+    const report = buildUsageReport([row({ model: 'llama3.1', calls: 2 })], 1, '2025-01-01');
+
+    expect(report.totals).toMatchObject({ estimatedCostUsd: 0, unpricedCalls: 2 });
+    expect(report.unpricedModels).toEqual(['llama3.1']);
+  });
+});
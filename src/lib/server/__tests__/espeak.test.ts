@@ -0,0 +1,127 @@
+/**
+ * Tests for the local espeak-ng TTS provider.
+ *
+ * espeak-ng itself isn't needed: WAV parsing runs on synthetic buffers and a
+ * shell script stands in for the binary via ESPEAK_NG_PATH.
+ */
+
+import { chmodSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, describe, expect, it } from 'vitest';
+import { extractWavPcm, generateEspeakTts, parseEspeakVoices } from '../espeak';
+
+/**
+ * Build a mono 16-bit WAV. `declaredDataSize` mimics espeak-ng's streaming
+ * header, which never gets the real data size written back.
+ */
+function buildWav(options: {
+  samples: number;
+  sampleRate?: number;
+  channels?: number;
+  declaredDataSize?: number;
+}): Buffer {
+  const { samples, sampleRate = 22050, channels = 1 } = options;
+  const data = Buffer.alloc(samples * 2);
+  for (let i = 0; i < samples; i++) data.writeInt16LE(i % 100, i * 2);
+
+  const header = Buffer.alloc(44);
+  header.write('RIFF', 0, 'ascii');
+  header.writeUInt32LE(36 + data.length, 4);
+  header.write('WAVE', 8, 'ascii');
+  header.write('fmt ', 12, 'ascii');
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20); // PCM
+  header.writeUInt16LE(channels, 22);
+  header.writeUInt32LE(sampleRate, 24);
+  header.writeUInt32LE(sampleRate * channels * 2, 28);
+  header.writeUInt16LE(channels * 2, 32);
+  header.writeUInt16LE(16, 34);
+  header.write('data', 36, 'ascii');
+  header.writeUInt32LE(options.declaredDataSize ?? data.length, 40);
+
+  return Buffer.concat([header, data]);
+}
+
+describe('parseEspeakVoices', () => {
+  it('reads language, gender and name from the voice table', () => {
+    const output = [
+      'Pty Language       Age/Gender VoiceName          File                 Other Languages',
+      ' 2  en-gb           --/M      English_(Great_Britain) gmw/en            (en 2)',
+      ' 5  en-us           --/F      English_(America)  gmw/en-US            (en 3)',
+      '',
+    ].join('\n');
+
+    expect(parseEspeakVoices(output)).toEqual([
+      { id: 'en-gb', name: 'English (Great Britain)', gender: 'Male' },
+      { id: 'en-us', name: 'English (America)', gender: 'Female' },
+    ]);
+  });
+});
+
+describe('extractWavPcm', () => {
+  it('returns the samples and sample rate', () => {
+    const { pcm, sampleRate } = extractWavPcm(buildWav({ samples: 100 }));
+    expect(sampleRate).toBe(22050);
+    expect(pcm.length).toBe(200);
+  });
+
+  it('reads to the end of the buffer when the data size is a placeholder', () => {
+    const wav = buildWav({ samples: 100, declaredDataSize: 0x7ffff000 });
+    expect(extractWavPcm(wav).pcm.length).toBe(200);
+  });
+
+  it('rejects stereo audio', () => {
+    expect(() => extractWavPcm(buildWav({ samples: 10, channels: 2 }))).toThrow(/2 channel/);
+  });
+
+  it('rejects non-WAV output', () => {
+    expect(() => extractWavPcm(Buffer.from('espeak-ng: voice not found'))).toThrow(
+      /not a WAV file/
+    );
+  });
+});
+
+describe('generateEspeakTts', () => {
+  let dir: string | null = null;
+  const originalPath = process.env.ESPEAK_NG_PATH;
+
+  afterEach(() => {
+    if (dir) rmSync(dir, { recursive: true, force: true });
+    dir = null;
+    if (originalPath === undefined) delete process.env.ESPEAK_NG_PATH;
+    else process.env.ESPEAK_NG_PATH = originalPath;
+  });
+
+  /**
+   * Point ESPEAK_NG_PATH at a script that records its arguments and stdin, then
+   * prints `wav`.
+   */
+  function installStandIn(wav: Buffer) {
+    dir = mkdtempSync(join(tmpdir(), 'espeak-'));
+    writeFileSync(join(dir, 'out.wav'), wav);
+    const script = join(dir, 'espeak-ng');
+    writeFileSync(
+      script,
+      `#!/bin/sh\necho "$@" > "${dir}/args"\ncat > "${dir}/stdin"\ncat "${dir}/out.wav"\n`
+    );
+    chmodSync(script, 0o755);
+    process.env.ESPEAK_NG_PATH = script;
+    return dir;
+  }
+
+  it('passes the voice and text to espeak-ng and returns base64 PCM', async () => {
+    const standIn = installStandIn(buildWav({ samples: 50 }));
+
+    const pcmBase64 = await generateEspeakTts({ text: 'A wild Pidgey.', voice: 'en-gb' });
+
+    expect(Buffer.from(pcmBase64, 'base64').length).toBe(100);
+    expect(readFileSync(join(standIn, 'args'), 'utf-8')).toContain('-v en-gb');
+    expect(readFileSync(join(standIn, 'stdin'), 'utf-8')).toBe('A wild Pidgey.');
+  });
+
+  it('rejects audio at an unexpected sample rate', async () => {
+    installStandIn(buildWav({ samples: 50, sampleRate: 16000 }));
+    await expect(generateEspeakTts({ text: 'Hi', voice: 'en' })).rejects.toThrow(/16000Hz/);
+  });
+});
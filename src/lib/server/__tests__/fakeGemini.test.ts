@@ -0,0 +1,220 @@
+/**
+ * Tests for the offline fake Gemini provider, the quota ledger kept on top of it,
+ * and an end-to-end job run on it.
+ *
+ * `GEMINI_FAKE=true` routes the Gemini client to the fake, and a temporary
+ * SQLite database replaces the app database. PCM → MP3 conversion is covered by
+ * audioConverter.test.ts, so it is stubbed here to keep the job run fast.
+ */
+
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import type { SQLiteAdapter } from '@/lib/db/sqlite';
+
+let adapter: SQLiteAdapter;
+
+vi.mock('@/lib/db/adapter', async importOriginal => ({
+  ...(await importOriginal<object>()),
+  getDatabase: async () => getTestDatabase(),
+}));
+vi.mock('../audioConverter', () => ({
+  convertPcmToMp3: vi.fn(async (pcmBase64: string) => `mp3:${pcmBase64.length}`),
+}));
+
+import {
+  buildFakeSpeech,
+  buildFakeSummary,
+  resetFakeGemini,
+  simulateFakeGeminiError,
+} from '../fakeGemini';
+import { generateGeminiSummary, generateTts } from '../gemini';
+import { startJobRunner, stopJobRunner } from '../jobRunner';
+import { getQuotaDay, hasQuotaRemaining, markQuotaExhausted, QuotaExhaustedError } from '../quota';
+import { validateSummary } from '../summaryValidator';
+import { DEFAULT_SETTINGS } from '../settings';
+import { getTestDatabase, jobInput, openTestDatabase, removeTestDatabases } from './testDatabase';
+
+const PROMPT = `Write a field log.
+
+POKEMON DATA:
+    ID: 16
+    Name: pidgey
+    Region: Kanto
+    Types: normal, flying
+    Habitat: forest
+    Available Moves: gust, tackle, sand attack`;
+
+beforeAll(async () => {
+  process.env.GEMINI_FAKE = 'true';
+  adapter = await openTestDatabase();
+});
+
+afterEach(() => {
+  resetFakeGemini();
+});
+
+afterAll(() => {
+  delete process.env.GEMINI_FAKE;
+  removeTestDatabases();
+});
+
+describe('fake Gemini responses', () => {
+  it('builds the same summary for the same Pokémon', () => {
+    const summary = buildFakeSummary(PROMPT);
+    expect(summary).toBe(buildFakeSummary(PROMPT));
+    expect(summary).toContain('Pidgey');
+    expect(summary).toContain('Kanto');
+  });
+
+  it('writes summaries that pass the prompt rules', () => {
+    const result = validateSummary(buildFakeSummary(PROMPT), {
+      id: 16,
+      speciesId: 16,
+      name: 'pidgey',
+      allMoveNames: ['gust', 'tackle', 'sand attack'],
+    });
+    expect(result.rules.filter(r => !r.passed)).toEqual([]);
+  });
+
+  it('sizes the tone to the text, within bounds', () => {
+    const short = Buffer.from(buildFakeSpeech('Hi.', 'Kore'), 'base64');
+    const long = Buffer.from(buildFakeSpeech('word '.repeat(40), 'Kore'), 'base64');
+    expect(short.length).toBe(24000); // 500 ms minimum at 24 kHz, 2 bytes per sample
+    expect(long.length).toBeGreaterThan(short.length);
+  });
+});
+
+describe('Gemini client with GEMINI_FAKE', () => {
+  it('returns the deterministic summary', async () => {
+    await expect(generateGeminiSummary(PROMPT, 'gemini-test')).resolves.toBe(
+      buildFakeSummary(PROMPT)
+    );
+  });
+
+  it('surfaces safety blocks without retrying', async () => {
+    simulateFakeGeminiError('safety');
+    await expect(generateGeminiSummary(PROMPT, 'gemini-test')).rejects.toThrow(
+      'Gemini generation stopped: SAFETY'
+    );
+  });
+
+  it('retries after a 503', async () => {
+    simulateFakeGeminiError('unavailable');
+    await expect(generateGeminiSummary(PROMPT, 'gemini-test')).resolves.toBe(
+      buildFakeSummary(PROMPT)
+    );
+  });
+
+  it('falls back to the second TTS model when the first runs out of daily quota', async () => {
+    simulateFakeGeminiError('daily-quota', { model: DEFAULT_SETTINGS.ttsModel });
+
+    const pcm = await generateTts({ text: 'A quiet forest.', voiceName: 'Puck' });
+
+    expect(pcm).toBe(buildFakeSpeech('A quiet forest.', 'Puck'));
+    expect(await hasQuotaRemaining(DEFAULT_SETTINGS.ttsModel)).toBe(false);
+    expect(await hasQuotaRemaining(DEFAULT_SETTINGS.ttsFallbackModel)).toBe(true);
+  });
+});
+
+describe('quota ledger', () => {
+  const requestCount = async (model: string) =>
+    (await adapter.getQuotaUsage(getQuotaDay())).find(u => u.model === model)?.requestCount ?? 0;
+
+  // Models of their own, so spending them doesn't affect the other tests
+  const withTtsModels = async (run: () => Promise<void>) => {
+    await adapter.saveSetting('ttsModel', 'tts-primary-test');
+    await adapter.saveSetting('ttsFallbackModel', 'tts-fallback-test');
+    try {
+      await run();
+    } finally {
+      await adapter.deleteSetting('ttsModel');
+      await adapter.deleteSetting('ttsFallbackModel');
+    }
+  };
+
+  it('counts each accepted request once', async () => {
+    await generateGeminiSummary(PROMPT, 'ledger-summary-test');
+    await generateGeminiSummary(PROMPT, 'ledger-summary-test');
+    expect(await requestCount('ledger-summary-test')).toBe(2);
+  });
+
+  it('does not count attempts the API rejected', async () => {
+    simulateFakeGeminiError('unavailable');
+    await generateGeminiSummary(PROMPT, 'ledger-retry-test');
+    expect(await requestCount('ledger-retry-test')).toBe(1);
+  });
+
+  it('throws QuotaExhaustedError when the API reports both TTS models spent', async () => {
+    await withTtsModels(async () => {
+      simulateFakeGeminiError('daily-quota', { model: 'tts-primary-test' });
+      simulateFakeGeminiError('daily-quota', { model: 'tts-fallback-test' });
+
+      await expect(generateTts({ text: 'A quiet forest.', voiceName: 'Puck' })).rejects.toThrow(
+        QuotaExhaustedError
+      );
+      expect(await hasQuotaRemaining('tts-primary-test')).toBe(false);
+      expect(await hasQuotaRemaining('tts-fallback-test')).toBe(false);
+    });
+  });
+
+  it('throws QuotaExhaustedError without a request when the ledger has both spent', async () => {
+    await withTtsModels(async () => {
+      await markQuotaExhausted('tts-primary-test');
+      await markQuotaExhausted('tts-fallback-test');
+      const spent = await requestCount('tts-fallback-test');
+
+      await expect(generateTts({ text: 'A quiet forest.', voiceName: 'Puck' })).rejects.toThrow(
+        QuotaExhaustedError
+      );
+      expect(await requestCount('tts-fallback-test')).toBe(spent);
+    });
+  });
+});
+
+describe('job runner on the fake provider', () => {
+  afterAll(async () => {
+    await stopJobRunner(1000);
+  });
+
+  it('runs a FULL job through to saved summaries and audio logs', async () => {
+    await adapter.saveSetting('summaryCooldownMs', 0);
+    await adapter.saveSetting('ttsCooldownMs', 0);
+    await adapter.cachePokemon({
+      id: 16,
+      name: 'pidgey',
+      displayName: 'Pidgey',
+      height: 3,
+      weight: 18,
+      types: ['normal', 'flying'],
+      habitat: 'forest',
+      flavorTexts: ['A common sight in forests and woods.'],
+      moveNames: ['gust', 'tackle'],
+      imagePngPath: null,
+      imageSvgPath: null,
+      generationId: 1,
+      region: 'Kanto',
+      speciesId: 16,
+      isDefault: true,
+      formName: null,
+      variantCategory: 'default',
+      regionName: null,
+    });
+    await adapter.createJob(
+      jobInput({ id: 'fake-job', pokemonIds: [16], failurePolicy: 'fail-fast' })
+    );
+
+    startJobRunner({ standalone: true });
+    await vi.waitFor(
+      async () => expect((await adapter.getJob('fake-job'))?.status).toBe('completed'),
+      { timeout: 15000, interval: 200 }
+    );
+
+    const summary = await adapter.getSummary(16);
+    expect(summary?.summary).toContain('Pidgey');
+    expect(summary?.provider).toBe('gemini');
+    expect(summary?.validation).toMatchObject({ passed: true, attempts: 1 });
+
+    const audio = await adapter.getAudioLog(16);
+    expect(audio?.voice).toBe('Kore');
+    expect(audio?.audioBase64).toMatch(/^mp3:\d+$/);
+  }, 20000);
+});
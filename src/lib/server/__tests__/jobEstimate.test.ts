@@ -0,0 +1,195 @@
+/**
+ * Tests for the pre-flight job estimate: which Pokémon the regenerate policy
+ * keeps, how many requests the rest need and whether the TTS requests fit in
+ * what is left of today's quota.
+ */
+
+import { afterAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { SQLiteAdapter } from '@/lib/db/sqlite';
+import { estimateJob, type JobEstimateInput } from '../jobEstimate';
+import { getQuotaDay } from '../quota';
+import { getTestDatabase, openTestDatabase, removeTestDatabases } from './testDatabase';
+
+let adapter: SQLiteAdapter;
+
+vi.mock('@/lib/db/adapter', async importOriginal => ({
+  ...(await importOriginal<object>()),
+  getDatabase: async () => getTestDatabase(),
+}));
+
+const paragraph = (word: string) => Array(300).fill(word).join(' ') + '.';
+
+function estimate(overrides: Partial<JobEstimateInput> = {}) {
+  return estimateJob({
+    mode: 'FULL',
+    voice: 'Kore',
+    ttsProvider: 'gemini',
+    pokemonIds: [1, 4, 7],
+    regenerate: 'missing',
+    summaryCandidates: 1,
+    ...overrides,
+  });
+}
+
+async function saveSummary(id: number, summary = 'A short field log.'): Promise<void> {
+  await adapter.saveSummary({
+    id,
+    name: `pokemon-${id}`,
+    summary,
+    region: 'Kanto',
+    generationId: 1,
+  });
+}
+
+async function saveAudio(id: number, voice = 'Kore'): Promise<void> {
+  await adapter.saveAudioLog({
+    id,
+    name: `pokemon-${id}`,
+    region: 'Kanto',
+    generationId: 1,
+    voice,
+    audioBase64: '',
+    audioFormat: 'mp3',
+    bitrate: 128,
+  });
+}
+
+async function useTtsQuota(model: string, requests: number): Promise<void> {
+  for (let i = 0; i < requests; i++) await adapter.recordQuotaUsage(model, getQuotaDay());
+}
+
+beforeEach(async () => {
+  adapter = await openTestDatabase();
+  await adapter.saveSetting('summaryCooldownMs', 1000);
+  await adapter.saveSetting('ttsCooldownMs', 5000);
+  await adapter.saveSetting('ttsModel', 'tts-primary');
+  await adapter.saveSetting('ttsFallbackModel', 'tts-fallback');
+  await adapter.saveSetting('ttsDailyLimit', 3);
+  await adapter.saveSetting('ttsFallbackDailyLimit', 2);
+});
+
+afterAll(removeTestDatabases);
+
+describe('estimateJob', () => {
+  describe('existing output', () => {
+    it("counts what 'missing' keeps and what it generates", async () => {
+      await saveSummary(1);
+      await saveAudio(1);
+      await saveSummary(4);
+
+      const result = await estimate();
+
+      expect(result).toMatchObject({
+        total: 3,
+        keptSummaries: 2,
+        summaryCalls: 1,
+        keptAudio: 1,
+        ttsCalls: 2,
+        missingSummaries: 0,
+      });
+    });
+
+    it("regenerates everything under 'all'", async () => {
+      await saveSummary(1);
+      await saveAudio(1);
+
+      const result = await estimate({ regenerate: 'all' });
+
+      expect(result).toMatchObject({
+        keptSummaries: 0,
+        summaryCalls: 3,
+        keptAudio: 0,
+        ttsCalls: 3,
+      });
+    });
+
+    it("regenerates audio in another voice under 'outdated'", async () => {
+      await saveSummary(1);
+      await saveAudio(1, 'Puck');
+
+      const result = await estimate({ regenerate: 'outdated', pokemonIds: [1] });
+
+      expect(result).toMatchObject({ keptSummaries: 1, keptAudio: 0, ttsCalls: 1 });
+    });
+
+    it('skips audio-only Pokémon without a summary', async () => {
+      await saveSummary(1);
+
+      const result = await estimate({ mode: 'AUDIO_ONLY' });
+
+      expect(result).toMatchObject({ missingSummaries: 2, ttsCalls: 1, summaryCalls: 0 });
+    });
+
+    it('counts a request per summary candidate', async () => {
+      const result = await estimate({ mode: 'SUMMARY_ONLY', summaryCandidates: 3 });
+
+      expect(result).toMatchObject({ summaryCalls: 9, ttsCalls: 0 });
+    });
+
+    it('counts a TTS request per chunk of a long summary', async () => {
+      await saveSummary(
+        1,
+        [paragraph('alpha'), paragraph('bravo'), paragraph('charlie')].join('\n\n')
+      );
+
+      const result = await estimate({ mode: 'AUDIO_ONLY', pokemonIds: [1] });
+
+      expect(result.ttsCalls).toBe(3);
+    });
+  });
+
+  it('waits the cooldowns only between requests', async () => {
+    const summaryOnly = await estimate({ mode: 'SUMMARY_ONLY', pokemonIds: [1, 4] });
+    const full = await estimate({ pokemonIds: [1, 4] });
+
+    // Two summary requests with one cooldown between them
+    expect(summaryOnly.estimatedDurationMs).toBe(2 * 10000 + 1000);
+    // Plus two TTS requests with one cooldown between them
+    expect(full.estimatedDurationMs).toBe(2 * 10000 + 1000 + 2 * 30000 + 5000);
+  });
+
+  describe('quota', () => {
+    it('adds up what is left today on the primary and fallback models', async () => {
+      await useTtsQuota('tts-primary', 1);
+
+      const result = await estimate({ pokemonIds: [1, 4, 7, 25] });
+
+      expect(result.quota.ttsRemaining).toBe(4);
+      expect(result.quota.fitsToday).toBe(true);
+    });
+
+    it('spills over into the next quota day when the TTS requests exceed what is left', async () => {
+      await useTtsQuota('tts-primary', 3);
+      await useTtsQuota('tts-fallback', 1);
+
+      const result = await estimate({ pokemonIds: [1, 4] });
+
+      expect(result.ttsCalls).toBe(2);
+      expect(result.quota.ttsRemaining).toBe(1);
+      expect(result.quota.fitsToday).toBe(false);
+      expect(Date.parse(result.quota.resetsAt)).toBeGreaterThan(Date.now());
+    });
+
+    it('fits when the regenerate policy keeps the audio that would not', async () => {
+      await useTtsQuota('tts-primary', 3);
+      await useTtsQuota('tts-fallback', 1);
+      await saveSummary(1);
+      await saveAudio(1);
+
+      const result = await estimate({ pokemonIds: [1, 4] });
+
+      expect(result.ttsCalls).toBe(1);
+      expect(result.quota.fitsToday).toBe(true);
+    });
+
+    it('ignores the quota for a local TTS engine', async () => {
+      await useTtsQuota('tts-primary', 3);
+      await useTtsQuota('tts-fallback', 2);
+
+      const result = await estimate({ ttsProvider: 'espeak-ng' });
+
+      expect(result.quota.ttsRemaining).toBeNull();
+      expect(result.quota.fitsToday).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Tests for the job history: filtering and paging jobs in SQLite, and the
+ * query parameters of the list endpoint.
+ *
+ * Jobs are created at fixed times in a temporary database so date ranges and
+ * the newest-first order are predictable.
+ */
+
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import type { SQLiteAdapter } from '@/lib/db/sqlite';
+import type { CreateJobInput, JobListQuery, JobStatus } from '@/lib/db/adapter';
+import { getTestDatabase, jobInput, openTestDatabase, removeTestDatabases } from './testDatabase';
+
+vi.mock('@/lib/db/adapter', async importOriginal => ({
+  ...(await importOriginal<object>()),
+  getDatabase: async () => getTestDatabase(),
+}));
+
+import { GET } from '@/app/api/jobs/route';
+
+let adapter: SQLiteAdapter;
+
+async function createJob(
+  id: string,
+  createdAt: string,
+  status: JobStatus,
+  overrides: Partial<CreateJobInput> = {}
+): Promise<void> {
+  vi.setSystemTime(new Date(createdAt));
+  await adapter.createJob(jobInput({ id, ...overrides }));
+  await adapter.setJobStatus(id, status);
+}
+
+async function listIds(query: Partial<JobListQuery> = {}): Promise<string[]> {
+  const { jobs } = await adapter.listJobs({ limit: 20, offset: 0, ...query });
+  return jobs.map(job => job.id);
+}
+
+async function get(search: string) {
+  const response = await GET(new Request(`http://localhost/api/jobs${search}`));
+  return { status: response.status, body: await response.json() };
+}
+
+beforeAll(async () => {
+  adapter = await openTestDatabase();
+  vi.useFakeTimers({ toFake: ['Date'] });
+  await createJob('job-1', '2026-03-01T09:00:00.000Z', 'completed');
+  await createJob('job-2', '2026-03-02T09:00:00.000Z', 'failed', { mode: 'SUMMARY_ONLY' });
+  await createJob('job-3', '2026-03-03T09:00:00.000Z', 'completed_with_errors', {
+    generationId: 2,
+    region: 'Johto',
+    voice: 'Puck',
+  });
+  await createJob('job-4', '2026-03-04T09:00:00.000Z', 'canceled', { mode: 'AUDIO_ONLY' });
+  await createJob('job-5', '2026-03-05T09:00:00.000Z', 'completed', { voice: 'Puck' });
+  vi.useRealTimers();
+});
+
+afterAll(removeTestDatabases);
+
+describe('listJobs', () => {
+  it('lists every job newest first with the total', async () => {
+    const { jobs, total } = await adapter.listJobs({ limit: 20, offset: 0 });
+
+    expect(jobs.map(job => job.id)).toEqual(['job-5', 'job-4', 'job-3', 'job-2', 'job-1']);
+    expect(total).toBe(5);
+  });
+
+  it('filters by any of several statuses', async () => {
+    expect(await listIds({ statuses: ['completed', 'failed'] })).toEqual([
+      'job-5',
+      'job-2',
+      'job-1',
+    ]);
+  });
+
+  it('filters by mode, generation and voice', async () => {
+    expect(await listIds({ mode: 'SUMMARY_ONLY' })).toEqual(['job-2']);
+    expect(await listIds({ generationId: 2 })).toEqual(['job-3']);
+    expect(await listIds({ voice: 'Puck' })).toEqual(['job-5', 'job-3']);
+  });
+
+  it('filters by an inclusive creation date range', async () => {
+    expect(
+      await listIds({
+        createdFrom: '2026-03-02T09:00:00.000Z',
+        createdTo: '2026-03-04T09:00:00.000Z',
+      })
+    ).toEqual(['job-4', 'job-3', 'job-2']);
+  });
+
+  it('combines filters', async () => {
+    expect(await listIds({ statuses: ['completed'], voice: 'Puck' })).toEqual(['job-5']);
+    expect(await listIds({ statuses: ['failed'], voice: 'Puck' })).toEqual([]);
+  });
+
+  it('pages with limit and offset, counting every match', async () => {
+    const first = await adapter.listJobs({ limit: 2, offset: 0 });
+    const last = await adapter.listJobs({ limit: 2, offset: 4 });
+
+    expect(first.jobs.map(job => job.id)).toEqual(['job-5', 'job-4']);
+    expect(first.total).toBe(5);
+    expect(last.jobs.map(job => job.id)).toEqual(['job-1']);
+    expect(last.total).toBe(5);
+  });
+
+  it('counts the filtered jobs rather than the page', async () => {
+    const { jobs, total } = await adapter.listJobs({
+      statuses: ['completed', 'completed_with_errors'],
+      limit: 1,
+      offset: 1,
+    });
+
+    expect(jobs.map(job => job.id)).toEqual(['job-3']);
+    expect(total).toBe(3);
+  });
+});
+
+describe('GET /api/jobs', () => {
+  it('turns page and pageSize into an offset', async () => {
+    const { status, body } = await get('?page=2&pageSize=2');
+
+    expect(status).toBe(200);
+    expect(body.data.jobs.map((job: { id: string }) => job.id)).toEqual(['job-3', 'job-2']);
+    expect(body.data).toMatchObject({ total: 5, page: 2, pageSize: 2 });
+  });
+
+  it('passes the filters through', async () => {
+    const { body } = await get('?status=completed,canceled&from=2026-03-04&to=2026-03-05');
+
+    expect(body.data.jobs.map((job: { id: string }) => job.id)).toEqual(['job-4']);
+    expect(body.data.total).toBe(1);
+  });
+
+  it('clamps the page size', async () => {
+    const { body } = await get('?pageSize=1000');
+
+    expect(body.data.pageSize).toBe(100);
+  });
+
+  it('rejects unknown filter values', async () => {
+    expect((await get('?status=done')).status).toBe(400);
+    expect((await get('?mode=VIDEO')).status).toBe(400);
+    expect((await get('?generationId=0')).status).toBe(400);
+    expect((await get('?from=yesterday')).status).toBe(400);
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * Tests for a running job's rolling throughput and ETA: the settings-based
+ * fallback, averaging the recorded item timings and the audio stage still ahead
+ * of a FULL job.
+ */
+
+import { afterAll, afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { SQLiteAdapter } from '@/lib/db/sqlite';
+import type {
+  CreateJobInput,
+  JobItemTimings,
+  ProcessingJob,
+  ProcessingStage,
+} from '@/lib/db/adapter';
+import { getJobMetrics } from '../jobMetrics';
+import { getTestDatabase, jobInput, openTestDatabase, removeTestDatabases } from './testDatabase';
+
+let adapter: SQLiteAdapter;
+
+vi.mock('@/lib/db/adapter', async importOriginal => ({
+  ...(await importOriginal<object>()),
+  getDatabase: async () => getTestDatabase(),
+}));
+
+const NOW = new Date('2026-03-01T12:00:00.000Z');
+
+async function createJob(overrides: Partial<CreateJobInput> = {}): Promise<ProcessingJob> {
+  await adapter.createJob(
+    jobInput({ mode: 'SUMMARY_ONLY', pokemonIds: [1, 2, 3, 4], ...overrides })
+  );
+  return (await adapter.getJob('job-1')) as ProcessingJob;
+}
+
+// Items finish a minute apart, in the order they are recorded
+let finishedCount = 0;
+
+async function finishItem(
+  pokemonId: number,
+  stage: ProcessingStage,
+  timings: JobItemTimings
+): Promise<void> {
+  vi.setSystemTime(new Date(NOW.getTime() + ++finishedCount * 60000));
+  await adapter.setJobItemStatus('job-1', pokemonId, stage, 'succeeded');
+  await adapter.addJobItemTimings('job-1', pokemonId, stage, timings);
+}
+
+beforeEach(async () => {
+  vi.useFakeTimers({ toFake: ['Date'] });
+  finishedCount = 0;
+  adapter = await openTestDatabase();
+  await adapter.saveSetting('summaryCooldownMs', 1000);
+  await adapter.saveSetting('ttsCooldownMs', 5000);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+afterAll(removeTestDatabases);
+
+describe('getJobMetrics', () => {
+  it('falls back to the settings before any item has finished', async () => {
+    const job = await createJob();
+
+    const metrics = await getJobMetrics(job, NOW);
+
+    // 10s per summary request plus the 1s cooldown, for four items
+    expect(metrics).toEqual({
+      stage: 'summary',
+      sampleSize: 0,
+      avgLatencyMs: 10000,
+      avgConvertMs: 0,
+      avgCooldownMs: 1000,
+      itemsPerHour: 327.3,
+      remainingMs: 44000,
+      finishesAt: '2026-03-01T12:00:44.000Z',
+    });
+  });
+
+  it('averages the recorded timings over the items left', async () => {
+    const job = await createJob();
+    await finishItem(1, 'summary', { latencyMs: 4000, cooldownMs: 2000 });
+    await finishItem(2, 'summary', { latencyMs: 6000 });
+
+    const metrics = await getJobMetrics({ ...job, current: 2 }, NOW);
+
+    // The last item's cooldown is still running, so only the recorded one counts
+    expect(metrics).toMatchObject({
+      sampleSize: 2,
+      avgLatencyMs: 5000,
+      avgCooldownMs: 2000,
+      itemsPerHour: 514.3,
+      remainingMs: 14000,
+    });
+  });
+
+  it('averages only the most recent items', async () => {
+    const pokemonIds = Array.from({ length: 12 }, (_, i) => i + 1);
+    const job = await createJob({ pokemonIds });
+    for (const pokemonId of pokemonIds) {
+      await finishItem(pokemonId, 'summary', { latencyMs: pokemonId <= 2 ? 60000 : 3000 });
+    }
+
+    const metrics = await getJobMetrics({ ...job, current: 12 }, NOW);
+
+    expect(metrics).toMatchObject({ sampleSize: 10, avgLatencyMs: 3000, remainingMs: 0 });
+  });
+
+  it('averages the current stage only, including conversion time', async () => {
+    const job = await createJob({ mode: 'FULL' });
+    await finishItem(1, 'summary', { latencyMs: 9000, cooldownMs: 1000 });
+    await finishItem(1, 'audio', { latencyMs: 20000, convertMs: 2000, cooldownMs: 6000 });
+
+    const metrics = await getJobMetrics({ ...job, stage: 'audio', current: 1 }, NOW);
+
+    expect(metrics).toMatchObject({
+      stage: 'audio',
+      sampleSize: 1,
+      avgLatencyMs: 20000,
+      avgConvertMs: 2000,
+      avgCooldownMs: 6000,
+      remainingMs: 3 * 28000,
+    });
+  });
+
+  it('adds the audio stage ahead of a FULL job still writing summaries', async () => {
+    const job = await createJob({ mode: 'FULL' });
+
+    const metrics = await getJobMetrics({ ...job, current: 1 }, NOW);
+
+    // Three summaries left, then four TTS requests of 30s with a 5s cooldown
+    expect(metrics?.remainingMs).toBe(3 * 11000 + 4 * 35000);
+  });
+
+  it('expects local TTS engines to be quick and skip the cooldown', async () => {
+    const job = await createJob({ mode: 'AUDIO_ONLY', ttsProvider: 'espeak-ng' });
+
+    const metrics = await getJobMetrics(job, NOW);
+
+    expect(metrics).toMatchObject({ avgLatencyMs: 3000, avgCooldownMs: 0, remainingMs: 12000 });
+  });
+
+  it('returns null once the job has finished', async () => {
+    const job = await createJob();
+
+    expect(await getJobMetrics({ ...job, status: 'completed' }, NOW)).toBeNull();
+    expect(await getJobMetrics({ ...job, status: 'canceled' }, NOW)).toBeNull();
+  });
+});
@@ -0,0 +1,237 @@
+/**
+ * Tests for the job queue in SQLite: claim order by priority, stage capacity,
+ * claiming under a lease, lease renewal, re-queueing, stalled-job recovery and
+ * noticing a lost lease.
+ */
+
+import { afterAll, beforeEach, describe, expect, it } from 'vitest';
+import type { SQLiteAdapter } from '@/lib/db/sqlite';
+import type { CreateJobInput, JobLease } from '@/lib/db/adapter';
+import { canClaimJob, hasLostLease } from '../jobRunner';
+import { jobInput, openTestDatabase, removeTestDatabases } from './testDatabase';
+
+let adapter: SQLiteAdapter;
+
+const WORKER_A: JobLease = { workerId: 'worker-a', leaseMs: 60000 };
+const WORKER_B: JobLease = { workerId: 'worker-b', leaseMs: 60000 };
+
+async function createJob(id: string, overrides: Partial<CreateJobInput> = {}): Promise<void> {
+  await adapter.createJob(jobInput({ id, ...overrides }));
+  // Keep created_at strictly increasing so ties on priority order by age
+  await new Promise(resolve => setTimeout(resolve, 5));
+}
+
+beforeEach(async () => {
+  adapter = await openTestDatabase();
+});
+
+afterAll(removeTestDatabases);
+
+describe('claimNextQueuedJob', () => {
+  it('marks the job running under the worker with a lease', async () => {
+    await createJob('job-1');
+
+    const claimed = await adapter.claimNextQueuedJob(WORKER_A);
+
+    expect(claimed?.job).toMatchObject({ id: 'job-1', status: 'running', workerId: 'worker-a' });
+    expect(claimed?.pokemonIds).toEqual([1, 2, 3]);
+    expect(Date.parse(claimed?.job.leaseExpiresAt ?? '')).toBeGreaterThan(Date.now());
+    expect(claimed?.job.heartbeatAt).not.toBeNull();
+  });
+
+  it('claims each job only once', async () => {
+    await createJob('job-1');
+
+    expect(await adapter.claimNextQueuedJob(WORKER_A)).not.toBeNull();
+    expect(await adapter.claimNextQueuedJob(WORKER_B)).toBeNull();
+  });
+
+  it('skips jobs the predicate rejects', async () => {
+    await createJob('job-1');
+    await createJob('job-2');
+
+    const claimed = await adapter.claimNextQueuedJob(WORKER_A, job => job.id !== 'job-1');
+
+    expect(claimed?.job.id).toBe('job-2');
+    expect((await adapter.getJob('job-1'))?.status).toBe('queued');
+  });
+});
+
+describe('renewJobLease', () => {
+  it('extends the lease for the owning worker', async () => {
+    await createJob('job-1');
+    await adapter.claimNextQueuedJob({ ...WORKER_A, leaseMs: 1000 });
+    const before = (await adapter.getJob('job-1'))?.leaseExpiresAt ?? '';
+
+    expect(await adapter.renewJobLease('job-1', WORKER_A)).toBe(true);
+    expect(Date.parse((await adapter.getJob('job-1'))?.leaseExpiresAt ?? '')).toBeGreaterThan(
+      Date.parse(before)
+    );
+  });
+
+  it('refuses other workers and jobs that are no longer running', async () => {
+    await createJob('job-1');
+    await adapter.claimNextQueuedJob(WORKER_A);
+
+    expect(await adapter.renewJobLease('job-1', WORKER_B)).toBe(false);
+
+    await adapter.pauseJob('job-1');
+    expect(await adapter.renewJobLease('job-1', WORKER_A)).toBe(false);
+  });
+});
+
+describe('requeueJob', () => {
+  it('returns the job to the queue with the lease released', async () => {
+    await createJob('job-1');
+    await adapter.claimNextQueuedJob(WORKER_A);
+
+    await adapter.requeueJob('job-1');
+
+    expect(await adapter.getJob('job-1')).toMatchObject({
+      status: 'queued',
+      workerId: null,
+      leaseExpiresAt: null,
+      heartbeatAt: null,
+    });
+    expect(await adapter.renewJobLease('job-1', WORKER_A)).toBe(false);
+    expect((await adapter.claimNextQueuedJob(WORKER_B))?.job.workerId).toBe('worker-b');
+  });
+});
+
+describe('recoverStalledJobs', () => {
+  it('re-queues running jobs whose lease has lapsed', async () => {
+    await createJob('lapsed');
+    await createJob('live');
+    await adapter.claimNextQueuedJob({ ...WORKER_A, leaseMs: -1000 });
+    await adapter.claimNextQueuedJob(WORKER_B);
+
+    expect(await adapter.recoverStalledJobs()).toBe(1);
+
+    expect(await adapter.getJob('lapsed')).toMatchObject({
+      status: 'queued',
+      workerId: null,
+      leaseExpiresAt: null,
+      heartbeatAt: null,
+    });
+    expect(await adapter.getJob('live')).toMatchObject({ status: 'running', workerId: 'worker-b' });
+  });
+
+  it("reclaims a restarting worker's own jobs before their lease lapses", async () => {
+    await createJob('mine');
+    await createJob('theirs');
+    await adapter.claimNextQueuedJob(WORKER_A);
+    await adapter.claimNextQueuedJob(WORKER_B);
+
+    expect(await adapter.recoverStalledJobs('worker-a')).toBe(1);
+
+    expect((await adapter.getJob('mine'))?.status).toBe('queued');
+    expect((await adapter.getJob('theirs'))?.status).toBe('running');
+  });
+
+  it('leaves paused and queued jobs alone', async () => {
+    await createJob('queued');
+    await createJob('paused');
+    await adapter.pauseJob('paused');
+
+    expect(await adapter.recoverStalledJobs('worker-a')).toBe(0);
+  });
+});
+
+describe('hasLostLease', () => {
+  it('notices a job re-queued when its lease lapsed mid-item, then taken over', async () => {
+    await createJob('job-1');
+    await adapter.claimNextQueuedJob({ ...WORKER_A, leaseMs: -1000 });
+    expect(hasLostLease((await adapter.getJob('job-1'))!, 'worker-a')).toBe(false);
+
+    // Worker A is still on its item when the stalled-job check re-queues the job
+    await adapter.recoverStalledJobs();
+    expect(hasLostLease((await adapter.getJob('job-1'))!, 'worker-a')).toBe(true);
+
+    await adapter.claimNextQueuedJob(WORKER_B);
+    const job = (await adapter.getJob('job-1'))!;
+    expect(hasLostLease(job, 'worker-a')).toBe(true);
+    expect(hasLostLease(job, 'worker-b')).toBe(false);
+  });
+
+  it('treats a finished or canceled job as no longer held', async () => {
+    await createJob('done');
+    await createJob('canceled');
+    await adapter.claimNextQueuedJob(WORKER_A);
+    await adapter.claimNextQueuedJob(WORKER_A);
+
+    await adapter.setJobStatus('done', 'completed');
+    await adapter.cancelJob('canceled');
+
+    expect(hasLostLease((await adapter.getJob('done'))!, 'worker-a')).toBe(true);
+    expect(hasLostLease((await adapter.getJob('canceled'))!, 'worker-a')).toBe(true);
+  });
+});
+
+describe('queue priority', () => {
+  async function claimOrder(): Promise<string[]> {
+    const ids: string[] = [];
+    for (let claimed = await adapter.claimNextQueuedJob(WORKER_A); claimed; ) {
+      ids.push(claimed.job.id);
+      claimed = await adapter.claimNextQueuedJob(WORKER_A);
+    }
+    return ids;
+  }
+
+  it('claims by priority, then oldest first', async () => {
+    await createJob('old-low');
+    await createJob('high', { priority: 5 });
+    await createJob('new-low');
+
+    expect(await claimOrder()).toEqual(['high', 'old-low', 'new-low']);
+  });
+
+  it('bumps a job ahead of every queued job', async () => {
+    await createJob('a', { priority: 3 });
+    await createJob('b', { priority: 1 });
+    await createJob('c');
+
+    await adapter.bumpJobToFront('c');
+
+    expect((await adapter.getQueuedJobs()).map(j => j.id)).toEqual(['c', 'a', 'b']);
+  });
+
+  it('puts listed jobs first and keeps the rest in their order', async () => {
+    await createJob('a');
+    await createJob('b');
+    await createJob('c');
+    await createJob('d');
+
+    await adapter.reorderQueuedJobs(['d', 'b', 'unknown']);
+
+    expect((await adapter.getQueuedJobs()).map(j => j.id)).toEqual(['d', 'b', 'a', 'c']);
+    expect(await claimOrder()).toEqual(['d', 'b', 'a', 'c']);
+  });
+});
+
+describe('stage capacity', () => {
+  const limits = { maxConcurrentTextJobs: 1, maxConcurrentAudioJobs: 1 };
+
+  it('reports a free slot per stage', () => {
+    const running = [{ stage: 'audio' as const }];
+    expect(canClaimJob({ stage: 'audio' }, running, limits)).toBe(false);
+    expect(canClaimJob({ stage: 'summary' }, running, limits)).toBe(true);
+  });
+
+  it('passes over a blocked audio job to start a text job behind it', async () => {
+    await createJob('running-audio', { mode: 'AUDIO_ONLY' });
+    await adapter.claimNextQueuedJob(WORKER_B);
+    await createJob('blocked-audio', { mode: 'AUDIO_ONLY', priority: 10 });
+    await createJob('text');
+
+    const running = await adapter.getAllRunningJobs();
+    const claimed = await adapter.claimNextQueuedJob(WORKER_A, job =>
+      canClaimJob(job, running, limits)
+    );
+
+    expect(claimed?.job.id).toBe('text');
+    expect(await adapter.getJob('blocked-audio')).toMatchObject({
+      status: 'queued',
+      workerId: null,
+    });
+  });
+});
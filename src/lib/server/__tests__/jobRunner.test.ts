@@ -0,0 +1,271 @@
+/**
+ * Tests for the job runner processing jobs end to end.
+ *
+ * The runner polls a temporary SQLite database. Summaries come from the offline
+ * fake Gemini (`GEMINI_FAKE=true`), with failures injected through its error
+ * queue. TTS requests go to a mocked provider and MP3 conversion is stubbed
+ * out, so no audio engine is needed.
+ */
+
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { SQLiteAdapter } from '@/lib/db/sqlite';
+import type { CreateJobInput, JobStatus, ProcessingJob } from '@/lib/db/adapter';
+
+let adapter: SQLiteAdapter;
+
+const { synthesize } = vi.hoisted(() => ({
+  synthesize: vi.fn<(request: { text: string }) => Promise<string>>(),
+}));
+
+vi.mock('@/lib/db/adapter', async importOriginal => ({
+  ...(await importOriginal<object>()),
+  getDatabase: async () => getTestDatabase(),
+}));
+vi.mock('../ttsProviders', () => ({
+  getTtsProvider: () => ({
+    id: 'gemini',
+    label: 'Gemini',
+    sampleRate: 24000,
+    usesQuota: true,
+    listVoices: async () => [],
+    synthesize,
+  }),
+}));
+vi.mock('../audioConverter', () => ({
+  convertPcmToMp3: async (pcmBase64: string) => pcmBase64,
+}));
+
+import { resetFakeGemini, simulateFakeGeminiError } from '../fakeGemini';
+import { publishJobEvent, subscribeToJobEvents, type JobEvent } from '../jobEvents';
+import { startJobRunner, stopJobRunner } from '../jobRunner';
+import { QuotaExhaustedError } from '../quota';
+import { loadChunkAudio, splitTtsText } from '../ttsChunks';
+import { getTestDatabase, jobInput, openTestDatabase, removeTestDatabases } from './testDatabase';
+
+const TERMINAL: JobStatus[] = ['completed', 'completed_with_errors', 'failed', 'canceled'];
+
+// A second of loud PCM, so stitching doesn't trim it away as silence
+const PCM = Buffer.alloc(48000, 0x40).toString('base64');
+
+const POKEMON = [
+  { id: 1, name: 'bulbasaur', types: ['grass', 'poison'], moveNames: ['vine-whip', 'tackle'] },
+  { id: 4, name: 'charmander', types: ['fire'], moveNames: ['ember', 'scratch'] },
+  { id: 7, name: 'squirtle', types: ['water'], moveNames: ['bubble', 'tackle'] },
+];
+
+let jobCount = 0;
+
+async function createJob(overrides: Partial<CreateJobInput> = {}): Promise<string> {
+  const id = overrides.id ?? `job-${++jobCount}`;
+  await adapter.createJob(
+    jobInput({ id, mode: 'SUMMARY_ONLY', pokemonIds: POKEMON.map(p => p.id), ...overrides })
+  );
+  return id;
+}
+
+async function waitForStatus(id: string, statuses: JobStatus[]): Promise<ProcessingJob> {
+  return vi.waitFor(
+    async () => {
+      const job = await adapter.getJob(id);
+      expect(statuses).toContain(job?.status);
+      return job as ProcessingJob;
+    },
+    { timeout: 15000, interval: 100 }
+  );
+}
+
+async function itemStatuses(id: string): Promise<Record<number, string>> {
+  const items = await adapter.getJobItems(id);
+  return Object.fromEntries(items.map(item => [item.pokemonId, item.status]));
+}
+
+beforeAll(async () => {
+  process.env.GEMINI_FAKE = 'true';
+  adapter = await openTestDatabase();
+  for (const pokemon of POKEMON) {
+    await adapter.cachePokemon({
+      ...pokemon,
+      displayName: pokemon.name.replace(/^\w/, c => c.toUpperCase()),
+      height: 7,
+      weight: 69,
+      habitat: 'grassland',
+      flavorTexts: ['Often seen resting in sunny fields.'],
+      imagePngPath: null,
+      imageSvgPath: null,
+      generationId: 1,
+      region: 'Kanto',
+      speciesId: pokemon.id,
+      isDefault: true,
+      formName: null,
+      variantCategory: 'default',
+      regionName: null,
+    });
+  }
+  // No waiting between requests, and one attempt per Pokémon so errors fail it
+  await adapter.saveSetting('ttsCooldownMs', 0);
+  await adapter.saveSetting('summaryCooldownMs', 0);
+  await adapter.saveSetting('maxRetries', 1);
+  startJobRunner({ standalone: true });
+});
+
+beforeEach(() => {
+  synthesize.mockReset();
+  synthesize.mockResolvedValue(PCM);
+});
+
+afterEach(() => {
+  resetFakeGemini();
+});
+
+afterAll(async () => {
+  await stopJobRunner(1000);
+  delete process.env.GEMINI_FAKE;
+  removeTestDatabases();
+});
+
+describe('failure policies', () => {
+  it('fail-fast fails the job at the first failed Pokémon', async () => {
+    simulateFakeGeminiError('safety');
+    const id = await createJob({ failurePolicy: 'fail-fast' });
+
+    const job = await waitForStatus(id, TERMINAL);
+
+    expect(job.status).toBe('failed');
+    expect(job.error).toMatch(/SAFETY/);
+    expect(job.failedPokemonIds).toEqual([1]);
+    expect(await itemStatuses(id)).toEqual({ 1: 'failed', 4: 'pending', 7: 'pending' });
+  });
+
+  it('skip-and-continue finishes the rest and completes with errors', async () => {
+    simulateFakeGeminiError('safety');
+    const id = await createJob({ failurePolicy: 'skip-and-continue' });
+
+    const job = await waitForStatus(id, TERMINAL);
+
+    expect(job.status).toBe('completed_with_errors');
+    expect(job.failedPokemonIds).toEqual([1]);
+    expect(await itemStatuses(id)).toEqual({ 1: 'failed', 4: 'succeeded', 7: 'succeeded' });
+  });
+
+  it('fail-after-N-errors keeps going below the limit', async () => {
+    simulateFakeGeminiError('safety');
+    const id = await createJob({ failurePolicy: 'fail-after-N-errors', maxErrors: 2 });
+
+    const job = await waitForStatus(id, TERMINAL);
+
+    expect(job.status).toBe('completed_with_errors');
+    expect(await itemStatuses(id)).toEqual({ 1: 'failed', 4: 'succeeded', 7: 'succeeded' });
+  });
+
+  it('fail-after-N-errors fails the job once the limit is reached', async () => {
+    simulateFakeGeminiError('safety', { times: 2 });
+    const id = await createJob({ failurePolicy: 'fail-after-N-errors', maxErrors: 2 });
+
+    const job = await waitForStatus(id, TERMINAL);
+
+    expect(job.status).toBe('failed');
+    expect(job.error).toMatch(/Stopped after 2 failed Pokémon \(limit 2\)/);
+    expect(job.failedPokemonIds).toEqual([1, 4]);
+    expect(await itemStatuses(id)).toEqual({ 1: 'failed', 4: 'failed', 7: 'pending' });
+  });
+});
+
+describe('job control', () => {
+  it('wakes a cooldown as soon as the job is paused', async () => {
+    await adapter.saveSetting('summaryCooldownMs', 60000);
+    try {
+      const id = await createJob();
+      await vi.waitFor(
+        async () => expect((await adapter.getJob(id))?.cooldownUntil).not.toBeNull(),
+        {
+          timeout: 15000,
+          interval: 100,
+        }
+      );
+
+      // As the pause route does
+      await adapter.pauseJob(id);
+      publishJobEvent({ type: 'status', jobId: id, status: 'paused' });
+
+      // Well before the cooldown, or the slow check for other processes, is over
+      await vi.waitFor(async () => expect((await adapter.getJob(id))?.cooldownUntil).toBeNull(), {
+        timeout: 2000,
+        interval: 50,
+      });
+      expect(await adapter.getJob(id)).toMatchObject({ status: 'paused', current: 1 });
+    } finally {
+      await adapter.saveSetting('summaryCooldownMs', 0);
+    }
+  });
+});
+
+describe('metrics events', () => {
+  it('publishes the ETA once per finished Pokémon', async () => {
+    const events: JobEvent[] = [];
+    const unsubscribe = subscribeToJobEvents('job-metrics', event => events.push(event));
+    const id = await createJob({ id: 'job-metrics' });
+
+    await waitForStatus(id, TERMINAL);
+    unsubscribe();
+
+    const metrics = events.filter(event => event.type === 'metrics');
+    expect(metrics).toHaveLength(POKEMON.length);
+    expect(metrics.at(-1)).toMatchObject({ metrics: { stage: 'summary', remainingMs: 0 } });
+  });
+
+  it('counts down the audio stage of a FULL job', async () => {
+    // Take some time per request, so the rolling average isn't zero
+    synthesize.mockImplementation(() => new Promise(resolve => setTimeout(() => resolve(PCM), 20)));
+    const events: JobEvent[] = [];
+    const unsubscribe = subscribeToJobEvents('job-full-metrics', event => events.push(event));
+    const id = await createJob({ id: 'job-full-metrics', mode: 'FULL' });
+
+    expect((await waitForStatus(id, TERMINAL)).status).toBe('completed');
+    unsubscribe();
+
+    const remaining = events.flatMap(event =>
+      event.type === 'metrics' && event.metrics.stage === 'audio' ? [event.metrics.remainingMs] : []
+    );
+    expect(remaining).toHaveLength(POKEMON.length);
+    expect(remaining.slice(0, -1).every(ms => ms > 0)).toBe(true);
+    expect(remaining.at(-1)).toBe(0);
+  });
+});
+
+describe('long audio interrupted by the quota', () => {
+  const paragraph = (word: string) => Array(300).fill(word).join(' ') + '.';
+  const summary = [paragraph('alpha'), paragraph('bravo'), paragraph('charlie')].join('\n\n');
+
+  it('resumes from the chunk that hit the quota', async () => {
+    const chunks = splitTtsText(summary);
+    expect(chunks).toHaveLength(3);
+    await adapter.saveSummary({
+      id: 16,
+      name: 'pidgey',
+      summary,
+      region: 'Kanto',
+      generationId: 1,
+    });
+
+    synthesize
+      .mockResolvedValueOnce(PCM)
+      .mockRejectedValueOnce(new QuotaExhaustedError('gemini-tts', '2099-01-01T08:00:00.000Z'));
+    const id = await createJob({ mode: 'AUDIO_ONLY', pokemonIds: [16] });
+
+    await waitForStatus(id, ['paused']);
+    expect(await loadChunkAudio(id, 16, chunks)).toEqual([PCM]);
+
+    await adapter.resumeJob(id);
+    const job = await waitForStatus(id, TERMINAL);
+
+    expect(job.status).toBe('completed');
+    expect(synthesize.mock.calls.map(([request]) => request.text)).toEqual([
+      chunks[0]?.text,
+      chunks[1]?.text,
+      chunks[1]?.text,
+      chunks[2]?.text,
+    ]);
+    expect(await adapter.getAudioLog(16)).not.toBeNull();
+    expect(await loadChunkAudio(id, 16, chunks)).toEqual([]);
+  });
+});
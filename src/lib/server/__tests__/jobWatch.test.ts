@@ -0,0 +1,94 @@
+/**
+ * Tests for the shared job row watchers behind the SSE endpoint: one query per
+ * interval however many connections watch a job, none while the job runs in
+ * this process, and a snapshot only when the row changed.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ProcessingJob } from '@/lib/db/adapter';
+
+const { db, isProcessingJob } = vi.hoisted(() => ({
+  db: { getJob: vi.fn<(id: string) => Promise<ProcessingJob | null>>() },
+  isProcessingJob: vi.fn<(id: string) => boolean>(),
+}));
+
+vi.mock('@/lib/db/adapter', () => ({ getDatabase: async () => db }));
+vi.mock('../jobRunner', () => ({ isProcessingJob }));
+vi.mock('../jobMetrics', () => ({ getJobMetrics: async () => null }));
+
+import { watchJob } from '../jobWatch';
+
+let row = { id: 'job-1', status: 'running', updatedAt: 't0' } as ProcessingJob;
+
+function updateRow(changes: Partial<ProcessingJob>): void {
+  row = { ...row, ...changes };
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  row = { id: 'job-1', status: 'running', updatedAt: 't0' } as ProcessingJob;
+  db.getJob.mockReset();
+  db.getJob.mockImplementation(async () => row);
+  isProcessingJob.mockReset();
+  isProcessingJob.mockReturnValue(false);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('watchJob', () => {
+  it('reads the row once per interval for every subscriber', async () => {
+    const first = vi.fn();
+    const second = vi.fn();
+    const stopFirst = watchJob('job-1', 't0', first);
+    const stopSecond = watchJob('job-1', 't0', second);
+
+    updateRow({ current: 1, updatedAt: 't1' });
+    await vi.advanceTimersByTimeAsync(2000);
+
+    expect(db.getJob).toHaveBeenCalledTimes(1);
+    expect(first).toHaveBeenCalledWith(expect.objectContaining({ current: 1, metrics: null }));
+    expect(second).toHaveBeenCalledTimes(1);
+
+    stopFirst();
+    stopSecond();
+  });
+
+  it('only sends a snapshot when the row changed', async () => {
+    const listener = vi.fn();
+    const stop = watchJob('job-1', 't0', listener);
+
+    await vi.advanceTimersByTimeAsync(4000);
+    expect(listener).not.toHaveBeenCalled();
+
+    updateRow({ status: 'completed', updatedAt: 't1' });
+    await vi.advanceTimersByTimeAsync(4000);
+    expect(listener).toHaveBeenCalledTimes(1);
+
+    stop();
+  });
+
+  it('skips the query while the job runs in this process', async () => {
+    isProcessingJob.mockReturnValue(true);
+    const stop = watchJob('job-1', 't0', vi.fn());
+
+    await vi.advanceTimersByTimeAsync(6000);
+
+    expect(db.getJob).not.toHaveBeenCalled();
+    stop();
+  });
+
+  it('stops once the last subscriber leaves', async () => {
+    const stopFirst = watchJob('job-1', 't0', vi.fn());
+    const stopSecond = watchJob('job-1', 't0', vi.fn());
+
+    stopFirst();
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(db.getJob).toHaveBeenCalledTimes(1);
+
+    stopSecond();
+    await vi.advanceTimersByTimeAsync(6000);
+    expect(db.getJob).toHaveBeenCalledTimes(1);
+  });
+});
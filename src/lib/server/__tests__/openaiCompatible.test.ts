@@ -0,0 +1,176 @@
+/**
+ * Tests for the OpenAI-compatible summary client.
+ *
+ * A local HTTP server stands in for Ollama / llama.cpp so the request shape and
+ * reply parsing can be checked without a model running.
+ */
+
+import { createServer, type IncomingMessage, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+const { logApiCall, recordApiCall } = vi.hoisted(() => ({
+  logApiCall: vi.fn(async () => 1),
+  recordApiCall: vi.fn(async () => {}),
+}));
+
+vi.mock('../quota', () => ({
+  recordApiCall,
+  getQuotaDay: () => '2025-01-01',
+}));
+vi.mock('@/lib/db/adapter', () => ({ getDatabase: async () => ({ logApiCall }) }));
+
+import { generateOpenAiCompatibleSummary, parseSummaryContent } from '../openaiCompatible';
+
+interface ReceivedRequest {
+  url: string | undefined;
+  headers: IncomingMessage['headers'];
+  body: Record<string, unknown>;
+}
+
+let server: Server | null = null;
+
+/**
+ * Start a server that answers every chat completion with `content`, after
+ * failing the first requests with the HTTP statuses in `failures`.
+ */
+async function startStandIn(content: string, failures: number[] = []) {
+  const received: ReceivedRequest[] = [];
+
+  server = createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => {
+      received.push({ url: req.url, headers: req.headers, body: JSON.parse(body) });
+      res.setHeader('Content-Type', 'application/json');
+      const failure = failures.shift();
+      if (failure) {
+        res.statusCode = failure;
+        res.end(JSON.stringify({ error: 'max_tokens must be at most 500' }));
+        return;
+      }
+      res.end(
+        JSON.stringify({
+          choices: [{ message: { content }, finish_reason: 'stop' }],
+          usage: { prompt_tokens: 120, completion_tokens: 45 },
+        })
+      );
+    });
+  });
+
+  await new Promise<void>(resolve => server!.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return { baseUrl: `http://127.0.0.1:${port}/v1/`, received };
+}
+
+afterEach(async () => {
+  await new Promise(resolve => (server ? server.close(resolve) : resolve(undefined)));
+  server = null;
+});
+
+describe('parseSummaryContent', () => {
+  it('reads the summary field from JSON', () => {
+    expect(parseSummaryContent('{"summary": "A quiet seed."}')).toBe('A quiet seed.');
+  });
+
+  it('unwraps Markdown code fences', () => {
+    expect(parseSummaryContent('```json\n{"summary": "Fenced."}\n```')).toBe('Fenced.');
+  });
+
+  it('accepts a plain paragraph from models that ignore JSON mode', () => {
+    expect(parseSummaryContent('  Just the log entry.  ')).toBe('Just the log entry.');
+  });
+
+  it('rejects JSON without a summary', () => {
+    expect(() => parseSummaryContent('{"text": "wrong key"}')).toThrow(/missing "summary"/);
+  });
+});
+
+describe('generateOpenAiCompatibleSummary', () => {
+  it('posts a chat completion and returns the parsed summary', async () => {
+    const { baseUrl, received } = await startStandIn('{"summary": "Observed near Route 1."}');
+
+    const summary = await generateOpenAiCompatibleSummary({
+      baseUrl,
+      model: 'llama3.1',
+      systemPrompt: 'You are a field researcher.',
+      pokemonContext: 'ID: 1\nName: bulbasaur',
+    });
+
+    expect(summary).toBe('Observed near Route 1.');
+    expect(received).toHaveLength(1);
+    const [request] = received as [ReceivedRequest];
+    expect(request.url).toBe('/v1/chat/completions');
+    expect(request.body.model).toBe('llama3.1');
+
+    const [system, user] = request.body.messages as Array<{ role: string; content: string }>;
+    expect(system?.role).toBe('system');
+    expect(system?.content).toContain('You are a field researcher.');
+    expect(user?.content).toContain('Name: bulbasaur');
+  });
+
+  it('logs the call with the token usage the server reports', async () => {
+    const { baseUrl } = await startStandIn('{"summary": "Observed near Route 1."}');
+
+    await generateOpenAiCompatibleSummary({
+      baseUrl,
+      model: 'llama3.1',
+      systemPrompt: 'You are a field researcher.',
+      pokemonContext: 'ID: 1\nName: bulbasaur',
+      context: { jobId: 'job-1', pokemonId: 1 },
+    });
+
+    expect(logApiCall).toHaveBeenCalledWith(
+      expect.objectContaining({
+        provider: 'openai-compatible',
+        model: 'llama3.1',
+        promptTokens: 120,
+        outputTokens: 45,
+        success: true,
+        jobId: 'job-1',
+        pokemonId: 1,
+      })
+    );
+  });
+
+  it('retries server errors', async () => {
+    const { baseUrl, received } = await startStandIn('{"summary": "Second try."}', [502]);
+
+    const summary = await generateOpenAiCompatibleSummary({
+      baseUrl,
+      model: 'llama3.1',
+      systemPrompt: 'You are a field researcher.',
+      pokemonContext: 'ID: 1\nName: bulbasaur',
+    });
+
+    expect(summary).toBe('Second try.');
+    expect(received).toHaveLength(2);
+  });
+
+  it('fails client errors without retrying, even when they mention a 5xx code', async () => {
+    const { baseUrl, received } = await startStandIn('{"summary": "Unused."}', [400]);
+
+    await expect(
+      generateOpenAiCompatibleSummary({
+        baseUrl,
+        model: 'llama3.1',
+        systemPrompt: 'You are a field researcher.',
+        pokemonContext: 'ID: 1\nName: bulbasaur',
+      })
+    ).rejects.toThrow(/failed with 400/);
+    expect(received).toHaveLength(1);
+  });
+
+  it('does not count local calls against the Gemini quota', async () => {
+    const { baseUrl } = await startStandIn('{"summary": "Observed near Route 1."}');
+
+    await generateOpenAiCompatibleSummary({
+      baseUrl,
+      model: 'llama3.1',
+      systemPrompt: 'You are a field researcher.',
+      pokemonContext: 'ID: 1\nName: bulbasaur',
+    });
+
+    expect(recordApiCall).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Tests for opening extraction, near-duplicate grouping and the avoid list.
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+  buildOpeningReport,
+  extractOpening,
+  groupOpenings,
+  normalizeOpening,
+  openingSimilarity,
+  selectOpeningsToAvoid,
+} from '../openingDiversity';
+
+let nextId = 1;
+
+function entry(name: string, opening: string, updatedAt: string) {
+  return {
+    id: nextId++,
+    name,
+    summary: `Pokémon trainer log ${nextId}. ${opening} The rest of the log follows here.`,
+    updatedAt,
+  };
+}
+
+describe('extractOpening', () => {
+  it('returns the sentence after the trainer log line', () => {
+    expect(
+      extractOpening('Pokémon trainer log 16. Wind rattled the canopy! A Pidgey (PID-jee) landed.')
+    ).toBe('Wind rattled the canopy!');
+  });
+
+  it('keeps closing quotes with the sentence', () => {
+    expect(extractOpening('Pokemon trainer log 1. "Look up." I did.')).toBe('"Look up."');
+  });
+
+  it('returns null without the trainer log line', () => {
+    expect(extractOpening('Today I witnessed a Pidgey.')).toBeNull();
+    expect(extractOpening('Pokémon trainer log 16.')).toBeNull();
+  });
+});
+
+describe('openingSimilarity', () => {
+  it('masks the Pokémon name', () => {
+    expect(normalizeOpening('Today, I witnessed a Pidgey!', 'pidgey')).toBe(
+      'today i witnessed a pokemon'
+    );
+  });
+
+  it('scores shared stock phrasing above the threshold and unrelated lines below it', () => {
+    const stock = openingSimilarity(
+      normalizeOpening('Today I witnessed a Pidgey soaring over the forest.', 'pidgey'),
+      normalizeOpening('Today I witnessed a Rattata darting through the grass.', 'rattata')
+    );
+    const unrelated = openingSimilarity(
+      normalizeOpening('Sparks lit the meadow at dusk.', 'pikachu'),
+      normalizeOpening('A cold wind swept across the tundra.', 'snorunt')
+    );
+    expect(stock).toBeGreaterThanOrEqual(0.7);
+    expect(unrelated).toBeLessThan(0.3);
+  });
+});
+
+describe('groupOpenings', () => {
+  const summaries = [
+    entry('pidgey', 'Today I witnessed a Pidgey soaring over the forest.', '2025-01-01'),
+    entry('rattata', 'Today I witnessed a Rattata darting through the grass.', '2025-01-03'),
+    entry('spearow', 'Today I witnessed a Spearow squabbling on a fence.', '2025-01-02'),
+    entry('pikachu', 'Sparks lit the meadow at dusk.', '2025-01-04'),
+    entry('geodude', 'The morning mist clung to the valley floor.', '2025-01-05'),
+    { id: 99, name: 'mew', summary: 'No log line here.', updatedAt: '2025-01-06' },
+  ];
+
+  it('groups near-duplicates under their most recent wording', () => {
+    const [top, ...rest] = groupOpenings(summaries);
+    expect(top?.count).toBe(3);
+    expect(top?.opening).toBe('Today I witnessed a Rattata darting through the grass.');
+    expect(top?.variants).toHaveLength(2);
+    expect(top?.pokemon.map(p => p.name)).toEqual(['rattata', 'spearow', 'pidgey']);
+    expect(rest.map(g => g.count)).toEqual([1, 1]);
+  });
+
+  it('reports only repeated groups', () => {
+    const report = buildOpeningReport(summaries);
+    expect(report.totalSummaries).toBe(6);
+    expect(report.withOpening).toBe(5);
+    expect(report.distinctOpenings).toBe(3);
+    expect(report.repeated).toHaveLength(1);
+  });
+
+  it('avoids repeated openings first, then the most recent ones', () => {
+    expect(selectOpeningsToAvoid(groupOpenings(summaries), 2)).toEqual([
+      'Today I witnessed a Rattata darting through the grass.',
+      'The morning mist clung to the valley floor.',
+    ]);
+    expect(selectOpeningsToAvoid(groupOpenings(summaries), 0)).toEqual([]);
+  });
+});
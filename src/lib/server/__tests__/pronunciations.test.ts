@@ -0,0 +1,159 @@
+/**
+ * Tests for the pronunciation lexicon: seeding from stored summaries, entry
+ * validation and the prompt section.
+ */
+
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import type { SQLiteAdapter } from '@/lib/db/sqlite';
+import type { Pronunciation } from '@/lib/db/adapter';
+
+let adapter: SQLiteAdapter;
+
+vi.mock('@/lib/db/adapter', async importOriginal => ({
+  ...(await importOriginal<object>()),
+  getDatabase: async () => getTestDatabase(),
+}));
+
+import {
+  collectPronunciations,
+  describePronunciations,
+  seedPronunciationsFromSummaries,
+  selectPronunciations,
+  validatePronunciationFields,
+} from '../pronunciations';
+import { getTestDatabase, openTestDatabase, removeTestDatabases } from './testDatabase';
+
+function entry(term: string, phonetic: string): Pronunciation {
+  return {
+    id: 0,
+    term,
+    phonetic,
+    kind: 'other',
+    source: 'manual',
+    createdAt: '',
+    updatedAt: '',
+  };
+}
+
+beforeAll(async () => {
+  adapter = await openTestDatabase();
+});
+
+afterAll(() => {
+  removeTestDatabases();
+});
+
+describe('collectPronunciations', () => {
+  it('prefers the most used spelling, then the most recent', () => {
+    const found = collectPronunciations([
+      { summary: 'A Gyarados (GARE-uh-dos) rose.', updatedAt: '2026-01-01' },
+      { summary: 'Gyarados (GYE-ruh-dos) again.', updatedAt: '2026-01-02' },
+      { summary: 'One Gyarados (GARE-uh-dos) more.', updatedAt: '2026-01-03' },
+      { summary: 'Then Suicune (SOO-ih-koon).', updatedAt: '2026-01-01' },
+      { summary: 'And Suicune (SWEE-koon).', updatedAt: '2026-01-04' },
+    ]);
+
+    expect(found).toEqual(
+      expect.arrayContaining([
+        { term: 'Gyarados', phonetic: 'GARE-uh-dos' },
+        { term: 'Suicune', phonetic: 'SWEE-koon' },
+      ])
+    );
+    expect(found).toHaveLength(2);
+  });
+
+  it('reads hints through markdown', () => {
+    expect(
+      collectPronunciations([{ summary: 'It used **Mr. Mime** (MIS-ter MIME).', updatedAt: '' }])
+    ).toEqual([{ term: 'Mr. Mime', phonetic: 'MIS-ter MIME' }]);
+  });
+});
+
+describe('seedPronunciationsFromSummaries', () => {
+  it('adds new names with a kind and keeps existing entries', async () => {
+    await adapter.cachePokemon({
+      id: 130,
+      name: 'gyarados',
+      displayName: 'Gyarados',
+      height: 65,
+      weight: 2350,
+      types: ['water', 'flying'],
+      habitat: 'waters-edge',
+      flavorTexts: [],
+      moveNames: ['hydro-pump'],
+      imagePngPath: null,
+      imageSvgPath: null,
+      generationId: 1,
+      region: 'Kanto',
+      speciesId: 130,
+      isDefault: true,
+      formName: null,
+      variantCategory: 'default',
+      regionName: null,
+    });
+    await adapter.saveSummary({
+      id: 130,
+      name: 'gyarados',
+      summary: 'Gyarados (GARE-uh-dos) of Kanto (KAN-toe) unleashed Hydro Pump (HY-dro PUMP).',
+      region: 'Kanto',
+      generationId: 1,
+    });
+    await adapter.savePronunciation({
+      term: 'kanto',
+      phonetic: 'KAHN-toh',
+      kind: 'region',
+      source: 'manual',
+    });
+
+    expect(await seedPronunciationsFromSummaries()).toEqual({ found: 3, added: 2 });
+
+    const lexicon = await adapter.getAllPronunciations();
+    expect(
+      lexicon.map(({ term, kind, phonetic, source }) => ({ term, kind, phonetic, source }))
+    ).toEqual([
+      { term: 'Gyarados', kind: 'pokemon', phonetic: 'GARE-uh-dos', source: 'summary' },
+      { term: 'Hydro Pump', kind: 'move', phonetic: 'HY-dro PUMP', source: 'summary' },
+      { term: 'kanto', kind: 'region', phonetic: 'KAHN-toh', source: 'manual' },
+    ]);
+  });
+});
+
+describe('validatePronunciationFields', () => {
+  it('accepts a name and phonetic spelling', () => {
+    expect(
+      validatePronunciationFields({
+        term: ' Mr.  Mime ',
+        phonetic: 'MIS-ter MIME',
+        kind: 'pokemon',
+      })
+    ).toEqual({
+      fields: { term: 'Mr. Mime', phonetic: 'MIS-ter MIME', kind: 'pokemon' },
+      error: null,
+    });
+  });
+
+  it('rejects spellings without a stressed syllable and unknown kinds', () => {
+    expect(validatePronunciationFields({ phonetic: 'gare-uh-dos' }).error).toMatch(/phonetic/);
+    expect(validatePronunciationFields({ kind: 'item' }).error).toMatch(/kind/);
+    expect(validatePronunciationFields({ term: '' }).error).toMatch(/term/);
+  });
+});
+
+describe('selectPronunciations', () => {
+  it('picks the names a Pokémon log is likely to use', () => {
+    const lexicon = [
+      entry('Mr. Mime', 'MIS-ter MIME'),
+      entry('Kanto', 'KAN-toe'),
+      entry('Psychic', 'SY-kik'),
+      entry('Gyarados', 'GARE-uh-dos'),
+    ];
+    const selected = selectPronunciations(
+      lexicon,
+      { name: 'mr-mime', displayName: 'Mr. Mime', allMoveNames: ['psychic', 'barrier'] },
+      'Kanto'
+    );
+
+    expect(selected.map(e => e.term)).toEqual(['Mr. Mime', 'Kanto', 'Psychic']);
+    expect(describePronunciations(selected)).toContain('- Mr. Mime (MIS-ter MIME)');
+  });
+});
@@ -0,0 +1,34 @@
+/**
+ * Tests for quota day bucketing and reset time calculation.
+ *
+ * Google resets daily quotas at midnight Pacific time, so the ledger must
+ * bucket calls by Pacific date and handle both PST and PDT offsets.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getNextQuotaReset, getQuotaDay } from '../quota';
+
+describe('getQuotaDay', () => {
+  it('uses the Pacific date, not the UTC date', () => {
+    // 03:00 UTC on Jan 15 is still Jan 14 in California
+    expect(getQuotaDay(new Date('2025-01-15T03:00:00Z'))).toBe('2025-01-14');
+    expect(getQuotaDay(new Date('2025-01-15T09:00:00Z'))).toBe('2025-01-15');
+  });
+});
+
+describe('getNextQuotaReset', () => {
+  it('returns 08:00 UTC during standard time', () => {
+    const reset = getNextQuotaReset(new Date('2025-01-15T20:00:00Z'));
+    expect(reset.toISOString()).toBe('2025-01-16T08:00:00.000Z');
+  });
+
+  it('returns 07:00 UTC during daylight saving time', () => {
+    const reset = getNextQuotaReset(new Date('2025-07-15T20:00:00Z'));
+    expect(reset.toISOString()).toBe('2025-07-16T07:00:00.000Z');
+  });
+
+  it('rolls over month boundaries', () => {
+    const reset = getNextQuotaReset(new Date('2025-01-31T20:00:00Z'));
+    expect(reset.toISOString()).toBe('2025-02-01T08:00:00.000Z');
+  });
+});
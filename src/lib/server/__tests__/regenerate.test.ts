@@ -0,0 +1,112 @@
+/**
+ * Tests for the regenerate policy check: when existing summaries and audio are
+ * kept or regenerated under 'all', 'missing' and 'outdated'.
+ *
+ * The active prompt's update time is mocked rather than stored.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { AudioLogMetadata, RegeneratePolicy, StoredSummary } from '@/lib/db/adapter';
+
+const { getActivePromptUpdatedAt } = vi.hoisted(() => ({
+  getActivePromptUpdatedAt: vi.fn<(type: 'summary' | 'tts') => Promise<string | null>>(),
+}));
+
+vi.mock('../prompts', () => ({ getActivePromptUpdatedAt }));
+
+import { isUpToDate } from '../regenerate';
+
+const SUMMARY: StoredSummary = {
+  id: 25,
+  name: 'pikachu',
+  summary: 'Field log.',
+  region: 'Kanto',
+  generationId: 1,
+  provider: 'gemini',
+  model: 'gemini-2.5-flash',
+  validation: null,
+  createdAt: '2026-03-01T00:00:00.000Z',
+  updatedAt: '2026-03-10T00:00:00.000Z',
+};
+
+const AUDIO: AudioLogMetadata = {
+  id: 25,
+  name: 'pikachu',
+  region: 'Kanto',
+  generationId: 1,
+  voice: 'Kore',
+  audioFormat: 'mp3',
+  bitrate: 128,
+  createdAt: '2026-03-01T00:00:00.000Z',
+  updatedAt: '2026-03-10T00:00:00.000Z',
+};
+
+const job = (regenerate: RegeneratePolicy, voice = 'Kore') => ({ regenerate, voice });
+
+beforeEach(() => {
+  getActivePromptUpdatedAt.mockReset();
+  getActivePromptUpdatedAt.mockResolvedValue(null);
+});
+
+describe('isUpToDate', () => {
+  it('treats missing output as not up to date under every policy', async () => {
+    for (const policy of ['all', 'missing', 'outdated'] as const) {
+      expect(await isUpToDate(job(policy), null)).toBe(false);
+    }
+  });
+
+  it("regenerates existing output under 'all'", async () => {
+    expect(await isUpToDate(job('all'), SUMMARY)).toBe(false);
+    expect(await isUpToDate(job('all'), AUDIO)).toBe(false);
+  });
+
+  it("keeps existing output under 'missing', however old", async () => {
+    getActivePromptUpdatedAt.mockResolvedValue('2026-04-01T00:00:00.000Z');
+
+    expect(await isUpToDate(job('missing', 'Puck'), AUDIO, '2026-04-01T00:00:00.000Z')).toBe(true);
+    expect(await isUpToDate(job('missing'), SUMMARY)).toBe(true);
+    expect(getActivePromptUpdatedAt).not.toHaveBeenCalled();
+  });
+
+  describe("under 'outdated'", () => {
+    it('keeps a summary generated with the built-in prompt', async () => {
+      expect(await isUpToDate(job('outdated'), SUMMARY)).toBe(true);
+      expect(getActivePromptUpdatedAt).toHaveBeenCalledWith('summary');
+    });
+
+    it('keeps a summary newer than the active prompt', async () => {
+      getActivePromptUpdatedAt.mockResolvedValue('2026-03-05T00:00:00.000Z');
+
+      expect(await isUpToDate(job('outdated'), SUMMARY)).toBe(true);
+    });
+
+    it('regenerates a summary older than the active prompt', async () => {
+      getActivePromptUpdatedAt.mockResolvedValue('2026-03-15T00:00:00.000Z');
+
+      expect(await isUpToDate(job('outdated'), SUMMARY)).toBe(false);
+    });
+
+    it('checks audio against the TTS prompt', async () => {
+      getActivePromptUpdatedAt.mockImplementation(async type =>
+        type === 'tts' ? '2026-03-15T00:00:00.000Z' : null
+      );
+
+      expect(await isUpToDate(job('outdated'), AUDIO)).toBe(false);
+      expect(getActivePromptUpdatedAt).toHaveBeenCalledWith('tts');
+    });
+
+    it('regenerates audio recorded with a different voice', async () => {
+      expect(await isUpToDate(job('outdated', 'Puck'), AUDIO)).toBe(false);
+    });
+
+    it('regenerates audio older than its summary', async () => {
+      expect(await isUpToDate(job('outdated'), AUDIO, '2026-03-12T00:00:00.000Z')).toBe(false);
+    });
+
+    it('keeps audio with the same voice, newer than its summary and prompt', async () => {
+      getActivePromptUpdatedAt.mockResolvedValue('2026-03-05T00:00:00.000Z');
+
+      expect(await isUpToDate(job('outdated'), AUDIO, '2026-03-08T00:00:00.000Z')).toBe(true);
+    });
+  });
+});
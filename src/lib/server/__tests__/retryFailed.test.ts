@@ -0,0 +1,133 @@
+/**
+ * Tests for retrying a job's unfinished Pokémon: which ones the new job gets,
+ * the mode it runs in and the requests that are refused.
+ *
+ * The route runs against a temporary SQLite database, with the job runner and
+ * webhook notifications stubbed out.
+ */
+
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import type { SQLiteAdapter } from '@/lib/db/sqlite';
+import type { CreateJobInput, JobStatus, ProcessingJob } from '@/lib/db/adapter';
+import { getTestDatabase, jobInput, openTestDatabase, removeTestDatabases } from './testDatabase';
+
+vi.mock('@/lib/db/adapter', async importOriginal => ({
+  ...(await importOriginal<object>()),
+  getDatabase: async () => getTestDatabase(),
+}));
+vi.mock('@/lib/server/jobRunner', () => ({ startJobRunner: () => {} }));
+vi.mock('@/lib/server/webhooks', () => ({ notifyJobWebhooks: () => {} }));
+
+import { POST } from '@/app/api/jobs/[id]/retry-failed/route';
+
+let adapter: SQLiteAdapter;
+let jobCount = 0;
+
+async function createJob(
+  status: JobStatus,
+  overrides: Partial<CreateJobInput> = {}
+): Promise<string> {
+  const id = `job-${++jobCount}`;
+  await adapter.createJob(jobInput({ id, pokemonIds: [1, 4, 7, 25], ...overrides }));
+  await adapter.setJobStatus(id, status);
+  return id;
+}
+
+async function retry(id: string) {
+  const response = await POST(new Request(`http://localhost/api/jobs/${id}/retry-failed`), {
+    params: Promise.resolve({ id }),
+  });
+  return { status: response.status, body: await response.json() };
+}
+
+async function retriedJob(id: string): Promise<ProcessingJob> {
+  const { status, body } = await retry(id);
+  expect(status).toBe(200);
+  return (await adapter.getJob(body.data.id)) as ProcessingJob;
+}
+
+beforeAll(async () => {
+  adapter = await openTestDatabase();
+});
+
+afterAll(removeTestDatabases);
+
+describe('POST /api/jobs/[id]/retry-failed', () => {
+  it('retries only the Pokémon with a failed or pending stage', async () => {
+    const id = await createJob('completed_with_errors');
+    for (const pokemonId of [1, 4, 7, 25]) {
+      await adapter.setJobItemStatus(id, pokemonId, 'summary', 'succeeded');
+    }
+    await adapter.setJobItemStatus(id, 1, 'audio', 'succeeded');
+    await adapter.setJobItemStatus(id, 4, 'audio', 'failed', 'TTS error');
+    await adapter.setJobItemStatus(id, 7, 'audio', 'skipped');
+    // Pokémon 25's audio is still pending, as after a fail-fast stop
+
+    const job = await retriedJob(id);
+
+    expect(job.pokemonIds).toEqual([4, 25]);
+    expect(job.status).toBe('queued');
+  });
+
+  it('keeps the job order rather than the order items finished in', async () => {
+    const id = await createJob('failed', { mode: 'SUMMARY_ONLY' });
+    await adapter.setJobItemStatus(id, 25, 'summary', 'failed', 'Safety block');
+    await adapter.setJobItemStatus(id, 4, 'summary', 'succeeded');
+    await adapter.setJobItemStatus(id, 1, 'summary', 'failed', 'Safety block');
+
+    const job = await retriedJob(id);
+
+    expect(job.pokemonIds).toEqual([1, 7, 25]);
+    expect(job.mode).toBe('SUMMARY_ONLY');
+  });
+
+  it('retries a FULL job as AUDIO_ONLY when every summary succeeded', async () => {
+    const id = await createJob('completed_with_errors', { pokemonIds: [1, 4] });
+    await adapter.setJobItemStatus(id, 1, 'summary', 'succeeded');
+    await adapter.setJobItemStatus(id, 4, 'summary', 'succeeded');
+    await adapter.setJobItemStatus(id, 1, 'audio', 'failed', 'TTS error');
+    await adapter.setJobItemStatus(id, 4, 'audio', 'succeeded');
+
+    const job = await retriedJob(id);
+
+    expect(job.pokemonIds).toEqual([1]);
+    expect(job.mode).toBe('AUDIO_ONLY');
+  });
+
+  it('keeps FULL mode when a retried Pokémon still needs its summary', async () => {
+    const id = await createJob('failed', { pokemonIds: [1, 4] });
+    await adapter.setJobItemStatus(id, 1, 'summary', 'succeeded');
+    await adapter.setJobItemStatus(id, 1, 'audio', 'failed', 'TTS error');
+    await adapter.setJobItemStatus(id, 4, 'summary', 'failed', 'Safety block');
+
+    const job = await retriedJob(id);
+
+    expect(job.pokemonIds).toEqual([1, 4]);
+    expect(job.mode).toBe('FULL');
+  });
+
+  it('refuses a job with nothing left to retry', async () => {
+    const id = await createJob('completed', { mode: 'SUMMARY_ONLY', pokemonIds: [1, 4] });
+    await adapter.setJobItemStatus(id, 1, 'summary', 'succeeded');
+    await adapter.setJobItemStatus(id, 4, 'summary', 'skipped');
+
+    const { status, body } = await retry(id);
+
+    expect(status).toBe(400);
+    expect(body.error).toBe('No unfinished Pokémon to retry');
+  });
+
+  it('refuses a job that is still active', async () => {
+    const id = await createJob('running');
+
+    const { status } = await retry(id);
+
+    expect(status).toBe(409);
+  });
+
+  it('answers 404 for an unknown job', async () => {
+    const { status } = await retry('missing');
+
+    expect(status).toBe(404);
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Tests for multi-candidate summary ranking, storage and promotion.
+ *
+ * Drafts come from a mocked provider so each test controls their quality, and a
+ * temporary SQLite database replaces the app database.
+ */
+
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import type { SQLiteAdapter } from '@/lib/db/sqlite';
+import type { SummaryValidationReport } from '@/lib/db/adapter';
+import type { PokemonDetails } from '@/types';
+
+let adapter: SQLiteAdapter;
+
+vi.mock('@/lib/db/adapter', async importOriginal => ({
+  ...(await importOriginal<object>()),
+  getDatabase: async () => getTestDatabase(),
+}));
+vi.mock('../summaryProviders', () => ({ generateSummary: vi.fn() }));
+
+import {
+  generateSummaryCandidates,
+  promoteSummaryCandidate,
+  rankDrafts,
+} from '../summaryCandidates';
+import { generateSummary, type GeneratedSummary } from '../summaryProviders';
+import { getTestDatabase, openTestDatabase, removeTestDatabases } from './testDatabase';
+
+const PIDGEY = {
+  id: 16,
+  name: 'pidgey',
+  generationId: 1,
+} as PokemonDetails;
+
+const JOB = {
+  id: 'job-1',
+  summaryProvider: null,
+  summaryModel: null,
+  summaryCandidates: 3,
+};
+
+function draft(opening: string, score: number): GeneratedSummary {
+  const validation: SummaryValidationReport = {
+    passed: score === 1,
+    score,
+    wordCount: 260,
+    boldedMoves: [],
+    rules: [],
+    attempts: 1,
+    checkedAt: '2025-01-01T00:00:00.000Z',
+  };
+  return {
+    summary: `Pokémon trainer log 16. ${opening} More notes follow.`,
+    provider: 'gemini',
+    model: 'gemini-test',
+    validation,
+  };
+}
+
+beforeAll(async () => {
+  adapter = await openTestDatabase();
+});
+
+afterAll(() => {
+  removeTestDatabases();
+});
+
+describe('rankDrafts', () => {
+  it('ranks by checks passed, then score, then the least familiar opening', () => {
+    const library = ['today i witnessed a pokemon in the tall grass'];
+    const ranked = rankDrafts(
+      [
+        draft('Today I witnessed a Pidgey in the tall grass.', 0.8),
+        draft('Feathers drifted over the quiet road.', 0.8),
+        draft('Today I witnessed a Pidgey at dawn.', 1),
+        draft('A sharp whistle cut through the trees.', 0.6),
+      ],
+      'pidgey',
+      library
+    );
+
+    expect(ranked.map(d => [d.rank, d.validation.score])).toEqual([
+      [1, 1],
+      [2, 0.8],
+      [3, 0.8],
+      [4, 0.6],
+    ]);
+    expect(ranked[1]?.summary).toContain('Feathers drifted');
+    expect(ranked[2]?.openingSimilarity).toBe(1);
+  });
+});
+
+describe('generateSummaryCandidates', () => {
+  it('stores every draft ranked and returns the best', async () => {
+    vi.mocked(generateSummary)
+      .mockResolvedValueOnce(draft('Wind shook the branches.', 0.6))
+      .mockResolvedValueOnce(draft('A Pidgey landed on the fence.', 1))
+      .mockRejectedValueOnce(new Error('503'));
+
+    const best = await generateSummaryCandidates(PIDGEY, 'Kanto', JOB);
+
+    expect(best.summary).toContain('landed on the fence');
+    expect(vi.mocked(generateSummary).mock.calls[1]?.[3]).toEqual({
+      avoidOpenings: ['Wind shook the branches.'],
+    });
+
+    const stored = await adapter.getSummaryCandidates(16);
+    expect(stored.map(c => [c.rank, c.promoted])).toEqual([
+      [1, true],
+      [2, false],
+    ]);
+    expect(stored[0]?.jobId).toBe('job-1');
+  });
+
+  it('fails when no draft could be generated', async () => {
+    vi.mocked(generateSummary).mockRejectedValueOnce(new Error('quota'));
+    await expect(generateSummaryCandidates(PIDGEY, 'Kanto', JOB)).rejects.toThrow('quota');
+  });
+});
+
+describe('promoteSummaryCandidate', () => {
+  it('makes a candidate the active summary', async () => {
+    const [, runnerUp] = await adapter.getSummaryCandidates(16);
+
+    const summary = await promoteSummaryCandidate(16, runnerUp!.id);
+
+    expect(summary?.summary).toBe(runnerUp!.summary);
+    expect(summary?.provider).toBe('gemini');
+    const stored = await adapter.getSummaryCandidates(16);
+    expect(stored.map(c => c.promoted)).toEqual([false, true]);
+  });
+
+  it('ignores candidates of other Pokémon', async () => {
+    const [candidate] = await adapter.getSummaryCandidates(16);
+    await expect(promoteSummaryCandidate(17, candidate!.id)).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * Tests for the summary rule checks.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { describeFailedRules, validateSummary } from '../summaryValidator';
+
+const PIKACHU = {
+  id: 25,
+  speciesId: 25,
+  name: 'pikachu',
+  allMoveNames: ['thunder shock', 'quick attack', 'iron tail', 'thunderbolt'],
+};
+
+const FILLER = 'It watched the treeline for a long while before moving on again.';
+
+/** A summary that passes every rule, with parts swappable per test. */
+function buildSummary(
+  overrides: { opening?: string; mention?: string; moves?: string; words?: number } = {}
+): string {
+  const parts = [
+    overrides.opening ?? 'Pokémon trainer log 25. Sparks lit the meadow.',
+    overrides.mention ?? 'A Pikachu (PEE-kah-choo) darted between the grass.',
+    overrides.moves ?? 'It used **Thunder Shock** and then **Quick Attack**.',
+  ];
+  const target = overrides.words ?? 270;
+  while (parts.join(' ').split(/\s+/).length < target) parts.push(FILLER);
+  return parts.join(' ');
+}
+
+function failedRules(summary: string) {
+  return validateSummary(summary, PIKACHU)
+    .rules.filter(r => !r.passed)
+    .map(r => r.rule);
+}
+
+describe('validateSummary', () => {
+  it('passes a summary that follows every rule', () => {
+    const result = validateSummary(buildSummary(), PIKACHU);
+    expect(result.passed).toBe(true);
+    expect(result.score).toBe(1);
+    expect(result.boldedMoves).toEqual(['Thunder Shock', 'Quick Attack']);
+  });
+
+  it('checks the opening and its log ID', () => {
+    expect(failedRules(buildSummary({ opening: 'Sparks lit the meadow.' }))).toEqual(['opening']);
+    expect(failedRules(buildSummary({ opening: 'Pokémon trainer log 26. Sparks.' }))).toEqual([
+      'opening',
+    ]);
+  });
+
+  it('checks the word count', () => {
+    expect(failedRules(buildSummary({ words: 120 }))).toEqual(['length']);
+    expect(failedRules(buildSummary({ words: 340 }))).toEqual(['length']);
+  });
+
+  it('checks the number of bolded moves', () => {
+    expect(failedRules(buildSummary({ moves: 'It used **Thunderbolt**.' }))).toEqual([
+      'move-count',
+    ]);
+  });
+
+  it('flags bolded moves the Pokémon cannot learn', () => {
+    const result = validateSummary(
+      buildSummary({ moves: 'It used **Thunderbolt** and **Surf**.' }),
+      PIKACHU
+    );
+    expect(result.passed).toBe(false);
+    expect(result.rules.find(r => r.rule === 'known-moves')?.detail).toContain('Surf');
+  });
+
+  it('requires a phonetic spelling after the first mention', () => {
+    expect(failedRules(buildSummary({ mention: 'A Pikachu darted between the grass.' }))).toEqual([
+      'pronunciation',
+    ]);
+    expect(
+      failedRules(buildSummary({ mention: 'A Pikachu (the mouse) darted between the grass.' }))
+    ).toEqual(['pronunciation']);
+  });
+
+  it('scores partial passes', () => {
+    const result = validateSummary('A Pikachu sat down.', PIKACHU);
+    expect(result.score).toBe(0.2); // only known-moves passes with nothing bolded
+  });
+});
+
+describe('describeFailedRules', () => {
+  it('lists only the broken rules', () => {
+    const feedback = describeFailedRules(validateSummary(buildSummary({ words: 120 }), PIKACHU));
+    expect(feedback).toContain('words (250–300 required)');
+    expect(feedback).not.toContain('bolded');
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * Shared fixtures for tests that run against temporary SQLite databases.
+ *
+ * Tests that exercise code calling `getDatabase` point it at the current
+ * database:
+ *
+ *   vi.mock('@/lib/db/adapter', async importOriginal => ({
+ *     ...(await importOriginal<object>()),
+ *     getDatabase: async () => getTestDatabase(),
+ *   }));
+ */
+
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { SQLiteAdapter } from '@/lib/db/sqlite';
+import type { CreateJobInput } from '@/lib/db/adapter';
+
+let dir: string | null = null;
+let dbCount = 0;
+let current: SQLiteAdapter | null = null;
+
+/**
+ * Open a new, initialized database in this file's temporary directory and make
+ * it the one `getTestDatabase` returns.
+ */
+export async function openTestDatabase(): Promise<SQLiteAdapter> {
+  dir ??= mkdtempSync(join(tmpdir(), 'pokemon-test-'));
+  current = new SQLiteAdapter(join(dir, `test-${dbCount++}.db`));
+  await current.initialize();
+  return current;
+}
+
+export function getTestDatabase(): SQLiteAdapter {
+  if (!current) throw new Error('No test database is open');
+  return current;
+}
+
+/** Delete every database opened by this file. Call from `afterAll`. */
+export function removeTestDatabases(): void {
+  if (dir) rmSync(dir, { recursive: true, force: true });
+  dir = null;
+  current = null;
+}
+
+/** A plain Generation 1 job; tests override the fields they exercise. */
+export function jobInput(overrides: Partial<CreateJobInput> = {}): CreateJobInput {
+  return {
+    id: 'job-1',
+    mode: 'FULL',
+    generationId: 1,
+    region: 'Kanto',
+    voice: 'Kore',
+    ttsProvider: 'gemini',
+    pokemonIds: [1, 2, 3],
+    failurePolicy: 'skip-and-continue',
+    maxErrors: null,
+    regenerate: 'all',
+    summaryProvider: null,
+    summaryModel: null,
+    summaryCandidates: 1,
+    notBefore: null,
+    allowedWindow: null,
+    priority: 0,
+    ...overrides,
+  };
+}
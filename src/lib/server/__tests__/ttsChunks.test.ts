@@ -0,0 +1,101 @@
+/**
+ * Tests for long-form TTS: splitting text into chunks and stitching their PCM.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { stitchPcmNode, trimSilenceNode } from '@/services/audioSplitterNode';
+import { splitTtsText, stitchTtsChunks } from '../ttsChunks';
+import { SERVER_TTS_PARAGRAPH_PAUSE_MS, SERVER_TTS_SENTENCE_PAUSE_MS } from '../config';
+
+const SAMPLE_RATE = 1000;
+
+/** PCM16LE as base64: `silenceMs` of silence, `toneMs` of a square wave, then silence again. */
+function pcm(toneMs: number, silenceMs = 0): string {
+  const samples = [
+    ...Array<number>(silenceMs).fill(0),
+    ...Array.from({ length: toneMs }, (_, i) => (i % 2 ? 8000 : -8000)),
+    ...Array<number>(silenceMs).fill(0),
+  ];
+  const buffer = Buffer.alloc(samples.length * 2);
+  samples.forEach((s, i) => buffer.writeInt16LE(s, i * 2));
+  return buffer.toString('base64');
+}
+
+function durationMs(pcmBase64: string): number {
+  return Buffer.from(pcmBase64, 'base64').byteLength / 2;
+}
+
+describe('splitTtsText', () => {
+  it('keeps text within the limit in one chunk', () => {
+    const text = 'First paragraph.\n\nSecond paragraph.';
+    expect(splitTtsText(text, 100)).toEqual([{ text, pauseAfterMs: 0 }]);
+  });
+
+  it('splits at paragraphs, packing those that fit together', () => {
+    const text = 'One one one.\n\nTwo two two.\n\nThree three three.';
+    expect(splitTtsText(text, 30)).toEqual([
+      { text: 'One one one.\n\nTwo two two.', pauseAfterMs: SERVER_TTS_PARAGRAPH_PAUSE_MS },
+      { text: 'Three three three.', pauseAfterMs: 0 },
+    ]);
+  });
+
+  it('splits an overlong paragraph at sentences, but not after titles', () => {
+    const text = 'Mr. Mime waved at it. Then it left! Was that all? Yes.';
+    expect(splitTtsText(text, 25).map(c => c.text)).toEqual([
+      'Mr. Mime waved at it.',
+      'Then it left!',
+      'Was that all? Yes.',
+    ]);
+    expect(splitTtsText(text, 25)[0]?.pauseAfterMs).toBe(SERVER_TTS_SENTENCE_PAUSE_MS);
+  });
+
+  it('splits a sentence longer than the limit between words', () => {
+    const chunks = splitTtsText('alpha beta gamma delta epsilon', 12);
+    expect(chunks.map(c => c.text)).toEqual(['alpha beta', 'gamma delta', 'epsilon']);
+    expect(chunks[0]?.pauseAfterMs).toBe(0);
+  });
+});
+
+describe('trimSilenceNode', () => {
+  it('trims leading and trailing silence down to the padding', () => {
+    const trimmed = trimSilenceNode(pcm(200, 500), SAMPLE_RATE, { windowMs: 10, padMs: 50 });
+    expect(durationMs(trimmed)).toBe(300);
+  });
+
+  it('returns nothing for silent audio', () => {
+    expect(trimSilenceNode(pcm(0, 300), SAMPLE_RATE)).toBe('');
+  });
+});
+
+describe('stitchPcmNode', () => {
+  it('inserts the pause after every segment but the last', () => {
+    const stitched = stitchPcmNode(
+      [
+        { pcmBase64: pcm(100), pauseAfterMs: 250 },
+        { pcmBase64: pcm(100), pauseAfterMs: 500 },
+      ],
+      SAMPLE_RATE
+    );
+    expect(durationMs(stitched)).toBe(450);
+  });
+});
+
+describe('stitchTtsChunks', () => {
+  it('returns a single chunk untouched', () => {
+    const audio = pcm(100, 400);
+    expect(stitchTtsChunks([audio], [{ text: 'Hi.', pauseAfterMs: 0 }], SAMPLE_RATE)).toBe(audio);
+  });
+
+  it('replaces the silence between chunks with the chunk pause', () => {
+    const stitched = stitchTtsChunks(
+      [pcm(1000, 1000), pcm(1000, 1000)],
+      [
+        { text: 'One.', pauseAfterMs: 300 },
+        { text: 'Two.', pauseAfterMs: 0 },
+      ],
+      SAMPLE_RATE
+    );
+    // Each chunk keeps 120ms of its silence at either end
+    expect(durationMs(stitched)).toBe(2 * (1000 + 240) + 300);
+  });
+});
@@ -0,0 +1,29 @@
+/**
+ * Tests for checking job voices against the TTS providers' catalogs.
+ */
+
+import { afterEach, describe, expect, it } from 'vitest';
+import { validateVoice } from '../ttsProviders';
+
+afterEach(() => {
+  delete process.env.ESPEAK_NG_PATH;
+});
+
+describe('validateVoice', () => {
+  it('accepts a voice from the provider catalog', async () => {
+    expect(await validateVoice('gemini', 'Kore')).toBeNull();
+  });
+
+  it("rejects a voice from another provider's catalog", async () => {
+    expect(await validateVoice('gemini', 'en-gb')).toMatch(
+      /"en-gb" is not one of the Gemini voices/
+    );
+  });
+
+  it('rejects any voice when the provider cannot list its voices', async () => {
+    process.env.ESPEAK_NG_PATH = '/nonexistent/espeak-ng';
+    expect(await validateVoice('espeak-ng', 'en-gb')).toMatch(
+      /espeak-ng \(local\) voices could not be listed/
+    );
+  });
+});
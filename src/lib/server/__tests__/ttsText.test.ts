@@ -0,0 +1,145 @@
+/**
+ * Tests for the text normalization applied to summaries before TTS.
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+  applyPronunciations,
+  expandNumbers,
+  integerToWords,
+  normalizeTtsText,
+  rewritePhonetics,
+  stripMarkdown,
+} from '../ttsText';
+
+describe('stripMarkdown', () => {
+  it('removes bold and italic markers but keeps the words', () => {
+    expect(stripMarkdown('It used **Flame Wheel** and *Ember*, then __Smokescreen__.')).toBe(
+      'It used Flame Wheel and Ember, then Smokescreen.'
+    );
+  });
+
+  it('leaves underscores inside words alone', () => {
+    expect(stripMarkdown('Saved as log_entry_25.')).toBe('Saved as log_entry_25.');
+  });
+
+  it('drops headings, inline code and link targets', () => {
+    expect(
+      stripMarkdown('## Field notes\nSee [the Pokédex](https://example.com) and `gust`.')
+    ).toBe('Field notes\nSee the Pokédex and gust.');
+  });
+
+  it('removes stray asterisks', () => {
+    expect(stripMarkdown('A * lone asterisk')).toBe('A  lone asterisk');
+  });
+});
+
+describe('rewritePhonetics', () => {
+  it('speaks the phonetic spelling in place of the name', () => {
+    expect(rewritePhonetics('A Pikachu (PEE-kah-choo) darted past.')).toBe(
+      'A pee-kah-choo darted past.'
+    );
+  });
+
+  it('replaces as many words as the hint has', () => {
+    expect(rewritePhonetics('Then Mr. Mime (MIS-ter MIME) bowed.')).toBe(
+      'Then mis-ter mime bowed.'
+    );
+  });
+
+  it('keeps parentheses that are not phonetic hints', () => {
+    const text = 'It rested (briefly) near Route 1 (Kanto).';
+    expect(rewritePhonetics(text)).toBe(text);
+  });
+
+  it('rewrites every hint in the text', () => {
+    expect(rewritePhonetics('Gyarados (GARE-uh-dos) chased Suicune (SWEE-koon).')).toBe(
+      'gare-uh-dos chased swee-koon.'
+    );
+  });
+});
+
+describe('applyPronunciations', () => {
+  const lexicon = [
+    { term: 'Gyarados', phonetic: 'GARE-uh-dos' },
+    { term: 'Mime', phonetic: 'MEEM' },
+    { term: 'Mr. Mime', phonetic: 'MIS-ter MIME' },
+  ];
+
+  it('speaks every whole-word mention, ignoring case', () => {
+    expect(applyPronunciations('Gyarados and GYARADOS, not Gyaradoses.', lexicon)).toBe(
+      'gare-uh-dos and gare-uh-dos, not Gyaradoses.'
+    );
+  });
+
+  it('matches longer names first', () => {
+    expect(applyPronunciations('Mr.  Mime met a Mime.', lexicon)).toBe('mis-ter mime met a meem.');
+  });
+
+  it('overrides the summary hint in rewritePhonetics', () => {
+    expect(rewritePhonetics('A Gyarados (GYE-ruh-dos) rose.', lexicon)).toBe('A gare-uh-dos rose.');
+  });
+});
+
+describe('integerToWords', () => {
+  it.each([
+    ['0', 'zero'],
+    ['7', 'seven'],
+    ['13', 'thirteen'],
+    ['40', 'forty'],
+    ['151', 'one hundred fifty-one'],
+    ['1025', 'one thousand twenty-five'],
+    ['2000000', 'two million'],
+    ['007', 'seven'],
+  ])('%s → %s', (digits, words) => {
+    expect(integerToWords(digits)).toBe(words);
+  });
+
+  it('reads very long numbers digit by digit', () => {
+    expect(integerToWords('1234567890123')).toBe(
+      'one two three four five six seven eight nine zero one two three'
+    );
+  });
+});
+
+describe('expandNumbers', () => {
+  it('expands decimals with units', () => {
+    expect(expandNumbers('It stood 0.7m tall and weighed 6.9kg.')).toBe(
+      'It stood zero point seven meters tall and weighed six point nine kilograms.'
+    );
+  });
+
+  it('uses the singular unit for exactly one', () => {
+    expect(expandNumbers('1 m, 1.0 m and 1 ft')).toBe(
+      'one meter, one point zero meters and one foot'
+    );
+  });
+
+  it('expands grouped thousands and symbols', () => {
+    expect(expandNumbers('1,025 logs at 100% and 21°C, moving 12 km/h')).toBe(
+      'one thousand twenty-five logs at one hundred percent and twenty-one degrees Celsius, moving twelve kilometers per hour'
+    );
+  });
+
+  it('does not treat the start of a word as a unit', () => {
+    expect(expandNumbers('5 mighty roars')).toBe('five mighty roars');
+  });
+
+  it('leaves numbers joined to letters alone', () => {
+    expect(expandNumbers('Came 3rd in Gen2.')).toBe('Came 3rd in Gen2.');
+  });
+});
+
+describe('normalizeTtsText', () => {
+  it('prepares a summary for speech', () => {
+    const summary =
+      'Pokémon trainer log 25. A **Pikachu** (PEE-kah-choo), 0.4m tall, crackled with **Thunder Shock** .';
+    expect(normalizeTtsText(summary)).toBe(
+      'Pokémon trainer log twenty-five. A pee-kah-choo, zero point four meters tall, crackled with Thunder Shock.'
+    );
+  });
+
+  it('keeps paragraph breaks', () => {
+    expect(normalizeTtsText('First  line. \n\nSecond line.')).toBe('First line.\n\nSecond line.');
+  });
+});
@@ -0,0 +1,196 @@
+/**
+ * Tests for webhook signing, delivery retries and secret masking.
+ *
+ * A local HTTP server stands in for the receiving endpoint so retries and
+ * signature headers can be checked without any network access. The database is
+ * mocked for the background notifications.
+ */
+
+import { createServer, type IncomingMessage, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { ProcessingJob, Webhook } from '@/lib/db/adapter';
+
+const { db } = vi.hoisted(() => ({
+  db: {
+    getAllWebhooks: vi.fn(),
+    getJob: vi.fn(),
+    createWebhookDelivery: vi.fn(async () => 1),
+    updateWebhookDelivery: vi.fn(async () => {}),
+  },
+}));
+
+vi.mock('@/lib/db/adapter', () => ({ getDatabase: async () => db }));
+
+import {
+  buildJobWebhookPayload,
+  deliverWebhook,
+  maskWebhookSecret,
+  notifyJobWebhooks,
+  signWebhookPayload,
+  validateWebhookFields,
+  waitForWebhookDeliveries,
+} from '../webhooks';
+
+interface ReceivedRequest {
+  headers: IncomingMessage['headers'];
+  body: string;
+}
+
+let server: Server | null = null;
+
+/**
+ * Start a server that answers with the given status codes in order, repeating
+ * the last one. Returns its URL and the requests it received.
+ */
+async function startStandIn(statuses: number[]) {
+  const received: ReceivedRequest[] = [];
+
+  server = createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => {
+      received.push({ headers: req.headers, body });
+      res.statusCode = statuses[Math.min(received.length - 1, statuses.length - 1)] ?? 200;
+      res.end();
+    });
+  });
+
+  await new Promise<void>(resolve => server!.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return { url: `http://127.0.0.1:${port}/hook`, received };
+}
+
+afterEach(async () => {
+  await new Promise(resolve => (server ? server.close(resolve) : resolve(undefined)));
+  server = null;
+});
+
+const job: ProcessingJob = {
+  id: '3f2a9c1e-0000-4000-8000-000000000000',
+  status: 'completed_with_errors',
+  stage: 'audio',
+  mode: 'FULL',
+  generationId: 4,
+  region: 'Sinnoh',
+  voice: 'Kore',
+  ttsProvider: 'gemini',
+  pokemonIds: [387, 388, 389],
+  total: 3,
+  current: 3,
+  message: 'Completed audio synthesis.',
+  cooldownUntil: null,
+  error: null,
+  retryCount: 2,
+  failurePolicy: 'skip-and-continue',
+  maxErrors: null,
+  failedPokemonIds: [389],
+  regenerate: 'all',
+  summaryProvider: null,
+  summaryModel: null,
+  summaryCandidates: 1,
+  resumeAt: null,
+  notBefore: null,
+  allowedWindow: null,
+  priority: 0,
+  workerId: null,
+  leaseExpiresAt: null,
+  heartbeatAt: null,
+  createdAt: '2025-01-15T01:00:00.000Z',
+  updatedAt: '2025-01-15T05:00:00.000Z',
+};
+
+describe('buildJobWebhookPayload', () => {
+  it('summarizes the job for chat integrations', () => {
+    const payload = buildJobWebhookPayload('job.completed', job);
+
+    expect(payload.job.failedCount).toBe(1);
+    expect(payload.text).toContain('1 of 3 Pokémon failed');
+    expect(payload.content).toBe(payload.text);
+  });
+});
+
+describe('deliverWebhook', () => {
+  it('signs the body with the webhook secret', async () => {
+    const { url, received } = await startStandIn([200]);
+    const body = JSON.stringify(buildJobWebhookPayload('job.completed', job));
+
+    const result = await deliverWebhook({ url, secret: 's3cret', event: 'job.completed', body });
+
+    expect(result).toMatchObject({ ok: true, attempts: 1, responseStatus: 200 });
+    expect(received[0]?.body).toBe(body);
+    expect(received[0]?.headers['x-webhook-event']).toBe('job.completed');
+    expect(received[0]?.headers['x-webhook-signature']).toBe(signWebhookPayload('s3cret', body));
+  });
+
+  it('retries failed responses until one succeeds', async () => {
+    const { url, received } = await startStandIn([500, 503, 200]);
+    const attempts: number[] = [];
+
+    const result = await deliverWebhook(
+      { url, secret: 's3cret', event: 'job.failed', body: '{}' },
+      { baseDelayMs: 1, onAttempt: r => void attempts.push(r.responseStatus ?? 0) }
+    );
+
+    expect(result).toMatchObject({ ok: true, attempts: 3 });
+    expect(attempts).toEqual([500, 503, 200]);
+    expect(received).toHaveLength(3);
+  });
+
+  it('gives up after the maximum number of attempts', async () => {
+    const { url, received } = await startStandIn([500]);
+
+    const result = await deliverWebhook(
+      { url, secret: 's3cret', event: 'job.failed', body: '{}' },
+      { maxAttempts: 2, baseDelayMs: 1 }
+    );
+
+    expect(result).toEqual({ ok: false, attempts: 2, responseStatus: 500, error: 'HTTP 500' });
+    expect(received).toHaveLength(2);
+  });
+});
+
+describe('validateWebhookFields', () => {
+  it('rejects non-http URLs and unknown events', () => {
+    expect(validateWebhookFields({ url: 'ftp://example.com' }).error).toMatch(/url/);
+    expect(validateWebhookFields({ events: ['job.started'] }).error).toMatch(/events/);
+    expect(
+      validateWebhookFields({ url: 'https://example.com/hook', events: ['job.failed'] })
+    ).toEqual({ fields: { url: 'https://example.com/hook', events: ['job.failed'] }, error: null });
+  });
+});
+
+describe('maskWebhookSecret', () => {
+  it('keeps only the last 4 characters of the secret', () => {
+    const webhook: Webhook = {
+      id: 'hook-1',
+      url: 'https://example.com/hook',
+      secret: 'a1b2c3d4e5f6',
+      events: ['job.failed'],
+      enabled: true,
+      createdAt: '2025-01-15T01:00:00.000Z',
+      updatedAt: '2025-01-15T01:00:00.000Z',
+    };
+
+    expect(maskWebhookSecret(webhook)).toEqual({ ...webhook, secret: '••••e5f6' });
+  });
+});
+
+describe('waitForWebhookDeliveries', () => {
+  it('waits for notifications that are still being retried', async () => {
+    const { url, received } = await startStandIn([500, 200]);
+    db.getAllWebhooks.mockResolvedValue([
+      { id: 'hook-1', url, secret: 'secret', events: ['job.completed'], enabled: true },
+    ]);
+    db.getJob.mockResolvedValue(job);
+
+    notifyJobWebhooks('job.completed', job.id);
+
+    expect(await waitForWebhookDeliveries(10000)).toBe(0);
+    expect(received).toHaveLength(2);
+    expect(db.updateWebhookDelivery).toHaveBeenLastCalledWith(
+      1,
+      expect.objectContaining({ status: 'succeeded', attempts: 2 })
+    );
+  });
+});
@@ -0,0 +1,223 @@
+/**
+ * Per-call API usage log and the cost report built from it.
+ *
+ * Every summary and TTS request is logged once, after its retries and any model
+ * fallback, with the token counts the provider reported and the job and Pokémon
+ * it was made for. The report totals the log by day, model and job and prices
+ * tokens with `SERVER_MODEL_PRICES`, so the monthly bill can be traced back to
+ * the jobs that ran it up.
+ */
+
+import {
+  getDatabase,
+  type ApiCallKind,
+  type ApiCallLogInput,
+  type ApiCallTotals,
+} from '@/lib/db/adapter';
+import { SERVER_MODEL_PRICES } from './config';
+import { getQuotaDay } from './quota';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Who a request was made for; both are null outside jobs. */
+export interface ApiCallContext {
+  jobId: string | null;
+  pokemonId: number | null;
+}
+
+export const NO_API_CALL_CONTEXT: ApiCallContext = { jobId: null, pokemonId: null };
+
+export interface UsageBreakdown {
+  calls: number;
+  failedCalls: number;
+  retries: number;
+  fallbacks: number;
+  promptTokens: number;
+  outputTokens: number;
+  avgLatencyMs: number;
+  estimatedCostUsd: number; // priced models only
+  unpricedCalls: number; // calls to models without a price
+}
+
+export interface UsageReport {
+  days: number;
+  since: string; // first quota day included
+  totals: UsageBreakdown;
+  byDay: Array<UsageBreakdown & { day: string }>;
+  byModel: Array<UsageBreakdown & { model: string; kind: ApiCallKind }>;
+  byJob: Array<UsageBreakdown & { jobId: string | null }>;
+  unpricedModels: string[];
+  generatedAt: string;
+}
+
+/**
+ * Record one finished request. A failed write is reported but never fails the
+ * request it describes.
+ */
+export async function logApiCall(
+  entry: Omit<ApiCallLogInput, 'day' | 'jobId' | 'pokemonId'>,
+  context: ApiCallContext
+): Promise<void> {
+  try {
+    const db = await getDatabase();
+    await db.logApiCall({ ...entry, ...context, day: getQuotaDay() });
+  } catch (error) {
+    console.error('Failed to log API call:', error);
+  }
+}
+
+/**
+ * Bookkeeping for one request in flight. Clients bump `attempts`, switch
+ * `model` on fallback and add the tokens of every response (retried ones are
+ * billed too), then call `finish` once with the outcome.
+ */
+export interface ApiCallTracker {
+  model: string;
+  attempts: number;
+  fallbackUsed: boolean;
+  promptTokens: number | null;
+  outputTokens: number | null;
+  addTokens(promptTokens: number, outputTokens: number): void;
+  finish(error?: unknown): Promise<void>;
+}
+
+/**
+ * Start timing a request. Requests that never reached the API (no attempts) are
+ * not logged.
+ */
+export function startApiCall(
+  kind: ApiCallKind,
+  provider: ApiCallLogInput['provider'],
+  model: string,
+  context: ApiCallContext
+): ApiCallTracker {
+  const startedAt = Date.now();
+  return {
+    model,
+    attempts: 0,
+    fallbackUsed: false,
+    promptTokens: null,
+    outputTokens: null,
+    addTokens(promptTokens, outputTokens) {
+      this.promptTokens = (this.promptTokens ?? 0) + promptTokens;
+      this.outputTokens = (this.outputTokens ?? 0) + outputTokens;
+    },
+    async finish(error?: unknown) {
+      if (this.attempts === 0) return;
+      await logApiCall(
+        {
+          kind,
+          provider,
+          model: this.model,
+          promptTokens: this.promptTokens,
+          outputTokens: this.outputTokens,
+          latencyMs: Date.now() - startedAt,
+          retries: this.attempts - 1,
+          fallbackUsed: this.fallbackUsed,
+          success: error === undefined,
+          error:
+            error === undefined ? null : error instanceof Error ? error.message : String(error),
+        },
+        context
+      );
+    },
+  };
+}
+
+/** Estimated USD cost of a model's tokens, or null if the model has no price. */
+export function estimateCost(
+  model: string,
+  promptTokens: number,
+  outputTokens: number
+): number | null {
+  const price = SERVER_MODEL_PRICES[model];
+  if (!price) return null;
+  return (promptTokens * price.input + outputTokens * price.output) / 1000000;
+}
+
+type CountField = Exclude<keyof ApiCallTotals, 'day' | 'kind' | 'model' | 'jobId'>;
+
+function summarize(rows: ApiCallTotals[]): UsageBreakdown {
+  let estimatedCostUsd = 0;
+  let unpricedCalls = 0;
+  for (const row of rows) {
+    const cost = estimateCost(row.model, row.promptTokens, row.outputTokens);
+    if (cost === null) unpricedCalls += row.calls;
+    else estimatedCostUsd += cost;
+  }
+
+  const sum = (field: CountField) => rows.reduce((total, row) => total + row[field], 0);
+  const calls = sum('calls');
+
+  return {
+    calls,
+    failedCalls: sum('failedCalls'),
+    retries: sum('retries'),
+    fallbacks: sum('fallbacks'),
+    promptTokens: sum('promptTokens'),
+    outputTokens: sum('outputTokens'),
+    avgLatencyMs: calls === 0 ? 0 : Math.round(sum('latencyMs') / calls),
+    estimatedCostUsd: Math.round(estimatedCostUsd * 10000) / 10000,
+    unpricedCalls,
+  };
+}
+
+function groupBy<K>(
+  rows: ApiCallTotals[],
+  key: (row: ApiCallTotals) => K
+): Map<K, ApiCallTotals[]> {
+  const groups = new Map<K, ApiCallTotals[]>();
+  for (const row of rows) {
+    const k = key(row);
+    groups.set(k, [...(groups.get(k) ?? []), row]);
+  }
+  return groups;
+}
+
+/**
+ * Roll per-day, per-model, per-job totals up into the report. Days run oldest
+ * first; models and jobs most expensive first.
+ */
+export function buildUsageReport(rows: ApiCallTotals[], days: number, since: string): UsageReport {
+  const byCost = (a: UsageBreakdown, b: UsageBreakdown) =>
+    b.estimatedCostUsd - a.estimatedCostUsd || b.calls - a.calls;
+
+  return {
+    days,
+    since,
+    totals: summarize(rows),
+    byDay: Array.from(
+      groupBy(rows, r => r.day),
+      ([day, group]) => ({
+        day,
+        ...summarize(group),
+      })
+    ).sort((a, b) => a.day.localeCompare(b.day)),
+    byModel: Array.from(
+      groupBy(rows, r => r.model),
+      ([model, group]) => ({
+        model,
+        kind: (group[0] as ApiCallTotals).kind,
+        ...summarize(group),
+      })
+    ).sort(byCost),
+    byJob: Array.from(
+      groupBy(rows, r => r.jobId),
+      ([jobId, group]) => ({
+        jobId,
+        ...summarize(group),
+      })
+    ).sort(byCost),
+    unpricedModels: [...new Set(rows.map(r => r.model))].filter(m => !SERVER_MODEL_PRICES[m]),
+    generatedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Usage over the last `days` quota days, today included.
+ */
+export async function getUsageReport(days: number): Promise<UsageReport> {
+  const since = getQuotaDay(new Date(Date.now() - (days - 1) * DAY_MS));
+  const db = await getDatabase();
+  return buildUsageReport(await db.getApiCallTotals(since), days, since);
+}
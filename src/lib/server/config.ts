@@ -7,23 +7,124 @@
  *   - RPM: 2,000 | TPM: 4M | RPD: Unlimited
  *   - Stable model with generous limits
  *
- * gemini-2.5-flash-preview-tts (audio generation):
+ * gemini-2.5-pro-preview-tts (audio generation, primary):
+ *   - RPM: 10 | TPM: 10K | RPD: 50
+ *
+ * gemini-2.5-flash-preview-tts (audio generation, fallback):
  *   - RPM: 10 | TPM: 10K | RPD: 100
- *   - Preview model with RESTRICTIVE limits
+ *
+ * Both TTS models are previews with RESTRICTIVE limits:
  *   - Must space TTS calls at least 6s apart (we use 5min for safety)
- *   - Max ~100 TTS calls per day
+ *   - Max ~150 TTS calls per day: 50 on the primary, then 100 on the fallback
  *
  * NOTE: Batching multiple entries into a single TTS call does NOT work reliably.
  * The model truncates/ignores most of the input. We now use one TTS call per Pokémon.
  */
 
+/**
+ * The values below are defaults. Cooldowns, concurrency, retries, bitrate, model
+ * names and daily limits can be overridden at runtime from the Admin settings tab.
+ */
 export const SERVER_SUMMARY_COOLDOWN_MS = 15000;
 export const SERVER_TTS_COOLDOWN_MS = 300000;
 
+export const SERVER_MAX_CONCURRENT_TEXT_JOBS = 3;
+export const SERVER_MAX_CONCURRENT_AUDIO_JOBS = 1;
+export const SERVER_MAX_RETRIES = 3;
+
+export const SERVER_SUMMARY_MODEL = 'gemini-3-flash-preview';
+
+/**
+ * Generations per summary while it fails the prompt's quality rules; the best
+ * attempt is kept. 1 saves the first draft as-is (it is still checked).
+ */
+export const SERVER_MAX_SUMMARY_ATTEMPTS = 3;
+
+/**
+ * Most drafts a job may generate per Pokémon when picking the best summary.
+ */
+export const SERVER_MAX_SUMMARY_CANDIDATES = 5;
+
+/**
+ * Openings from earlier summaries listed in the prompt as ones to avoid. 0 turns
+ * the list off.
+ */
+export const SERVER_AVOID_OPENINGS_COUNT = 12;
+
+/**
+ * Summary provider and the OpenAI-compatible endpoint used when it is selected
+ * (Ollama's default; llama.cpp's server listens on http://localhost:8080/v1).
+ */
+export const SERVER_SUMMARY_PROVIDER = 'gemini' as const;
+export const SERVER_OPENAI_BASE_URL = 'http://localhost:11434/v1';
+export const SERVER_OPENAI_MODEL = 'llama3.1';
+
+/**
+ * TTS provider preselected for new jobs. The local espeak-ng engine is found on
+ * PATH unless `ESPEAK_NG_PATH` is set, and always outputs 22.05 kHz audio.
+ */
+export const SERVER_TTS_PROVIDER = 'gemini' as const;
+export const SERVER_ESPEAK_SAMPLE_RATE = 22050;
+
+export const SERVER_TTS_MODEL = 'gemini-2.5-pro-preview-tts';
+export const SERVER_TTS_FALLBACK_MODEL = 'gemini-2.5-flash-preview-tts';
+
+/**
+ * Requests per day allowed for the TTS models, each model's RPD above. Other
+ * models are counted in the quota ledger but never blocked. Google resets daily
+ * quotas at midnight Pacific time.
+ */
+export const SERVER_TTS_DAILY_LIMIT = 50;
+export const SERVER_TTS_FALLBACK_DAILY_LIMIT = 100;
+export const SERVER_QUOTA_TIMEZONE = 'America/Los_Angeles';
+
+/**
+ * USD per million tokens for the usage report's cost estimate, from Google's
+ * paid-tier list prices. Audio output is billed as output tokens. Models not
+ * listed here (including local ones) are reported without a cost.
+ */
+export const SERVER_MODEL_PRICES: Record<string, { input: number; output: number }> = {
+  'gemini-3-flash-preview': { input: 0.5, output: 3 },
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-2.5-flash-lite': { input: 0.1, output: 0.4 },
+  'gemini-2.5-pro-preview-tts': { input: 1, output: 20 },
+  'gemini-2.5-flash-preview-tts': { input: 0.5, output: 10 },
+};
+
+/**
+ * Job leases. A worker renews the lease on each job it runs every heartbeat; if the
+ * worker dies the lease lapses and another worker re-queues the job. The lease must
+ * outlast several heartbeats so a slow database write doesn't look like a crash.
+ */
+export const SERVER_JOB_LEASE_MS = 2 * 60 * 1000;
+export const SERVER_JOB_HEARTBEAT_MS = 20 * 1000;
+
+/**
+ * How often a job sleeping through a cooldown re-reads its row. Pauses, cancels
+ * and hand-overs made in this process wake it at once through job events; the
+ * check only catches changes made by other processes.
+ */
+export const SERVER_JOB_CONTROL_CHECK_MS = 10 * 1000;
+
 export const SERVER_TTS_SAMPLE_RATE = 24000;
 export const SERVER_TTS_AUDIO_FORMAT = 'mp3' as const;
 export const SERVER_TTS_MP3_BITRATE = 128;
 
+/**
+ * TTS models cut off long input, so text longer than this is split at paragraph
+ * or sentence boundaries and synthesized one chunk per request. A summary of the
+ * default prompt's length fits in one request.
+ */
+export const SERVER_TTS_MAX_CHUNK_CHARS = 2400;
+
+/**
+ * Silence inserted where chunks are stitched together, after each chunk's own
+ * leading and trailing silence is trimmed.
+ */
+export const SERVER_TTS_PARAGRAPH_PAUSE_MS = 900;
+export const SERVER_TTS_SENTENCE_PAUSE_MS = 400;
+
 /**
  * Add jitter to a cooldown duration to smooth traffic and prevent thundering herd.
  * Returns a value between 80% and 120% of the base duration.
@@ -0,0 +1,143 @@
+/**
+ * Local text-to-speech through the espeak-ng command line tool. Runs offline
+ * with no quota, so it suits draft audio; quality is far below Gemini's voices.
+ */
+
+import { spawn } from 'child_process';
+import { SERVER_ESPEAK_SAMPLE_RATE } from './config';
+
+// Narration is read slowly; espeak-ng defaults to 175 words per minute
+const WORDS_PER_MINUTE = 140;
+const SYNTHESIS_TIMEOUT_MS = 60000;
+
+export interface EspeakVoice {
+  id: string; // passed to `espeak-ng -v`
+  name: string;
+  gender: string;
+}
+
+function getEspeakPath(): string {
+  return process.env.ESPEAK_NG_PATH || 'espeak-ng';
+}
+
+/**
+ * Run espeak-ng and collect its stdout. Rejects if the binary is missing, it
+ * exits non-zero or it takes longer than the synthesis timeout.
+ */
+function runEspeak(args: string[], input?: string): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(getEspeakPath(), args, { timeout: SYNTHESIS_TIMEOUT_MS });
+    const chunks: Buffer[] = [];
+    const errorChunks: Buffer[] = [];
+
+    child.stdout.on('data', (chunk: Buffer) => chunks.push(chunk));
+    child.stderr.on('data', (chunk: Buffer) => errorChunks.push(chunk));
+
+    child.on('close', (code: number | null) => {
+      if (code === 0) {
+        resolve(Buffer.concat(chunks));
+      } else {
+        const errorMessage = Buffer.concat(errorChunks).toString('utf-8').trim();
+        reject(new Error(`espeak-ng exited with code ${code}: ${errorMessage}`));
+      }
+    });
+
+    child.on('error', (error: Error) => {
+      reject(new Error(`espeak-ng process error: ${error.message}`));
+    });
+
+    if (input !== undefined) child.stdin.write(input);
+    child.stdin.end();
+  });
+}
+
+/**
+ * Parse the table printed by `espeak-ng --voices`:
+ *
+ *   Pty Language       Age/Gender VoiceName          File          Other Languages
+ *    2  en-gb           --/M      English_(Great_Britain) gmw/en   (en 2)
+ */
+export function parseEspeakVoices(output: string): EspeakVoice[] {
+  return output
+    .split('\n')
+    .slice(1)
+    .map(line => line.trim().split(/\s+/))
+    .filter(columns => columns.length >= 4)
+    .map(([, language, ageGender, name]) => {
+      const gender = ageGender?.split('/')[1];
+      return {
+        id: language ?? '',
+        name: (name ?? '').replace(/_/g, ' '),
+        gender: gender === 'F' ? 'Female' : gender === 'M' ? 'Male' : 'Neutral',
+      };
+    });
+}
+
+/**
+ * English voices installed with espeak-ng. Summaries are written in English, so
+ * other languages are left out of the catalog.
+ */
+export async function listEspeakVoices(): Promise<EspeakVoice[]> {
+  const output = await runEspeak(['--voices=en']);
+  return parseEspeakVoices(output.toString('utf-8'));
+}
+
+/**
+ * Pull the PCM samples out of a WAV file. espeak-ng streams to stdout without
+ * seeking back, so the data chunk's declared size is a placeholder and the
+ * samples are taken to the end of the buffer instead.
+ */
+export function extractWavPcm(wav: Buffer): { pcm: Buffer; sampleRate: number } {
+  if (wav.length < 12 || wav.toString('ascii', 0, 4) !== 'RIFF') {
+    throw new Error('espeak-ng output is not a WAV file');
+  }
+
+  let sampleRate: number | null = null;
+  let offset = 12;
+  while (offset + 8 <= wav.length) {
+    const chunkId = wav.toString('ascii', offset, offset + 4);
+    const chunkSize = wav.readUInt32LE(offset + 4);
+    const body = offset + 8;
+
+    if (chunkId === 'fmt ') {
+      const channels = wav.readUInt16LE(body + 2);
+      const bitsPerSample = wav.readUInt16LE(body + 14);
+      if (channels !== 1 || bitsPerSample !== 16) {
+        throw new Error(`Unsupported WAV format: ${channels} channel(s), ${bitsPerSample}-bit`);
+      }
+      sampleRate = wav.readUInt32LE(body + 4);
+    } else if (chunkId === 'data') {
+      if (sampleRate === null) throw new Error('WAV data chunk precedes its fmt chunk');
+      const end = Math.min(wav.length, body + chunkSize);
+      // Drop a trailing odd byte so the PCM is whole 16-bit samples
+      return { pcm: wav.subarray(body, end - ((end - body) % 2)), sampleRate };
+    }
+
+    offset = body + chunkSize + (chunkSize % 2);
+  }
+
+  throw new Error('WAV file has no data chunk');
+}
+
+/**
+ * Synthesize speech with espeak-ng. Returns base64-encoded PCM16LE mono audio
+ * at `SERVER_ESPEAK_SAMPLE_RATE`.
+ */
+export async function generateEspeakTts(params: { text: string; voice: string }): Promise<string> {
+  const wav = await runEspeak(
+    ['-v', params.voice, '-s', String(WORDS_PER_MINUTE), '--stdin', '--stdout'],
+    params.text
+  );
+  const { pcm, sampleRate } = extractWavPcm(wav);
+
+  if (sampleRate !== SERVER_ESPEAK_SAMPLE_RATE) {
+    throw new Error(
+      `espeak-ng produced ${sampleRate}Hz audio; expected ${SERVER_ESPEAK_SAMPLE_RATE}Hz`
+    );
+  }
+  if (pcm.length === 0) {
+    throw new Error('espeak-ng produced no audio.');
+  }
+
+  return pcm.toString('base64');
+}
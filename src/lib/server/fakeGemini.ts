@@ -0,0 +1,354 @@
+/**
+ * Deterministic stand-in for the Gemini API, enabled with `GEMINI_FAKE=true`.
+ *
+ * Summaries are assembled from the Pokémon data in the prompt and speech is a
+ * sine tone whose length follows the text, so the same request always gets the
+ * same response. No API key or network access is needed. Token usage is
+ * estimated from text length and audio duration, as Gemini would bill it.
+ *
+ * Failures can be injected to exercise retries, model fallback and quota
+ * handling: queue them with `simulateFakeGeminiError`, or list them in
+ * `GEMINI_FAKE_ERRORS` (e.g. `unavailable,daily-quota@gemini-2.5-pro-preview-tts`).
+ * Each queued failure is used up by the next matching request.
+ */
+
+import {
+  ApiError,
+  FinishReason,
+  GenerateContentResponse,
+  Modality,
+  type GenerateContentParameters,
+} from '@google/genai';
+import { SERVER_TTS_SAMPLE_RATE } from './config';
+
+export type FakeGeminiErrorKind = 'rate-limit' | 'unavailable' | 'daily-quota' | 'safety';
+
+const FAKE_GEMINI_ERROR_KINDS: FakeGeminiErrorKind[] = [
+  'rate-limit',
+  'unavailable',
+  'daily-quota',
+  'safety',
+];
+
+// Speech length: ~15 spoken characters per second, clamped to keep tests fast
+const MS_PER_CHARACTER = 65;
+const MIN_AUDIO_MS = 500;
+const MAX_AUDIO_MS = 8000;
+
+// Usage estimates: ~4 characters per text token, 32 tokens per second of audio
+const CHARS_PER_TOKEN = 4;
+const AUDIO_TOKENS_PER_SECOND = 32;
+
+// Summaries follow the default prompt's rules so they pass validation
+const TARGET_SUMMARY_WORDS = 260;
+
+const OPENINGS = [
+  'Field notes from {region}.',
+  'The wind in {region} carried an unusual call today.',
+  'A quiet morning in {region} turned out to be anything but.',
+];
+const SIGHTINGS = [
+  'A {name} ({phonetic}) was spotted near {habitat}, moving with the calm of a {types} type.',
+  'I tracked a {name} ({phonetic}) through {habitat} for most of the afternoon.',
+  'A lone {name} ({phonetic}) rested at the edge of {habitat}, unbothered by my approach.',
+];
+const OBSERVATIONS = [
+  'It paused often, as if listening for something only it could hear.',
+  'The local trainers say it rarely strays far from {habitat}.',
+  'Its movements were deliberate, every step placed with quiet confidence.',
+  'I kept my distance and sketched what I could from behind a fallen log.',
+  'Other Pokémon gave it a wide berth, which tells its own story about {region}.',
+  'Each time the light shifted, it turned to face the sun before settling again.',
+  'It showed the patience you come to expect from a {types} type in the wild.',
+];
+const CLOSINGS = [
+  'Further study is warranted.',
+  'It vanished before I could get closer.',
+  'I left it undisturbed and moved on.',
+];
+
+interface QueuedError {
+  kind: FakeGeminiErrorKind;
+  model: string | null; // null matches any model
+}
+
+const queuedErrors: QueuedError[] = [];
+let envErrorsLoaded = false;
+
+export function isFakeGeminiEnabled(): boolean {
+  return process.env.GEMINI_FAKE === 'true';
+}
+
+/**
+ * Make the next `times` requests (to `model`, or any model) fail with `kind`.
+ */
+export function simulateFakeGeminiError(
+  kind: FakeGeminiErrorKind,
+  options: { model?: string; times?: number } = {}
+): void {
+  for (let i = 0; i < (options.times ?? 1); i++) {
+    queuedErrors.push({ kind, model: options.model ?? null });
+  }
+}
+
+/**
+ * Drop any queued failures, including those from `GEMINI_FAKE_ERRORS`.
+ */
+export function resetFakeGemini(): void {
+  queuedErrors.length = 0;
+  envErrorsLoaded = true;
+}
+
+/**
+ * Queue the failures listed in `GEMINI_FAKE_ERRORS` as `kind[@model]` entries.
+ */
+function loadEnvErrors(): void {
+  if (envErrorsLoaded) return;
+  envErrorsLoaded = true;
+
+  for (const entry of (process.env.GEMINI_FAKE_ERRORS ?? '').split(',')) {
+    const [kind, model] = entry.trim().split('@');
+    if (!kind) continue;
+    if (!FAKE_GEMINI_ERROR_KINDS.includes(kind as FakeGeminiErrorKind)) {
+      console.warn(`Ignoring unknown GEMINI_FAKE_ERRORS entry: ${entry}`);
+      continue;
+    }
+    simulateFakeGeminiError(kind as FakeGeminiErrorKind, { model: model || undefined });
+  }
+}
+
+function takeQueuedError(model: string): FakeGeminiErrorKind | null {
+  loadEnvErrors();
+  const index = queuedErrors.findIndex(e => e.model === null || e.model === model);
+  if (index === -1) return null;
+  return queuedErrors.splice(index, 1)[0]?.kind ?? null;
+}
+
+/**
+ * Errors shaped like the SDK's: the API's JSON error body as the message.
+ */
+function quotaError(model: string, quotaId: string): ApiError {
+  const body = {
+    error: {
+      code: 429,
+      message: `Resource has been exhausted (e.g. check quota). Model: ${model}`,
+      status: 'RESOURCE_EXHAUSTED',
+      details: [
+        {
+          '@type': 'type.googleapis.com/google.rpc.QuotaFailure',
+          violations: [{ quotaId, quotaMetric: 'generativelanguage.googleapis.com/requests' }],
+        },
+      ],
+    },
+  };
+  return new ApiError({ message: JSON.stringify(body), status: 429 });
+}
+
+function unavailableError(): ApiError {
+  const body = {
+    error: {
+      code: 503,
+      message: 'The model is overloaded. Please try again later.',
+      status: 'UNAVAILABLE',
+    },
+  };
+  return new ApiError({ message: JSON.stringify(body), status: 503 });
+}
+
+/** FNV-1a, to pick stable variations from the request text. */
+function hash(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193) >>> 0;
+  }
+  return h;
+}
+
+function pick<T>(options: T[], seed: number): T {
+  return options[seed % options.length] as T;
+}
+
+function extractText(contents: unknown): string {
+  if (typeof contents === 'string') return contents;
+  if (Array.isArray(contents)) return contents.map(extractText).join('\n');
+  if (contents && typeof contents === 'object') {
+    const { text, parts } = contents as { text?: unknown; parts?: unknown };
+    if (typeof text === 'string') return text;
+    if (parts) return extractText(parts);
+  }
+  return '';
+}
+
+function readField(prompt: string, field: string, fallback: string): string {
+  // Anchored to the line start so "ID" doesn't match "LOG_ID" in the instructions
+  const match = prompt.match(new RegExp(`^[ \\t]*${field}:[ \\t]*(.+)`, 'm'));
+  return match?.[1]?.trim() || fallback;
+}
+
+function titleCase(text: string): string {
+  return text.replace(/\b\w/g, c => c.toUpperCase());
+}
+
+/** "pidgey" → "PID-gey": three-letter chunks with the first one stressed. */
+function fakePhonetic(name: string): string {
+  const chunks = name
+    .toLowerCase()
+    .replace(/[^a-z]/g, '')
+    .match(/.{1,3}/g) ?? ['poke'];
+  return chunks.map((chunk, i) => (i === 0 ? chunk.toUpperCase() : chunk)).join('-');
+}
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+/**
+ * A field log built from the Pokémon data block of a summary prompt, written
+ * to the default prompt's rules: the trainer log opening, a phonetic first
+ * mention, two bolded moves from the move list and 250–300 words.
+ */
+export function buildFakeSummary(prompt: string): string {
+  const name = readField(prompt, 'Name', 'unidentified Pokémon');
+  const baseName = name.split('-')[0] || name;
+  const values: Record<string, string> = {
+    name: name.charAt(0).toUpperCase() + name.slice(1),
+    phonetic: fakePhonetic(baseName),
+    region: readField(prompt, 'Region', 'an unknown region'),
+    habitat: readField(prompt, 'Habitat', 'the tall grass'),
+    types: readField(prompt, 'Types', 'normal').split(',')[0]?.trim() ?? 'normal',
+  };
+  const moves = readField(prompt, 'Available Moves', '')
+    .split(',')
+    .map(move => titleCase(move.trim().replace(/-/g, ' ')))
+    .filter(Boolean);
+  const seed = hash(name);
+
+  const fill = (template: string) =>
+    template.replace(/\{(\w+)\}/g, (_, key: string) => values[key] ?? '');
+
+  const sentences = [
+    `Pokémon trainer log ${readField(prompt, 'ID', '0')}.`,
+    fill(pick(OPENINGS, seed)),
+    fill(pick(SIGHTINGS, seed >>> 3)),
+  ];
+  if (moves.length >= 2) {
+    const first = seed % moves.length;
+    const second = (first + 1) % moves.length;
+    sentences.push(
+      `When pressed, it answered with **${moves[first]}** and then **${moves[second]}**.`
+    );
+  }
+
+  const closing = fill(pick(CLOSINGS, seed >>> 6));
+  for (
+    let i = seed >>> 9;
+    countWords([...sentences, closing].join(' ')) < TARGET_SUMMARY_WORDS;
+    i++
+  ) {
+    sentences.push(fill(pick(OBSERVATIONS, i)));
+  }
+
+  return [...sentences, closing].join(' ');
+}
+
+/**
+ * Base64 PCM16LE mono tone at the TTS sample rate, pitched by voice and as long
+ * as the text would take to read.
+ */
+export function buildFakeSpeech(text: string, voice: string): string {
+  const durationMs = Math.min(MAX_AUDIO_MS, Math.max(MIN_AUDIO_MS, text.length * MS_PER_CHARACTER));
+  const frequencyHz = 180 + (hash(voice) % 220);
+  const numSamples = Math.floor((SERVER_TTS_SAMPLE_RATE * durationMs) / 1000);
+  const buffer = Buffer.alloc(numSamples * 2);
+
+  for (let i = 0; i < numSamples; i++) {
+    const value = Math.round(
+      8000 * Math.sin((2 * Math.PI * frequencyHz * i) / SERVER_TTS_SAMPLE_RATE)
+    );
+    buffer.writeInt16LE(value, i * 2);
+  }
+  return buffer.toString('base64');
+}
+
+function textTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+function buildResponse(
+  candidate: NonNullable<GenerateContentResponse['candidates']>[number],
+  promptTokens: number,
+  outputTokens: number
+) {
+  const response = new GenerateContentResponse();
+  response.candidates = [candidate];
+  response.usageMetadata = {
+    promptTokenCount: promptTokens,
+    candidatesTokenCount: outputTokens,
+    totalTokenCount: promptTokens + outputTokens,
+  };
+  return response;
+}
+
+/**
+ * Drop-in for `GoogleGenAI['models']['generateContent']`.
+ */
+async function generateContent(
+  params: GenerateContentParameters
+): Promise<GenerateContentResponse> {
+  const failure = takeQueuedError(params.model);
+  if (failure === 'rate-limit') {
+    throw quotaError(params.model, 'GenerateRequestsPerMinutePerProjectPerModel');
+  }
+  if (failure === 'daily-quota') {
+    throw quotaError(params.model, 'GenerateRequestsPerDayPerProjectPerModel');
+  }
+  if (failure === 'unavailable') throw unavailableError();
+  const prompt = extractText(params.contents);
+  if (failure === 'safety') {
+    return buildResponse({ finishReason: FinishReason.SAFETY }, textTokens(prompt), 0);
+  }
+
+  if (params.config?.responseModalities?.includes(Modality.AUDIO)) {
+    const speech = params.config.speechConfig;
+    const voice =
+      (typeof speech === 'string' ? speech : speech?.voiceConfig?.prebuiltVoiceConfig?.voiceName) ??
+      'Kore';
+    // TTS prompts put the text to speak after the director's notes
+    const text = prompt.split('TEXT:\n').pop() ?? prompt;
+    const data = buildFakeSpeech(text, voice);
+    const seconds = Buffer.from(data, 'base64').length / 2 / SERVER_TTS_SAMPLE_RATE;
+    return buildResponse(
+      {
+        finishReason: FinishReason.STOP,
+        content: {
+          role: 'model',
+          parts: [
+            {
+              inlineData: {
+                data,
+                mimeType: `audio/L16;codec=pcm;rate=${SERVER_TTS_SAMPLE_RATE}`,
+              },
+            },
+          ],
+        },
+      },
+      textTokens(prompt),
+      Math.ceil(seconds * AUDIO_TOKENS_PER_SECOND)
+    );
+  }
+
+  const reply = JSON.stringify({ summary: buildFakeSummary(prompt) });
+  return buildResponse(
+    {
+      finishReason: FinishReason.STOP,
+      content: { role: 'model', parts: [{ text: reply }] },
+    },
+    textTokens(prompt),
+    textTokens(reply)
+  );
+}
+
+export function createFakeGeminiClient() {
+  return { models: { generateContent } };
+}
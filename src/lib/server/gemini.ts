@@ -1,10 +1,25 @@
 /**
  * Server-side Gemini AI client for summary generation and text-to-speech.
+ * With `GEMINI_FAKE=true` requests go to the offline fake in `fakeGemini.ts`.
  */
 
-import { GoogleGenAI, Modality, Type } from '@google/genai';
-import type { PokemonDetails } from '@/types';
+import { GoogleGenAI, Modality, Type, type GenerateContentResponse } from '@google/genai';
+import {
+  NO_API_CALL_CONTEXT,
+  startApiCall,
+  type ApiCallContext,
+  type ApiCallTracker,
+} from './apiUsage';
+import { createFakeGeminiClient, isFakeGeminiEnabled } from './fakeGemini';
 import { getActivePrompt } from './prompts';
+import { getRuntimeSettings } from './settings';
+import {
+  getNextQuotaReset,
+  hasQuotaRemaining,
+  markQuotaExhausted,
+  QuotaExhaustedError,
+  recordApiCall,
+} from './quota';
 
 const MAX_RETRIES = 4;
 const MAX_RETRIES_TTS = 5;
@@ -83,14 +98,22 @@ function calculateBackoff(attempt: number, isRateLimit: boolean): number {
   return Math.min(jitter, maxMs);
 }
 
-async function withRetry<T>(fn: () => Promise<T>, maxRetries: number = MAX_RETRIES): Promise<T> {
+/**
+ * Call `fn`, retrying with backoff while `isRetryable` accepts the error.
+ * Errors that mention 429 or RESOURCE_EXHAUSTED back off as rate limits.
+ */
+export async function withRetry<T>(
+  fn: () => Promise<T>,
+  maxRetries: number = MAX_RETRIES,
+  isRetryable: (error: unknown) => boolean = isRetryableError
+): Promise<T> {
   let lastError: unknown;
   for (let attempt = 0; attempt <= maxRetries; attempt++) {
     try {
       return await fn();
     } catch (error) {
       lastError = error;
-      if (!isRetryableError(error) || attempt === maxRetries) {
+      if (!isRetryable(error) || attempt === maxRetries) {
         throw error;
       }
       const isRateLimit =
@@ -116,34 +139,58 @@ function getApiKey(): string {
   return key;
 }
 
-function getClient(): GoogleGenAI {
+/** The part of the SDK client these helpers use, so the fake can stand in. */
+type GeminiClient = { models: Pick<GoogleGenAI['models'], 'generateContent'> };
+
+function getClient(): GeminiClient {
+  if (isFakeGeminiEnabled()) return createFakeGeminiClient();
   return new GoogleGenAI({ apiKey: getApiKey() });
 }
 
 /**
- * Generate a field-log summary for a Pokémon using Gemini.
+ * Count a response's tokens against the call. Thinking tokens are billed as
+ * output.
  */
-export async function generateSummary(details: PokemonDetails, region: string): Promise<string> {
+function addUsage(call: ApiCallTracker, response: GenerateContentResponse): void {
+  const usage = response.usageMetadata;
+  if (!usage) return;
+  call.addTokens(
+    usage.promptTokenCount ?? 0,
+    (usage.candidatesTokenCount ?? 0) + (usage.thoughtsTokenCount ?? 0)
+  );
+}
+
+/**
+ * Generate a field-log summary with Gemini from the full prompt (system prompt
+ * plus Pokémon data). The call is logged against `context` for usage accounting.
+ */
+export async function generateGeminiSummary(
+  prompt: string,
+  model: string,
+  context: ApiCallContext = NO_API_CALL_CONTEXT
+): Promise<string> {
+  const call = startApiCall('summary', 'gemini', model, context);
+  try {
+    const summary = await requestGeminiSummary(prompt, model, call);
+    await call.finish();
+    return summary;
+  } catch (error) {
+    await call.finish(error);
+    throw error;
+  }
+}
+
+async function requestGeminiSummary(
+  prompt: string,
+  model: string,
+  call: ApiCallTracker
+): Promise<string> {
   return withRetry(async () => {
     const ai = getClient();
-    const systemPrompt = await getActivePrompt('summary');
-
-    const pokemonContext = `
-    ---
-    ID: ${details.id}
-    Name: ${details.name}
-    Region: ${region}
-    Types: ${details.types.join(', ')}
-    Physicals: ${details.height / 10}m, ${details.weight / 10}kg
-    Habitat: ${details.habitat}
-    Lore Context: ${details.flavorTexts.join(' ')}
-    Available Moves: ${details.allMoveNames.slice(0, 30).join(', ')}
-  `;
-
-    const prompt = `${systemPrompt}\n\nPOKEMON DATA:\n${pokemonContext}`;
 
+    call.attempts++;
     const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
+      model,
       contents: prompt,
       config: {
         temperature: 0.85,
@@ -157,6 +204,10 @@ export async function generateSummary(details: PokemonDetails, region: string):
         },
       },
     });
+    // Only requests the API accepted use the daily budget, so rejected retries aren't counted
+    await recordApiCall(model);
+
+    addUsage(call, response);
 
     // Handle potential SDK variations or empty responses
     let text = response.text;
@@ -187,17 +238,46 @@ export async function generateSummary(details: PokemonDetails, region: string):
 /**
  * Generate TTS audio from text using Gemini. Returns base64-encoded PCM audio.
  *
- * Strategy: Start with gemini-2.5-pro-preview-tts with retry/backoff for transient errors.
- * If Pro hits daily quota exhaustion OR exhausts all retries, fall back to gemini-2.5-flash-preview-tts.
+ * Strategy: Start with the primary TTS model (default gemini-2.5-pro-preview-tts) with retry/backoff
+ * for transient errors. If it hits daily quota exhaustion OR exhausts all retries, fall back to the
+ * fallback model (default gemini-2.5-flash-preview-tts). Both are configurable in settings.
+ * Models whose daily budget is spent in the quota ledger are skipped; when both are
+ * spent a QuotaExhaustedError is thrown so the caller can wait for the reset.
  *
  * Daily quota exhaustion (RPD) is detected and triggers IMMEDIATE fallback (no retries).
  * Transient rate limits (RPM) will retry with exponential backoff.
+ *
+ * Both models' attempts are logged as one call against `context`.
  */
-export async function generateTts(params: { text: string; voiceName: string }): Promise<string> {
+export async function generateTts(params: {
+  text: string;
+  voiceName: string;
+  context?: ApiCallContext;
+}): Promise<string> {
+  const { ttsModel } = await getRuntimeSettings();
+  const call = startApiCall('tts', 'gemini', ttsModel, params.context ?? NO_API_CALL_CONTEXT);
+  try {
+    const pcm = await requestTts(params, call);
+    await call.finish();
+    return pcm;
+  } catch (error) {
+    await call.finish(error);
+    throw error;
+  }
+}
+
+async function requestTts(
+  params: { text: string; voiceName: string },
+  call: ApiCallTracker
+): Promise<string> {
   const ai = getClient();
   const instruction = await getActivePrompt('tts');
+  const { ttsModel, ttsFallbackModel } = await getRuntimeSettings();
 
   const makeTtsRequest = async (model: string) => {
+    call.attempts++;
+    call.model = model;
+    call.fallbackUsed = model !== ttsModel;
     const response = await ai.models.generateContent({
       model,
       contents: [
@@ -218,6 +298,8 @@ export async function generateTts(params: { text: string; voiceName: string }):
         },
       },
     });
+    await recordApiCall(model);
+    addUsage(call, response);
 
     const inlineData = response.candidates?.[0]?.content?.parts?.[0]?.inlineData;
     if (!inlineData?.data) {
@@ -236,18 +318,40 @@ export async function generateTts(params: { text: string; voiceName: string }):
     return inlineData.data;
   };
 
-  try {
-    console.log('Attempting TTS with gemini-2.5-pro-preview-tts...');
-    return await withRetry(() => makeTtsRequest('gemini-2.5-pro-preview-tts'), MAX_RETRIES_TTS);
-  } catch (proError) {
-    // Check if it was daily quota exhaustion (immediate fallback) vs retry exhaustion
-    const reason = isDailyQuotaExhausted(proError)
-      ? 'daily quota exhausted - immediate fallback'
-      : 'exhausted all retries';
-    console.warn(
-      `gemini-2.5-pro-preview-tts failed (${reason}). Falling back to gemini-2.5-flash-preview-tts...`
-    );
+  const attemptModel = async (model: string) => {
+    try {
+      return await withRetry(() => makeTtsRequest(model), MAX_RETRIES_TTS);
+    } catch (error) {
+      if (isDailyQuotaExhausted(error)) {
+        await markQuotaExhausted(model);
+      }
+      throw error;
+    }
+  };
 
-    return await withRetry(() => makeTtsRequest('gemini-2.5-flash-preview-tts'), MAX_RETRIES_TTS);
+  if (await hasQuotaRemaining(ttsModel)) {
+    try {
+      console.log(`Attempting TTS with ${ttsModel}...`);
+      return await attemptModel(ttsModel);
+    } catch (proError) {
+      // Check if it was daily quota exhaustion (immediate fallback) vs retry exhaustion
+      const reason = isDailyQuotaExhausted(proError)
+        ? 'daily quota exhausted - immediate fallback'
+        : 'exhausted all retries';
+      console.warn(`${ttsModel} failed (${reason}). Falling back to ${ttsFallbackModel}...`);
+    }
+  }
+
+  if (!(await hasQuotaRemaining(ttsFallbackModel))) {
+    throw new QuotaExhaustedError(ttsFallbackModel, getNextQuotaReset().toISOString());
+  }
+
+  try {
+    return await attemptModel(ttsFallbackModel);
+  } catch (error) {
+    if (isDailyQuotaExhausted(error)) {
+      throw new QuotaExhaustedError(ttsFallbackModel, getNextQuotaReset().toISOString());
+    }
+    throw error;
   }
 }
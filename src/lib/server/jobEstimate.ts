@@ -0,0 +1,180 @@
+/**
+ * Pre-flight estimate of what a job will cost before it is created: API calls,
+ * wall-clock time from the cooldown settings, token usage and whether the TTS
+ * calls fit in today's remaining quota.
+ */
+
+import { getDatabase } from '@/lib/db/adapter';
+import type { ProcessingJob, ProcessingStage, TtsProviderId } from '@/lib/db/adapter';
+import type { RuntimeSettings } from './settings';
+import { getActivePrompt } from './prompts';
+import { getPronunciationLexicon } from './pronunciations';
+import { getQuotaStatus } from './quota';
+import { isUpToDate } from './regenerate';
+import { getRuntimeSettings } from './settings';
+import { splitTtsText } from './ttsChunks';
+import { getTtsProvider } from './ttsProviders';
+import { normalizeTtsText } from './ttsText';
+
+// Typical request latencies, on top of the configured cooldowns
+const SUMMARY_CALL_MS = 10000;
+const TTS_CALL_MS = 30000;
+const LOCAL_TTS_CALL_MS = 3000;
+
+// Rough token accounting: ~4 characters per text token, and Gemini bills audio
+// output at 32 tokens per second of speech (~15 spoken characters per second)
+const CHARS_PER_TOKEN = 4;
+const SUMMARY_CONTEXT_TOKENS = 600;
+const SUMMARY_OUTPUT_TOKENS = 350;
+const AUDIO_TOKENS_PER_SECOND = 32;
+const SPOKEN_CHARS_PER_SECOND = 15;
+
+export interface JobEstimateInput {
+  mode: ProcessingJob['mode'];
+  voice: string;
+  ttsProvider: TtsProviderId;
+  pokemonIds: number[];
+  regenerate: ProcessingJob['regenerate'];
+  summaryCandidates: number;
+}
+
+export interface JobEstimate {
+  total: number;
+  summaryCalls: number; // one per candidate draft
+  ttsCalls: number;
+  keptSummaries: number; // existing output the regenerate policy keeps
+  keptAudio: number;
+  missingSummaries: number; // audio-only Pokémon without a saved summary
+  estimatedDurationMs: number;
+  estimatedTokens: { input: number; output: number };
+  quota: {
+    ttsRemaining: number | null; // null = no daily limit enforced, or a local TTS engine
+    fitsToday: boolean;
+    resetsAt: string;
+  };
+}
+
+function tokensForChars(length: number): number {
+  return Math.ceil(length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Typical request time for one item in a stage and the cooldown waited after it.
+ * Each summary candidate is a request; local TTS engines synthesize quickly and
+ * skip the TTS cooldown.
+ */
+export function expectedItemTimings(
+  stage: ProcessingStage,
+  settings: RuntimeSettings,
+  job: Pick<ProcessingJob, 'ttsProvider' | 'summaryCandidates'>
+): { workMs: number; cooldownMs: number } {
+  if (stage === 'summary') {
+    return {
+      workMs: SUMMARY_CALL_MS * job.summaryCandidates,
+      cooldownMs: settings.summaryCooldownMs,
+    };
+  }
+  return getTtsProvider(job.ttsProvider).usesQuota
+    ? { workMs: TTS_CALL_MS, cooldownMs: settings.ttsCooldownMs }
+    : { workMs: LOCAL_TTS_CALL_MS, cooldownMs: 0 };
+}
+
+/**
+ * Cooldowns are only waited between processed items, not after the last one.
+ */
+function stageDurationMs(calls: number, timings: { workMs: number; cooldownMs: number }): number {
+  return calls === 0 ? 0 : calls * timings.workMs + (calls - 1) * timings.cooldownMs;
+}
+
+export async function estimateJob(input: JobEstimateInput): Promise<JobEstimate> {
+  const db = await getDatabase();
+  const settings = await getRuntimeSettings();
+  const [summaryPrompt, ttsPrompt, quota] = await Promise.all([
+    getActivePrompt('summary'),
+    getActivePrompt('tts'),
+    getQuotaStatus(),
+  ]);
+
+  const runsSummary = input.mode !== 'AUDIO_ONLY';
+  const runsAudio = input.mode !== 'SUMMARY_ONLY';
+  const existingAudio = new Map(
+    runsAudio ? (await db.getAllAudioLogsMetadata()).map(a => [a.id, a] as const) : []
+  );
+  const lexicon = runsAudio ? await getPronunciationLexicon() : [];
+  const now = new Date().toISOString();
+
+  let summaryItems = 0;
+  let ttsCalls = 0;
+  let keptSummaries = 0;
+  let keptAudio = 0;
+  let missingSummaries = 0;
+  let inputTokens = 0;
+  let outputTokens = 0;
+
+  for (const pokemonId of input.pokemonIds) {
+    const summary = await db.getSummary(pokemonId);
+    let summaryText = summary?.summary ?? null;
+    let summaryUpdatedAt = summary?.updatedAt ?? null;
+
+    if (runsSummary) {
+      if (await isUpToDate(input, summary)) {
+        keptSummaries++;
+      } else {
+        summaryItems++;
+        inputTokens +=
+          (tokensForChars(summaryPrompt.length) + SUMMARY_CONTEXT_TOKENS) * input.summaryCandidates;
+        outputTokens += SUMMARY_OUTPUT_TOKENS * input.summaryCandidates;
+        // The audio stage will read the freshly generated summary
+        summaryText = null;
+        summaryUpdatedAt = now;
+      }
+    } else if (!summary) {
+      missingSummaries++;
+      continue;
+    }
+
+    if (!runsAudio) continue;
+
+    if (await isUpToDate(input, existingAudio.get(pokemonId) ?? null, summaryUpdatedAt)) {
+      keptAudio++;
+      continue;
+    }
+
+    // Unwritten summaries are assumed to fit in one request
+    const chunks = summaryText ? splitTtsText(normalizeTtsText(summaryText, lexicon)) : null;
+    const summaryLength = chunks
+      ? chunks.reduce((sum, chunk) => sum + chunk.text.length, 0)
+      : SUMMARY_OUTPUT_TOKENS * CHARS_PER_TOKEN;
+    const requests = chunks?.length ?? 1;
+    ttsCalls += requests;
+    inputTokens += tokensForChars(ttsPrompt.length * requests + summaryLength);
+    outputTokens += Math.ceil((summaryLength / SPOKEN_CHARS_PER_SECOND) * AUDIO_TOKENS_PER_SECOND);
+  }
+
+  // Requests left today across the primary and fallback TTS models
+  const ttsModels = quota.models.filter(
+    m => m.model === settings.ttsModel || m.model === settings.ttsFallbackModel
+  );
+  const ttsRemaining =
+    !getTtsProvider(input.ttsProvider).usesQuota || ttsModels.some(m => m.remaining === null)
+      ? null
+      : ttsModels.reduce((sum, m) => sum + (m.remaining ?? 0), 0);
+
+  return {
+    total: input.pokemonIds.length,
+    summaryCalls: summaryItems * input.summaryCandidates,
+    ttsCalls,
+    keptSummaries,
+    keptAudio,
+    missingSummaries,
+    estimatedDurationMs:
+      stageDurationMs(summaryItems, expectedItemTimings('summary', settings, input)) +
+      stageDurationMs(ttsCalls, expectedItemTimings('audio', settings, input)),
+    estimatedTokens: { input: inputTokens, output: outputTokens },
+    quota: {
+      ttsRemaining,
+      fitsToday: ttsRemaining === null || ttsCalls <= ttsRemaining,
+      resetsAt: quota.resetsAt,
+    },
+  };
+}
@@ -0,0 +1,57 @@
+/**
+ * In-process event bus for job lifecycle updates.
+ *
+ * The job runner and job control routes publish events here; the SSE endpoint
+ * (`GET /api/jobs/[id]/events`) forwards them to connected clients so they don't
+ * have to poll the database.
+ */
+
+import { EventEmitter } from 'events';
+import type { JobStatus, ProcessingStage } from '@/lib/db/adapter';
+import type { JobMetrics } from './jobMetrics';
+
+export type JobEvent =
+  | {
+      type: 'progress';
+      jobId: string;
+      stage: ProcessingStage;
+      current: number;
+      total: number;
+      message: string;
+    }
+  | { type: 'cooldown'; jobId: string; cooldownUntil: string | null }
+  | { type: 'stage'; jobId: string; stage: ProcessingStage }
+  | { type: 'status'; jobId: string; status: JobStatus; error?: string | null }
+  | { type: 'metrics'; jobId: string; metrics: JobMetrics };
+
+/** Statuses after which a job emits no further events. */
+export const TERMINAL_JOB_STATUSES: JobStatus[] = [
+  'completed',
+  'completed_with_errors',
+  'failed',
+  'canceled',
+];
+
+const emitter = new EventEmitter();
+// One listener per open SSE connection plus one per sleeping job
+emitter.setMaxListeners(0);
+
+/**
+ * Publish an event to every subscriber of the job.
+ */
+export function publishJobEvent(event: JobEvent): void {
+  emitter.emit(event.jobId, event);
+}
+
+/**
+ * Subscribe to events for a single job. Returns an unsubscribe function.
+ */
+export function subscribeToJobEvents(
+  jobId: string,
+  listener: (event: JobEvent) => void
+): () => void {
+  emitter.on(jobId, listener);
+  return () => {
+    emitter.off(jobId, listener);
+  };
+}
@@ -0,0 +1,81 @@
+/**
+ * Rolling throughput and ETA for a job, from the per-item timings the runner
+ * records in the job item ledger. Until a stage has finished any items the
+ * averages fall back to the same settings-based figures as the job estimator.
+ */
+
+import { getDatabase } from '@/lib/db/adapter';
+import type { ProcessingJob, ProcessingStage } from '@/lib/db/adapter';
+import { expectedItemTimings } from './jobEstimate';
+import { TERMINAL_JOB_STATUSES } from './jobEvents';
+import { getRuntimeSettings } from './settings';
+
+// Most recent finished items averaged for the current stage
+const ROLLING_WINDOW = 10;
+
+export interface JobMetrics {
+  stage: ProcessingStage;
+  sampleSize: number; // items averaged; 0 = settings-based estimate
+  avgLatencyMs: number;
+  avgConvertMs: number;
+  avgCooldownMs: number;
+  itemsPerHour: number;
+  remainingMs: number;
+  finishesAt: string;
+}
+
+function average(values: number[], fallback: number): number {
+  return values.length === 0 ? fallback : values.reduce((a, b) => a + b, 0) / values.length;
+}
+
+/**
+ * Metrics for an active job, or null once it has reached a terminal status.
+ */
+export async function getJobMetrics(
+  job: ProcessingJob,
+  now: Date = new Date()
+): Promise<JobMetrics | null> {
+  if (TERMINAL_JOB_STATUSES.includes(job.status)) return null;
+
+  const db = await getDatabase();
+  const settings = await getRuntimeSettings();
+  const expected = expectedItemTimings(job.stage, settings, job);
+
+  const recent = (await db.getJobItems(job.id))
+    .filter(i => i.stage === job.stage && (i.status === 'succeeded' || i.status === 'failed'))
+    .sort((a, b) => (b.finishedAt ?? '').localeCompare(a.finishedAt ?? ''))
+    .slice(0, ROLLING_WINDOW);
+
+  const avgLatencyMs = average(
+    recent.map(i => i.latencyMs),
+    expected.workMs
+  );
+  const avgConvertMs = average(
+    recent.map(i => i.convertMs),
+    0
+  );
+  // The latest item's cooldown may still be running, so only count recorded ones
+  const avgCooldownMs = average(
+    recent.filter(i => i.cooldownMs > 0).map(i => i.cooldownMs),
+    expected.cooldownMs
+  );
+  const itemMs = avgLatencyMs + avgConvertMs + avgCooldownMs;
+
+  let remainingMs = Math.max(0, job.total - job.current) * itemMs;
+  // FULL jobs still have the whole audio stage ahead of them
+  if (job.mode === 'FULL' && job.stage === 'summary') {
+    const audio = expectedItemTimings('audio', settings, job);
+    remainingMs += job.pokemonIds.length * (audio.workMs + audio.cooldownMs);
+  }
+
+  return {
+    stage: job.stage,
+    sampleSize: recent.length,
+    avgLatencyMs: Math.round(avgLatencyMs),
+    avgConvertMs: Math.round(avgConvertMs),
+    avgCooldownMs: Math.round(avgCooldownMs),
+    itemsPerHour: Math.round((3600000 / itemMs) * 10) / 10,
+    remainingMs: Math.round(remainingMs),
+    finishesAt: new Date(now.getTime() + remainingMs).toISOString(),
+  };
+}
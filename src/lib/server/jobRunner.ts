@@ -4,47 +4,133 @@
  * The runner polls the database for queued jobs, claims them atomically, and
  * processes them through summary generation and/or audio synthesis stages.
  * Supports pause/resume/cancel controls and enforces cooldowns between API calls.
+ *
+ * Several runners (app replicas or standalone workers) can share one database.
+ * Each claims jobs under its worker ID with a lease that it renews by heartbeat
+ * while the job runs; jobs whose lease lapses are re-queued for another worker.
  */
 
+import { hostname } from 'os';
 import { getDatabase } from '@/lib/db/adapter';
-import type { ProcessingJob, ProcessingStage } from '@/lib/db/adapter';
-import { generateSummary, generateTts } from './gemini';
+import type {
+  JobLease,
+  JobStatus,
+  ProcessingJob,
+  ProcessingStage,
+  SummaryRuleId,
+} from '@/lib/db/adapter';
+import { getPronunciationLexicon } from './pronunciations';
+import { generateSummaryCandidates } from './summaryCandidates';
+import { generateSummary } from './summaryProviders';
+import {
+  clearChunkAudio,
+  loadChunkAudio,
+  saveChunkAudio,
+  splitTtsText,
+  stitchTtsChunks,
+  type TtsChunk,
+} from './ttsChunks';
+import { normalizeTtsText } from './ttsText';
+import { getTtsProvider } from './ttsProviders';
 import {
   jitteredCooldown,
-  SERVER_SUMMARY_COOLDOWN_MS,
+  SERVER_JOB_CONTROL_CHECK_MS,
+  SERVER_JOB_HEARTBEAT_MS,
+  SERVER_JOB_LEASE_MS,
   SERVER_TTS_AUDIO_FORMAT,
-  SERVER_TTS_COOLDOWN_MS,
-  SERVER_TTS_SAMPLE_RATE,
-  SERVER_TTS_MP3_BITRATE,
 } from './config';
 import { convertPcmToMp3 } from './audioConverter';
 import { getOrFetchPokemonDetailsServer } from './pokemon';
+import { publishJobEvent, subscribeToJobEvents, TERMINAL_JOB_STATUSES } from './jobEvents';
+import { getJobMetrics } from './jobMetrics';
+import { notifyJobWebhooks, waitForWebhookDeliveries } from './webhooks';
+import { isUpToDate } from './regenerate';
+import { getRuntimeSettings } from './settings';
+import { getNextQuotaReset, isTtsQuotaExhausted, QuotaExhaustedError } from './quota';
+import {
+  formatAllowedWindow,
+  getNextWindowStart,
+  isScheduleOpen,
+  isWithinAllowedWindow,
+} from '@/utils/scheduleUtils';
 
 let runnerStarted = false;
+let runnerStopping = false;
+const runnerTimers: Array<ReturnType<typeof setInterval>> = [];
 const activeJobs = new Map<string, Promise<void>>();
-const MAX_CONCURRENT_TEXT_JOBS = 3;
-const MAX_CONCURRENT_AUDIO_JOBS = 1;
-const MAX_RETRIES = 3;
 const RETRY_BASE_DELAY_MS = 5000;
 
+const workerId = process.env.JOB_WORKER_ID || `${hostname()}-${process.pid}`;
+const lease: JobLease = { workerId, leaseMs: SERVER_JOB_LEASE_MS };
+
+/**
+ * Identifier this process uses when claiming jobs (`JOB_WORKER_ID` or host-pid).
+ */
+export function getWorkerId(): string {
+  return workerId;
+}
+
+/**
+ * Whether this process is running the job right now, and so publishes its events.
+ */
+export function isProcessingJob(jobId: string): boolean {
+  return activeJobs.has(jobId);
+}
+
+/**
+ * True when the job no longer runs under this worker: another worker took it
+ * over, or it was re-queued after our lease lapsed. Callers check for a pause
+ * first, since a paused job is no longer running either.
+ */
+export function hasLostLease(
+  job: Pick<ProcessingJob, 'status' | 'workerId'>,
+  ownerId: string = workerId
+): boolean {
+  return job.status !== 'running' || job.workerId !== ownerId;
+}
+
 function sleep(ms: number): Promise<void> {
   return new Promise(resolve => setTimeout(resolve, ms));
 }
 
+/**
+ * Sleep through a cooldown or backoff, returning early when the job is paused,
+ * canceled or taken over. A status event for the job wakes the sleep to re-read
+ * the row; otherwise it is only re-read every `SERVER_JOB_CONTROL_CHECK_MS`.
+ */
 async function sleepWithJobControl(
   jobId: string,
   durationMs: number
 ): Promise<'ok' | 'paused' | 'canceled'> {
   const db = await getDatabase();
-  const start = Date.now();
-  while (Date.now() - start < durationMs) {
-    const job = await db.getJob(jobId);
-    if (!job) return 'canceled';
-    if (job.status === 'canceled' || job.status === 'failed') return 'canceled';
-    if (job.status === 'paused') return 'paused';
-    await sleep(1000);
+  const deadline = Date.now() + durationMs;
+  let wake = () => {};
+  const unsubscribe = subscribeToJobEvents(jobId, event => {
+    if (event.type === 'status' && event.status !== 'running') wake();
+  });
+
+  try {
+    while (Date.now() < deadline) {
+      const job = await db.getJob(jobId);
+      if (!job) return 'canceled';
+      if (job.status === 'paused') return 'paused';
+      if (hasLostLease(job)) return 'canceled';
+
+      await new Promise<void>(resolve => {
+        const timer = setTimeout(
+          resolve,
+          Math.min(SERVER_JOB_CONTROL_CHECK_MS, deadline - Date.now())
+        );
+        wake = () => {
+          clearTimeout(timer);
+          resolve();
+        };
+      });
+    }
+    return 'ok';
+  } finally {
+    unsubscribe();
   }
-  return 'ok';
 }
 
 async function setProgress(params: {
@@ -56,6 +142,85 @@ async function setProgress(params: {
 }): Promise<void> {
   const db = await getDatabase();
   await db.setJobProgress(params.jobId, params.stage, params.current, params.total, params.message);
+  publishJobEvent({ type: 'progress', ...params });
+}
+
+async function setCooldownUntil(jobId: string, cooldownUntil: string | null): Promise<void> {
+  const db = await getDatabase();
+  await db.setJobCooldownUntil(jobId, cooldownUntil);
+  publishJobEvent({ type: 'cooldown', jobId, cooldownUntil });
+}
+
+/**
+ * Publish the job's updated ETA once an item is done. The job as loaded for the
+ * stage is enough, given the stage and how many items are done.
+ */
+async function publishMetrics(
+  job: ProcessingJob,
+  stage: ProcessingStage,
+  current: number
+): Promise<void> {
+  const metrics = await getJobMetrics({ ...job, stage, current });
+  if (metrics) publishJobEvent({ type: 'metrics', jobId: job.id, metrics });
+}
+
+async function setStatus(jobId: string, status: JobStatus): Promise<void> {
+  const db = await getDatabase();
+  await db.setJobStatus(jobId, status);
+  publishJobEvent({ type: 'status', jobId, status });
+}
+
+/**
+ * Pause a job until the daily quota resets. The tick loop re-queues it once
+ * `resumeAt` has passed.
+ */
+async function pauseForQuota(
+  jobId: string,
+  stage: ProcessingStage,
+  current: number,
+  total: number,
+  resetsAt: string
+): Promise<void> {
+  const db = await getDatabase();
+  await db.setJobStatus(jobId, 'paused');
+  await db.setJobResumeAt(jobId, resetsAt);
+  await setCooldownUntil(jobId, resetsAt);
+  await setProgress({
+    jobId,
+    stage,
+    current,
+    total,
+    message: `Daily TTS quota exhausted. Resuming after ${new Date(resetsAt).toLocaleString()}.`,
+  });
+  publishJobEvent({ type: 'status', jobId, status: 'paused' });
+  notifyJobWebhooks('job.quota_paused', jobId);
+}
+
+/**
+ * Put a job back in the queue when its allowed window has closed. Returns true
+ * if the job was deferred; `tick()` won't claim it again until the window reopens.
+ */
+async function deferIfOutsideWindow(
+  job: ProcessingJob,
+  stage: ProcessingStage,
+  current: number,
+  total: number
+): Promise<boolean> {
+  if (!job.allowedWindow || isWithinAllowedWindow(job.allowedWindow)) return false;
+
+  const nextStart = getNextWindowStart(job.allowedWindow);
+  await setCooldownUntil(job.id, null);
+  await setProgress({
+    jobId: job.id,
+    stage,
+    current,
+    total,
+    message: `Outside allowed window ${formatAllowedWindow(job.allowedWindow)}. Waiting until ${nextStart.toLocaleString()}.`,
+  });
+  const db = await getDatabase();
+  await db.requeueJob(job.id);
+  publishJobEvent({ type: 'status', jobId: job.id, status: 'queued' });
+  return true;
 }
 
 type SummaryItem = {
@@ -64,8 +229,76 @@ type SummaryItem = {
   summary: string;
   region: string;
   generationId: number;
+  updatedAt: string;
 };
 
+/**
+ * Record a Pokémon that exhausted its retries and apply the job's failure policy.
+ * Throws when the policy says the whole job should fail.
+ */
+async function handleItemFailure(
+  job: ProcessingJob,
+  pokemonId: number,
+  stage: ProcessingStage,
+  error: unknown
+): Promise<void> {
+  const db = await getDatabase();
+  const errorMessage = error instanceof Error ? error.message : String(error);
+
+  await db.setJobItemStatus(job.id, pokemonId, stage, 'failed', errorMessage);
+  const failedIds = await db.addJobFailedPokemon(job.id, pokemonId);
+
+  if (job.failurePolicy === 'fail-fast') {
+    throw error;
+  }
+
+  if (
+    job.failurePolicy === 'fail-after-N-errors' &&
+    job.maxErrors !== null &&
+    failedIds.length >= job.maxErrors
+  ) {
+    throw new Error(
+      `Stopped after ${failedIds.length} failed Pokémon (limit ${job.maxErrors}). Last error: ${errorMessage}`
+    );
+  }
+}
+
+/**
+ * Mark a job as finished, flagging it as `completed_with_errors` when any
+ * Pokémon failed under a lenient failure policy.
+ */
+async function finishJob(
+  jobId: string,
+  stage: ProcessingStage,
+  total: number,
+  message: string
+): Promise<void> {
+  const db = await getDatabase();
+  const latest = await db.getJob(jobId);
+  // Paused, canceled or taken over after the last item: leave the status alone
+  if (!latest || hasLostLease(latest)) return;
+  const failedIds = latest.failedPokemonIds;
+
+  await setCooldownUntil(jobId, null);
+
+  if (failedIds.length > 0) {
+    await setProgress({
+      jobId,
+      stage,
+      current: total,
+      total,
+      message: `${message} ${failedIds.length} failed: ${failedIds.map(id => `#${id}`).join(', ')}.`,
+    });
+    await setStatus(jobId, 'completed_with_errors');
+    notifyJobWebhooks('job.completed', jobId);
+    return;
+  }
+
+  await setProgress({ jobId, stage, current: total, total, message });
+  await setStatus(jobId, 'completed');
+  notifyJobWebhooks('job.completed', jobId);
+}
+
 async function processSummaryStage(job: ProcessingJob): Promise<'ok' | 'paused' | 'canceled'> {
   const db = await getDatabase();
   const total = job.pokemonIds.length;
@@ -84,10 +317,28 @@ async function processSummaryStage(job: ProcessingJob): Promise<'ok' | 'paused'
     if (!latest) return 'canceled';
     if (latest.status === 'paused') return 'paused';
     if (latest.status === 'canceled') return 'canceled';
+    if (hasLostLease(latest)) return 'canceled';
 
     const pokemonId = job.pokemonIds[idx];
     if (pokemonId === undefined) continue;
 
+    if (await deferIfOutsideWindow(job, 'summary', idx, total)) return 'paused';
+
+    if (await isUpToDate(job, await db.getSummary(pokemonId))) {
+      await db.setJobItemStatus(job.id, pokemonId, 'summary', 'skipped', 'Already up to date');
+      await setProgress({
+        jobId: job.id,
+        stage: 'summary',
+        current: idx + 1,
+        total,
+        message: `Kept existing summary for #${pokemonId}.`,
+      });
+      continue;
+    }
+
+    // Read per item so settings changes apply to running jobs
+    const { maxRetries, summaryCooldownMs } = await getRuntimeSettings();
+
     await setProgress({
       jobId: job.id,
       stage: 'summary',
@@ -98,35 +349,56 @@ async function processSummaryStage(job: ProcessingJob): Promise<'ok' | 'paused'
 
     let retryCount = 0;
     let success = false;
+    let latencyMs = 0;
+    let backoffTotalMs = 0;
+    let failedChecks: SummaryRuleId[] = [];
+
+    await db.setJobItemStatus(job.id, pokemonId, 'summary', 'running');
 
-    while (!success && retryCount < MAX_RETRIES) {
+    while (!success && retryCount < maxRetries) {
       try {
+        await db.incrementJobItemAttempts(job.id, pokemonId, 'summary');
         const details = await getOrFetchPokemonDetailsServer(pokemonId);
-        const summary = await generateSummary(details, details.region);
+        const requestStartedAt = Date.now();
+        const generated = await (
+          job.summaryCandidates > 1
+            ? generateSummaryCandidates(details, details.region, job)
+            : generateSummary(details, details.region, job)
+        ).finally(() => {
+          latencyMs += Date.now() - requestStartedAt;
+        });
 
         await db.saveSummary({
           id: details.id,
           name: details.name,
-          summary,
+          summary: generated.summary,
           region: details.region,
           generationId: details.generationId,
+          provider: generated.provider,
+          model: generated.model,
+          validation: generated.validation,
         });
+        failedChecks = generated.validation.rules.filter(r => !r.passed).map(r => r.rule);
 
         success = true;
       } catch (error) {
         retryCount++;
 
-        if (retryCount >= MAX_RETRIES) {
-          throw error;
+        if (retryCount >= maxRetries) {
+          await handleItemFailure(job, pokemonId, 'summary', error);
+          break;
         }
 
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        await db.setJobItemStatus(job.id, pokemonId, 'summary', 'running', errorMessage);
         const backoffMs = RETRY_BASE_DELAY_MS * Math.pow(2, retryCount - 1);
+        backoffTotalMs += backoffMs;
         await setProgress({
           jobId: job.id,
           stage: 'summary',
           current: idx,
           total,
-          message: `Error on #${pokemonId}, retrying in ${Math.round(backoffMs / 1000)}s... (${retryCount}/${MAX_RETRIES})`,
+          message: `Error on #${pokemonId}, retrying in ${Math.round(backoffMs / 1000)}s... (${retryCount}/${maxRetries})`,
         });
 
         await db.incrementJobRetry(job.id);
@@ -135,21 +407,35 @@ async function processSummaryStage(job: ProcessingJob): Promise<'ok' | 'paused'
       }
     }
 
+    if (success) {
+      await db.setJobItemStatus(job.id, pokemonId, 'summary', 'succeeded');
+    }
+    await db.addJobItemTimings(job.id, pokemonId, 'summary', {
+      latencyMs,
+      cooldownMs: backoffTotalMs,
+    });
+    const saved =
+      job.summaryCandidates > 1 ? `best of ${job.summaryCandidates} summaries` : 'summary';
+    const checks = failedChecks.length > 0 ? ` (failed checks: ${failedChecks.join(', ')})` : '';
     await setProgress({
       jobId: job.id,
       stage: 'summary',
       current: idx + 1,
       total,
-      message: `Saved summary for #${pokemonId}.`,
+      message: !success
+        ? `Skipped #${pokemonId} after ${maxRetries} failed attempts.`
+        : `Saved ${saved} for #${pokemonId}${checks}.`,
     });
+    await publishMetrics(job, 'summary', idx + 1);
 
     if (idx < job.pokemonIds.length - 1) {
-      const cooldownMs = jitteredCooldown(SERVER_SUMMARY_COOLDOWN_MS);
+      const cooldownMs = jitteredCooldown(summaryCooldownMs);
       const cooldownUntil = new Date(Date.now() + cooldownMs).toISOString();
-      await db.setJobCooldownUntil(job.id, cooldownUntil);
+      await setCooldownUntil(job.id, cooldownUntil);
       const result = await sleepWithJobControl(job.id, cooldownMs);
-      await db.setJobCooldownUntil(job.id, null);
+      await setCooldownUntil(job.id, null);
       if (result !== 'ok') return result;
+      await db.addJobItemTimings(job.id, pokemonId, 'summary', { cooldownMs });
     }
   }
 
@@ -165,11 +451,16 @@ async function processSummaryStage(job: ProcessingJob): Promise<'ok' | 'paused'
 async function processAudioStage(job: ProcessingJob): Promise<'ok' | 'paused' | 'canceled'> {
   const db = await getDatabase();
 
-  const summaries: SummaryItem[] = [];
+  // Keep entries aligned with job.pokemonIds so the resume index stays stable
+  const summaries: Array<SummaryItem | null> = [];
   for (const pokemonId of job.pokemonIds) {
     const s = await db.getSummary(pokemonId);
     if (!s) {
-      throw new Error(`Missing saved summary for #${pokemonId}. Generate summaries first.`);
+      if (job.failurePolicy === 'fail-fast') {
+        throw new Error(`Missing saved summary for #${pokemonId}. Generate summaries first.`);
+      }
+      summaries.push(null);
+      continue;
     }
     summaries.push({
       id: s.id,
@@ -177,11 +468,19 @@ async function processAudioStage(job: ProcessingJob): Promise<'ok' | 'paused' |
       summary: s.summary,
       region: s.region,
       generationId: s.generationId,
+      updatedAt: s.updatedAt,
     });
   }
 
+  const existingAudio = new Map(
+    job.regenerate === 'all'
+      ? []
+      : (await db.getAllAudioLogsMetadata()).map(a => [a.id, a] as const)
+  );
+
   const total = summaries.length;
   const startIndex = Math.max(0, job.current);
+  const ttsProvider = getTtsProvider(job.ttsProvider);
 
   await setProgress({
     jobId: job.id,
@@ -196,9 +495,55 @@ async function processAudioStage(job: ProcessingJob): Promise<'ok' | 'paused' |
     if (!latest) return 'canceled';
     if (latest.status === 'paused') return 'paused';
     if (latest.status === 'canceled') return 'canceled';
+    if (hasLostLease(latest)) return 'canceled';
+
+    const pokemonId = job.pokemonIds[idx];
+    if (pokemonId === undefined) continue;
+
+    if (await deferIfOutsideWindow(job, 'audio', idx, total)) return 'paused';
 
     const summary = summaries[idx];
-    if (!summary) continue;
+    if (!summary) {
+      // A Pokémon whose summary already failed in this job is skipped, not failed twice
+      if (latest.failedPokemonIds.includes(pokemonId)) {
+        await db.setJobItemStatus(job.id, pokemonId, 'audio', 'skipped', 'Summary stage failed');
+      } else {
+        await handleItemFailure(
+          job,
+          pokemonId,
+          'audio',
+          new Error(`Missing saved summary for #${pokemonId}. Generate summaries first.`)
+        );
+      }
+      await setProgress({
+        jobId: job.id,
+        stage: 'audio',
+        current: idx + 1,
+        total,
+        message: `Skipped #${pokemonId}: no saved summary.`,
+      });
+      continue;
+    }
+
+    // Checked before the quota so kept audio doesn't wait for a reset
+    if (await isUpToDate(job, existingAudio.get(summary.id) ?? null, summary.updatedAt)) {
+      await db.setJobItemStatus(job.id, summary.id, 'audio', 'skipped', 'Already up to date');
+      await setProgress({
+        jobId: job.id,
+        stage: 'audio',
+        current: idx + 1,
+        total,
+        message: `Kept existing audio for #${summary.id} ${summary.name}.`,
+      });
+      continue;
+    }
+
+    if (ttsProvider.usesQuota && (await isTtsQuotaExhausted())) {
+      await pauseForQuota(job.id, 'audio', idx, total, getNextQuotaReset().toISOString());
+      return 'paused';
+    }
+
+    const { maxRetries, mp3Bitrate, ttsCooldownMs } = await getRuntimeSettings();
 
     await setProgress({
       jobId: job.id,
@@ -211,28 +556,82 @@ async function processAudioStage(job: ProcessingJob): Promise<'ok' | 'paused' |
     let audioData = '';
     let retryCount = 0;
     let success = false;
+    let latencyMs = 0;
+    let backoffTotalMs = 0;
+    let convertMs = 0;
 
-    while (!success && retryCount < MAX_RETRIES) {
+    await db.setJobItemStatus(job.id, summary.id, 'audio', 'running');
+    // Read per item so lexicon edits apply to the rest of a running job
+    const chunks = splitTtsText(normalizeTtsText(summary.summary, await getPronunciationLexicon()));
+    // Kept across retries and quota pauses so only missing chunks are requested
+    const chunkAudio = await loadChunkAudio(job.id, summary.id, chunks);
+
+    while (!success && retryCount < maxRetries) {
       try {
-        audioData = await generateTts({
-          text: summary.summary,
-          voiceName: job.voice,
-        });
+        await db.incrementJobItemAttempts(job.id, summary.id, 'audio');
+        while (chunkAudio.length < chunks.length) {
+          const chunk = chunks[chunkAudio.length] as TtsChunk;
+          if (chunkAudio.length > 0) {
+            if (ttsProvider.usesQuota) {
+              const cooldownMs = jitteredCooldown(ttsCooldownMs);
+              const cooldownUntil = new Date(Date.now() + cooldownMs).toISOString();
+              await setCooldownUntil(job.id, cooldownUntil);
+              const result = await sleepWithJobControl(job.id, cooldownMs);
+              await setCooldownUntil(job.id, null);
+              if (result !== 'ok') return result;
+              await db.addJobItemTimings(job.id, summary.id, 'audio', { cooldownMs });
+            }
+            await setProgress({
+              jobId: job.id,
+              stage: 'audio',
+              current: idx,
+              total,
+              message: `Synthesizing audio for #${summary.id} ${summary.name} (part ${chunkAudio.length + 1} of ${chunks.length})...`,
+            });
+          }
+
+          const requestStartedAt = Date.now();
+          const pcm = await ttsProvider
+            .synthesize({
+              text: chunk.text,
+              voice: job.voice,
+              context: { jobId: job.id, pokemonId: summary.id },
+            })
+            .finally(() => {
+              latencyMs += Date.now() - requestStartedAt;
+            });
+          chunkAudio.push(pcm);
+          if (chunkAudio.length < chunks.length) {
+            await saveChunkAudio(job.id, summary.id, chunkAudio.length - 1, chunk, pcm);
+          }
+        }
+        audioData = stitchTtsChunks(chunkAudio, chunks, ttsProvider.sampleRate);
         success = true;
       } catch (error) {
+        // Retrying can't help until the quota resets, so park the job instead
+        if (error instanceof QuotaExhaustedError) {
+          await db.setJobItemStatus(job.id, summary.id, 'audio', 'pending', error.message);
+          await pauseForQuota(job.id, 'audio', idx, total, error.resetsAt);
+          return 'paused';
+        }
+
         retryCount++;
 
-        if (retryCount >= MAX_RETRIES) {
-          throw error;
+        if (retryCount >= maxRetries) {
+          await handleItemFailure(job, summary.id, 'audio', error);
+          break;
         }
 
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        await db.setJobItemStatus(job.id, summary.id, 'audio', 'running', errorMessage);
         const backoffMs = RETRY_BASE_DELAY_MS * Math.pow(2, retryCount - 1);
+        backoffTotalMs += backoffMs;
         await setProgress({
           jobId: job.id,
           stage: 'audio',
           current: idx,
           total,
-          message: `TTS error on #${summary.id}, retrying in ${Math.round(backoffMs / 1000)}s... (${retryCount}/${MAX_RETRIES})`,
+          message: `TTS error on #${summary.id}, retrying in ${Math.round(backoffMs / 1000)}s... (${retryCount}/${maxRetries})`,
         });
 
         await db.incrementJobRetry(job.id);
@@ -240,75 +639,118 @@ async function processAudioStage(job: ProcessingJob): Promise<'ok' | 'paused' |
         if (result !== 'ok') return result;
       }
     }
+    await clearChunkAudio(job.id, summary.id);
 
-    const mp3Data = await convertPcmToMp3(
-      audioData,
-      SERVER_TTS_SAMPLE_RATE,
-      SERVER_TTS_MP3_BITRATE
-    );
+    if (success) {
+      try {
+        const convertStartedAt = Date.now();
+        const mp3Data = await convertPcmToMp3(audioData, ttsProvider.sampleRate, mp3Bitrate);
+        convertMs = Date.now() - convertStartedAt;
+
+        await db.saveAudioLog({
+          id: summary.id,
+          name: summary.name,
+          region: summary.region,
+          generationId: summary.generationId,
+          voice: job.voice,
+          audioBase64: mp3Data,
+          audioFormat: SERVER_TTS_AUDIO_FORMAT,
+          bitrate: mp3Bitrate,
+        });
+      } catch (error) {
+        success = false;
+        await handleItemFailure(job, summary.id, 'audio', error);
+      }
+    }
 
-    await db.saveAudioLog({
-      id: summary.id,
-      name: summary.name,
-      region: summary.region,
-      generationId: summary.generationId,
-      voice: job.voice,
-      audioBase64: mp3Data,
-      audioFormat: SERVER_TTS_AUDIO_FORMAT,
-      bitrate: SERVER_TTS_MP3_BITRATE,
+    if (success) {
+      await db.setJobItemStatus(job.id, summary.id, 'audio', 'succeeded');
+    }
+    await db.addJobItemTimings(job.id, summary.id, 'audio', {
+      latencyMs,
+      convertMs,
+      cooldownMs: backoffTotalMs,
     });
-
     await setProgress({
       jobId: job.id,
       stage: 'audio',
       current: idx + 1,
       total,
-      message: `Saved audio for #${summary.id} ${summary.name}.`,
+      message: success
+        ? `Saved audio for #${summary.id} ${summary.name}.`
+        : `Skipped audio for #${summary.id} ${summary.name} after it failed.`,
     });
+    await publishMetrics(job, 'audio', idx + 1);
 
-    if (idx < summaries.length - 1) {
-      const cooldownMs = jitteredCooldown(SERVER_TTS_COOLDOWN_MS);
+    // Local engines have no rate limit to wait out
+    if (idx < summaries.length - 1 && ttsProvider.usesQuota) {
+      const cooldownMs = jitteredCooldown(ttsCooldownMs);
       const cooldownUntil = new Date(Date.now() + cooldownMs).toISOString();
-      await db.setJobCooldownUntil(job.id, cooldownUntil);
+      await setCooldownUntil(job.id, cooldownUntil);
       const result = await sleepWithJobControl(job.id, cooldownMs);
-      await db.setJobCooldownUntil(job.id, null);
+      await setCooldownUntil(job.id, null);
       if (result !== 'ok') return result;
+      await db.addJobItemTimings(job.id, summary.id, 'audio', { cooldownMs });
     }
   }
 
   return 'ok';
 }
 
+/**
+ * Renew the job's lease until `stop` is called, or until the job stops running
+ * under this worker. The stage loops notice a new owner on their next check.
+ */
+function startHeartbeat(jobId: string): () => void {
+  const timer = setInterval(() => {
+    void (async () => {
+      try {
+        const db = await getDatabase();
+        const held = await db.renewJobLease(jobId, lease);
+        if (!held) {
+          clearInterval(timer);
+          const job = await db.getJob(jobId);
+          if (job?.status === 'running' && job.workerId !== workerId) {
+            console.warn(`Worker ${workerId} lost the lease on job ${jobId} to ${job.workerId}.`);
+          }
+        }
+      } catch (error) {
+        console.error(`Failed to renew lease on job ${jobId}:`, error);
+      }
+    })();
+  }, SERVER_JOB_HEARTBEAT_MS);
+
+  return () => clearInterval(timer);
+}
+
 async function processJob(job: ProcessingJob): Promise<void> {
   const db = await getDatabase();
+  const stopHeartbeat = startHeartbeat(job.id);
 
   try {
     const fresh = await db.getJob(job.id);
-    if (!fresh) return;
-    if (fresh.status === 'canceled') return;
+    if (!fresh || hasLostLease(fresh)) return;
 
     if (fresh.stage === 'summary') {
       const result = await processSummaryStage(fresh);
       if (result !== 'ok') return;
 
       if (fresh.mode === 'SUMMARY_ONLY') {
-        await db.setJobCooldownUntil(fresh.id, null);
-        await db.setJobStatus(fresh.id, 'completed');
-        await setProgress({
-          jobId: fresh.id,
-          stage: 'summary',
-          current: fresh.pokemonIds.length,
-          total: fresh.pokemonIds.length,
-          message: 'Completed summary generation.',
-        });
+        await finishJob(
+          fresh.id,
+          'summary',
+          fresh.pokemonIds.length,
+          'Completed summary generation.'
+        );
         return;
       }
 
+      const audioTotal = fresh.pokemonIds.length;
       await setProgress({
         jobId: fresh.id,
         stage: 'audio',
         current: 0,
-        total: 0,
+        total: audioTotal,
         message: 'Preparing audio synthesis...',
       });
 
@@ -316,21 +758,15 @@ async function processJob(job: ProcessingJob): Promise<void> {
       if (!now) return;
       now.stage = 'audio';
       now.current = 0;
-      await db.setJobProgress(fresh.id, 'audio', 0, 0, 'Preparing audio synthesis...');
-      await db.setJobCooldownUntil(fresh.id, null);
+      // The audio stage's ETA counts down from this total
+      now.total = audioTotal;
+      await setCooldownUntil(fresh.id, null);
+      publishJobEvent({ type: 'stage', jobId: fresh.id, stage: 'audio' });
 
       const audioResult = await processAudioStage(now);
       if (audioResult !== 'ok') return;
 
-      await db.setJobCooldownUntil(now.id, null);
-      await db.setJobStatus(now.id, 'completed');
-      await setProgress({
-        jobId: now.id,
-        stage: 'audio',
-        current: now.total,
-        total: now.total,
-        message: 'Completed audio synthesis.',
-      });
+      await finishJob(now.id, 'audio', now.pokemonIds.length, 'Completed audio synthesis.');
       return;
     }
 
@@ -338,48 +774,69 @@ async function processJob(job: ProcessingJob): Promise<void> {
       const audioResult = await processAudioStage(fresh);
       if (audioResult !== 'ok') return;
 
-      await db.setJobCooldownUntil(fresh.id, null);
-      await db.setJobStatus(fresh.id, 'completed');
-      await setProgress({
-        jobId: fresh.id,
-        stage: 'audio',
-        current: fresh.total,
-        total: fresh.total,
-        message: 'Completed audio synthesis.',
-      });
+      await finishJob(fresh.id, 'audio', fresh.total, 'Completed audio synthesis.');
     }
   } catch (e) {
     const msg = e instanceof Error ? e.message : String(e);
     await db.setJobError(job.id, msg);
-    await db.setJobCooldownUntil(job.id, null);
+    await setCooldownUntil(job.id, null);
+    publishJobEvent({ type: 'status', jobId: job.id, status: 'failed', error: msg });
+    notifyJobWebhooks('job.failed', job.id);
+  } finally {
+    stopHeartbeat();
+    // Saved chunks are read again by whichever run picks up an unfinished job,
+    // including a new owner on this host after our lease lapsed
+    const latest = await db.getJob(job.id);
+    if (!latest || TERMINAL_JOB_STATUSES.includes(latest.status)) {
+      await clearChunkAudio(job.id);
+    }
   }
 }
 
+/**
+ * Whether the stage a job would run in has a free slot. Checked while picking
+ * the job to claim, so a job waiting for a slot doesn't hold up lower-priority
+ * jobs in the other stage.
+ */
+export function canClaimJob(
+  job: Pick<ProcessingJob, 'stage'>,
+  runningJobs: Array<Pick<ProcessingJob, 'stage'>>,
+  limits: { maxConcurrentTextJobs: number; maxConcurrentAudioJobs: number }
+): boolean {
+  const running = runningJobs.filter(j => j.stage === job.stage).length;
+  return job.stage === 'summary'
+    ? running < limits.maxConcurrentTextJobs
+    : running < limits.maxConcurrentAudioJobs;
+}
+
 async function tick(): Promise<void> {
+  if (runnerStopping) return;
   const db = await getDatabase();
-  const runningJobs = await db.getAllRunningJobs();
-
-  const textJobCount = runningJobs.filter(j => j.stage === 'summary').length;
-  const audioJobCount = runningJobs.filter(j => j.stage === 'audio').length;
 
-  const canClaimTextJob = textJobCount < MAX_CONCURRENT_TEXT_JOBS;
-  const canClaimAudioJob = audioJobCount < MAX_CONCURRENT_AUDIO_JOBS;
+  const resumedIds = await db.resumeDueJobs(new Date().toISOString());
+  for (const jobId of resumedIds) {
+    publishJobEvent({ type: 'status', jobId, status: 'queued' });
+  }
 
-  if (!canClaimTextJob && !canClaimAudioJob) {
+  const runningJobs = await db.getAllRunningJobs();
+  const limits = await getRuntimeSettings();
+  // Nothing can start while both stages are full
+  if (
+    !canClaimJob({ stage: 'summary' }, runningJobs, limits) &&
+    !canClaimJob({ stage: 'audio' }, runningJobs, limits)
+  ) {
     return;
   }
 
-  const claimed = await db.claimNextQueuedJob();
+  // A job re-queued while an earlier run here winds down waits for that run to end
+  const claimed = await db.claimNextQueuedJob(
+    lease,
+    job => !activeJobs.has(job.id) && isScheduleOpen(job) && canClaimJob(job, runningJobs, limits)
+  );
   if (!claimed) return;
 
   const job = claimed.job;
-  const shouldProcessJob =
-    (job.stage === 'summary' && canClaimTextJob) || (job.stage === 'audio' && canClaimAudioJob);
-
-  if (!shouldProcessJob) {
-    await db.setJobStatus(job.id, 'queued');
-    return;
-  }
+  publishJobEvent({ type: 'status', jobId: job.id, status: 'running' });
 
   const jobPromise = processJob(job).finally(() => {
     activeJobs.delete(job.id);
@@ -388,12 +845,10 @@ async function tick(): Promise<void> {
   activeJobs.set(job.id, jobPromise);
 }
 
-const STALLED_JOB_THRESHOLD_MS = 5 * 60 * 1000; // 5 minutes
-
-async function checkStalledJobs(): Promise<void> {
+async function checkStalledJobs(ownJobs = false): Promise<void> {
   try {
     const db = await getDatabase();
-    const recoveredCount = await db.recoverStalledJobs(STALLED_JOB_THRESHOLD_MS);
+    const recoveredCount = await db.recoverStalledJobs(ownJobs ? workerId : undefined);
     if (recoveredCount > 0) {
       console.log(`Recovered ${recoveredCount} stalled jobs.`);
     }
@@ -402,21 +857,78 @@ async function checkStalledJobs(): Promise<void> {
   }
 }
 
-export function startJobRunner(): void {
+/**
+ * Start polling for queued jobs in this process.
+ *
+ * API routes call this on every request. Set `JOB_RUNNER_EMBEDDED=false` when a
+ * standalone worker (`pnpm worker`) processes jobs instead; the worker passes
+ * `standalone: true` to start regardless.
+ */
+export function startJobRunner(options: { standalone?: boolean } = {}): void {
+  if (!options.standalone && process.env.JOB_RUNNER_EMBEDDED === 'false') return;
   if (runnerStarted) return;
   runnerStarted = true;
 
-  // Initial recovery of stalled jobs
-  void checkStalledJobs();
+  // Nothing can be running under this worker ID yet, so reclaim those jobs too
+  void checkStalledJobs(true);
 
-  // Periodic stalled job check
-  setInterval(() => {
-    void checkStalledJobs();
-  }, 60000);
+  // Periodic check for jobs whose worker stopped sending heartbeats
+  runnerTimers.push(
+    setInterval(() => {
+      void checkStalledJobs();
+    }, SERVER_JOB_HEARTBEAT_MS)
+  );
 
-  setInterval(() => {
-    void tick();
-  }, 1000);
+  runnerTimers.push(
+    setInterval(() => {
+      void tick();
+    }, 1000)
+  );
 
   void tick();
 }
+
+/**
+ * Stop claiming jobs and pause the ones in flight so another worker (or this
+ * one after a restart) picks them up right away. Waits up to `timeoutMs` for
+ * the stage loops to notice the pause and for webhook deliveries to finish.
+ * Returns the number of jobs paused.
+ */
+export async function stopJobRunner(timeoutMs: number): Promise<number> {
+  const deadline = Date.now() + timeoutMs;
+  runnerStopping = true;
+  for (const timer of runnerTimers.splice(0)) {
+    clearInterval(timer);
+  }
+
+  const db = await getDatabase();
+  const now = new Date().toISOString();
+  let pausedCount = 0;
+
+  for (const jobId of activeJobs.keys()) {
+    const job = await db.getJob(jobId);
+    if (!job || job.status !== 'running' || job.workerId !== workerId) continue;
+
+    await db.pauseJob(jobId);
+    // Due immediately, so the next tick on any worker re-queues it
+    await db.setJobResumeAt(jobId, now);
+    await setCooldownUntil(jobId, null);
+    await db.setJobProgress(
+      jobId,
+      job.stage,
+      job.current,
+      job.total,
+      `Paused while worker ${workerId} shut down.`
+    );
+    publishJobEvent({ type: 'status', jobId, status: 'paused' });
+    pausedCount++;
+  }
+
+  await Promise.race([Promise.allSettled(activeJobs.values()), sleep(timeoutMs)]);
+
+  const undelivered = await waitForWebhookDeliveries(Math.max(0, deadline - Date.now()));
+  if (undelivered > 0) {
+    console.warn(`Stopped with ${undelivered} webhook notification(s) still being delivered.`);
+  }
+  return pausedCount;
+}
@@ -0,0 +1,74 @@
+/**
+ * Shared watchers on job rows, for jobs whose events are published in another
+ * process (a standalone worker or another replica) and so never reach this
+ * one's event bus.
+ *
+ * Every SSE connection for a job shares one watcher: the first subscriber
+ * starts it and the last one stops it, so open tabs don't each poll the
+ * database. While the job runs in this process the watcher skips the query,
+ * since the runner publishes its events here.
+ */
+
+import { getDatabase } from '@/lib/db/adapter';
+import type { ProcessingJob } from '@/lib/db/adapter';
+import { getJobMetrics, type JobMetrics } from './jobMetrics';
+import { isProcessingJob } from './jobRunner';
+
+const JOB_WATCH_INTERVAL_MS = 2000;
+
+export type JobSnapshot = ProcessingJob & { metrics: JobMetrics | null };
+
+interface JobWatcher {
+  timer: ReturnType<typeof setInterval>;
+  listeners: Set<(snapshot: JobSnapshot) => void>;
+  lastUpdatedAt: string;
+}
+
+const watchers = new Map<string, JobWatcher>();
+
+async function checkJob(jobId: string, watcher: JobWatcher): Promise<void> {
+  if (isProcessingJob(jobId)) return;
+
+  try {
+    const db = await getDatabase();
+    const latest = await db.getJob(jobId);
+    if (!latest || latest.updatedAt === watcher.lastUpdatedAt) return;
+    watcher.lastUpdatedAt = latest.updatedAt;
+
+    const snapshot = { ...latest, metrics: await getJobMetrics(latest) };
+    for (const listener of watcher.listeners) listener(snapshot);
+  } catch (error) {
+    console.error(`Failed to watch job ${jobId}:`, error);
+  }
+}
+
+/**
+ * Call `listener` with a fresh snapshot whenever the job's row changes after
+ * `since` (the `updatedAt` the caller last saw). Returns an unsubscribe function.
+ */
+export function watchJob(
+  jobId: string,
+  since: string,
+  listener: (snapshot: JobSnapshot) => void
+): () => void {
+  let watcher = watchers.get(jobId);
+  if (!watcher) {
+    const created: JobWatcher = {
+      timer: setInterval(() => void checkJob(jobId, created), JOB_WATCH_INTERVAL_MS),
+      listeners: new Set(),
+      lastUpdatedAt: since,
+    };
+    watcher = created;
+    watchers.set(jobId, watcher);
+  }
+  watcher.listeners.add(listener);
+
+  const current = watcher;
+  return () => {
+    current.listeners.delete(listener);
+    if (current.listeners.size === 0 && watchers.get(jobId) === current) {
+      clearInterval(current.timer);
+      watchers.delete(jobId);
+    }
+  };
+}
@@ -0,0 +1,150 @@
+/**
+ * Client for OpenAI-compatible chat completion endpoints (Ollama, llama.cpp's
+ * server, vLLM and most self-hosted gateways) used for summary generation.
+ */
+
+import { NO_API_CALL_CONTEXT, startApiCall, type ApiCallContext } from './apiUsage';
+import { withRetry } from './gemini';
+
+const REQUEST_TIMEOUT_MS = 120000;
+
+// Local models don't always honour response_format, so ask for JSON explicitly
+const JSON_INSTRUCTION =
+  'Respond with a JSON object of the form {"summary": "<the log paragraph>"}.';
+
+interface ChatCompletionResponse {
+  choices?: Array<{
+    message?: { content?: string | null };
+    finish_reason?: string | null;
+  }>;
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+}
+
+/** A non-2xx reply from the endpoint. */
+class OpenAiCompatibleHttpError extends Error {
+  constructor(
+    public readonly status: number,
+    detail: string
+  ) {
+    super(`OpenAI-compatible request failed with ${status}: ${detail.substring(0, 200)}`);
+    this.name = 'OpenAiCompatibleHttpError';
+  }
+}
+
+/**
+ * Rate limits, server errors and unreachable servers are worth retrying; other
+ * HTTP errors and unusable replies would fail the same way again.
+ */
+function isRetryableRequestError(error: unknown): boolean {
+  if (error instanceof OpenAiCompatibleHttpError) {
+    return error.status >= 500 || error.status === 429;
+  }
+  // fetch rejects with a TypeError when the connection fails
+  return error instanceof TypeError;
+}
+
+/**
+ * `OPENAI_COMPATIBLE_API_KEY` is optional; local servers usually accept any key.
+ */
+function getAuthHeaders(): Record<string, string> {
+  const key = process.env.OPENAI_COMPATIBLE_API_KEY;
+  return key ? { Authorization: `Bearer ${key}` } : {};
+}
+
+/**
+ * Pull the summary out of a model reply. Accepts `{"summary": ...}`, optionally
+ * wrapped in a Markdown code fence, or a plain paragraph.
+ */
+export function parseSummaryContent(content: string): string {
+  const text = content
+    .trim()
+    .replace(/^```(?:json)?\s*/i, '')
+    .replace(/\s*```$/, '')
+    .trim();
+
+  if (!text.startsWith('{')) return text;
+
+  let parsed: { summary?: unknown };
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error(`Failed to parse model response: ${text.substring(0, 100)}...`);
+  }
+
+  if (typeof parsed.summary !== 'string' || !parsed.summary.trim()) {
+    throw new Error('Model returned valid JSON but missing "summary" field.');
+  }
+  return parsed.summary.trim();
+}
+
+/**
+ * Generate a field-log summary through `POST {baseUrl}/chat/completions`.
+ * HTTP 429 and 5xx responses and connection failures are retried with the same
+ * backoff as Gemini. The call is logged against `context` with the token usage
+ * the server reports; it isn't counted in the Gemini quota ledger.
+ */
+export async function generateOpenAiCompatibleSummary(params: {
+  baseUrl: string;
+  model: string;
+  systemPrompt: string;
+  pokemonContext: string;
+  context?: ApiCallContext;
+}): Promise<string> {
+  const url = `${params.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+  const call = startApiCall(
+    'summary',
+    'openai-compatible',
+    params.model,
+    params.context ?? NO_API_CALL_CONTEXT
+  );
+
+  const request = withRetry(
+    async () => {
+      call.attempts++;
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
+        body: JSON.stringify({
+          model: params.model,
+          temperature: 0.85,
+          response_format: { type: 'json_object' },
+          messages: [
+            { role: 'system', content: `${params.systemPrompt}\n\n${JSON_INSTRUCTION}` },
+            { role: 'user', content: `POKEMON DATA:\n${params.pokemonContext}` },
+          ],
+        }),
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+
+      if (!response.ok) {
+        const detail = await response.text().catch(() => '');
+        throw new OpenAiCompatibleHttpError(response.status, detail);
+      }
+
+      const data = (await response.json()) as ChatCompletionResponse;
+      if (data.usage) {
+        call.addTokens(data.usage.prompt_tokens ?? 0, data.usage.completion_tokens ?? 0);
+      }
+      const choice = data.choices?.[0];
+      const content = choice?.message?.content;
+      if (!content) {
+        throw new Error(
+          `OpenAI-compatible endpoint returned no content (finish reason: ${choice?.finish_reason ?? 'unknown'})`
+        );
+      }
+
+      return parseSummaryContent(content);
+    },
+    undefined,
+    isRetryableRequestError
+  );
+
+  try {
+    const summary = await request;
+    await call.finish();
+    return summary;
+  } catch (error) {
+    await call.finish(error);
+    throw error;
+  }
+}
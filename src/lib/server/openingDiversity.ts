@@ -0,0 +1,192 @@
+/**
+ * Keeps summary openings from repeating across the library.
+ *
+ * The creative sentence after "Pokémon trainer log [LOG_ID]." is extracted from
+ * each stored summary, and near-duplicates are grouped by character-trigram
+ * similarity with the Pokémon's own name masked out, so "Today I witnessed a
+ * Pidgey…" and "Today I witnessed a Rattata…" count as the same opener. The most
+ * repeated and most recent openings are fed into the summary prompt as ones to
+ * avoid, and the groups back the Admin report.
+ */
+
+import { getDatabase, type StoredSummary } from '@/lib/db/adapter';
+import { getRuntimeSettings } from './settings';
+
+// Openings at least this similar are treated as the same opener
+const SIMILARITY_THRESHOLD = 0.7;
+
+// Stock phrasing lives at the start, so the lead words are also compared alone
+const LEAD_WORDS = 4;
+
+type OpeningSource = Pick<StoredSummary, 'id' | 'name' | 'summary' | 'updatedAt'>;
+
+export interface OpeningGroup {
+  opening: string; // most recent wording
+  count: number;
+  variants: string[]; // other distinct wordings in the group
+  pokemon: { id: number; name: string }[];
+  lastUsedAt: string;
+}
+
+export interface OpeningReport {
+  totalSummaries: number;
+  withOpening: number; // summaries whose opening could be extracted
+  distinctOpenings: number; // groups, counting one-offs
+  repeated: OpeningGroup[]; // groups used more than once, most used first
+  generatedAt: string;
+}
+
+/**
+ * The creative opening sentence, or null when the summary doesn't start with
+ * the trainer log line or has nothing after it.
+ */
+export function extractOpening(summary: string): string | null {
+  const rest = summary.trimStart().match(/^Pok[eé]mon trainer log \d+\.\s*([\s\S]*)$/i)?.[1];
+  if (!rest) return null;
+  const sentence = rest.match(/^[\s\S]+?[.!?]["'”’)]*(?=\s|$)/)?.[0] ?? rest;
+  return sentence.replace(/\s+/g, ' ').trim() || null;
+}
+
+/** Lowercased words only, with the Pokémon's name replaced by "pokemon". */
+export function normalizeOpening(opening: string, name: string): string {
+  const text = opening
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '');
+  const baseName = (name.split('-')[0] || name).toLowerCase();
+  return text
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(word => (word === baseName ? 'pokemon' : word))
+    .join(' ');
+}
+
+function trigrams(text: string): Map<string, number> {
+  const padded = ` ${text} `;
+  const counts = new Map<string, number>();
+  for (let i = 0; i + 3 <= padded.length; i++) {
+    const gram = padded.slice(i, i + 3);
+    counts.set(gram, (counts.get(gram) ?? 0) + 1);
+  }
+  return counts;
+}
+
+function dice(a: Map<string, number>, b: Map<string, number>): number {
+  let shared = 0;
+  let total = 0;
+  for (const [gram, count] of a) {
+    shared += Math.min(count, b.get(gram) ?? 0);
+    total += count;
+  }
+  for (const count of b.values()) total += count;
+  return total === 0 ? 0 : (2 * shared) / total;
+}
+
+interface OpeningKeys {
+  full: Map<string, number>;
+  lead: Map<string, number>;
+}
+
+function openingKeys(normalized: string): OpeningKeys {
+  const leadWords = normalized.split(' ').slice(0, LEAD_WORDS).join(' ');
+  return { full: trigrams(normalized), lead: trigrams(leadWords) };
+}
+
+function similarity(a: OpeningKeys, b: OpeningKeys): number {
+  return Math.max(dice(a.full, b.full), dice(a.lead, b.lead));
+}
+
+/**
+ * Similarity of two normalized openings from 0 to 1: the higher of the whole
+ * sentence and its first few words, by trigram Dice coefficient.
+ */
+export function openingSimilarity(a: string, b: string): number {
+  return similarity(openingKeys(a), openingKeys(b));
+}
+
+/**
+ * Group near-duplicate openings. Summaries are taken newest first, so each
+ * group is represented by its most recent wording.
+ */
+export function groupOpenings(summaries: OpeningSource[]): OpeningGroup[] {
+  const groups: { group: OpeningGroup; keys: OpeningKeys }[] = [];
+  const newestFirst = [...summaries].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+
+  for (const entry of newestFirst) {
+    const opening = extractOpening(entry.summary);
+    if (!opening) continue;
+
+    const keys = openingKeys(normalizeOpening(opening, entry.name));
+    const match = groups.find(g => similarity(keys, g.keys) >= SIMILARITY_THRESHOLD);
+
+    if (match) {
+      const { group } = match;
+      group.count++;
+      group.pokemon.push({ id: entry.id, name: entry.name });
+      if (opening !== group.opening && !group.variants.includes(opening)) {
+        group.variants.push(opening);
+      }
+    } else {
+      groups.push({
+        group: {
+          opening,
+          count: 1,
+          variants: [],
+          pokemon: [{ id: entry.id, name: entry.name }],
+          lastUsedAt: entry.updatedAt,
+        },
+        keys,
+      });
+    }
+  }
+
+  return groups
+    .map(g => g.group)
+    .sort((a, b) => b.count - a.count || b.lastUsedAt.localeCompare(a.lastUsedAt));
+}
+
+export function buildOpeningReport(summaries: OpeningSource[]): OpeningReport {
+  const groups = groupOpenings(summaries);
+  return {
+    totalSummaries: summaries.length,
+    withOpening: groups.reduce((sum, g) => sum + g.count, 0),
+    distinctOpenings: groups.length,
+    repeated: groups.filter(g => g.count > 1),
+    generatedAt: new Date().toISOString(),
+  };
+}
+
+export async function getOpeningReport(): Promise<OpeningReport> {
+  const db = await getDatabase();
+  return buildOpeningReport(await db.getAllSummaries());
+}
+
+/**
+ * Up to `limit` openings to steer away from: repeated ones first (most used
+ * first), then the most recent one-offs.
+ */
+export function selectOpeningsToAvoid(groups: OpeningGroup[], limit: number): string[] {
+  const repeated = groups.filter(g => g.count > 1);
+  const recent = groups
+    .filter(g => g.count === 1)
+    .sort((a, b) => b.lastUsedAt.localeCompare(a.lastUsedAt));
+  return [...repeated, ...recent].slice(0, limit).map(g => g.opening);
+}
+
+/**
+ * Openings for the summary prompt to avoid, per the `avoidOpeningsCount` setting.
+ */
+export async function getOpeningsToAvoid(): Promise<string[]> {
+  const { avoidOpeningsCount } = await getRuntimeSettings();
+  if (avoidOpeningsCount === 0) return [];
+
+  const db = await getDatabase();
+  return selectOpeningsToAvoid(groupOpenings(await db.getAllSummaries()), avoidOpeningsCount);
+}
+
+/** Prompt section listing openings not to reuse. */
+export function describeOpeningsToAvoid(openings: string[]): string {
+  const list = openings.map(o => `- ${o}`).join('\n');
+  return `These openings are already used in other field logs. Do not reuse them or write a close variation:\n${list}`;
+}
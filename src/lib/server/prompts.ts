@@ -14,3 +14,12 @@ export async function getActivePrompt(type: 'summary' | 'tts'): Promise<string>
   if (stored?.content) return stored.content;
   return type === 'summary' ? DEFAULT_SUMMARY_PROMPT : DEFAULT_TTS_PROMPT;
 }
+
+/**
+ * When the active prompt last changed, or null when the built-in default is in use.
+ */
+export async function getActivePromptUpdatedAt(type: 'summary' | 'tts'): Promise<string | null> {
+  const db = await getDatabase();
+  const stored = await db.getPrompt(type);
+  return stored?.content ? stored.updatedAt : null;
+}
@@ -0,0 +1,189 @@
+/**
+ * Managed pronunciation lexicon for Pokémon, move and place names.
+ *
+ * Each entry maps a name to a phonetic spelling in the style the summary prompt
+ * asks for ("GARE-uh-dos"). Entries for the names a Pokémon's log is likely to
+ * use are listed in its summary prompt, and every entry is applied to the text
+ * sent to TTS, so a name sounds the same in every log. The lexicon can be
+ * seeded from the "Name (PHO-NET-IC)" hints in stored summaries.
+ */
+
+import {
+  getDatabase,
+  type CachedPokemon,
+  type Pronunciation,
+  type PronunciationKind,
+  type StoredSummary,
+} from '@/lib/db/adapter';
+import type { PokemonDetails } from '@/types';
+import { isPhoneticSpelling } from './summaryValidator';
+import { findPhoneticHints, stripMarkdown } from './ttsText';
+
+const MAX_TERM_LENGTH = 60;
+
+export const PRONUNCIATION_KINDS: PronunciationKind[] = ['pokemon', 'move', 'region', 'other'];
+
+export type PronunciationFields = Partial<Pick<Pronunciation, 'term' | 'kind' | 'phonetic'>>;
+
+export interface SeedResult {
+  found: number; // distinct names with a phonetic hint
+  added: number; // new entries; names already listed are left as they are
+}
+
+interface KnownNames {
+  pokemon: Set<string>;
+  regions: Set<string>;
+  moves: Set<string>;
+}
+
+export function isPronunciationKind(value: unknown): value is PronunciationKind {
+  return typeof value === 'string' && PRONUNCIATION_KINDS.includes(value as PronunciationKind);
+}
+
+/**
+ * Validate the editable fields of an entry. Only fields present in `body` are
+ * returned.
+ */
+export function validatePronunciationFields(body: Record<string, unknown>): {
+  fields: PronunciationFields;
+  error: string | null;
+} {
+  const fields: PronunciationFields = {};
+
+  if (body.term !== undefined) {
+    const term = typeof body.term === 'string' ? body.term.trim().replace(/\s+/g, ' ') : '';
+    if (!term || term.length > MAX_TERM_LENGTH) {
+      return { fields, error: `term must be a name of 1 to ${MAX_TERM_LENGTH} characters` };
+    }
+    fields.term = term;
+  }
+
+  if (body.kind !== undefined) {
+    if (!isPronunciationKind(body.kind)) {
+      return { fields, error: `kind must be one of: ${PRONUNCIATION_KINDS.join(', ')}` };
+    }
+    fields.kind = body.kind;
+  }
+
+  if (body.phonetic !== undefined) {
+    const phonetic = typeof body.phonetic === 'string' ? body.phonetic.trim() : '';
+    if (!isPhoneticSpelling(phonetic)) {
+      return {
+        fields,
+        error: 'phonetic must be hyphenated syllables with the stressed one in capitals',
+      };
+    }
+    fields.phonetic = phonetic;
+  }
+
+  return { fields, error: null };
+}
+
+/** Lowercased letters and digits only, so "Mr. Mime" and "mr-mime" match. */
+function nameKey(name: string): string {
+  return name
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]/g, '');
+}
+
+function knownNames(cached: CachedPokemon[]): KnownNames {
+  return {
+    pokemon: new Set(
+      cached.flatMap(p => [p.name, p.displayName, p.name.split('-')[0] ?? p.name]).map(nameKey)
+    ),
+    regions: new Set(cached.map(p => nameKey(p.region))),
+    moves: new Set(cached.flatMap(p => p.moveNames).map(nameKey)),
+  };
+}
+
+function classifyTerm(term: string, known: KnownNames): PronunciationKind {
+  const key = nameKey(term);
+  if (known.pokemon.has(key)) return 'pokemon';
+  if (known.regions.has(key)) return 'region';
+  if (known.moves.has(key)) return 'move';
+  return 'other';
+}
+
+/**
+ * The phonetic hints in stored summaries, one per name. When summaries spell a
+ * name differently, the most used spelling wins, then the most recent.
+ */
+export function collectPronunciations(
+  summaries: Pick<StoredSummary, 'summary' | 'updatedAt'>[]
+): Array<Pick<Pronunciation, 'term' | 'phonetic'>> {
+  const byName = new Map<string, { term: string; spellings: Map<string, number> }>();
+  const newestFirst = [...summaries].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+
+  for (const { summary } of newestFirst) {
+    for (const hint of findPhoneticHints(stripMarkdown(summary))) {
+      const term = hint.name.replace(/\s+/g, ' ');
+      const key = nameKey(term);
+      if (!key) continue;
+
+      const entry = byName.get(key) ?? { term, spellings: new Map<string, number>() };
+      entry.spellings.set(hint.phonetic, (entry.spellings.get(hint.phonetic) ?? 0) + 1);
+      byName.set(key, entry);
+    }
+  }
+
+  return Array.from(byName.values(), ({ term, spellings }) => {
+    // Map order is first use, i.e. newest first, so the sort keeps it for ties
+    const [phonetic] = [...spellings].sort((a, b) => b[1] - a[1])[0] as [string, number];
+    return { term, phonetic };
+  });
+}
+
+/**
+ * Add the hints from every stored summary to the lexicon. Entries that already
+ * exist, including hand-edited ones, are kept.
+ */
+export async function seedPronunciationsFromSummaries(): Promise<SeedResult> {
+  const db = await getDatabase();
+  const [summaries, cached] = await Promise.all([db.getAllSummaries(), db.getAllCachedPokemon()]);
+  const found = collectPronunciations(summaries);
+  const known = knownNames(cached);
+
+  const added = await db.addPronunciations(
+    found.map(({ term, phonetic }) => ({
+      term,
+      phonetic,
+      kind: classifyTerm(term, known),
+      source: 'summary',
+    }))
+  );
+  return { found: found.length, added };
+}
+
+export async function getPronunciationLexicon(): Promise<Pronunciation[]> {
+  const db = await getDatabase();
+  return db.getAllPronunciations();
+}
+
+/**
+ * Entries for the names a Pokémon's log is likely to use: its own name, its
+ * region and its moves.
+ */
+export function selectPronunciations(
+  lexicon: Pronunciation[],
+  details: Pick<PokemonDetails, 'name' | 'displayName' | 'allMoveNames'>,
+  region: string
+): Pronunciation[] {
+  const keys = new Set(
+    [
+      details.name,
+      details.displayName,
+      details.name.split('-')[0] ?? details.name,
+      region,
+      ...details.allMoveNames,
+    ].map(nameKey)
+  );
+  return lexicon.filter(entry => keys.has(nameKey(entry.term)));
+}
+
+/** Prompt section fixing the phonetic spelling of listed names. */
+export function describePronunciations(entries: Pronunciation[]): string {
+  const list = entries.map(e => `- ${e.term} (${e.phonetic})`).join('\n');
+  return `When you give a phonetic pronunciation for one of these names, use exactly this spelling:\n${list}`;
+}
@@ -0,0 +1,164 @@
+/**
+ * Daily API quota ledger.
+ *
+ * Every Gemini request is counted per model per quota day so the runner can stop
+ * before hitting RESOURCE_EXHAUSTED instead of burning retries against it.
+ */
+
+import { getDatabase } from '@/lib/db/adapter';
+import { SERVER_QUOTA_TIMEZONE } from './config';
+import { getRuntimeSettings } from './settings';
+
+export interface ModelQuota {
+  model: string;
+  kind: 'summary' | 'tts';
+  used: number;
+  limit: number | null; // null = no daily limit enforced
+  remaining: number | null;
+}
+
+export interface QuotaStatus {
+  day: string;
+  resetsAt: string;
+  models: ModelQuota[];
+}
+
+/**
+ * Thrown when a model's daily budget is spent. Callers should wait for
+ * `resetsAt` rather than retry.
+ */
+export class QuotaExhaustedError extends Error {
+  constructor(
+    public readonly model: string,
+    public readonly resetsAt: string
+  ) {
+    super(`Daily quota exhausted for ${model}. Resets at ${resetsAt}.`);
+    this.name = 'QuotaExhaustedError';
+  }
+}
+
+/**
+ * Models to report and their daily limits, from the current settings.
+ */
+async function getTrackedModels(): Promise<
+  Array<{ model: string; kind: ModelQuota['kind']; limit: number | null }>
+> {
+  const settings = await getRuntimeSettings();
+  return [
+    { model: settings.summaryModel, kind: 'summary', limit: null },
+    { model: settings.ttsModel, kind: 'tts', limit: settings.ttsDailyLimit },
+    { model: settings.ttsFallbackModel, kind: 'tts', limit: settings.ttsFallbackDailyLimit },
+  ];
+}
+
+async function getDailyLimit(model: string): Promise<number | null> {
+  const tracked = await getTrackedModels();
+  return tracked.find(m => m.model === model)?.limit ?? null;
+}
+
+function getZonedParts(date: Date): { year: number; month: number; day: number; hour: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: SERVER_QUOTA_TIMEZONE,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+  const get = (type: string) => Number(parts.find(p => p.type === type)?.value);
+  return { year: get('year'), month: get('month'), day: get('day'), hour: get('hour') };
+}
+
+/**
+ * Quota day (YYYY-MM-DD) in the quota reset timezone.
+ */
+export function getQuotaDay(date: Date = new Date()): string {
+  const { year, month, day } = getZonedParts(date);
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * Next midnight in the quota reset timezone.
+ */
+export function getNextQuotaReset(date: Date = new Date()): Date {
+  const { year, month, day } = getZonedParts(date);
+  // Pacific midnight is 07:00 or 08:00 UTC depending on daylight saving
+  for (const utcHour of [7, 8]) {
+    const candidate = new Date(Date.UTC(year, month - 1, day + 1, utcHour));
+    if (getZonedParts(candidate).hour === 0) return candidate;
+  }
+  return new Date(Date.UTC(year, month - 1, day + 1, 8));
+}
+
+/**
+ * Count one request against a model's daily budget.
+ */
+export async function recordApiCall(model: string): Promise<void> {
+  const db = await getDatabase();
+  await db.recordQuotaUsage(model, getQuotaDay());
+}
+
+/**
+ * Mark a model as spent for the day after the API reported daily exhaustion,
+ * even if our own count disagrees (e.g. calls made outside this app).
+ */
+export async function markQuotaExhausted(model: string): Promise<void> {
+  const limit = await getDailyLimit(model);
+  if (limit === null) return;
+  const db = await getDatabase();
+  await db.markQuotaExhausted(model, getQuotaDay(), limit);
+}
+
+export async function hasQuotaRemaining(model: string): Promise<boolean> {
+  const limit = await getDailyLimit(model);
+  if (limit === null) return true;
+  const db = await getDatabase();
+  const usage = await db.getQuotaUsage(getQuotaDay());
+  const used = usage.find(u => u.model === model)?.requestCount ?? 0;
+  return used < limit;
+}
+
+/**
+ * True when every TTS model (primary and fallback) has spent its daily budget.
+ */
+export async function isTtsQuotaExhausted(): Promise<boolean> {
+  const settings = await getRuntimeSettings();
+  const [primary, fallback] = await Promise.all([
+    hasQuotaRemaining(settings.ttsModel),
+    hasQuotaRemaining(settings.ttsFallbackModel),
+  ]);
+  return !primary && !fallback;
+}
+
+export async function getQuotaStatus(): Promise<QuotaStatus> {
+  const db = await getDatabase();
+  const day = getQuotaDay();
+  const usage = await db.getQuotaUsage(day);
+
+  // Include untracked models that were called today (e.g. after a model change)
+  const models = await getTrackedModels();
+  for (const u of usage) {
+    if (!models.some(m => m.model === u.model)) {
+      models.push({
+        model: u.model,
+        kind: u.model.includes('tts') ? 'tts' : 'summary',
+        limit: null,
+      });
+    }
+  }
+
+  return {
+    day,
+    resetsAt: getNextQuotaReset().toISOString(),
+    models: models.map(({ model, kind, limit }) => {
+      const used = usage.find(u => u.model === model)?.requestCount ?? 0;
+      return {
+        model,
+        kind,
+        used,
+        limit,
+        remaining: limit === null ? null : Math.max(0, limit - used),
+      };
+    }),
+  };
+}
@@ -0,0 +1,30 @@
+/**
+ * Regenerate policy checks shared by the job runner and the job estimator.
+ */
+
+import type { AudioLogMetadata, ProcessingJob, StoredSummary } from '@/lib/db/adapter';
+import { getActivePromptUpdatedAt } from './prompts';
+
+/**
+ * Whether existing output can be kept under the job's regenerate policy. Output
+ * is outdated when the active prompt changed after it was generated; audio is
+ * also outdated when its summary is newer or it used a different voice.
+ */
+export async function isUpToDate(
+  job: Pick<ProcessingJob, 'regenerate' | 'voice'>,
+  existing: StoredSummary | AudioLogMetadata | null,
+  summaryUpdatedAt: string | null = null
+): Promise<boolean> {
+  if (job.regenerate === 'all' || !existing) return false;
+  if (job.regenerate === 'missing') return true;
+
+  const isAudio = 'voice' in existing;
+  const promptUpdatedAt = await getActivePromptUpdatedAt(isAudio ? 'tts' : 'summary');
+  if (promptUpdatedAt && existing.updatedAt < promptUpdatedAt) return false;
+
+  if (isAudio) {
+    if (existing.voice !== job.voice) return false;
+    if (summaryUpdatedAt && existing.updatedAt < summaryUpdatedAt) return false;
+  }
+  return true;
+}
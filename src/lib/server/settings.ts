@@ -0,0 +1,269 @@
+/**
+ * Server-side runtime settings with database override support: the typed
+ * schema, defaults and validation for the settings editable in the Admin tab.
+ */
+
+import { getDatabase, type SummaryProviderId, type TtsProviderId } from '@/lib/db/adapter';
+import {
+  SERVER_AVOID_OPENINGS_COUNT,
+  SERVER_MAX_CONCURRENT_AUDIO_JOBS,
+  SERVER_MAX_CONCURRENT_TEXT_JOBS,
+  SERVER_MAX_RETRIES,
+  SERVER_MAX_SUMMARY_ATTEMPTS,
+  SERVER_OPENAI_BASE_URL,
+  SERVER_OPENAI_MODEL,
+  SERVER_SUMMARY_COOLDOWN_MS,
+  SERVER_SUMMARY_MODEL,
+  SERVER_SUMMARY_PROVIDER,
+  SERVER_TTS_COOLDOWN_MS,
+  SERVER_TTS_DAILY_LIMIT,
+  SERVER_TTS_FALLBACK_DAILY_LIMIT,
+  SERVER_TTS_FALLBACK_MODEL,
+  SERVER_TTS_MODEL,
+  SERVER_TTS_MP3_BITRATE,
+  SERVER_TTS_PROVIDER,
+} from './config';
+
+/** Settings the job runner and Gemini client read at runtime. */
+export interface RuntimeSettings {
+  summaryCooldownMs: number;
+  ttsCooldownMs: number;
+  maxConcurrentTextJobs: number;
+  maxConcurrentAudioJobs: number;
+  maxRetries: number;
+  maxSummaryAttempts: number;
+  avoidOpeningsCount: number;
+  mp3Bitrate: number;
+  summaryProvider: SummaryProviderId;
+  summaryModel: string;
+  openaiBaseUrl: string;
+  openaiModel: string;
+  ttsProvider: TtsProviderId;
+  ttsModel: string;
+  ttsFallbackModel: string;
+  ttsDailyLimit: number;
+  ttsFallbackDailyLimit: number;
+}
+
+export type SettingKey = keyof RuntimeSettings;
+
+/** Describes how a setting is edited and validated. */
+export type SettingDefinition =
+  | {
+      type: 'integer';
+      label: string;
+      description: string;
+      min: number;
+      max: number;
+      options?: number[];
+    }
+  | {
+      type: 'string';
+      label: string;
+      description: string;
+      options?: string[];
+    };
+
+export const DEFAULT_SETTINGS: RuntimeSettings = {
+  summaryCooldownMs: SERVER_SUMMARY_COOLDOWN_MS,
+  ttsCooldownMs: SERVER_TTS_COOLDOWN_MS,
+  maxConcurrentTextJobs: SERVER_MAX_CONCURRENT_TEXT_JOBS,
+  maxConcurrentAudioJobs: SERVER_MAX_CONCURRENT_AUDIO_JOBS,
+  maxRetries: SERVER_MAX_RETRIES,
+  maxSummaryAttempts: SERVER_MAX_SUMMARY_ATTEMPTS,
+  avoidOpeningsCount: SERVER_AVOID_OPENINGS_COUNT,
+  mp3Bitrate: SERVER_TTS_MP3_BITRATE,
+  summaryProvider: SERVER_SUMMARY_PROVIDER,
+  summaryModel: SERVER_SUMMARY_MODEL,
+  openaiBaseUrl: SERVER_OPENAI_BASE_URL,
+  openaiModel: SERVER_OPENAI_MODEL,
+  ttsProvider: SERVER_TTS_PROVIDER,
+  ttsModel: SERVER_TTS_MODEL,
+  ttsFallbackModel: SERVER_TTS_FALLBACK_MODEL,
+  ttsDailyLimit: SERVER_TTS_DAILY_LIMIT,
+  ttsFallbackDailyLimit: SERVER_TTS_FALLBACK_DAILY_LIMIT,
+};
+
+export const SETTINGS_SCHEMA: Record<SettingKey, SettingDefinition> = {
+  summaryCooldownMs: {
+    type: 'integer',
+    label: 'Summary cooldown (ms)',
+    description: 'Pause between summary requests.',
+    min: 0,
+    max: 600000,
+  },
+  ttsCooldownMs: {
+    type: 'integer',
+    label: 'TTS cooldown (ms)',
+    description: 'Pause between TTS requests.',
+    min: 0,
+    max: 3600000,
+  },
+  maxConcurrentTextJobs: {
+    type: 'integer',
+    label: 'Concurrent summary jobs',
+    description: 'Jobs allowed in the summary stage at once.',
+    min: 1,
+    max: 20,
+  },
+  maxConcurrentAudioJobs: {
+    type: 'integer',
+    label: 'Concurrent audio jobs',
+    description: 'Jobs allowed in the audio stage at once.',
+    min: 1,
+    max: 10,
+  },
+  maxRetries: {
+    type: 'integer',
+    label: 'Attempts per Pokémon',
+    description: 'Tries per Pokémon and stage before it counts as failed.',
+    min: 1,
+    max: 10,
+  },
+  maxSummaryAttempts: {
+    type: 'integer',
+    label: 'Summary quality attempts',
+    description: 'Generations per summary while it fails the quality checks; the best is kept.',
+    min: 1,
+    max: 5,
+  },
+  avoidOpeningsCount: {
+    type: 'integer',
+    label: 'Openings to avoid',
+    description: 'Repeated and recent summary openings listed in the prompt as ones not to reuse.',
+    min: 0,
+    max: 30,
+  },
+  mp3Bitrate: {
+    type: 'integer',
+    label: 'MP3 bitrate (kbps)',
+    description: 'Bitrate for newly generated audio.',
+    min: 64,
+    max: 320,
+    options: [64, 96, 128, 160, 192, 256, 320],
+  },
+  summaryProvider: {
+    type: 'string',
+    label: 'Summary provider',
+    description: 'LLM backend for summaries unless a job picks its own.',
+    options: ['gemini', 'openai-compatible'],
+  },
+  summaryModel: {
+    type: 'string',
+    label: 'Summary model',
+    description: 'Gemini model used for summaries.',
+  },
+  openaiBaseUrl: {
+    type: 'string',
+    label: 'OpenAI-compatible base URL',
+    description: 'Chat completions endpoint root, e.g. a local Ollama or llama.cpp server.',
+  },
+  openaiModel: {
+    type: 'string',
+    label: 'OpenAI-compatible model',
+    description: 'Model name sent to the OpenAI-compatible endpoint.',
+  },
+  ttsProvider: {
+    type: 'string',
+    label: 'TTS provider',
+    description: 'Speech engine preselected for new jobs. espeak-ng runs locally without quota.',
+    options: ['gemini', 'espeak-ng'],
+  },
+  ttsModel: {
+    type: 'string',
+    label: 'TTS model',
+    description: 'Primary Gemini TTS model.',
+  },
+  ttsFallbackModel: {
+    type: 'string',
+    label: 'TTS fallback model',
+    description: 'Used when the primary TTS model fails or runs out of quota.',
+  },
+  ttsDailyLimit: {
+    type: 'integer',
+    label: 'TTS daily limit',
+    description: 'Requests per day allowed for the primary TTS model.',
+    min: 0,
+    max: 100000,
+  },
+  ttsFallbackDailyLimit: {
+    type: 'integer',
+    label: 'TTS fallback daily limit',
+    description: 'Requests per day allowed for the fallback TTS model.',
+    min: 0,
+    max: 100000,
+  },
+};
+
+export const isSettingKey = (key: string): key is SettingKey =>
+  Object.prototype.hasOwnProperty.call(SETTINGS_SCHEMA, key);
+
+/**
+ * Validate a partial settings update. Returns the accepted values and one
+ * error message per rejected key.
+ */
+export const validateSettings = (
+  input: Record<string, unknown>
+): { values: Partial<RuntimeSettings>; errors: string[] } => {
+  const values: Partial<RuntimeSettings> = {};
+  const errors: string[] = [];
+
+  for (const [key, value] of Object.entries(input)) {
+    if (!isSettingKey(key)) {
+      errors.push(`Unknown setting: ${key}`);
+      continue;
+    }
+
+    const definition = SETTINGS_SCHEMA[key];
+    if (definition.type === 'integer') {
+      if (typeof value !== 'number' || !Number.isInteger(value)) {
+        errors.push(`${definition.label} must be a whole number`);
+      } else if (value < definition.min || value > definition.max) {
+        errors.push(`${definition.label} must be between ${definition.min} and ${definition.max}`);
+      } else if (definition.options && !definition.options.includes(value)) {
+        errors.push(`${definition.label} must be one of ${definition.options.join(', ')}`);
+      } else {
+        (values as Record<SettingKey, unknown>)[key] = value;
+      }
+    } else if (typeof value !== 'string' || value.trim() === '') {
+      errors.push(`${definition.label} must not be empty`);
+    } else if (definition.options && !definition.options.includes(value.trim())) {
+      errors.push(`${definition.label} must be one of ${definition.options.join(', ')}`);
+    } else {
+      (values as Record<SettingKey, unknown>)[key] = value.trim();
+    }
+  }
+
+  return { values, errors };
+};
+
+/** Current values, defaults, which keys are overridden and how to edit them. */
+export interface SettingsState {
+  values: RuntimeSettings;
+  defaults: RuntimeSettings;
+  overridden: SettingKey[];
+  schema: Record<SettingKey, SettingDefinition>;
+}
+
+/**
+ * Get the effective settings: stored overrides merged over defaults. Stored
+ * values that no longer pass validation are ignored.
+ */
+export async function getRuntimeSettings(): Promise<RuntimeSettings> {
+  return (await getSettingsState()).values;
+}
+
+export async function getSettingsState(): Promise<SettingsState> {
+  const db = await getDatabase();
+  const stored = await db.getAllSettings();
+  const { values } = validateSettings(
+    Object.fromEntries(stored.filter(s => isSettingKey(s.key)).map(s => [s.key, s.value]))
+  );
+
+  return {
+    values: { ...DEFAULT_SETTINGS, ...values },
+    defaults: DEFAULT_SETTINGS,
+    overridden: Object.keys(values).filter(isSettingKey),
+    schema: SETTINGS_SCHEMA,
+  };
+}
@@ -0,0 +1,145 @@
+/**
+ * Multi-candidate summary generation.
+ *
+ * A job with `summaryCandidates` above 1 generates that many drafts per
+ * Pokémon, each told to avoid the openings of the drafts before it. Drafts are
+ * ranked by the quality checks, then by how closely their opening echoes
+ * another Pokémon's, and the best becomes the active summary. The batch is kept
+ * so a different draft can be promoted from the library before audio is made.
+ */
+
+import { randomUUID } from 'crypto';
+import { getDatabase, type ProcessingJob, type StoredSummary } from '@/lib/db/adapter';
+import type { PokemonDetails } from '@/types';
+import { SERVER_MAX_SUMMARY_CANDIDATES } from './config';
+import { extractOpening, normalizeOpening, openingSimilarity } from './openingDiversity';
+import { generateSummary, type GeneratedSummary } from './summaryProviders';
+
+export interface RankedDraft extends GeneratedSummary {
+  openingSimilarity: number; // closest match to another Pokémon's opening, 0-1
+  rank: number; // 1 = best
+}
+
+export function isValidSummaryCandidateCount(value: unknown): value is number {
+  return (
+    typeof value === 'number' &&
+    Number.isInteger(value) &&
+    value >= 1 &&
+    value <= SERVER_MAX_SUMMARY_CANDIDATES
+  );
+}
+
+/** Normalized openings of every stored summary except `excludeId`'s. */
+function libraryOpenings(summaries: StoredSummary[], excludeId: number): string[] {
+  return summaries.flatMap(s => {
+    const opening = s.id === excludeId ? null : extractOpening(s.summary);
+    return opening ? [normalizeOpening(opening, s.name)] : [];
+  });
+}
+
+/**
+ * Rank drafts: passing all checks first, then by quality score, then by the
+ * least similar opening. Ties keep generation order.
+ */
+export function rankDrafts(
+  drafts: GeneratedSummary[],
+  name: string,
+  otherOpenings: string[]
+): RankedDraft[] {
+  return drafts
+    .map((draft, index) => {
+      const opening = extractOpening(draft.summary);
+      const normalized = opening ? normalizeOpening(opening, name) : null;
+      const similarity = normalized
+        ? Math.max(0, ...otherOpenings.map(other => openingSimilarity(normalized, other)))
+        : 0;
+      return { draft, index, similarity: Math.round(similarity * 100) / 100 };
+    })
+    .sort(
+      (a, b) =>
+        Number(b.draft.validation.passed) - Number(a.draft.validation.passed) ||
+        b.draft.validation.score - a.draft.validation.score ||
+        a.similarity - b.similarity ||
+        a.index - b.index
+    )
+    .map(({ draft, similarity }, i) => ({ ...draft, openingSimilarity: similarity, rank: i + 1 }));
+}
+
+/**
+ * Generate the job's drafts for a Pokémon, store them ranked, and return the
+ * best. If a later draft fails to generate, the ones already made are ranked.
+ */
+export async function generateSummaryCandidates(
+  details: PokemonDetails,
+  region: string,
+  job: Pick<ProcessingJob, 'id' | 'summaryProvider' | 'summaryModel' | 'summaryCandidates'>
+): Promise<RankedDraft> {
+  const drafts: GeneratedSummary[] = [];
+
+  while (drafts.length < job.summaryCandidates) {
+    const avoidOpenings = drafts.flatMap(d => extractOpening(d.summary) ?? []);
+    try {
+      drafts.push(await generateSummary(details, region, job, { avoidOpenings }));
+    } catch (error) {
+      if (drafts.length === 0) throw error;
+      const msg = error instanceof Error ? error.message : String(error);
+      console.warn(`Ranking ${drafts.length} candidates for #${details.id}; next failed: ${msg}`);
+      break;
+    }
+  }
+
+  const db = await getDatabase();
+  const ranked = rankDrafts(
+    drafts,
+    details.name,
+    libraryOpenings(await db.getAllSummaries(), details.id)
+  );
+
+  await db.replaceSummaryCandidates(
+    details.id,
+    ranked.map(draft => ({
+      id: randomUUID(),
+      pokemonId: details.id,
+      jobId: job.id,
+      name: details.name,
+      region,
+      generationId: details.generationId,
+      summary: draft.summary,
+      provider: draft.provider,
+      model: draft.model,
+      validation: draft.validation,
+      openingSimilarity: draft.openingSimilarity,
+      rank: draft.rank,
+      promoted: draft.rank === 1,
+    }))
+  );
+
+  return ranked[0] as RankedDraft;
+}
+
+/**
+ * Make a stored candidate the Pokémon's active summary. Returns null if the
+ * candidate doesn't exist or belongs to another Pokémon.
+ */
+export async function promoteSummaryCandidate(
+  pokemonId: number,
+  candidateId: string
+): Promise<StoredSummary | null> {
+  const db = await getDatabase();
+  const candidate = await db.getSummaryCandidate(candidateId);
+  if (!candidate || candidate.pokemonId !== pokemonId) return null;
+
+  await db.saveSummary({
+    id: pokemonId,
+    name: candidate.name,
+    summary: candidate.summary,
+    region: candidate.region,
+    generationId: candidate.generationId,
+    provider: candidate.provider,
+    model: candidate.model,
+    validation: candidate.validation,
+  });
+  await db.markSummaryCandidatePromoted(candidateId);
+
+  return db.getSummary(pokemonId);
+}
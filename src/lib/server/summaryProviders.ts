@@ -0,0 +1,171 @@
+/**
+ * Pluggable LLM backends for summary generation.
+ *
+ * Every provider gets the same system prompt and Pokémon data. Jobs may pick a
+ * provider and model; otherwise the ones in settings are used. The provider and
+ * model that produced a summary are returned so they can be stored with it,
+ * along with its quality report.
+ */
+
+import type { ProcessingJob, SummaryProviderId, SummaryValidationReport } from '@/lib/db/adapter';
+import type { PokemonDetails } from '@/types';
+import type { ApiCallContext } from './apiUsage';
+import { generateGeminiSummary } from './gemini';
+import { generateOpenAiCompatibleSummary } from './openaiCompatible';
+import { describeOpeningsToAvoid, getOpeningsToAvoid } from './openingDiversity';
+import { getActivePrompt } from './prompts';
+import {
+  describePronunciations,
+  getPronunciationLexicon,
+  selectPronunciations,
+} from './pronunciations';
+import { getRuntimeSettings } from './settings';
+import {
+  describeFailedRules,
+  validateSummary,
+  type SummaryValidationResult,
+} from './summaryValidator';
+
+export interface SummaryRequest {
+  systemPrompt: string;
+  pokemonContext: string;
+  model: string;
+  context: ApiCallContext; // job and Pokémon the request is logged against
+}
+
+export interface SummaryProvider {
+  id: SummaryProviderId;
+  generate(request: SummaryRequest): Promise<string>;
+}
+
+export interface GeneratedSummary {
+  summary: string;
+  provider: SummaryProviderId;
+  model: string;
+  validation: SummaryValidationReport;
+}
+
+const geminiProvider: SummaryProvider = {
+  id: 'gemini',
+  generate: ({ systemPrompt, pokemonContext, model, context }) =>
+    generateGeminiSummary(`${systemPrompt}\n\nPOKEMON DATA:\n${pokemonContext}`, model, context),
+};
+
+const openAiCompatibleProvider: SummaryProvider = {
+  id: 'openai-compatible',
+  generate: async request => {
+    const { openaiBaseUrl } = await getRuntimeSettings();
+    return generateOpenAiCompatibleSummary({ ...request, baseUrl: openaiBaseUrl });
+  },
+};
+
+const PROVIDERS: Record<SummaryProviderId, SummaryProvider> = {
+  gemini: geminiProvider,
+  'openai-compatible': openAiCompatibleProvider,
+};
+
+export const SUMMARY_PROVIDER_IDS = Object.keys(PROVIDERS) as SummaryProviderId[];
+
+export function isSummaryProviderId(value: unknown): value is SummaryProviderId {
+  return typeof value === 'string' && SUMMARY_PROVIDER_IDS.includes(value as SummaryProviderId);
+}
+
+export function getSummaryProvider(id: SummaryProviderId): SummaryProvider {
+  return PROVIDERS[id];
+}
+
+/**
+ * The provider and model a job will use: its own choice, falling back to the
+ * settings for anything it leaves unset.
+ */
+export async function resolveSummaryModel(
+  job: Pick<ProcessingJob, 'summaryProvider' | 'summaryModel'>
+): Promise<{ provider: SummaryProviderId; model: string }> {
+  const settings = await getRuntimeSettings();
+  const provider = job.summaryProvider ?? settings.summaryProvider;
+  const model =
+    job.summaryModel ?? (provider === 'gemini' ? settings.summaryModel : settings.openaiModel);
+  return { provider, model };
+}
+
+function buildPokemonContext(details: PokemonDetails, region: string): string {
+  return `
+    ---
+    ID: ${details.id}
+    Name: ${details.name}
+    Region: ${region}
+    Types: ${details.types.join(', ')}
+    Physicals: ${details.height / 10}m, ${details.weight / 10}kg
+    Habitat: ${details.habitat}
+    Lore Context: ${details.flavorTexts.join(' ')}
+    Available Moves: ${details.allMoveNames.slice(0, 30).join(', ')}
+  `;
+}
+
+/**
+ * Generate a field-log summary for a Pokémon with the job's provider and model.
+ *
+ * Openings already used in the library, and any in `options.avoidOpenings`, are
+ * listed in the prompt as ones to avoid. Drafts that fail the quality checks
+ * are regenerated, with the broken rules as feedback, up to
+ * `maxSummaryAttempts` generations; the best-scoring draft is returned. If a
+ * regeneration request fails, the best draft so far is kept.
+ */
+export async function generateSummary(
+  details: PokemonDetails,
+  region: string,
+  job: Pick<ProcessingJob, 'id' | 'summaryProvider' | 'summaryModel'>,
+  options: { avoidOpenings?: string[] } = {}
+): Promise<GeneratedSummary> {
+  const { provider, model } = await resolveSummaryModel(job);
+  const { maxSummaryAttempts } = await getRuntimeSettings();
+  const activePrompt = await getActivePrompt('summary');
+  const openingsToAvoid = [...(await getOpeningsToAvoid()), ...(options.avoidOpenings ?? [])];
+  const pronunciations = selectPronunciations(await getPronunciationLexicon(), details, region);
+  const systemPrompt = [
+    activePrompt,
+    openingsToAvoid.length > 0 ? describeOpeningsToAvoid(openingsToAvoid) : null,
+    pronunciations.length > 0 ? describePronunciations(pronunciations) : null,
+  ]
+    .filter(Boolean)
+    .join('\n\n');
+  const pokemonContext = buildPokemonContext(details, region);
+
+  let best: { summary: string; result: SummaryValidationResult } | null = null;
+  let previous: SummaryValidationResult | null = null;
+  let attempts = 0;
+
+  while (attempts < maxSummaryAttempts && !previous?.passed) {
+    let summary: string;
+    try {
+      summary = await getSummaryProvider(provider).generate({
+        systemPrompt: previous
+          ? `${systemPrompt}\n\n${describeFailedRules(previous)}`
+          : systemPrompt,
+        pokemonContext,
+        model,
+        context: { jobId: job.id, pokemonId: details.id },
+      });
+    } catch (error) {
+      if (!best) throw error;
+      const msg = error instanceof Error ? error.message : String(error);
+      console.warn(`Keeping best summary for #${details.id}; regeneration failed: ${msg}`);
+      break;
+    }
+
+    attempts++;
+    previous = validateSummary(summary, details);
+    if (!best || previous.score > best.result.score) {
+      best = { summary, result: previous };
+    }
+  }
+
+  if (!best) throw new Error('maxSummaryAttempts must be at least 1');
+
+  return {
+    summary: best.summary,
+    provider,
+    model,
+    validation: { ...best.result, attempts, checkedAt: new Date().toISOString() },
+  };
+}
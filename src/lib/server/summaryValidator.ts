@@ -0,0 +1,156 @@
+/**
+ * Checks a generated summary against the hard rules of the default summary
+ * prompt: the "Pokémon trainer log [LOG_ID]" opening, 250–300 words, 2–4
+ * bolded moves that the Pokémon can actually learn, and a phonetic
+ * pronunciation after the first mention of its name.
+ */
+
+import type { SummaryRuleResult, SummaryValidationReport } from '@/lib/db/adapter';
+import type { PokemonDetails } from '@/types';
+
+const MIN_WORDS = 250;
+const MAX_WORDS = 300;
+const MIN_MOVES = 2;
+const MAX_MOVES = 4;
+
+// How far past the name the pronunciation may start, e.g. "Mega Charizard X (…)"
+const PRONUNCIATION_LOOKAHEAD = 24;
+
+export type SummaryValidationResult = Omit<SummaryValidationReport, 'attempts' | 'checkedAt'>;
+
+type ValidatedPokemon = Pick<PokemonDetails, 'id' | 'speciesId' | 'name' | 'allMoveNames'>;
+
+function normalizeMove(move: string): string {
+  return move.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(word => /[\p{L}\p{N}]/u.test(word)).length;
+}
+
+function checkOpening(summary: string, pokemon: ValidatedPokemon): SummaryRuleResult {
+  const match = summary.trimStart().match(/^Pok[eé]mon trainer log (\d+)\b/i);
+  const logIds = [pokemon.id, pokemon.speciesId].map(String);
+
+  if (!match) {
+    return {
+      rule: 'opening',
+      passed: false,
+      detail: 'Does not open with "Pokémon trainer log [LOG_ID]".',
+    };
+  }
+  if (!logIds.includes(match[1] ?? '')) {
+    return {
+      rule: 'opening',
+      passed: false,
+      detail: `Log ID ${match[1]} does not match Pokédex number ${pokemon.speciesId}.`,
+    };
+  }
+  return { rule: 'opening', passed: true, detail: `Opens with log ${match[1]}.` };
+}
+
+function checkLength(wordCount: number): SummaryRuleResult {
+  const passed = wordCount >= MIN_WORDS && wordCount <= MAX_WORDS;
+  return {
+    rule: 'length',
+    passed,
+    detail: `${wordCount} words (${MIN_WORDS}–${MAX_WORDS} required).`,
+  };
+}
+
+function checkMoveCount(boldedMoves: string[]): SummaryRuleResult {
+  const count = boldedMoves.length;
+  return {
+    rule: 'move-count',
+    passed: count >= MIN_MOVES && count <= MAX_MOVES,
+    detail: `${count} bolded move${count === 1 ? '' : 's'} (${MIN_MOVES}–${MAX_MOVES} required).`,
+  };
+}
+
+function checkKnownMoves(boldedMoves: string[], pokemon: ValidatedPokemon): SummaryRuleResult {
+  const known = new Set(pokemon.allMoveNames.map(normalizeMove));
+  const unknown = boldedMoves.filter(move => !known.has(normalizeMove(move)));
+
+  return unknown.length === 0
+    ? { rule: 'known-moves', passed: true, detail: 'Every bolded move is in the move list.' }
+    : {
+        rule: 'known-moves',
+        passed: false,
+        detail: `Not in the move list: ${unknown.join(', ')}.`,
+      };
+}
+
+/**
+ * Whether parenthesised text is a phonetic spelling: syllables of letters joined
+ * by hyphens or spaces, with a capitalised stressed syllable ("PEE-kah-choo").
+ */
+export function isPhoneticSpelling(text: string): boolean {
+  return /^[A-Za-z]+(?:[- ][A-Za-z]+)*$/.test(text) && /[A-Z]{2,}/.test(text);
+}
+
+/**
+ * The first mention of the species name must be followed by a parenthesised
+ * phonetic spelling with a capitalised stressed syllable, e.g. "Pikachu (PEE-kah-choo)".
+ */
+function checkPronunciation(summary: string, pokemon: ValidatedPokemon): SummaryRuleResult {
+  const baseName = pokemon.name.split('-')[0] || pokemon.name;
+  // Skip the opening line so "Pokémon trainer log" can't count as a mention
+  const body = summary.replace(/^\s*Pok[eé]mon trainer log \d+\.?/i, '');
+  const mention = body.toLowerCase().indexOf(baseName.toLowerCase());
+
+  if (mention === -1) {
+    return { rule: 'pronunciation', passed: false, detail: `Never mentions ${baseName} by name.` };
+  }
+
+  const after = body.slice(
+    mention + baseName.length,
+    mention + baseName.length + PRONUNCIATION_LOOKAHEAD
+  );
+  const phonetic = after.match(/^[^.,;:!?()]*\(([^)]+)\)/)?.[1]?.trim();
+  const looksPhonetic = !!phonetic && isPhoneticSpelling(phonetic);
+
+  return looksPhonetic
+    ? { rule: 'pronunciation', passed: true, detail: `First mention reads "(${phonetic})".` }
+    : {
+        rule: 'pronunciation',
+        passed: false,
+        detail: `First mention of ${baseName} has no phonetic pronunciation.`,
+      };
+}
+
+/**
+ * Score a summary against every rule. `score` is the fraction of rules passed.
+ */
+export function validateSummary(
+  summary: string,
+  pokemon: ValidatedPokemon
+): SummaryValidationResult {
+  const boldedMoves = Array.from(summary.matchAll(/\*\*([^*]+)\*\*/g), m => (m[1] ?? '').trim());
+  const wordCount = countWords(summary);
+
+  const rules = [
+    checkOpening(summary, pokemon),
+    checkLength(wordCount),
+    checkMoveCount(boldedMoves),
+    checkKnownMoves(boldedMoves, pokemon),
+    checkPronunciation(summary, pokemon),
+  ];
+  const passedCount = rules.filter(r => r.passed).length;
+
+  return {
+    passed: passedCount === rules.length,
+    score: Math.round((passedCount / rules.length) * 100) / 100,
+    wordCount,
+    boldedMoves,
+    rules,
+  };
+}
+
+/**
+ * Feedback appended to the prompt when a summary is regenerated, naming the
+ * rules the previous draft broke.
+ */
+export function describeFailedRules(result: SummaryValidationResult): string {
+  const failed = result.rules.filter(r => !r.passed).map(r => `- ${r.detail}`);
+  return `Your previous draft broke these rules. Fix them this time:\n${failed.join('\n')}`;
+}
@@ -0,0 +1,160 @@
+/**
+ * Long-form TTS in chunks.
+ *
+ * TTS models cut off input past a certain length (see the note in `config.ts`),
+ * so long text is split at paragraph boundaries, or at sentence boundaries
+ * within an overlong paragraph, and each chunk is synthesized on its own. The
+ * chunks' PCM is stitched back together with their leading and trailing
+ * silence trimmed and a fixed pause between them, so the joins sound like the
+ * model's own pauses rather than uneven gaps.
+ *
+ * Finished chunks are saved to disk until their item's audio is stitched, so
+ * an item interrupted by a quota pause only requests the chunks it is missing
+ * when the job resumes. The files are local to the worker: a job resumed on
+ * another worker synthesizes the item from the start.
+ */
+
+import { createHash } from 'crypto';
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { stitchPcmNode, trimSilenceNode } from '@/services/audioSplitterNode';
+import {
+  SERVER_TTS_MAX_CHUNK_CHARS,
+  SERVER_TTS_PARAGRAPH_PAUSE_MS,
+  SERVER_TTS_SENTENCE_PAUSE_MS,
+} from './config';
+
+export interface TtsChunk {
+  text: string;
+  pauseAfterMs: number; // 0 after the last chunk
+}
+
+type Boundary = 'paragraph' | 'sentence' | 'word';
+
+interface TextPart {
+  text: string;
+  boundary: Boundary; // what follows the part
+}
+
+const PAUSE_MS: Record<Boundary, number> = {
+  paragraph: SERVER_TTS_PARAGRAPH_PAUSE_MS,
+  sentence: SERVER_TTS_SENTENCE_PAUSE_MS,
+  word: 0,
+};
+
+// Whitespace after sentence-ending punctuation, except after common titles
+const SENTENCE_BREAK = /(?<!\b(?:Mr|Mrs|Ms|Dr|St|Mt|vs)\.)(?<=[.!?]["'”’)]*)\s+/;
+
+function partsOf(paragraph: string, maxChars: number): TextPart[] {
+  if (paragraph.length <= maxChars) return [{ text: paragraph, boundary: 'paragraph' }];
+
+  const parts = paragraph.split(SENTENCE_BREAK).flatMap((sentence): TextPart[] =>
+    sentence.length <= maxChars
+      ? [{ text: sentence, boundary: 'sentence' }]
+      : sentence.split(/\s+/).map((word, i, words) => ({
+          text: word,
+          boundary: i < words.length - 1 ? ('word' as const) : ('sentence' as const),
+        }))
+  );
+  (parts[parts.length - 1] as TextPart).boundary = 'paragraph';
+  return parts;
+}
+
+/**
+ * Split text into chunks of at most `maxChars`, packing whole paragraphs
+ * together where they fit. Text within the limit comes back as one chunk.
+ */
+export function splitTtsText(text: string, maxChars = SERVER_TTS_MAX_CHUNK_CHARS): TtsChunk[] {
+  const parts = text
+    .split(/\n\s*\n/)
+    .map(paragraph => paragraph.trim())
+    .filter(Boolean)
+    .flatMap(paragraph => partsOf(paragraph, maxChars));
+  if (parts.length === 0) return [{ text: text.trim(), pauseAfterMs: 0 }];
+
+  const chunks: TtsChunk[] = [];
+  let current: TextPart | null = null;
+
+  for (const part of parts) {
+    if (current) {
+      const joined: string = `${current.text}${current.boundary === 'paragraph' ? '\n\n' : ' '}${part.text}`;
+      if (joined.length <= maxChars) {
+        current = { text: joined, boundary: part.boundary };
+        continue;
+      }
+      chunks.push({ text: current.text, pauseAfterMs: PAUSE_MS[current.boundary] });
+    }
+    current = part;
+  }
+  chunks.push({ text: (current as TextPart).text, pauseAfterMs: 0 });
+
+  return chunks;
+}
+
+/**
+ * Join the PCM synthesized for each chunk. A single chunk is returned as is.
+ */
+export function stitchTtsChunks(audio: string[], chunks: TtsChunk[], sampleRate: number): string {
+  if (audio.length === 1) return audio[0] ?? '';
+
+  return stitchPcmNode(
+    audio.map((pcmBase64, idx) => ({
+      pcmBase64: trimSilenceNode(pcmBase64, sampleRate),
+      pauseAfterMs: chunks[idx]?.pauseAfterMs ?? 0,
+    })),
+    sampleRate
+  );
+}
+
+const CHUNK_AUDIO_DIR = path.join(tmpdir(), 'pokemon-tts-chunks');
+
+function chunkAudioDir(jobId: string, pokemonId?: number): string {
+  return pokemonId === undefined
+    ? path.join(CHUNK_AUDIO_DIR, jobId)
+    : path.join(CHUNK_AUDIO_DIR, jobId, String(pokemonId));
+}
+
+// Keyed by the text too, so a lexicon edit during a pause doesn't reuse stale audio
+function chunkAudioFile(jobId: string, pokemonId: number, index: number, chunk: TtsChunk): string {
+  const digest = createHash('sha256').update(chunk.text).digest('hex').slice(0, 16);
+  return path.join(chunkAudioDir(jobId, pokemonId), `${index}-${digest}.pcm`);
+}
+
+export async function saveChunkAudio(
+  jobId: string,
+  pokemonId: number,
+  index: number,
+  chunk: TtsChunk,
+  pcmBase64: string
+): Promise<void> {
+  await mkdir(chunkAudioDir(jobId, pokemonId), { recursive: true });
+  await writeFile(chunkAudioFile(jobId, pokemonId, index, chunk), Buffer.from(pcmBase64, 'base64'));
+}
+
+/**
+ * The saved PCM of an item's leading chunks, up to the first one not saved.
+ */
+export async function loadChunkAudio(
+  jobId: string,
+  pokemonId: number,
+  chunks: TtsChunk[]
+): Promise<string[]> {
+  const audio: string[] = [];
+  for (const [index, chunk] of chunks.entries()) {
+    try {
+      const pcm = await readFile(chunkAudioFile(jobId, pokemonId, index, chunk));
+      audio.push(pcm.toString('base64'));
+    } catch {
+      break;
+    }
+  }
+  return audio;
+}
+
+/**
+ * Delete the chunks saved for one item, or for the whole job.
+ */
+export async function clearChunkAudio(jobId: string, pokemonId?: number): Promise<void> {
+  await rm(chunkAudioDir(jobId, pokemonId), { recursive: true, force: true });
+}
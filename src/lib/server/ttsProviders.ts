@@ -0,0 +1,131 @@
+/**
+ * Pluggable speech engines for audio logs.
+ *
+ * Every provider returns base64 PCM16LE mono audio at its own sample rate for
+ * `convertPcmToMp3`, and publishes the voices it can speak. Jobs record the
+ * provider their voice belongs to; the settings only choose the default.
+ */
+
+import type { TtsProviderId } from '@/lib/db/adapter';
+import type { ApiCallContext } from './apiUsage';
+import { SERVER_ESPEAK_SAMPLE_RATE, SERVER_TTS_SAMPLE_RATE } from './config';
+import { generateEspeakTts, listEspeakVoices } from './espeak';
+import { generateTts } from './gemini';
+import { getRuntimeSettings } from './settings';
+
+export interface VoiceOption {
+  id: string;
+  name: string;
+  gender: string;
+}
+
+export interface TtsProvider {
+  id: TtsProviderId;
+  label: string;
+  sampleRate: number; // Hz of the PCM returned by synthesize
+  usesQuota: boolean; // daily TTS quota and cooldowns apply
+  listVoices(): Promise<VoiceOption[]>;
+  synthesize(request: { text: string; voice: string; context: ApiCallContext }): Promise<string>;
+}
+
+/** A provider's voices, or why they couldn't be listed. */
+export interface TtsProviderCatalog {
+  id: TtsProviderId;
+  label: string;
+  sampleRate: number;
+  usesQuota: boolean;
+  available: boolean;
+  error: string | null;
+  voices: VoiceOption[];
+}
+
+export interface VoiceCatalog {
+  defaultProvider: TtsProviderId;
+  providers: TtsProviderCatalog[];
+}
+
+/** Prebuilt Gemini voice profiles. */
+const GEMINI_VOICES: VoiceOption[] = [
+  { id: 'Kore', name: 'Kore (Sophisticated)', gender: 'Female' },
+  { id: 'Zephyr', name: 'Zephyr (Professional)', gender: 'Female' },
+  { id: 'Charon', name: 'Charon (Resonant)', gender: 'Male' },
+  { id: 'Puck', name: 'Puck (Youthful)', gender: 'Male' },
+  { id: 'Fenrir', name: 'Fenrir (Rugged)', gender: 'Male' },
+];
+
+const geminiProvider: TtsProvider = {
+  id: 'gemini',
+  label: 'Gemini',
+  sampleRate: SERVER_TTS_SAMPLE_RATE,
+  usesQuota: true,
+  listVoices: async () => GEMINI_VOICES,
+  synthesize: ({ text, voice, context }) => generateTts({ text, voiceName: voice, context }),
+};
+
+const espeakProvider: TtsProvider = {
+  id: 'espeak-ng',
+  label: 'espeak-ng (local)',
+  sampleRate: SERVER_ESPEAK_SAMPLE_RATE,
+  usesQuota: false,
+  listVoices: listEspeakVoices,
+  synthesize: generateEspeakTts,
+};
+
+const PROVIDERS: Record<TtsProviderId, TtsProvider> = {
+  gemini: geminiProvider,
+  'espeak-ng': espeakProvider,
+};
+
+export const TTS_PROVIDER_IDS = Object.keys(PROVIDERS) as TtsProviderId[];
+
+export function isTtsProviderId(value: unknown): value is TtsProviderId {
+  return typeof value === 'string' && TTS_PROVIDER_IDS.includes(value as TtsProviderId);
+}
+
+export function getTtsProvider(id: TtsProviderId): TtsProvider {
+  return PROVIDERS[id];
+}
+
+/**
+ * Check that `voice` is in the provider's catalog. Returns an error message, or
+ * null when the voice exists.
+ */
+export async function validateVoice(id: TtsProviderId, voice: string): Promise<string | null> {
+  const provider = getTtsProvider(id);
+  try {
+    const voices = await provider.listVoices();
+    if (voices.some(v => v.id === voice)) return null;
+    return `voice "${voice}" is not one of the ${provider.label} voices listed by GET /api/voices`;
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    return `${provider.label} voices could not be listed: ${msg}`;
+  }
+}
+
+/**
+ * Voices for every provider. A local engine that isn't installed is listed as
+ * unavailable rather than failing the whole catalog.
+ */
+export async function getVoiceCatalog(): Promise<VoiceCatalog> {
+  const { ttsProvider } = await getRuntimeSettings();
+
+  const providers = await Promise.all(
+    Object.values(PROVIDERS).map(async (provider): Promise<TtsProviderCatalog> => {
+      const entry = {
+        id: provider.id,
+        label: provider.label,
+        sampleRate: provider.sampleRate,
+        usesQuota: provider.usesQuota,
+      };
+      try {
+        const voices = await provider.listVoices();
+        return { ...entry, available: voices.length > 0, error: null, voices };
+      } catch (error) {
+        const msg = error instanceof Error ? error.message : String(error);
+        return { ...entry, available: false, error: msg, voices: [] };
+      }
+    })
+  );
+
+  return { defaultProvider: ttsProvider, providers };
+}
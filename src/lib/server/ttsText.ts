@@ -0,0 +1,238 @@
+/**
+ * Text normalization between a stored summary and the speech engine.
+ *
+ * Summaries are written for reading: move names are `**bold**`, the first
+ * mention of a Pokémon carries a phonetic hint like "Pikachu (PEE-kah-choo)",
+ * and physicals come as "0.7m". Sent verbatim, engines read out asterisks and
+ * parentheses, spell capitalised syllables as letters and guess at units. The
+ * pipeline strips the markdown, speaks the phonetic spelling in place of the
+ * name and writes numbers and units out in words. With the pronunciation
+ * lexicon, every mention of a listed name is spoken the same way.
+ */
+
+import type { Pronunciation } from '@/lib/db/adapter';
+import { isPhoneticSpelling } from './summaryValidator';
+
+export type LexiconEntry = Pick<Pronunciation, 'term' | 'phonetic'>;
+
+/** A "Name (PHO-NET-IC)" hint in a text. */
+export interface PhoneticHint {
+  name: string;
+  phonetic: string;
+  start: number; // index of the name
+  end: number; // index after the closing parenthesis
+}
+
+const ONES = [
+  'zero',
+  'one',
+  'two',
+  'three',
+  'four',
+  'five',
+  'six',
+  'seven',
+  'eight',
+  'nine',
+  'ten',
+  'eleven',
+  'twelve',
+  'thirteen',
+  'fourteen',
+  'fifteen',
+  'sixteen',
+  'seventeen',
+  'eighteen',
+  'nineteen',
+];
+const TENS = ['', '', 'twenty', 'thirty', 'forty', 'fifty', 'sixty', 'seventy', 'eighty', 'ninety'];
+const SCALES = ['', 'thousand', 'million', 'billion'];
+
+// Longer integers are read digit by digit
+const MAX_INTEGER_DIGITS = 12;
+
+/** Unit abbreviations after a number, as [singular, plural]. */
+const UNITS: Record<string, [string, string]> = {
+  'km/h': ['kilometer per hour', 'kilometers per hour'],
+  mph: ['mile per hour', 'miles per hour'],
+  km: ['kilometer', 'kilometers'],
+  cm: ['centimeter', 'centimeters'],
+  mm: ['millimeter', 'millimeters'],
+  m: ['meter', 'meters'],
+  kg: ['kilogram', 'kilograms'],
+  g: ['gram', 'grams'],
+  lbs: ['pound', 'pounds'],
+  lb: ['pound', 'pounds'],
+  ft: ['foot', 'feet'],
+  '°C': ['degree Celsius', 'degrees Celsius'],
+  '°F': ['degree Fahrenheit', 'degrees Fahrenheit'],
+  '%': ['percent', 'percent'],
+};
+
+const NUMBER_PATTERN = new RegExp(
+  `(?<![\\p{L}\\p{N}.,])(\\d{1,3}(?:,\\d{3})+|\\d+)(\\.\\d+)?(?:\\s?(${Object.keys(UNITS)
+    .sort((a, b) => b.length - a.length)
+    .join('|')}))?(?![\\p{L}\\p{N}])`,
+  'gu'
+);
+
+function belowThousand(n: number): string {
+  const hundreds = Math.floor(n / 100);
+  const rest = n % 100;
+  const words: string[] = [];
+  if (hundreds > 0) words.push(`${ONES[hundreds]} hundred`);
+  if (rest >= 20) {
+    const tens = TENS[Math.floor(rest / 10)] ?? '';
+    words.push(rest % 10 ? `${tens}-${ONES[rest % 10]}` : tens);
+  } else if (rest > 0) {
+    words.push(ONES[rest] ?? '');
+  }
+  return words.join(' ');
+}
+
+function digitsToWords(digits: string): string {
+  return Array.from(digits, d => ONES[Number(d)]).join(' ');
+}
+
+/**
+ * An integer in words, e.g. 1025 → "one thousand twenty-five".
+ */
+export function integerToWords(digits: string): string {
+  const trimmed = digits.replace(/^0+(?=\d)/, '');
+  if (trimmed.length > MAX_INTEGER_DIGITS) return digitsToWords(trimmed);
+
+  let n = Number(trimmed);
+  if (n === 0) return 'zero';
+
+  const groups: string[] = [];
+  for (let scale = 0; n > 0; scale++, n = Math.floor(n / 1000)) {
+    const chunk = n % 1000;
+    if (chunk > 0) groups.unshift([belowThousand(chunk), SCALES[scale]].filter(Boolean).join(' '));
+  }
+  return groups.join(' ');
+}
+
+/**
+ * Remove markdown a speech engine would read aloud: emphasis, inline code,
+ * headings and link targets.
+ */
+export function stripMarkdown(text: string): string {
+  return text
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/`([^`]*)`/g, '$1')
+    .replace(/^[ \t]*#{1,6}[ \t]+/gm, '')
+    .replace(/(\*\*|__)([\s\S]+?)\1/g, '$2')
+    .replace(/(^|[^\p{L}\p{N}])([*_])(?=\S)([^*_\n]+?)\2(?![\p{L}\p{N}])/gmu, '$1$3')
+    .replace(/\*/g, '');
+}
+
+/**
+ * Find phonetic hints and the name each follows. A hint of N words belongs to
+ * the N words before it; other parentheses are ignored.
+ */
+export function findPhoneticHints(text: string): PhoneticHint[] {
+  const hints: PhoneticHint[] = [];
+  let last = 0;
+
+  for (const match of text.matchAll(/\s*\(([^()]+)\)/g)) {
+    const phonetic = (match[1] ?? '').trim();
+    if (!isPhoneticSpelling(phonetic)) continue;
+
+    const start = match.index ?? 0;
+    const words = phonetic.split(' ').length;
+    const name = text
+      .slice(last, start)
+      .match(new RegExp(`(?:[\\p{L}\\p{M}'’.-]+\\s+){${words - 1}}[\\p{L}\\p{M}'’.-]+$`, 'u'))?.[0];
+    if (!name) continue;
+
+    hints.push({ name, phonetic, start: start - name.length, end: start + match[0].length });
+    last = start + match[0].length;
+  }
+
+  return hints;
+}
+
+function spoken(phonetic: string): string {
+  return phonetic.toLowerCase();
+}
+
+function findEntry(lexicon: LexiconEntry[], name: string): LexiconEntry | undefined {
+  const key = name.replace(/\s+/g, ' ').toLowerCase();
+  return lexicon.find(entry => entry.term.toLowerCase() === key);
+}
+
+/**
+ * Replace "Name (PHO-NET-IC)" with the phonetic spelling in lower case, so the
+ * engine says the name as written out rather than reading both, and doesn't
+ * spell the stressed syllable as letters. A lexicon entry for the name wins
+ * over the summary's own hint.
+ */
+export function rewritePhonetics(text: string, lexicon: LexiconEntry[] = []): string {
+  let result = '';
+  let last = 0;
+
+  for (const hint of findPhoneticHints(text)) {
+    const phonetic = findEntry(lexicon, hint.name)?.phonetic ?? hint.phonetic;
+    result += text.slice(last, hint.start) + spoken(phonetic);
+    last = hint.end;
+  }
+
+  return result + text.slice(last);
+}
+
+/**
+ * Speak every whole-word mention of a lexicon term with its phonetic spelling.
+ * Longer terms are matched first, so "Mr. Mime" wins over "Mime".
+ */
+export function applyPronunciations(text: string, lexicon: LexiconEntry[]): string {
+  if (lexicon.length === 0) return text;
+
+  const terms = [...lexicon]
+    .sort((a, b) => b.term.length - a.term.length)
+    .map(entry =>
+      entry.term
+        .trim()
+        .split(/\s+/)
+        .map(word => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+        .join('\\s+')
+    );
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}])(?:${terms.join('|')})(?![\\p{L}\\p{N}])`, 'giu');
+
+  return text.replace(pattern, match => {
+    const entry = findEntry(lexicon, match);
+    return entry ? spoken(entry.phonetic) : match;
+  });
+}
+
+/**
+ * Write numbers, and the units attached to them, out in words: "0.7m" →
+ * "zero point seven meters", "1,025" → "one thousand twenty-five".
+ */
+export function expandNumbers(text: string): string {
+  return text.replace(
+    NUMBER_PATTERN,
+    (_match, integer: string, fraction: string | undefined, unit: string | undefined) => {
+      const digits = integer.replace(/,/g, '');
+      const words = fraction
+        ? `${integerToWords(digits)} point ${digitsToWords(fraction.slice(1))}`
+        : integerToWords(digits);
+      if (!unit) return words;
+
+      const [singular, plural] = UNITS[unit] as [string, string];
+      return `${words} ${digits === '1' && !fraction ? singular : plural}`;
+    }
+  );
+}
+
+/**
+ * Prepare a summary for speech. Runs the whole pipeline, speaking lexicon
+ * names as listed, and tidies the spacing left behind.
+ */
+export function normalizeTtsText(text: string, lexicon: LexiconEntry[] = []): string {
+  const phonetic = rewritePhonetics(stripMarkdown(text), lexicon);
+  return expandNumbers(applyPronunciations(phonetic, lexicon))
+    .replace(/[ \t]+/g, ' ')
+    .replace(/ +([,.;:!?])/g, '$1')
+    .replace(/^ +| +$/gm, '')
+    .trim();
+}
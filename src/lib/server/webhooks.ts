@@ -0,0 +1,332 @@
+/**
+ * Webhook notifications for job lifecycle events.
+ *
+ * Registered webhooks receive a JSON payload signed with HMAC-SHA256 of the raw
+ * body (`X-Webhook-Signature: sha256=<hex>`). The payload carries `text` and
+ * `content` summaries so Slack and Discord incoming webhooks can be used directly.
+ * Failed deliveries are retried with exponential backoff and every call is
+ * recorded in the delivery log. The signing secret is only returned by the API
+ * when a webhook is created; listings show its last characters.
+ */
+
+import { createHmac, randomBytes } from 'crypto';
+import { getDatabase } from '@/lib/db/adapter';
+import type { ProcessingJob, Webhook, WebhookEvent } from '@/lib/db/adapter';
+
+export const WEBHOOK_EVENTS: WebhookEvent[] = [
+  'job.created',
+  'job.completed',
+  'job.failed',
+  'job.canceled',
+  'job.quota_paused',
+];
+
+const MAX_DELIVERY_ATTEMPTS = 5;
+const RETRY_BASE_DELAY_MS = 2000;
+const DELIVERY_TIMEOUT_MS = 10000;
+
+// Background deliveries, awaited on shutdown so their retries aren't cut off
+const pendingDeliveries = new Set<Promise<void>>();
+
+export interface JobWebhookPayload {
+  event: WebhookEvent;
+  timestamp: string;
+  text: string; // Slack
+  content: string; // Discord
+  job: {
+    id: string;
+    status: ProcessingJob['status'];
+    mode: ProcessingJob['mode'];
+    stage: ProcessingJob['stage'];
+    generationId: number;
+    region: string;
+    voice: string;
+    total: number;
+    current: number;
+    failedCount: number;
+    failedPokemonIds: number[];
+    retryCount: number;
+    message: string;
+    error: string | null;
+    createdAt: string;
+    updatedAt: string;
+  };
+}
+
+export interface DeliveryResult {
+  ok: boolean;
+  attempts: number;
+  responseStatus: number | null;
+  error: string | null;
+}
+
+export function isWebhookEvent(value: unknown): value is WebhookEvent {
+  return typeof value === 'string' && WEBHOOK_EVENTS.includes(value as WebhookEvent);
+}
+
+export function generateWebhookSecret(): string {
+  return randomBytes(32).toString('hex');
+}
+
+/**
+ * The webhook with all but the last 4 characters of its secret hidden.
+ */
+export function maskWebhookSecret(webhook: Webhook): Webhook {
+  return { ...webhook, secret: `••••${webhook.secret.slice(-4)}` };
+}
+
+/**
+ * Signature header value for a raw request body.
+ */
+export function signWebhookPayload(secret: string, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`;
+}
+
+/**
+ * Validate user-supplied webhook fields. Omitted fields are left out of `fields`
+ * so the same check serves both create and update.
+ */
+export function validateWebhookFields(body: Record<string, unknown>): {
+  fields: Partial<Pick<Webhook, 'url' | 'secret' | 'events' | 'enabled'>>;
+  error: string | null;
+} {
+  const fields: Partial<Pick<Webhook, 'url' | 'secret' | 'events' | 'enabled'>> = {};
+
+  if (body.url !== undefined) {
+    let parsed: URL | null = null;
+    try {
+      parsed = typeof body.url === 'string' ? new URL(body.url) : null;
+    } catch {
+      parsed = null;
+    }
+    if (!parsed || (parsed.protocol !== 'http:' && parsed.protocol !== 'https:')) {
+      return { fields, error: 'url must be an http(s) URL' };
+    }
+    fields.url = parsed.toString();
+  }
+
+  if (body.secret !== undefined) {
+    if (typeof body.secret !== 'string' || body.secret.trim().length === 0) {
+      return { fields, error: 'secret must be a non-empty string' };
+    }
+    fields.secret = body.secret.trim();
+  }
+
+  if (body.events !== undefined) {
+    if (
+      !Array.isArray(body.events) ||
+      body.events.length === 0 ||
+      !body.events.every(isWebhookEvent)
+    ) {
+      return { fields, error: `events must be a non-empty list of: ${WEBHOOK_EVENTS.join(', ')}` };
+    }
+    fields.events = Array.from(new Set(body.events));
+  }
+
+  if (body.enabled !== undefined) {
+    if (typeof body.enabled !== 'boolean') {
+      return { fields, error: 'enabled must be a boolean' };
+    }
+    fields.enabled = body.enabled;
+  }
+
+  return { fields, error: null };
+}
+
+function describeJobEvent(event: WebhookEvent, job: ProcessingJob): string {
+  const label = `Job ${job.id.slice(0, 8)} (${job.mode}, Gen ${job.generationId} ${job.region})`;
+  const failed = job.failedPokemonIds.length;
+
+  switch (event) {
+    case 'job.created':
+      return `${label} was queued for ${job.pokemonIds.length} Pokémon.`;
+    case 'job.completed':
+      return failed > 0
+        ? `${label} finished with ${failed} of ${job.pokemonIds.length} Pokémon failed.`
+        : `${label} completed all ${job.pokemonIds.length} Pokémon.`;
+    case 'job.failed':
+      return `${label} failed at ${job.current}/${job.total}: ${job.error ?? 'unknown error'}`;
+    case 'job.canceled':
+      return `${label} was canceled at ${job.current}/${job.total}.`;
+    case 'job.quota_paused':
+      return `${label} paused at ${job.current}/${job.total}: daily TTS quota exhausted.`;
+  }
+}
+
+export function buildJobWebhookPayload(
+  event: WebhookEvent,
+  job: ProcessingJob,
+  now: Date = new Date()
+): JobWebhookPayload {
+  const text = describeJobEvent(event, job);
+
+  return {
+    event,
+    timestamp: now.toISOString(),
+    text,
+    content: text,
+    job: {
+      id: job.id,
+      status: job.status,
+      mode: job.mode,
+      stage: job.stage,
+      generationId: job.generationId,
+      region: job.region,
+      voice: job.voice,
+      total: job.total,
+      current: job.current,
+      failedCount: job.failedPokemonIds.length,
+      failedPokemonIds: job.failedPokemonIds,
+      retryCount: job.retryCount,
+      message: job.message,
+      error: job.error,
+      createdAt: job.createdAt,
+      updatedAt: job.updatedAt,
+    },
+  };
+}
+
+/**
+ * POST a signed payload, retrying network errors and non-2xx responses with
+ * exponential backoff. `onAttempt` is called after every attempt.
+ */
+export async function deliverWebhook(
+  params: { url: string; secret: string; event: WebhookEvent; body: string },
+  options: {
+    maxAttempts?: number;
+    baseDelayMs?: number;
+    timeoutMs?: number;
+    onAttempt?: (result: DeliveryResult) => Promise<void> | void;
+  } = {}
+): Promise<DeliveryResult> {
+  const {
+    maxAttempts = MAX_DELIVERY_ATTEMPTS,
+    baseDelayMs = RETRY_BASE_DELAY_MS,
+    timeoutMs = DELIVERY_TIMEOUT_MS,
+  } = options;
+  const signature = signWebhookPayload(params.secret, params.body);
+
+  let result: DeliveryResult = { ok: false, attempts: 0, responseStatus: null, error: null };
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    try {
+      const response = await fetch(params.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Webhook-Event': params.event,
+          'X-Webhook-Signature': signature,
+        },
+        body: params.body,
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+      result = {
+        ok: response.ok,
+        attempts: attempt,
+        responseStatus: response.status,
+        error: response.ok ? null : `HTTP ${response.status}`,
+      };
+    } catch (error) {
+      result = {
+        ok: false,
+        attempts: attempt,
+        responseStatus: null,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+
+    await options.onAttempt?.(result);
+    if (result.ok) return result;
+
+    if (attempt < maxAttempts) {
+      const delayMs = baseDelayMs * Math.pow(2, attempt - 1);
+      await new Promise(resolve => setTimeout(resolve, delayMs));
+    }
+  }
+
+  return result;
+}
+
+async function deliverToWebhook(
+  webhook: Webhook,
+  event: WebhookEvent,
+  job: ProcessingJob
+): Promise<void> {
+  const db = await getDatabase();
+  const body = JSON.stringify(buildJobWebhookPayload(event, job));
+  const deliveryId = await db.createWebhookDelivery({
+    webhookId: webhook.id,
+    event,
+    jobId: job.id,
+    payload: body,
+  });
+
+  const result = await deliverWebhook(
+    { url: webhook.url, secret: webhook.secret, event, body },
+    {
+      onAttempt: async attempt => {
+        await db.updateWebhookDelivery(deliveryId, {
+          status: attempt.ok ? 'succeeded' : 'pending',
+          attempts: attempt.attempts,
+          responseStatus: attempt.responseStatus,
+          lastError: attempt.error,
+        });
+      },
+    }
+  );
+
+  if (!result.ok) {
+    await db.updateWebhookDelivery(deliveryId, {
+      status: 'failed',
+      attempts: result.attempts,
+      responseStatus: result.responseStatus,
+      lastError: result.error,
+    });
+  }
+}
+
+/**
+ * Send `event` for a job to every enabled webhook subscribed to it. Deliveries
+ * run in the background; errors are logged, never thrown to the caller.
+ */
+export function notifyJobWebhooks(event: WebhookEvent, jobId: string): void {
+  const delivery = (async () => {
+    try {
+      const db = await getDatabase();
+      const webhooks = (await db.getAllWebhooks()).filter(
+        w => w.enabled && w.events.includes(event)
+      );
+      if (webhooks.length === 0) return;
+
+      const job = await db.getJob(jobId);
+      if (!job) return;
+
+      await Promise.all(
+        webhooks.map(webhook =>
+          deliverToWebhook(webhook, event, job).catch(error => {
+            console.error(`Webhook ${webhook.id} delivery failed:`, error);
+          })
+        )
+      );
+    } catch (error) {
+      console.error(`Failed to notify webhooks for ${event} on job ${jobId}:`, error);
+    }
+  })();
+
+  pendingDeliveries.add(delivery);
+  void delivery.finally(() => pendingDeliveries.delete(delivery));
+}
+
+/**
+ * Wait up to `timeoutMs` for background deliveries, including their retries.
+ * Returns how many were still in flight when the wait ended.
+ */
+export async function waitForWebhookDeliveries(timeoutMs: number): Promise<number> {
+  if (pendingDeliveries.size > 0) {
+    await Promise.race([
+      Promise.allSettled(pendingDeliveries),
+      new Promise(resolve => setTimeout(resolve, timeoutMs)),
+    ]);
+  }
+  return pendingDeliveries.size;
+}
@@ -329,3 +329,54 @@ export function splitAudioBySilenceNode(
 
   return { segments, count: segments.length };
 }
+
+export interface PcmSegment {
+  pcmBase64: string;
+  pauseAfterMs: number; // silence inserted before the next segment
+}
+
+/**
+ * Trim leading and trailing silence from base64-encoded PCM audio. `padMs` of
+ * the silence is kept at each end so word onsets and tails aren't clipped.
+ * Audio that is silent throughout comes back empty.
+ */
+export function trimSilenceNode(
+  pcmBase64: string,
+  sampleRate: number = 24000,
+  options: { silenceRms?: number; windowMs?: number; padMs?: number } = {}
+): string {
+  const { silenceRms = 150, windowMs = 20, padMs = 120 } = options;
+  const pcmBuffer = pcmBase64ToBuffer(pcmBase64);
+  const samples = getInt16View(pcmBuffer);
+  const windowSamples = Math.max(1, Math.floor((sampleRate * windowMs) / 1000));
+
+  let first = -1;
+  let last = -1;
+  for (let i = 0; i < samples.length; i += windowSamples) {
+    if (windowRms(samples, i, windowSamples) >= silenceRms) {
+      if (first === -1) first = i;
+      last = Math.min(i + windowSamples, samples.length);
+    }
+  }
+  if (first === -1) return bufferToPcmBase64(Buffer.alloc(0));
+
+  const padSamples = Math.floor((sampleRate * padMs) / 1000);
+  const start = Math.max(0, first - padSamples);
+  const end = Math.min(samples.length, last + padSamples);
+  return bufferToPcmBase64(pcmBuffer.subarray(start * 2, end * 2));
+}
+
+/**
+ * Join base64-encoded PCM segments with a fixed pause after each one but the
+ * last, the inverse of `splitAudioBySilenceNode`.
+ */
+export function stitchPcmNode(segments: PcmSegment[], sampleRate: number = 24000): string {
+  const buffers = segments.flatMap((segment, idx) => {
+    const audio = pcmBase64ToBuffer(segment.pcmBase64);
+    if (idx === segments.length - 1) return [audio];
+
+    const pauseSamples = Math.max(0, Math.floor((sampleRate * segment.pauseAfterMs) / 1000));
+    return [audio, Buffer.alloc(pauseSamples * 2)];
+  });
+  return bufferToPcmBase64(Buffer.concat(buffers));
+}
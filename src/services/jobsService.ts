@@ -1,12 +1,29 @@
-import { ProcessingJob as DBProcessingJob } from '@/lib/db/adapter';
+import { ProcessingJob as DBProcessingJob, JobItem as DBJobItem } from '@/lib/db/adapter';
+import { SERVER_MAX_SUMMARY_CANDIDATES } from '@/lib/server/config';
+import type { JobEstimate } from '@/lib/server/jobEstimate';
+import type { JobMetrics } from '@/lib/server/jobMetrics';
+import type { AllowedWindow } from '@/utils/scheduleUtils';
 
 const API_BASE = '/api/jobs';
 
 export type ProcessingStage = 'summary' | 'audio';
-export type JobStatus = 'queued' | 'running' | 'paused' | 'completed' | 'failed' | 'canceled';
+export type JobStatus = DBProcessingJob['status'];
+export type FailurePolicy = DBProcessingJob['failurePolicy'];
+export type RegeneratePolicy = DBProcessingJob['regenerate'];
+export type SummaryProviderId = NonNullable<DBProcessingJob['summaryProvider']>;
+export type TtsProviderId = DBProcessingJob['ttsProvider'];
 
-// Re-export the type from the DB adapter to ensure consistency
+// Re-export the types from the DB adapter to ensure consistency
 export type ProcessingJob = DBProcessingJob;
+export type JobItem = DBJobItem;
+export type JobItemStatus = DBJobItem['status'];
+export type { AllowedWindow, JobEstimate, JobMetrics };
+
+/** Most summary drafts a job may generate per Pokémon. */
+export const MAX_SUMMARY_CANDIDATES = SERVER_MAX_SUMMARY_CANDIDATES;
+
+/** A job with its rolling throughput and ETA (null once finished). */
+export type JobDetails = ProcessingJob & { metrics: JobMetrics | null };
 
 interface ApiResponse<T> {
   success: boolean;
@@ -32,7 +49,17 @@ export async function createJob(params: {
   generationId: number;
   region: string;
   voice: string;
+  ttsProvider?: TtsProviderId;
   pokemonIds: number[];
+  failurePolicy?: FailurePolicy;
+  maxErrors?: number;
+  regenerate?: RegeneratePolicy;
+  summaryProvider?: SummaryProviderId;
+  summaryModel?: string;
+  summaryCandidates?: number;
+  notBefore?: string;
+  allowedWindow?: AllowedWindow;
+  priority?: number;
 }): Promise<string> {
   const response = await fetch(API_BASE, {
     method: 'POST',
@@ -45,11 +72,129 @@ export async function createJob(params: {
 }
 
 /**
- * Fetch the current state of a job by ID.
+ * Estimate API calls, duration, token usage and quota fit for a job without creating it.
  */
-export async function getJob(id: string): Promise<ProcessingJob> {
+export async function estimateJob(params: {
+  mode: ProcessingJob['mode'];
+  voice: string;
+  ttsProvider?: TtsProviderId;
+  pokemonIds: number[];
+  regenerate?: RegeneratePolicy;
+  summaryCandidates?: number;
+}): Promise<JobEstimate> {
+  const response = await fetch(`${API_BASE}/estimate`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(params),
+  });
+  return handleResponse<JobEstimate>(response);
+}
+
+/** Filters for the job history listing. Dates are ISO strings. */
+export interface JobListFilters {
+  statuses?: JobStatus[];
+  mode?: ProcessingJob['mode'];
+  generationId?: number;
+  voice?: string;
+  from?: string;
+  to?: string;
+  page?: number;
+  pageSize?: number;
+}
+
+/** One page of job history. */
+export interface JobListPage {
+  jobs: ProcessingJob[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+/**
+ * List past and active jobs, newest first.
+ */
+export async function listJobs(filters: JobListFilters = {}): Promise<JobListPage> {
+  const params = new URLSearchParams();
+  if (filters.statuses && filters.statuses.length > 0) {
+    params.set('status', filters.statuses.join(','));
+  }
+  if (filters.mode) params.set('mode', filters.mode);
+  if (filters.generationId) params.set('generationId', String(filters.generationId));
+  if (filters.voice) params.set('voice', filters.voice);
+  if (filters.from) params.set('from', filters.from);
+  if (filters.to) params.set('to', filters.to);
+  if (filters.page) params.set('page', String(filters.page));
+  if (filters.pageSize) params.set('pageSize', String(filters.pageSize));
+
+  const query = params.toString();
+  const response = await fetch(query ? `${API_BASE}?${query}` : API_BASE);
+  return handleResponse<JobListPage>(response);
+}
+
+/**
+ * Fetch the current state of a job by ID, with its throughput and ETA.
+ */
+export async function getJob(id: string): Promise<JobDetails> {
   const response = await fetch(`${API_BASE}/${id}`);
-  return handleResponse<ProcessingJob>(response);
+  return handleResponse<JobDetails>(response);
+}
+
+/**
+ * Fetch the per-Pokémon outcome ledger for a job.
+ */
+export async function getJobItems(id: string): Promise<JobItem[]> {
+  const response = await fetch(`${API_BASE}/${id}/items`);
+  return handleResponse<JobItem[]>(response);
+}
+
+/**
+ * Create a new job containing only the Pokémon that did not finish in a
+ * failed, canceled or partially completed job. Returns the new job ID.
+ */
+export async function retryFailedJob(id: string): Promise<string> {
+  const response = await fetch(`${API_BASE}/${id}/retry-failed`, { method: 'POST' });
+  const data = await handleResponse<{ id: string }>(response);
+  return data.id;
+}
+
+/**
+ * Create a new job with the same mode, voice and Pokémon as an existing job.
+ * Returns the new job ID.
+ */
+export async function cloneJob(id: string): Promise<string> {
+  const response = await fetch(`${API_BASE}/${id}/clone`, { method: 'POST' });
+  const data = await handleResponse<{ id: string }>(response);
+  return data.id;
+}
+
+/**
+ * Get queued jobs in the order the runner will claim them.
+ */
+export async function getQueue(): Promise<ProcessingJob[]> {
+  const response = await fetch(`${API_BASE}/queue`);
+  const data = await handleResponse<{ jobs: ProcessingJob[] }>(response);
+  return data.jobs;
+}
+
+/**
+ * Reorder the queue. Listed jobs run first, in the given order.
+ */
+export async function reorderQueue(jobIds: string[]): Promise<ProcessingJob[]> {
+  const response = await fetch(`${API_BASE}/queue`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ jobIds }),
+  });
+  const data = await handleResponse<{ jobs: ProcessingJob[] }>(response);
+  return data.jobs;
+}
+
+/**
+ * Move a queued job to the front of the queue.
+ */
+export async function bumpJob(id: string): Promise<void> {
+  const response = await fetch(`${API_BASE}/${id}/bump`, { method: 'POST' });
+  await handleResponse(response);
 }
 
 /**
@@ -76,14 +221,11 @@ export async function cancelJob(id: string): Promise<void> {
   await handleResponse(response);
 }
 
-export async function recoverStalledJobs(params?: {
-  stalledThresholdMs?: number;
-}): Promise<{ recoveredCount: number }> {
-  const response = await fetch(`${API_BASE}/maintenance/recover`, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify(params || {}),
-  });
+/**
+ * Re-queue running jobs whose worker lease has expired.
+ */
+export async function recoverStalledJobs(): Promise<{ recoveredCount: number }> {
+  const response = await fetch(`${API_BASE}/maintenance/recover`, { method: 'POST' });
   return handleResponse<{ recoveredCount: number }>(response);
 }
 
@@ -0,0 +1,27 @@
+import type {
+  OpeningGroup as ServerOpeningGroup,
+  OpeningReport as ServerOpeningReport,
+} from '@/lib/server/openingDiversity';
+
+const API_BASE = '/api/summaries/openings';
+
+export type OpeningReport = ServerOpeningReport;
+export type OpeningGroup = ServerOpeningGroup;
+
+/**
+ * Get the summary openings that repeat across the library.
+ */
+export async function getOpeningReport(): Promise<OpeningReport> {
+  const response = await fetch(API_BASE);
+  const result = (await response.json()) as {
+    success: boolean;
+    data?: OpeningReport;
+    error?: string;
+  };
+
+  if (!result.success || !result.data) {
+    throw new Error(result.error || 'Failed to fetch opening report');
+  }
+
+  return result.data;
+}
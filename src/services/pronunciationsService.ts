@@ -0,0 +1,86 @@
+import type {
+  Pronunciation as DBPronunciation,
+  PronunciationKind as DBPronunciationKind,
+} from '@/lib/db/adapter';
+import type { SeedResult as ServerSeedResult } from '@/lib/server/pronunciations';
+
+const API_BASE = '/api/pronunciations';
+
+export type Pronunciation = DBPronunciation;
+export type PronunciationKind = DBPronunciationKind;
+export type SeedResult = ServerSeedResult;
+
+export const PRONUNCIATION_KIND_LABELS: Record<PronunciationKind, string> = {
+  pokemon: 'Pokémon',
+  move: 'Move',
+  region: 'Region',
+  other: 'Other',
+};
+
+interface ApiResponse<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+async function handleResponse<T>(response: Response): Promise<T> {
+  const result = (await response.json()) as ApiResponse<T>;
+
+  if (!result.success || !result.data) {
+    throw new Error(result.error || 'Pronunciation request failed');
+  }
+
+  return result.data;
+}
+
+/**
+ * List the pronunciation lexicon, sorted by name.
+ */
+export async function getPronunciations(): Promise<Pronunciation[]> {
+  return handleResponse<Pronunciation[]>(await fetch(API_BASE));
+}
+
+/**
+ * Add a name, replacing any entry with the same name.
+ */
+export async function savePronunciation(params: {
+  term: string;
+  phonetic: string;
+  kind: PronunciationKind;
+}): Promise<Pronunciation> {
+  const response = await fetch(API_BASE, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(params),
+  });
+  return handleResponse<Pronunciation>(response);
+}
+
+/**
+ * Update an entry's kind or phonetic spelling.
+ */
+export async function updatePronunciation(
+  id: number,
+  params: Partial<Pick<Pronunciation, 'kind' | 'phonetic'>>
+): Promise<Pronunciation> {
+  const response = await fetch(`${API_BASE}/${id}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(params),
+  });
+  return handleResponse<Pronunciation>(response);
+}
+
+/**
+ * Remove a name from the lexicon.
+ */
+export async function deletePronunciation(id: number): Promise<void> {
+  await handleResponse(await fetch(`${API_BASE}/${id}`, { method: 'DELETE' }));
+}
+
+/**
+ * Add the phonetic hints found in stored summaries. Existing entries are kept.
+ */
+export async function seedPronunciations(): Promise<SeedResult> {
+  return handleResponse<SeedResult>(await fetch(`${API_BASE}/seed`, { method: 'POST' }));
+}
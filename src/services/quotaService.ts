@@ -0,0 +1,24 @@
+import type { QuotaStatus as ServerQuotaStatus } from '@/lib/server/quota';
+
+const API_BASE = '/api/quota';
+
+export type QuotaStatus = ServerQuotaStatus;
+export type ModelQuota = ServerQuotaStatus['models'][number];
+
+/**
+ * Get today's API usage and remaining daily budget per model.
+ */
+export async function getQuotaStatus(): Promise<QuotaStatus> {
+  const response = await fetch(API_BASE);
+  const result = (await response.json()) as {
+    success: boolean;
+    data?: QuotaStatus;
+    error?: string;
+  };
+
+  if (!result.success || !result.data) {
+    throw new Error(result.error || 'Failed to fetch quota status');
+  }
+
+  return result.data;
+}
@@ -0,0 +1,58 @@
+/**
+ * Settings Service for Pokemon Field Log Generator
+ * Runtime-editable server settings. The schema, defaults and validation live
+ * on the server; the settings API returns the schema with the values.
+ */
+
+import type {
+  RuntimeSettings,
+  SettingDefinition,
+  SettingKey,
+  SettingsState,
+} from '@/lib/server/settings';
+
+const API_BASE = '/api/settings';
+
+export type { RuntimeSettings, SettingDefinition, SettingKey, SettingsState };
+
+async function handleResponse(response: Response): Promise<SettingsState> {
+  const result = (await response.json()) as {
+    success: boolean;
+    data?: SettingsState;
+    error?: string;
+  };
+
+  if (!result.success || !result.data) {
+    throw new Error(result.error || 'Settings request failed');
+  }
+
+  return result.data;
+}
+
+/**
+ * Get the effective settings.
+ */
+export const getSettings = async (): Promise<SettingsState> => {
+  return handleResponse(await fetch(API_BASE));
+};
+
+/**
+ * Save setting overrides. Only the given keys are changed.
+ */
+export const updateSettings = async (values: Partial<RuntimeSettings>): Promise<SettingsState> => {
+  return handleResponse(
+    await fetch(API_BASE, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(values),
+    })
+  );
+};
+
+/**
+ * Reset one setting, or all settings when no key is given, to its default.
+ */
+export const resetSettings = async (key?: SettingKey): Promise<SettingsState> => {
+  const url = key ? `${API_BASE}?key=${key}` : API_BASE;
+  return handleResponse(await fetch(url, { method: 'DELETE' }));
+};
@@ -3,6 +3,10 @@
  * Makes API calls to the backend instead of using IndexedDB
  */
 
+import type { SummaryCandidate, SummaryValidationReport } from '@/lib/db/adapter';
+
+export type { SummaryCandidate, SummaryValidationReport };
+
 const API_BASE = '/api';
 
 interface ApiResponse<T> {
@@ -30,6 +34,12 @@ export interface StoredSummary {
   summary: string;
   region: string;
   generationId: number;
+  /** LLM provider that generated the summary; null if saved by hand. */
+  provider: 'gemini' | 'openai-compatible' | null;
+  /** Model that generated the summary; null if saved by hand. */
+  model: string | null;
+  /** Prompt rule checks from generation; null if saved by hand. */
+  validation: SummaryValidationReport | null;
   /** ISO timestamp string. */
   createdAt: string;
   /** ISO timestamp string. */
@@ -142,6 +152,27 @@ export const deleteSummary = async (id: number): Promise<void> => {
   await handleResponse(response);
 };
 
+/**
+ * Get the ranked drafts from the latest multi-candidate job for a Pokémon.
+ */
+export const getSummaryCandidates = async (id: number): Promise<SummaryCandidate[]> => {
+  const response = await fetch(`${API_BASE}/summaries/${id}/candidates`);
+  return handleResponse<SummaryCandidate[]>(response);
+};
+
+/**
+ * Make a candidate the Pokémon's active summary.
+ */
+export const promoteSummaryCandidate = async (
+  id: number,
+  candidateId: string
+): Promise<StoredSummary> => {
+  const response = await fetch(`${API_BASE}/summaries/${id}/candidates/${candidateId}/promote`, {
+    method: 'POST',
+  });
+  return handleResponse<StoredSummary>(response);
+};
+
 /**
  * Export all summaries as JSON.
  */
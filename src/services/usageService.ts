@@ -0,0 +1,27 @@
+import type {
+  UsageBreakdown as ServerUsageBreakdown,
+  UsageReport as ServerUsageReport,
+} from '@/lib/server/apiUsage';
+
+const API_BASE = '/api/usage';
+
+export type UsageReport = ServerUsageReport;
+export type UsageBreakdown = ServerUsageBreakdown;
+
+/**
+ * Get API calls, token usage and estimated cost over the last `days` days.
+ */
+export async function getUsageReport(days: number): Promise<UsageReport> {
+  const response = await fetch(`${API_BASE}?days=${days}`);
+  const result = (await response.json()) as {
+    success: boolean;
+    data?: UsageReport;
+    error?: string;
+  };
+
+  if (!result.success || !result.data) {
+    throw new Error(result.error || 'Failed to fetch usage report');
+  }
+
+  return result.data;
+}
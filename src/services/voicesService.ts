@@ -0,0 +1,29 @@
+import type {
+  TtsProviderCatalog as ServerTtsProviderCatalog,
+  VoiceCatalog as ServerVoiceCatalog,
+  VoiceOption as ServerVoiceOption,
+} from '@/lib/server/ttsProviders';
+
+const API_BASE = '/api/voices';
+
+export type VoiceCatalog = ServerVoiceCatalog;
+export type TtsProviderCatalog = ServerTtsProviderCatalog;
+export type VoiceOption = ServerVoiceOption;
+
+/**
+ * Get the voices each TTS provider offers and the default provider for new jobs.
+ */
+export async function getVoiceCatalog(): Promise<VoiceCatalog> {
+  const response = await fetch(API_BASE);
+  const result = (await response.json()) as {
+    success: boolean;
+    data?: VoiceCatalog;
+    error?: string;
+  };
+
+  if (!result.success || !result.data) {
+    throw new Error(result.error || 'Failed to fetch voice catalog');
+  }
+
+  return result.data;
+}
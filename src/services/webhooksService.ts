@@ -0,0 +1,88 @@
+import type {
+  Webhook as DBWebhook,
+  WebhookDelivery as DBWebhookDelivery,
+  WebhookEvent as DBWebhookEvent,
+} from '@/lib/db/adapter';
+
+const API_BASE = '/api/webhooks';
+
+export type Webhook = DBWebhook;
+export type WebhookDelivery = DBWebhookDelivery;
+export type WebhookEvent = DBWebhookEvent;
+
+export const WEBHOOK_EVENT_LABELS: Record<WebhookEvent, string> = {
+  'job.created': 'Job created',
+  'job.completed': 'Job completed',
+  'job.failed': 'Job failed',
+  'job.canceled': 'Job canceled',
+  'job.quota_paused': 'Paused for quota',
+};
+
+interface ApiResponse<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+async function handleResponse<T>(response: Response): Promise<T> {
+  const result = (await response.json()) as ApiResponse<T>;
+
+  if (!result.success || !result.data) {
+    throw new Error(result.error || 'Webhook request failed');
+  }
+
+  return result.data;
+}
+
+/**
+ * List registered webhooks.
+ */
+export async function getWebhooks(): Promise<Webhook[]> {
+  return handleResponse<Webhook[]>(await fetch(API_BASE));
+}
+
+/**
+ * Register a webhook. A signing secret is generated when none is given; this
+ * is the only response that includes it in full.
+ */
+export async function createWebhook(params: {
+  url: string;
+  events: WebhookEvent[];
+  secret?: string;
+}): Promise<Webhook> {
+  const response = await fetch(API_BASE, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(params),
+  });
+  return handleResponse<Webhook>(response);
+}
+
+/**
+ * Update a webhook's URL, secret, events or enabled flag.
+ */
+export async function updateWebhook(
+  id: string,
+  params: Partial<Pick<Webhook, 'url' | 'secret' | 'events' | 'enabled'>>
+): Promise<Webhook> {
+  const response = await fetch(`${API_BASE}/${id}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(params),
+  });
+  return handleResponse<Webhook>(response);
+}
+
+/**
+ * Remove a webhook and its delivery log.
+ */
+export async function deleteWebhook(id: string): Promise<void> {
+  await handleResponse(await fetch(`${API_BASE}/${id}`, { method: 'DELETE' }));
+}
+
+/**
+ * Most recent webhook deliveries, newest first.
+ */
+export async function getWebhookDeliveries(limit = 20): Promise<WebhookDelivery[]> {
+  return handleResponse<WebhookDelivery[]>(await fetch(`${API_BASE}/deliveries?limit=${limit}`));
+}
@@ -0,0 +1,131 @@
+/**
+ * Tests for the scheduling helpers shared by the generator and the job runner.
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+  formatAllowedWindow,
+  getNextWindowStart,
+  isScheduleOpen,
+  isValidAllowedWindow,
+  isWithinAllowedWindow,
+  parseTimeOfDay,
+} from '../scheduleUtils';
+
+// Tokyo has no daylight saving time, so UTC+9 all year
+const TOKYO = 'Asia/Tokyo';
+
+describe('parseTimeOfDay', () => {
+  it('reads HH:MM as minutes past midnight', () => {
+    expect(parseTimeOfDay('00:00')).toBe(0);
+    expect(parseTimeOfDay('06:30')).toBe(390);
+    expect(parseTimeOfDay('23:59')).toBe(1439);
+  });
+
+  it('rejects anything else', () => {
+    expect(parseTimeOfDay('24:00')).toBeNull();
+    expect(parseTimeOfDay('6:30')).toBeNull();
+    expect(parseTimeOfDay('06:60')).toBeNull();
+  });
+});
+
+describe('isValidAllowedWindow', () => {
+  it('accepts distinct times with or without a time zone', () => {
+    expect(isValidAllowedWindow({ start: '22:00', end: '06:00' })).toBe(true);
+    expect(isValidAllowedWindow({ start: '01:00', end: '06:00', timeZone: TOKYO })).toBe(true);
+  });
+
+  it('rejects equal times, bad times and unknown zones', () => {
+    expect(isValidAllowedWindow({ start: '06:00', end: '06:00' })).toBe(false);
+    expect(isValidAllowedWindow({ start: '1am', end: '06:00' })).toBe(false);
+    expect(isValidAllowedWindow({ start: '01:00', end: '06:00', timeZone: 'Mars/Olympus' })).toBe(
+      false
+    );
+    expect(isValidAllowedWindow(null)).toBe(false);
+  });
+});
+
+describe('isWithinAllowedWindow', () => {
+  const night = { start: '01:00', end: '06:00', timeZone: TOKYO };
+
+  it('includes the start and excludes the end', () => {
+    expect(isWithinAllowedWindow(night, new Date('2026-01-15T16:00:00Z'))).toBe(true); // 01:00
+    expect(isWithinAllowedWindow(night, new Date('2026-01-15T20:59:00Z'))).toBe(true); // 05:59
+    expect(isWithinAllowedWindow(night, new Date('2026-01-15T21:00:00Z'))).toBe(false); // 06:00
+    expect(isWithinAllowedWindow(night, new Date('2026-01-15T15:59:00Z'))).toBe(false); // 00:59
+  });
+
+  it('reads the times in the window time zone, not the server one', () => {
+    // 02:30 in Tokyo is 17:30 UTC the previous day
+    const date = new Date('2026-01-15T17:30:00Z');
+    expect(isWithinAllowedWindow(night, date)).toBe(true);
+    expect(isWithinAllowedWindow({ ...night, timeZone: 'UTC' }, date)).toBe(false);
+  });
+
+  it('handles windows that wrap past midnight', () => {
+    const overnight = { start: '22:00', end: '06:00', timeZone: 'UTC' };
+    expect(isWithinAllowedWindow(overnight, new Date('2026-01-15T23:30:00Z'))).toBe(true);
+    expect(isWithinAllowedWindow(overnight, new Date('2026-01-16T00:00:00Z'))).toBe(true);
+    expect(isWithinAllowedWindow(overnight, new Date('2026-01-16T05:59:00Z'))).toBe(true);
+    expect(isWithinAllowedWindow(overnight, new Date('2026-01-16T06:00:00Z'))).toBe(false);
+    expect(isWithinAllowedWindow(overnight, new Date('2026-01-16T12:00:00Z'))).toBe(false);
+    expect(isWithinAllowedWindow(overnight, new Date('2026-01-16T22:00:00Z'))).toBe(true);
+  });
+});
+
+describe('getNextWindowStart', () => {
+  it('returns the next start later the same day in the window time zone', () => {
+    // 16:00 in Tokyo; the window opens at 01:00 Tokyo, 16:00 UTC
+    const next = getNextWindowStart(
+      { start: '01:00', end: '06:00', timeZone: TOKYO },
+      new Date('2026-01-15T07:00:00Z')
+    );
+    expect(next.toISOString()).toBe('2026-01-15T16:00:00.000Z');
+  });
+
+  it('rolls over to the next day once the start has passed', () => {
+    const next = getNextWindowStart(
+      { start: '01:00', end: '06:00', timeZone: 'UTC' },
+      new Date('2026-01-15T06:00:30Z')
+    );
+    expect(next.toISOString()).toBe('2026-01-16T01:00:00.000Z');
+  });
+
+  it('returns the given time while the window is open', () => {
+    const date = new Date('2026-01-15T23:30:00Z');
+    expect(getNextWindowStart({ start: '22:00', end: '06:00', timeZone: 'UTC' }, date)).toBe(date);
+  });
+});
+
+describe('isScheduleOpen', () => {
+  const now = new Date('2026-01-15T23:30:00Z');
+
+  it('waits for notBefore', () => {
+    expect(isScheduleOpen({ notBefore: '2026-01-16T00:00:00Z', allowedWindow: null }, now)).toBe(
+      false
+    );
+    expect(isScheduleOpen({ notBefore: '2026-01-15T23:00:00Z', allowedWindow: null }, now)).toBe(
+      true
+    );
+  });
+
+  it('requires both notBefore and the window to allow the run', () => {
+    const overnight = { start: '22:00', end: '06:00', timeZone: 'UTC' };
+    expect(isScheduleOpen({ notBefore: null, allowedWindow: overnight }, now)).toBe(true);
+    expect(
+      isScheduleOpen({ notBefore: '2026-01-16T00:00:00Z', allowedWindow: overnight }, now)
+    ).toBe(false);
+    expect(
+      isScheduleOpen({ notBefore: null, allowedWindow: { ...overnight, timeZone: TOKYO } }, now)
+    ).toBe(false);
+  });
+});
+
+describe('formatAllowedWindow', () => {
+  it('names the time zone when there is one', () => {
+    expect(formatAllowedWindow({ start: '01:00', end: '06:00', timeZone: TOKYO })).toBe(
+      '01:00–06:00 (Asia/Tokyo)'
+    );
+    expect(formatAllowedWindow({ start: '01:00', end: '06:00' })).toBe('01:00–06:00');
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Utility functions for job scheduling: start times and recurring allowed windows.
+ *
+ * Windows are "HH:MM" times of day in the IANA time zone stored with them,
+ * which is the browser's zone when the job was created, so the server runs them
+ * at the hours the user picked whatever its own zone. Windows saved without a
+ * zone are read in the local zone of whoever evaluates them. A window whose end
+ * is before its start wraps past midnight, e.g. 22:00–06:00.
+ */
+
+export interface AllowedWindow {
+  start: string; // "HH:MM"
+  end: string; // "HH:MM"
+  timeZone?: string; // IANA zone, e.g. "Europe/Berlin"
+}
+
+const TIME_OF_DAY_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+/**
+ * Parses "HH:MM" into minutes after midnight, or null if malformed.
+ */
+export const parseTimeOfDay = (value: string): number | null => {
+  const match = TIME_OF_DAY_PATTERN.exec(value);
+  if (!match) return null;
+  return Number(match[1]) * 60 + Number(match[2]);
+};
+
+/**
+ * The IANA time zone of this runtime, e.g. the browser's when creating a job.
+ */
+export const getLocalTimeZone = (): string => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+export const isValidTimeZone = (value: unknown): value is string => {
+  if (typeof value !== 'string' || !value) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const isValidAllowedWindow = (value: unknown): value is AllowedWindow => {
+  if (!value || typeof value !== 'object') return false;
+  const { start, end, timeZone } = value as Record<string, unknown>;
+  if (typeof start !== 'string' || typeof end !== 'string') return false;
+  if (timeZone !== undefined && !isValidTimeZone(timeZone)) return false;
+  const startMinutes = parseTimeOfDay(start);
+  const endMinutes = parseTimeOfDay(end);
+  return startMinutes !== null && endMinutes !== null && startMinutes !== endMinutes;
+};
+
+const minutesOfDay = (date: Date, timeZone?: string): number => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hour: 'numeric',
+    minute: 'numeric',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find(p => p.type === type)?.value ?? 0);
+  return part('hour') * 60 + part('minute');
+};
+
+export const isWithinAllowedWindow = (window: AllowedWindow, date: Date = new Date()): boolean => {
+  const start = parseTimeOfDay(window.start);
+  const end = parseTimeOfDay(window.end);
+  if (start === null || end === null) return true;
+
+  const now = minutesOfDay(date, window.timeZone);
+  return start < end ? now >= start && now < end : now >= start || now < end;
+};
+
+/**
+ * Next time the window opens. Returns `date` itself when already inside the window.
+ */
+export const getNextWindowStart = (window: AllowedWindow, date: Date = new Date()): Date => {
+  if (isWithinAllowedWindow(window, date)) return date;
+
+  const start = parseTimeOfDay(window.start) ?? 0;
+  const minutesUntil = (start - minutesOfDay(date, window.timeZone) + 1440) % 1440 || 1440;
+  const next = new Date(date.getTime() + minutesUntil * 60000);
+  next.setSeconds(0, 0);
+  return next;
+};
+
+/**
+ * Whether a job's schedule lets it run at `date`.
+ */
+export const isScheduleOpen = (
+  schedule: { notBefore: string | null; allowedWindow: AllowedWindow | null },
+  date: Date = new Date()
+): boolean => {
+  if (schedule.notBefore && Date.parse(schedule.notBefore) > date.getTime()) return false;
+  if (schedule.allowedWindow && !isWithinAllowedWindow(schedule.allowedWindow, date)) return false;
+  return true;
+};
+
+export const formatAllowedWindow = (window: AllowedWindow): string =>
+  window.timeZone
+    ? `${window.start}–${window.end} (${window.timeZone})`
+    : `${window.start}–${window.end}`;
+
+/**
+ * Formats a duration as "3h 05m", "12m" or "<1m".
+ */
+export const formatDuration = (ms: number): string => {
+  const totalMinutes = Math.round(ms / 60000);
+  if (totalMinutes < 1) return '<1m';
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  if (hours === 0) return `${minutes}m`;
+  return `${hours}h ${String(minutes).padStart(2, '0')}m`;
+};
@@ -0,0 +1,66 @@
+/**
+ * Standalone job worker.
+ *
+ * Runs the job runner outside the Next.js request lifecycle, so queued jobs are
+ * processed as soon as the worker boots instead of after the next API request.
+ * Several workers and app replicas can share one database; jobs are claimed
+ * under leases (see `lib/server/jobRunner.ts`).
+ *
+ * On SIGTERM/SIGINT the worker stops claiming jobs and pauses the ones in
+ * flight, marking them to resume immediately on the next available worker, then
+ * waits for webhook deliveries still retrying.
+ *
+ * Usage: pnpm worker
+ */
+
+const SHUTDOWN_TIMEOUT_MS = 25000;
+
+/**
+ * Load `.env.local` and `.env` the way Next.js does. Variables already set in the
+ * environment (e.g. by Docker) take precedence.
+ */
+function loadEnvFiles(): void {
+  for (const file of ['.env.local', '.env']) {
+    try {
+      process.loadEnvFile(file);
+    } catch {
+      // Missing env files are fine
+    }
+  }
+}
+
+async function main(): Promise<void> {
+  loadEnvFiles();
+
+  // Imported after the env files so module-level config sees their values
+  const { getDatabase } = await import('@/lib/db/adapter');
+  const { getWorkerId, startJobRunner, stopJobRunner } = await import('@/lib/server/jobRunner');
+
+  await getDatabase();
+  startJobRunner({ standalone: true });
+  console.log(`Job worker ${getWorkerId()} started.`);
+
+  let stopping = false;
+  const shutdown = async (signal: NodeJS.Signals) => {
+    if (stopping) return;
+    stopping = true;
+
+    console.log(`Received ${signal}. Pausing in-flight jobs...`);
+    try {
+      const pausedCount = await stopJobRunner(SHUTDOWN_TIMEOUT_MS);
+      console.log(`Paused ${pausedCount} job(s). Exiting.`);
+      process.exit(0);
+    } catch (error) {
+      console.error('Failed to stop job worker cleanly:', error);
+      process.exit(1);
+    }
+  };
+
+  process.on('SIGTERM', signal => void shutdown(signal));
+  process.on('SIGINT', signal => void shutdown(signal));
+}
+
+main().catch(error => {
+  console.error('Job worker failed to start:', error);
+  process.exit(1);
+});